@@ -0,0 +1,25 @@
+module.exports = {
+  root: true,
+  env: { browser: true, es2020: true },
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended',
+    'plugin:react-hooks/recommended',
+  ],
+  ignorePatterns: ['dist', '.eslintrc.cjs'],
+  parser: '@typescript-eslint/parser',
+  plugins: ['react-refresh'],
+  rules: {
+    'react-refresh/only-export-components': ['warn', { allowConstantExport: true }],
+    // Unused fields are dropped by destructuring them into _-prefixed names
+    '@typescript-eslint/no-unused-vars': ['error', {
+      argsIgnorePattern: '^_', varsIgnorePattern: '^_', destructuredArrayIgnorePattern: '^_',
+    }],
+  },
+  overrides: [
+    {
+      files: ['server/**/*.ts', 'vite.config.ts'],
+      env: { browser: false, node: true },
+    },
+  ],
+};
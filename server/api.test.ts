@@ -0,0 +1,239 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ComplianceAlert } from '../src/types';
+import { AlertRepository } from '../src/services/alertRepository';
+import { DEFAULT_USERS } from '../src/services/users';
+import { createApi } from './api';
+import { bootstrapCredentials, createSessionStore, setPassword } from './auth';
+import { openSqliteAlertRepository } from './sqliteAlertRepository';
+
+const PASSWORD = 'correct horse battery';
+const INGEST_TOKEN = 'test-ingest-token';
+
+let directory: string;
+let repository: AlertRepository;
+let server: Server;
+let baseUrl: string;
+const tokens: Record<string, string> = {};
+
+const call = async (method: string, path: string, body?: unknown, token?: string) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : undefined };
+};
+
+// A symbol of its own, so ingestion doesn't fold the alerts into each other as repeats
+let sequence = 0;
+const detected = (overrides: Record<string, unknown> = {}) => ({
+  id: `API-${++sequence}`,
+  type: 'Spoofing',
+  severity: 'Medium',
+  status: 'New',
+  symbol: `SYM${sequence}`,
+  trader: { id: 'T1', name: 'Pat Trader', email: '', firm: 'Example Securities', registrationDate: '' },
+  timestamp: '2025-03-03T15:00:00.000Z',
+  description: 'Layered orders cancelled before execution',
+  detectedBy: 'Test feed',
+  investigationNotes: '',
+  timeline: [],
+  ...overrides,
+});
+
+const ingest = async (...alerts: Record<string, unknown>[]) => {
+  const response = await call('POST', '/api/alerts', alerts, INGEST_TOKEN);
+  expect(response.status).toBe(200);
+  return alerts.map(alert => alert.id as string);
+};
+
+const getAlert = async (id: string): Promise<ComplianceAlert> => (await call('GET', `/api/alerts/${id}`, undefined, tokens.analyst)).body;
+
+beforeAll(async () => {
+  directory = mkdtempSync(join(tmpdir(), 'alerts-api-'));
+  repository = await openSqliteAlertRepository(join(directory, 'alerts.sqlite'));
+  await bootstrapCredentials(repository, DEFAULT_USERS, PASSWORD);
+  await setPassword(repository, 'analyst', PASSWORD);
+  await setPassword(repository, 'officer', PASSWORD);
+
+  const api = createApi(repository, createSessionStore(), [INGEST_TOKEN]);
+  server = createServer((req, res) => api.handle(req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  for (const user of DEFAULT_USERS) {
+    tokens[user.id] = (await call('POST', '/api/auth/login', { userId: user.id, password: PASSWORD })).body.token;
+  }
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('authentication', () => {
+  it('refuses requests without a session', async () => {
+    expect((await call('GET', '/api/alerts')).status).toBe(401);
+    expect((await call('GET', '/api/alerts', undefined, 'made-up')).status).toBe(401);
+  });
+
+  it('refuses wrong passwords', async () => {
+    expect((await call('POST', '/api/auth/login', { userId: 'analyst', password: 'not the password' })).status).toBe(401);
+  });
+});
+
+describe('POST /api/alerts', () => {
+  it('starts ingested alerts as New with a server-recorded history', async () => {
+    const [id] = await ingest(detected({
+      status: 'Dismissed',
+      assignee: 'admin',
+      timeline: [{ id: 'x', timestamp: '2025-03-03T15:00:00.000Z', action: 'Dismiss', user: 'Feed', notes: 'quote stuffing' }],
+    }));
+    const alert = await getAlert(id);
+
+    expect(alert.status).toBe('New');
+    expect(alert.assignee).toBeUndefined();
+    expect(alert.timeline).toHaveLength(1);
+    expect(alert.timeline[0].action).toBe('Alert Created');
+    expect(alert.timeline[0].notes).toContain('reported by the sender (unverified): quote stuffing');
+  });
+
+  it('checks the type, symbol and trader like an import', async () => {
+    const response = await call('POST', '/api/alerts', [
+      detected({ type: 'Fraud', symbol: 42, trader: { id: 'T1', name: 'Pat Trader', desk: 'Rates' } }),
+    ], INGEST_TOKEN);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('unknown alert type "Fraud"');
+    expect(response.body.error).toContain('symbol must be a non-empty string');
+    expect(response.body.error).toContain('trader.desk is not a known field');
+
+    const missingTrader = await call('POST', '/api/alerts', [detected({ trader: { name: 'No Id' } })], INGEST_TOKEN);
+    expect(missingTrader.body.error).toContain('trader.id is required');
+  });
+
+  it('does not let an ingest token read alerts', async () => {
+    expect((await call('GET', '/api/alerts', undefined, INGEST_TOKEN)).status).toBe(401);
+  });
+});
+
+describe('POST /api/alerts/bulk', () => {
+  it('applies the action once per alert, however often an id is repeated', async () => {
+    const [id] = await ingest(detected());
+    const response = await call('POST', '/api/alerts/bulk', { alertIds: [id, id], action: 'transition', status: 'In Review' }, tokens.analyst);
+
+    expect(response.status).toBe(200);
+    expect(response.body.updated).toEqual([id]);
+    const alert = await getAlert(id);
+    expect(alert.status).toBe('In Review');
+    expect(alert.timeline.map(event => event.action)).toEqual(['Alert Created', 'Start Investigation']);
+  });
+
+  it('reports missing alerts and refused moves per alert and applies the rest', async () => {
+    const [fresh, reviewed] = await ingest(detected(), detected());
+    await call('POST', '/api/alerts/bulk', { alertIds: [reviewed], action: 'transition', status: 'In Review' }, tokens.analyst);
+
+    const response = await call('POST', '/api/alerts/bulk', {
+      alertIds: [fresh, reviewed, 'NO-SUCH-ALERT'], action: 'transition', status: 'Resolved', notes: 'Confirmed benign',
+    }, tokens.analyst);
+
+    expect(response.status).toBe(200);
+    expect(response.body.updated).toEqual([reviewed]);
+    expect(response.body.failures.map((failure: { alertId: string }) => failure.alertId)).toEqual(['NO-SUCH-ALERT', fresh]);
+    expect((await getAlert(fresh)).status).toBe('New');
+  });
+
+  it('adds a common note to each alert', async () => {
+    const ids = await ingest(detected(), detected());
+    const response = await call('POST', '/api/alerts/bulk', { alertIds: ids, action: 'note', notes: 'Same desk' }, tokens.analyst);
+
+    expect(response.body.updated).toEqual(ids);
+    for (const id of ids) {
+      expect((await getAlert(id)).timeline.at(-1)).toMatchObject({ action: 'Note Added', notes: 'Same desk', userId: 'analyst' });
+    }
+  });
+});
+
+describe('GET /api/alerts', () => {
+  it('filters with parameters and the query language, one page at a time', async () => {
+    const [first] = await ingest(detected({ severity: 'Critical', symbol: 'NVDA' }), detected({ severity: 'Critical' }));
+
+    const bySymbol = await call('GET', '/api/alerts?symbol=nvda', undefined, tokens.analyst);
+    expect(bySymbol.body.items.map((alert: ComplianceAlert) => alert.id)).toEqual([first]);
+
+    const paged = await call('GET', '/api/alerts?query=severity:critical&pageSize=1', undefined, tokens.analyst);
+    expect(paged.body).toMatchObject({ total: 2, page: 1, pageSize: 1 });
+    expect(paged.body.items).toHaveLength(1);
+  });
+
+  it('explains queries it cannot use', async () => {
+    const response = await call('GET', '/api/alerts?query=colour:red', undefined, tokens.analyst);
+    expect(response).toMatchObject({ status: 400, body: { error: 'Invalid query', details: ['Unknown field "colour"'] } });
+  });
+
+  it('answers 404 for unknown alerts', async () => {
+    expect((await call('GET', '/api/alerts/NO-SUCH-ALERT', undefined, tokens.analyst)).status).toBe(404);
+  });
+});
+
+describe('transitions and four-eyes approval', () => {
+  const dismiss = (id: string, token: string) => call('POST', `/api/alerts/${id}/transitions`, {
+    status: 'Dismissed', reasonCode: 'FALSE_POSITIVE', notes: 'Rule misfired',
+  }, token);
+
+  it('refuses moves the workflow does not allow', async () => {
+    const [id] = await ingest(detected());
+    const response = await call('POST', `/api/alerts/${id}/transitions`, { status: 'Resolved', notes: 'Done' }, tokens.analyst);
+    expect(response).toMatchObject({ status: 409, body: { details: { code: 'illegalTransition' } } });
+  });
+
+  it('holds a covered dismissal until a second user approves it', async () => {
+    const [id] = await ingest(detected({ severity: 'High' }));
+
+    const requested = await dismiss(id, tokens.analyst);
+    expect(requested.body).toMatchObject({ status: 'New', investigationNotes: '', pendingApproval: { to: 'Dismissed', requestedBy: 'analyst' } });
+    expect((await call('POST', `/api/alerts/${id}/approval`, { decision: 'approve' }, tokens.analyst)).status).toBe(403);
+
+    const approved = await call('POST', `/api/alerts/${id}/approval`, { decision: 'approve' }, tokens.officer);
+    expect(approved.body).toMatchObject({ status: 'Dismissed', investigationNotes: 'Rule misfired' });
+    expect(approved.body.pendingApproval).toBeUndefined();
+  });
+
+  it('leaves the alert as it was when the request is rejected', async () => {
+    const [id] = await ingest(detected({ severity: 'High' }));
+    await dismiss(id, tokens.analyst);
+
+    const rejected = await call('POST', `/api/alerts/${id}/approval`, { decision: 'reject', notes: 'Keep looking' }, tokens.officer);
+    expect(rejected.body).toMatchObject({ status: 'New', investigationNotes: '' });
+    expect(rejected.body.timeline.at(-1)).toMatchObject({ action: 'Dismiss Rejected', userId: 'officer' });
+  });
+});
+
+describe('permissions', () => {
+  it('only lets officers import alerts, and imports them as New', async () => {
+    const body = { alerts: [{ ...detected({ status: 'Dismissed', assignee: 'admin' }), timeline: undefined }] };
+    expect((await call('POST', '/api/alerts/import', body, tokens.analyst)).status).toBe(403);
+
+    const response = await call('POST', '/api/alerts/import', body, tokens.officer);
+    expect(response.body.created).toEqual([body.alerts[0].id]);
+    expect(await getAlert(body.alerts[0].id)).toMatchObject({ status: 'New' });
+    expect((await getAlert(body.alerts[0].id)).assignee).toBeUndefined();
+  });
+
+  it('only lets rule managers change rules', async () => {
+    const [rule] = (await call('GET', '/api/rules', undefined, tokens.analyst)).body;
+    expect((await call('PUT', `/api/rules/${rule.id}`, { ...rule, threshold: rule.threshold + 1 }, tokens.analyst)).status).toBe(403);
+
+    const updated = await call('PUT', `/api/rules/${rule.id}`, { ...rule, threshold: rule.threshold + 1 }, tokens.officer);
+    expect(updated.body).toMatchObject({ id: rule.id, threshold: rule.threshold + 1, version: rule.version + 1 });
+  });
+});
@@ -0,0 +1,879 @@
+import { AlertType, Case, ComplianceAlert, Severity, Status, User } from '../src/types';
+import { AlertRepository, AuditLogError } from '../src/services/alertRepository';
+import { addInvestigationNote, isStatus } from '../src/services/alertActions';
+import { appendTimelineEvent, createTimelineEventId, exportAuditChain } from '../src/services/auditChain';
+import {
+  approveTransition, availableTransitions, rejectTransition, transitionAlert, WorkflowError,
+} from '../src/services/workflow';
+import { DetectionRule, stampRuleVersions, validateRule } from '../src/services/detectionRules';
+import { hasPermission, Permission, validatePassword, validateUser } from '../src/services/users';
+import { assignAlert } from '../src/services/assignment';
+import { applyAlertQuery, parseAlertQuery } from '../src/services/alertQuery';
+import { applyBulkAction, BulkAction } from '../src/services/bulkActions';
+import { importRowsFromJson, ImportRow, parseAlertImport, validateTrader } from '../src/services/alertImport';
+import { addCaseNote, isCaseStatus, updateCaseStatus } from '../src/services/cases';
+import { getSlaStatus, SlaTargets, validateSlaTargets } from '../src/services/sla';
+import {
+  alertsToCsv, buildCaseReportHtml, exportFileName, DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS,
+} from '../src/services/exporters';
+import { buildRegulatoryDraft, isRegulatoryReportType, ReportingEntity } from '../src/services/regulatoryReports';
+import {
+  addSymbols, mergeWatchlistImport, normalizeSymbol, parseWatchlistFile, validateWatchlist, Watchlist,
+} from '../src/services/watchlist';
+import { createRouter, FileResponse, HttpError, RouteRequest } from './http';
+import {
+  bearerToken, createSessionStore, isIngestToken, loadCredentials, SessionStore, setPassword, verifyPassword,
+} from './auth';
+import { loadStoredRules, saveStoredRules } from './ruleStore';
+import { loadStoredWatchlist, saveStoredWatchlist } from './watchlistStore';
+import { importAlerts, ingestAlerts } from './ingest';
+import {
+  appendDeliveryLog, deliver, loadDeliveryLog, loadNotificationSettings, maskSecrets, notifyNewAlerts,
+  NotificationSettings, restoreSecrets, saveNotificationSettings, validateNotificationSettings,
+} from './notifications';
+import {
+  loadStoredFourEyesPolicy, loadStoredReportingEntity, loadStoredSlaTargets, loadStoredUsers,
+  saveStoredFourEyesPolicy, saveStoredReportingEntity, saveStoredSlaTargets, saveStoredUsers,
+} from './userStore';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const SEVERITIES: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+const ALERT_TYPES: AlertType[] = [
+  'Market Manipulation', 'Wash Trading', 'Spoofing', 'Insider Trading', 'Position Limit Breach',
+];
+const STATUSES_NEEDING_APPROVAL: Status[] = ['Dismissed', 'Resolved', 'Escalated'];
+
+export interface AlertPage {
+  items: ComplianceAlert[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" is required`);
+  }
+  return value;
+}
+
+function requireObject(body: unknown): Record<string, unknown> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function parsePositiveInt(value: string | null, fallback: number, field: string): number {
+  if (value === null) return fallback;
+  const parsed = parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new HttpError(400, `"${field}" must be a positive integer`);
+  }
+  return parsed;
+}
+
+function parseTime(value: string | null, field: string): number | null {
+  if (value === null) return null;
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new HttpError(400, `"${field}" must be an ISO timestamp`);
+  }
+  return time;
+}
+
+// Query parameters: status, severity, type, traderId, symbol, assignee ("unassigned" for the team queue),
+// q (free text), query (the dashboard's query language, see services/alertQuery), from/to
+export function matchAlerts(alerts: ComplianceAlert[], query: URLSearchParams): ComplianceAlert[] {
+  const statuses = query.getAll('status');
+  const severities = query.getAll('severity');
+  const types = query.getAll('type');
+  const traderId = query.get('traderId');
+  const symbol = query.get('symbol')?.toUpperCase();
+  const assignee = query.get('assignee');
+  const text = query.get('q')?.toLowerCase().trim();
+  const from = parseTime(query.get('from'), 'from');
+  const to = parseTime(query.get('to'), 'to');
+
+  const structured = parseAlertQuery(query.get('query') || '');
+  if (structured.errors.length > 0) {
+    throw new HttpError(400, 'Invalid query', structured.errors);
+  }
+
+  const invalidStatus = statuses.find(status => !isStatus(status));
+  if (invalidStatus) throw new HttpError(400, `Unknown status "${invalidStatus}"`);
+  const invalidSeverity = severities.find(severity => !SEVERITIES.includes(severity as Severity));
+  if (invalidSeverity) throw new HttpError(400, `Unknown severity "${invalidSeverity}"`);
+
+  return applyAlertQuery(alerts, structured, { now: new Date() }).filter(alert => {
+    const time = new Date(alert.timestamp).getTime();
+    return (statuses.length === 0 || statuses.includes(alert.status)) &&
+      (severities.length === 0 || severities.includes(alert.severity)) &&
+      (types.length === 0 || types.includes(alert.type)) &&
+      (!traderId || alert.trader.id === traderId) &&
+      (!symbol || alert.symbol === symbol) &&
+      (!assignee || (assignee === 'unassigned' ? !alert.assignee : alert.assignee === assignee)) &&
+      (from === null || time >= from) &&
+      (to === null || time <= to) &&
+      (!text ||
+        alert.id.toLowerCase().includes(text) ||
+        alert.trader.name.toLowerCase().includes(text) ||
+        alert.trader.id.toLowerCase().includes(text) ||
+        alert.description.toLowerCase().includes(text));
+  });
+}
+
+// matchAlerts' parameters plus page and pageSize
+export function filterAlerts(alerts: ComplianceAlert[], query: URLSearchParams): AlertPage {
+  const page = parsePositiveInt(query.get('page'), 1, 'page');
+  const pageSize = Math.min(parsePositiveInt(query.get('pageSize'), DEFAULT_PAGE_SIZE, 'pageSize'), MAX_PAGE_SIZE);
+  const matches = matchAlerts(alerts, query);
+  return {
+    items: matches.slice((page - 1) * pageSize, page * pageSize),
+    total: matches.length,
+    page,
+    pageSize,
+  };
+}
+
+// Who posted alerts for ingest: a signed-in user or a system holding an ingest token
+interface IngestPrincipal {
+  name: string;
+  userId?: string;
+}
+
+const INGEST_TOKEN_PRINCIPAL: IngestPrincipal = { name: 'API ingest' };
+
+// Ingested alerts always start as New, and their history starts on the server: whatever timeline the caller
+// sent is dropped (its first note is kept as unverified detector text) so nobody can post a pre-approved or
+// pre-closed alert.
+function parseIncomingAlert(value: unknown, index: number, principal: IngestPrincipal): ComplianceAlert {
+  if (typeof value !== 'object' || value === null) {
+    throw new HttpError(400, `Alert ${index + 1} must be an object`);
+  }
+  const alert = value as ComplianceAlert;
+  const problems: string[] = [];
+  if (typeof alert.id !== 'string' || !alert.id) problems.push('id is required');
+  if (isNaN(new Date(alert.timestamp).getTime())) problems.push('timestamp must be an ISO timestamp');
+  if (!SEVERITIES.includes(alert.severity)) problems.push(`unknown severity "${alert.severity}"`);
+  if (!ALERT_TYPES.includes(alert.type)) problems.push(`unknown alert type "${alert.type}"`);
+  if (alert.symbol !== undefined && (typeof alert.symbol !== 'string' || !alert.symbol.trim())) {
+    problems.push('symbol must be a non-empty string');
+  }
+  validateTrader(alert.trader, problems);
+  if (problems.length > 0) {
+    throw new HttpError(400, `Alert ${index + 1}: ${problems.join('; ')}`);
+  }
+  const reported = Array.isArray(alert.timeline) ? alert.timeline : [];
+  const detectorNote = typeof reported[0]?.notes === 'string' ? reported[0].notes : '';
+  // Workflow state is the server's to set
+  const {
+    assignee: _assignee, pendingApproval: _pendingApproval, caseId: _caseId, slaBreaches: _slaBreaches,
+    occurrences: _occurrences, lastSeenAt: _lastSeenAt, ...fields
+  } = alert;
+  return appendTimelineEvent({
+    ...fields,
+    status: 'New',
+    description: alert.description || '',
+    investigationNotes: '',
+    timeline: [],
+  }, {
+    id: createTimelineEventId(),
+    timestamp: new Date().toISOString(),
+    action: 'Alert Created',
+    user: principal.name,
+    userId: principal.userId,
+    notes: [
+      `Ingested through the API by ${principal.name}`,
+      detectorNote && `reported by the sender (unverified): ${detectorNote}`,
+      reported.length > 1 && `${reported.length - 1} further event(s) from the sender were not recorded`,
+    ].filter(Boolean).join('; '),
+  });
+}
+
+function sampleAlert(): ComplianceAlert {
+  return {
+    id: 'TEST-ALERT',
+    type: 'Spoofing',
+    severity: 'Critical',
+    status: 'New',
+    trader: { id: 'T000', name: 'Test Trader', email: '', firm: 'Test Firm', registrationDate: '' },
+    timestamp: new Date().toISOString(),
+    description: 'Test notification from the compliance alert system',
+    detectedBy: 'Notification Test',
+    investigationNotes: '',
+    timeline: [],
+    symbol: 'TEST',
+  };
+}
+
+function toHttpError(error: unknown): unknown {
+  if (error instanceof AuditLogError) return new HttpError(409, error.message);
+  if (!(error instanceof WorkflowError)) return error;
+  const status = error.code === 'forbidden' ? 403
+    : error.code === 'illegalTransition' || error.code === 'pendingApproval' ? 409
+    : 422;
+  return new HttpError(status, error.message, { code: error.code, field: error.field });
+}
+
+function parseRuleBody(body: unknown, id?: string): DetectionRule {
+  const rule = requireObject(body);
+  return {
+    ...(rule as unknown as DetectionRule),
+    id: id ?? requireString(rule, 'id'),
+    name: typeof rule.name === 'string' ? rule.name : '',
+    threshold: Number(rule.threshold),
+    enabled: rule.enabled !== false,
+    severityBands: Array.isArray(rule.severityBands) ? rule.severityBands : [],
+  };
+}
+
+export function createApi(
+  repository: AlertRepository,
+  sessions: SessionStore = createSessionStore(),
+  ingestTokens: string[] = []
+) {
+  const router = createRouter();
+
+  const requireToken = (request: RouteRequest): string => {
+    const token = bearerToken(request.headers.authorization);
+    if (!token) {
+      throw new HttpError(401, 'Sign in first: send "Authorization: Bearer <token>" from POST /api/auth/login');
+    }
+    return token;
+  };
+
+  // The acting user always comes from the session token, never from anything the client says about itself
+  const requireUser = async (request: RouteRequest, permission?: Permission): Promise<User> => {
+    const session = sessions.resolve(requireToken(request));
+    if (!session) {
+      throw new HttpError(401, 'Session expired or unknown, sign in again');
+    }
+    // Looked up on every request, so deactivating a user cuts off their open sessions too
+    const user = (await loadStoredUsers(repository)).find(u => u.id === session.userId && u.active);
+    if (!user) {
+      throw new HttpError(401, `User "${session.userId}" is no longer active`);
+    }
+    if (permission && !hasPermission(user, permission)) {
+      throw new HttpError(403, `${user.name} does not have the ${permission} permission`);
+    }
+    return user;
+  };
+
+  // Detection feeds may use an ingest token instead of a user session; they can post alerts and read the
+  // rules and watchlist they detect with, nothing else
+  const requireIngestPrincipal = async (request: RouteRequest): Promise<IngestPrincipal> => {
+    if (isIngestToken(requireToken(request), ingestTokens)) return INGEST_TOKEN_PRINCIPAL;
+    const user = await requireUser(request);
+    return { name: user.name, userId: user.id };
+  };
+
+  const runWorkflow = <T>(step: () => T): T => {
+    try {
+      return step();
+    } catch (error) {
+      throw toHttpError(error);
+    }
+  };
+
+  const saveAlerts = async (alerts: ComplianceAlert[]) => {
+    try {
+      await repository.saveAlerts(alerts);
+    } catch (error) {
+      throw toHttpError(error);
+    }
+  };
+
+  const getAlertOr404 = async (id: string) => {
+    const alert = await repository.getAlert(id);
+    if (!alert) throw new HttpError(404, `Alert ${id} not found`);
+    return alert;
+  };
+
+  const getCaseOr404 = async (id: string) => {
+    const caseRecord = await repository.getCase(id);
+    if (!caseRecord) throw new HttpError(404, `Case ${id} not found`);
+    return caseRecord;
+  };
+
+  const saveCase = async (caseRecord: Case) => {
+    try {
+      await repository.saveCases([caseRecord]);
+    } catch (error) {
+      throw toHttpError(error);
+    }
+  };
+
+  const getRuleOr404 = (rules: DetectionRule[], id: string) => {
+    const rule = rules.find(r => r.id === id);
+    if (!rule) throw new HttpError(404, `Rule ${id} not found`);
+    return rule;
+  };
+
+  // Validates the full rule set after a change, then stamps versions against what was stored
+  const writeRules = async (updated: DetectionRule[], previous: DetectionRule[], changedId: string) => {
+    const changed = updated.find(rule => rule.id === changedId);
+    const errors = changed ? validateRule(changed, updated) : [];
+    if (errors.length > 0) {
+      throw new HttpError(422, `Rule ${changedId} is invalid`, errors);
+    }
+    const stamped = stampRuleVersions(updated, previous);
+    await saveStoredRules(repository, stamped);
+    return stamped;
+  };
+
+  // { "userId", "password" } -> { token, expiresAt, user }. The token goes in the Authorization header.
+  router.post('/api/auth/login', async ({ body }) => {
+    const credentials = requireObject(body);
+    const userId = requireString(credentials, 'userId');
+    const password = requireString(credentials, 'password');
+    if (sessions.isLockedOut(userId)) {
+      throw new HttpError(429, 'Too many failed sign-ins, try again in a few minutes');
+    }
+    const user = (await loadStoredUsers(repository)).find(u => u.id === userId && u.active);
+    const valid = await verifyPassword(password, (await loadCredentials(repository))[userId]);
+    if (!user || !valid) {
+      sessions.recordFailure(userId);
+      throw new HttpError(401, 'Unknown user or wrong password');
+    }
+    sessions.recordSuccess(userId);
+    return { ...sessions.create(user.id), user };
+  });
+
+  router.post('/api/auth/logout', async (req) => {
+    sessions.revoke(requireToken(req));
+  });
+
+  router.get('/api/auth/session', async (req) => {
+    const user = await requireUser(req);
+    return { user, expiresAt: new Date(sessions.resolve(requireToken(req))!.expiresAt).toISOString() };
+  });
+
+  // { "password", "currentPassword"? } - users change their own with the current password, administrators
+  // reset anyone's. The user's other sessions are signed out.
+  router.put('/api/users/:id/password', async (req) => {
+    const actor = await requireUser(req);
+    const body = requireObject(req.body);
+    const password = typeof body.password === 'string' ? body.password : '';
+    const userId = req.params.id;
+    if (!(await loadStoredUsers(repository)).some(user => user.id === userId)) {
+      throw new HttpError(404, `User ${userId} not found`);
+    }
+    if (!hasPermission(actor, 'manageUsers')) {
+      if (actor.id !== userId) {
+        throw new HttpError(403, `${actor.name} does not have the manageUsers permission`);
+      }
+      const current = typeof body.currentPassword === 'string' ? body.currentPassword : '';
+      if (!(await verifyPassword(current, (await loadCredentials(repository))[userId]))) {
+        throw new HttpError(403, 'Current password is wrong');
+      }
+    }
+    const problems = validatePassword(password);
+    if (problems.length > 0) {
+      throw new HttpError(422, problems.join('; '));
+    }
+    await setPassword(repository, userId, password);
+    sessions.revokeUser(userId, actor.id === userId ? requireToken(req) : undefined);
+  });
+
+  router.get('/api/alerts', async (req) => {
+    await requireUser(req);
+    return filterAlerts(await repository.listAlerts(), req.query);
+  });
+
+  // Same filters as GET /api/alerts, unpaginated. format=csv|json, columns=id,type,... (CSV only)
+  router.get('/api/alerts/export', async (req) => {
+    await requireUser(req);
+    const { query } = req;
+    const format = query.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      throw new HttpError(400, '"format" must be "csv" or "json"');
+    }
+    const alerts = matchAlerts(await repository.listAlerts(), query);
+    if (format === 'json') {
+      return new FileResponse('application/json', JSON.stringify(alerts, null, 2), exportFileName('compliance-alerts', 'json'));
+    }
+
+    const columns = query.get('columns')?.split(',').map(column => column.trim()).filter(Boolean) || DEFAULT_EXPORT_COLUMNS;
+    const unknown = columns.filter(key => !EXPORT_COLUMNS.some(column => column.key === key));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `Unknown column(s): ${unknown.join(', ')}`, EXPORT_COLUMNS.map(column => column.key));
+    }
+    return new FileResponse('text/csv; charset=utf-8', alertsToCsv(alerts, columns), exportFileName('compliance-alerts', 'csv'));
+  });
+
+  // Ingest alerts raised elsewhere; existing alerts are left untouched and repeat detections are folded in
+  router.post('/api/alerts', async (req) => {
+    const principal = await requireIngestPrincipal(req);
+    const list = Array.isArray(req.body) ? req.body : requireObject(req.body).alerts;
+    if (!Array.isArray(list)) {
+      throw new HttpError(400, 'Expected an array of alerts or { "alerts": [...] }');
+    }
+    const incoming = list.map((alert, index) => parseIncomingAlert(alert, index, principal));
+    let result;
+    try {
+      result = await ingestAlerts(repository, incoming);
+    } catch (error) {
+      throw toHttpError(error);
+    }
+    // Deliveries (with retries) shouldn't hold up the caller; outcomes go to the delivery log
+    notifyNewAlerts(repository, incoming.filter(alert => result.created.includes(alert.id)))
+      .catch(error => console.error('Sending notifications failed:', error));
+    return result;
+  });
+
+  // { "alertIds": [...], "action": "assign" | "transition" | "note", plus that action's fields:
+  // assignee | status, notes?, reasonCode?, escalationTarget? | notes }. Alerts are changed independently and
+  // failures are reported per alert instead of failing the whole request.
+  router.post('/api/alerts/bulk', async (req) => {
+    const actor = await requireUser(req);
+    const request = requireObject(req.body);
+    if (!Array.isArray(request.alertIds) || !request.alertIds.every(id => typeof id === 'string')) {
+      throw new HttpError(400, '"alertIds" must be an array of alert ids');
+    }
+    const optionalString = (field: string) => typeof request[field] === 'string' ? request[field] as string : undefined;
+
+    let action: BulkAction;
+    if (request.action === 'assign') {
+      const users = await loadStoredUsers(repository);
+      const assignee = request.assignee === null ? null : users.find(user => user.id === request.assignee);
+      if (assignee === undefined) throw new HttpError(422, `Unknown user "${String(request.assignee)}"`);
+      action = { kind: 'assign', assignee };
+    } else if (request.action === 'transition') {
+      if (!isStatus(request.status)) throw new HttpError(400, `Unknown status "${String(request.status)}"`);
+      action = {
+        kind: 'transition',
+        to: request.status,
+        notes: optionalString('notes'),
+        reasonCode: optionalString('reasonCode'),
+        escalationTarget: optionalString('escalationTarget'),
+      };
+    } else if (request.action === 'note') {
+      action = { kind: 'note', notes: requireString(request, 'notes') };
+    } else {
+      throw new HttpError(400, '"action" must be "assign", "transition" or "note"');
+    }
+
+    // Each copy of a repeated id would append its own event at the same timeline position
+    const ids = [...new Set(request.alertIds as string[])];
+    const found: ComplianceAlert[] = [];
+    const missing: string[] = [];
+    for (const id of ids) {
+      const alert = await repository.getAlert(id);
+      if (alert) found.push(alert); else missing.push(id);
+    }
+
+    const policy = await loadStoredFourEyesPolicy(repository);
+    const result = runWorkflow(() => applyBulkAction(found, action, actor, policy));
+    await saveAlerts(result.updated);
+    return {
+      updated: result.updated.map(alert => alert.id),
+      unchanged: result.unchanged,
+      failures: [...missing.map(alertId => ({ alertId, message: `Alert ${alertId} not found` })), ...result.failures],
+    };
+  });
+
+  // Strictly validated import: { "alerts": [...] } or { "csv": "..." }, "strategy": "skip" | "overwrite" | "merge",
+  // "dryRun": true to preview. Invalid rows are reported and left out; the rest are imported.
+  router.post('/api/alerts/import', async (req) => {
+    const actor = await requireUser(req, 'importAlerts');
+    const request = requireObject(req.body);
+    const strategy = request.strategy ?? 'skip';
+    if (strategy !== 'skip' && strategy !== 'overwrite' && strategy !== 'merge') {
+      throw new HttpError(400, '"strategy" must be "skip", "overwrite" or "merge"');
+    }
+
+    let rows: ImportRow[];
+    if (Array.isArray(request.alerts)) {
+      rows = importRowsFromJson(request.alerts);
+    } else if (typeof request.csv === 'string') {
+      rows = parseAlertImport('import.csv', request.csv);
+    } else {
+      throw new HttpError(400, 'Expected "alerts" (an array) or "csv" (CSV text)');
+    }
+
+    try {
+      const plan = await importAlerts(repository, rows, strategy, actor, request.dryRun === true);
+      return {
+        dryRun: request.dryRun === true,
+        created: plan.created,
+        overwritten: plan.overwritten,
+        merged: plan.merged,
+        skipped: plan.skipped,
+        errors: rows.filter(row => row.errors.length > 0).map(({ row, id, errors }) => ({ row, id, errors })),
+      };
+    } catch (error) {
+      throw toHttpError(error);
+    }
+  });
+
+  router.get('/api/alerts/:id', async (req) => {
+    await requireUser(req);
+    return getAlertOr404(req.params.id);
+  });
+
+  router.get('/api/alerts/:id/audit', async (req) => {
+    await requireUser(req);
+    return exportAuditChain([await getAlertOr404(req.params.id)]);
+  });
+
+  router.get('/api/audit', async (req) => {
+    await requireUser(req);
+    return exportAuditChain(await repository.listAlerts());
+  });
+
+  // Printable HTML case report; print it to PDF from the browser
+  router.get('/api/alerts/:id/report', async (req) => {
+    const actor = await requireUser(req);
+    return new FileResponse('text/html; charset=utf-8', buildCaseReportHtml(await getAlertOr404(req.params.id), actor));
+  });
+
+  // Pre-filled STOR (default) or SAR draft: ?type=STOR|SAR
+  router.get('/api/alerts/:id/regulatory-report', async (req) => {
+    const actor = await requireUser(req);
+    const reportType = req.query.get('type') || 'STOR';
+    if (!isRegulatoryReportType(reportType)) {
+      throw new HttpError(400, '"type" must be "STOR" or "SAR"');
+    }
+    const alert = await getAlertOr404(req.params.id);
+    return buildRegulatoryDraft(alert, reportType, await loadStoredReportingEntity(repository), actor);
+  });
+
+  router.get('/api/alerts/:id/transitions', async (req) => {
+    await requireUser(req);
+    return availableTransitions((await getAlertOr404(req.params.id)).status);
+  });
+
+  router.post('/api/alerts/:id/transitions', async (req) => {
+    const actor = await requireUser(req);
+    const request = requireObject(req.body);
+    const alert = await getAlertOr404(req.params.id);
+    const status = request.status;
+    if (!isStatus(status)) {
+      throw new HttpError(400, `Unknown status "${String(status)}"`);
+    }
+    const optionalString = (field: string) => typeof request[field] === 'string' ? request[field] as string : undefined;
+    const policy = await loadStoredFourEyesPolicy(repository);
+    const updated = runWorkflow(() => transitionAlert(alert, {
+      to: status,
+      actor,
+      notes: optionalString('notes'),
+      reasonCode: optionalString('reasonCode'),
+      escalationTarget: optionalString('escalationTarget'),
+    }, policy));
+    await saveAlerts([updated]);
+    return updated;
+  });
+
+  // Second-user decision on a four-eyes transition: { "decision": "approve" | "reject", "notes" }
+  router.post('/api/alerts/:id/approval', async (req) => {
+    const approver = await requireUser(req);
+    const request = requireObject(req.body);
+    const alert = await getAlertOr404(req.params.id);
+    if (request.decision !== 'approve' && request.decision !== 'reject') {
+      throw new HttpError(400, '"decision" must be "approve" or "reject"');
+    }
+    const notes = typeof request.notes === 'string' ? request.notes : '';
+    const updated = runWorkflow(() => request.decision === 'approve'
+      ? approveTransition(alert, approver)
+      : rejectTransition(alert, approver, notes));
+    await saveAlerts([updated]);
+    return updated;
+  });
+
+  // { "assignee": "<user id>" } assigns; null returns the alert to the team queue
+  router.post('/api/alerts/:id/assignment', async (req) => {
+    const actor = await requireUser(req);
+    const request = requireObject(req.body);
+    const alert = await getAlertOr404(req.params.id);
+    if (request.assignee !== null && typeof request.assignee !== 'string') {
+      throw new HttpError(400, '"assignee" must be a user id or null');
+    }
+    const users = await loadStoredUsers(repository);
+    const assignee = request.assignee === null ? null : users.find(user => user.id === request.assignee);
+    if (assignee === undefined) {
+      throw new HttpError(422, `Unknown user "${String(request.assignee)}"`);
+    }
+    const updated = runWorkflow(() => assignAlert(alert, assignee, actor));
+    if (updated !== alert) await saveAlerts([updated]);
+    return updated;
+  });
+
+  router.get('/api/alerts/:id/sla', async (req) => {
+    await requireUser(req);
+    return getSlaStatus(await getAlertOr404(req.params.id), await loadStoredSlaTargets(repository));
+  });
+
+  router.post('/api/alerts/:id/notes', async (req) => {
+    const user = await requireUser(req);
+    const request = requireObject(req.body);
+    const alert = await getAlertOr404(req.params.id);
+    const updated = addInvestigationNote(alert, requireString(request, 'notes'), user);
+    await saveAlerts([updated]);
+    return updated;
+  });
+
+  router.get('/api/cases', async (req) => {
+    await requireUser(req);
+    const { query } = req;
+    const status = query.get('status');
+    if (status !== null && !isCaseStatus(status)) {
+      throw new HttpError(400, `Unknown case status "${status}"`);
+    }
+    return (await repository.listCases())
+      .filter(caseRecord => !status || caseRecord.status === status)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  });
+
+  // Case timelines are keyed like alert timelines, so clients get their verification from here
+  router.get('/api/cases/audit', async (req) => {
+    await requireUser(req);
+    return exportAuditChain(await repository.listCases());
+  });
+
+  router.get('/api/cases/:id', async (req) => {
+    await requireUser(req);
+    return getCaseOr404(req.params.id);
+  });
+
+  // { "status": "Open" | "Investigating" | "Closed", "notes" } - closing requires notes
+  router.post('/api/cases/:id/status', async (req) => {
+    const actor = await requireUser(req);
+    const request = requireObject(req.body);
+    const caseRecord = await getCaseOr404(req.params.id);
+    if (!isCaseStatus(request.status)) {
+      throw new HttpError(400, `Unknown case status "${String(request.status)}"`);
+    }
+    const status = request.status;
+    const notes = typeof request.notes === 'string' ? request.notes : '';
+    const updated = runWorkflow(() => updateCaseStatus(caseRecord, status, actor, notes));
+    await saveCase(updated);
+    return updated;
+  });
+
+  router.post('/api/cases/:id/notes', async (req) => {
+    const actor = await requireUser(req);
+    const request = requireObject(req.body);
+    const updated = addCaseNote(await getCaseOr404(req.params.id), requireString(request, 'notes'), actor);
+    await saveCase(updated);
+    return updated;
+  });
+
+  router.get('/api/rules', async (req) => {
+    await requireIngestPrincipal(req);
+    return loadStoredRules(repository);
+  });
+
+  const writeWatchlist = async (watchlist: Watchlist) => {
+    const problems = validateWatchlist(watchlist, await loadStoredRules(repository));
+    if (problems.length > 0) {
+      throw new HttpError(422, 'Watchlist is invalid', problems);
+    }
+    await saveStoredWatchlist(repository, watchlist);
+    return watchlist;
+  };
+
+  router.get('/api/watchlist', async (req) => {
+    await requireIngestPrincipal(req);
+    return loadStoredWatchlist(repository);
+  });
+
+  // Replaces the whole watchlist: { symbols: [{ symbol, name?, venue? }], groups: [...] }
+  router.put('/api/watchlist', async (req) => {
+    await requireUser(req, 'manageRules');
+    const body = requireObject(req.body);
+    if (!Array.isArray(body.symbols) || !Array.isArray(body.groups)) {
+      throw new HttpError(400, '"symbols" and "groups" must be arrays');
+    }
+    if (body.symbols.some(entry => typeof (entry as Record<string, unknown>)?.symbol !== 'string')) {
+      throw new HttpError(400, 'Every watchlist entry needs a "symbol"');
+    }
+    const groups = (body.groups as Watchlist['groups']).map(group => ({
+      ...group,
+      symbols: Array.isArray(group.symbols) ? group.symbols.map(String).map(normalizeSymbol) : [],
+      ruleOverrides: Array.isArray(group.ruleOverrides) ? group.ruleOverrides : [],
+    }));
+    return writeWatchlist({ ...addSymbols({ symbols: [], groups }, body.symbols as Watchlist['symbols']), groups });
+  });
+
+  // Adds the symbols in a file (plain list, CSV or JSON, see parseWatchlistFile) to the stored watchlist
+  router.post('/api/watchlist/import', async (req) => {
+    await requireUser(req, 'manageRules');
+    const body = requireObject(req.body);
+    let imported: ReturnType<typeof parseWatchlistFile>;
+    try {
+      imported = parseWatchlistFile(requireString(body, 'fileName'), requireString(body, 'content'));
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+    return writeWatchlist(mergeWatchlistImport(await loadStoredWatchlist(repository), imported));
+  });
+
+  router.get('/api/users', async (req) => {
+    await requireUser(req);
+    return loadStoredUsers(repository);
+  });
+
+  router.put('/api/users', async (req) => {
+    await requireUser(req, 'manageUsers');
+    if (!Array.isArray(req.body)) {
+      throw new HttpError(400, 'Expected an array of users');
+    }
+    const users = req.body as User[];
+    const problems = users.flatMap(user => validateUser(user, users).map(error => `${user.id || '(no id)'}: ${error}`));
+    if (problems.length > 0) {
+      throw new HttpError(422, 'Some users are invalid', problems);
+    }
+    if (!users.some(user => user.active && user.role === 'admin')) {
+      throw new HttpError(422, 'At least one active administrator is required');
+    }
+    await saveStoredUsers(repository, users);
+    return users;
+  });
+
+  router.get('/api/four-eyes', async (req) => {
+    await requireUser(req);
+    return loadStoredFourEyesPolicy(repository);
+  });
+
+  // { "enabled", "severities": [...], "statuses": [...] } - transitions covered need a second user's approval
+  router.put('/api/four-eyes', async (req) => {
+    await requireUser(req, 'manageUsers');
+    const body = requireObject(req.body);
+    const severities = body.severities;
+    const statuses = body.statuses;
+    if (typeof body.enabled !== 'boolean') {
+      throw new HttpError(400, '"enabled" must be true or false');
+    }
+    if (!Array.isArray(severities) || severities.some(severity => !SEVERITIES.includes(severity))) {
+      throw new HttpError(422, `"severities" must list severities out of ${SEVERITIES.join(', ')}`);
+    }
+    if (!Array.isArray(statuses) || statuses.some(status => !STATUSES_NEEDING_APPROVAL.includes(status))) {
+      throw new HttpError(422, `"statuses" must list statuses out of ${STATUSES_NEEDING_APPROVAL.join(', ')}`);
+    }
+    const policy = { enabled: body.enabled, severities, statuses };
+    await saveStoredFourEyesPolicy(repository, policy);
+    return policy;
+  });
+
+  router.get('/api/sla', async (req) => {
+    await requireUser(req);
+    return loadStoredSlaTargets(repository);
+  });
+
+  router.put('/api/sla', async (req) => {
+    await requireUser(req, 'manageUsers');
+    const targets = { ...(await loadStoredSlaTargets(repository)), ...requireObject(req.body) } as SlaTargets;
+    const problems = validateSlaTargets(targets);
+    if (problems.length > 0) {
+      throw new HttpError(422, 'SLA targets are invalid', problems);
+    }
+    await saveStoredSlaTargets(repository, targets);
+    return targets;
+  });
+
+  router.get('/api/reporting-entity', async (req) => {
+    await requireUser(req);
+    return loadStoredReportingEntity(repository);
+  });
+
+  router.put('/api/reporting-entity', async (req) => {
+    await requireUser(req, 'manageUsers');
+    const body = requireObject(req.body);
+    const entity = { ...(await loadStoredReportingEntity(repository)) };
+    (Object.keys(entity) as (keyof ReportingEntity)[]).forEach(field => {
+      if (body[field] === undefined) return;
+      if (typeof body[field] !== 'string') throw new HttpError(400, `"${field}" must be a string`);
+      entity[field] = body[field] as string;
+    });
+    await saveStoredReportingEntity(repository, entity);
+    return entity;
+  });
+
+  router.get('/api/notifications/settings', async (req) => {
+    await requireUser(req, 'manageUsers');
+    return maskSecrets(await loadNotificationSettings(repository));
+  });
+
+  router.put('/api/notifications/settings', async (req) => {
+    await requireUser(req, 'manageUsers');
+    const body = requireObject(req.body);
+    const stored = await loadNotificationSettings(repository);
+    const settings = restoreSecrets({
+      ...stored,
+      ...body,
+      channels: Array.isArray(body.channels) ? body.channels : stored.channels,
+      rules: Array.isArray(body.rules) ? body.rules : stored.rules,
+    } as NotificationSettings, stored);
+    const problems = validateNotificationSettings(settings);
+    if (problems.length > 0) {
+      throw new HttpError(422, 'Notification settings are invalid', problems);
+    }
+    await saveNotificationSettings(repository, settings);
+    return maskSecrets(settings);
+  });
+
+  // Delivery log, newest first; filter by alertId, channelId and status
+  router.get('/api/notifications/deliveries', async (req) => {
+    await requireUser(req);
+    const { query } = req;
+    return (await loadDeliveryLog(repository))
+      .filter(record =>
+        (!query.get('alertId') || record.alertId === query.get('alertId')) &&
+        (!query.get('channelId') || record.channelId === query.get('channelId')) &&
+        (!query.get('status') || record.status === query.get('status')))
+      .reverse();
+  });
+
+  // Sends an alert (the given alertId, or a sample) through one channel, ignoring rules and throttling
+  router.post('/api/notifications/channels/:id/test', async (req) => {
+    await requireUser(req, 'manageUsers');
+    const settings = await loadNotificationSettings(repository);
+    const channel = settings.channels.find(c => c.id === req.params.id);
+    if (!channel) throw new HttpError(404, `Channel ${req.params.id} not found`);
+    const alertId = typeof req.body === 'object' && req.body !== null ? (req.body as Record<string, unknown>).alertId : undefined;
+    const alert = typeof alertId === 'string' ? await getAlertOr404(alertId) : sampleAlert();
+    const record = await deliver(channel, alert, [], settings);
+    await appendDeliveryLog(repository, [record]);
+    return record;
+  });
+
+  router.post('/api/rules', async (req) => {
+    await requireUser(req, 'manageRules');
+    const body = req.body;
+    const rules = await loadStoredRules(repository);
+    const rule = parseRuleBody(body);
+    if (rules.some(r => r.id === rule.id)) {
+      throw new HttpError(409, `Rule ${rule.id} already exists`);
+    }
+    const stamped = await writeRules([...rules, rule], rules, rule.id);
+    return getRuleOr404(stamped, rule.id);
+  });
+
+  router.get('/api/rules/:id', async (req) => {
+    await requireUser(req);
+    return getRuleOr404(await loadStoredRules(repository), req.params.id);
+  });
+
+  router.put('/api/rules/:id', async (req) => {
+    await requireUser(req, 'manageRules');
+    const { params, body } = req;
+    const rules = await loadStoredRules(repository);
+    getRuleOr404(rules, params.id);
+    const rule = parseRuleBody(body, params.id);
+    const stamped = await writeRules(rules.map(r => r.id === rule.id ? rule : r), rules, rule.id);
+    return getRuleOr404(stamped, rule.id);
+  });
+
+  router.delete('/api/rules/:id', async (req) => {
+    await requireUser(req, 'manageRules');
+    const { params } = req;
+    const rules = await loadStoredRules(repository);
+    getRuleOr404(rules, params.id);
+    await saveStoredRules(repository, rules.filter(r => r.id !== params.id));
+  });
+
+  return router;
+}
@@ -0,0 +1,153 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { User } from '../src/types';
+import { AlertRepository } from '../src/services/alertRepository';
+import { validatePassword } from '../src/services/users';
+
+// scrypt hash of a user's password; the password itself is never stored
+export interface StoredCredential {
+  salt: string;
+  hash: string;
+  updatedAt: string;
+}
+
+export interface Session {
+  userId: string;
+  expiresAt: number;
+}
+
+const CREDENTIALS_META_KEY = 'credentials';
+const KEY_LENGTH = 64;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+// Repeated wrong passwords lock the account for a while, so passwords can't be guessed at full speed
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+const digest = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export async function hashPassword(password: string): Promise<StoredCredential> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return { salt: salt.toString('hex'), hash: hash.toString('hex'), updatedAt: new Date().toISOString() };
+}
+
+export async function verifyPassword(password: string, credential: StoredCredential | undefined): Promise<boolean> {
+  // Unknown users still pay for a hash, so response times don't reveal which ids exist
+  const salt = credential ? Buffer.from(credential.salt, 'hex') : randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return !!credential && timingSafeEqual(hash, Buffer.from(credential.hash, 'hex'));
+}
+
+export async function loadCredentials(repository: AlertRepository): Promise<Record<string, StoredCredential>> {
+  const stored = await repository.getMeta(CREDENTIALS_META_KEY);
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    // Falling back to "no passwords" would let the bootstrap hand out fresh ones, so refuse instead
+    throw new Error(`Stored credentials are corrupt: ${(error as Error).message}`);
+  }
+}
+
+export async function setPassword(repository: AlertRepository, userId: string, password: string): Promise<void> {
+  const problems = validatePassword(password);
+  if (problems.length > 0) throw new Error(problems.join('; '));
+  const credentials = await loadCredentials(repository);
+  credentials[userId] = await hashPassword(password);
+  await repository.setMeta(CREDENTIALS_META_KEY, JSON.stringify(credentials));
+}
+
+// On first start nobody can sign in, so every active administrator gets a password: the one passed in
+// (INITIAL_ADMIN_PASSWORD) or a random one that is returned for the caller to print once
+export async function bootstrapCredentials(
+  repository: AlertRepository,
+  users: User[],
+  initialPassword?: string
+): Promise<{ userId: string; password: string }[]> {
+  if (Object.keys(await loadCredentials(repository)).length > 0) return [];
+
+  const issued: { userId: string; password: string }[] = [];
+  for (const admin of users.filter(user => user.active && user.role === 'admin')) {
+    const password = initialPassword || randomBytes(12).toString('base64url');
+    await setPassword(repository, admin.id, password);
+    issued.push({ userId: admin.id, password });
+  }
+  return issued;
+}
+
+// Sessions live in memory: a restart signs everyone out, which is acceptable for a single API process.
+// Only a digest of each token is kept, so a heap dump doesn't hand out live sessions.
+export function createSessionStore(ttlMs: number = SESSION_TTL_MS) {
+  const sessions = new Map<string, Session>();
+  const failures = new Map<string, { count: number; lockedUntil: number }>();
+
+  const prune = (now: number) => {
+    sessions.forEach((session, key) => {
+      if (session.expiresAt <= now) sessions.delete(key);
+    });
+  };
+
+  return {
+    create(userId: string, now: number = Date.now()): { token: string; expiresAt: string } {
+      prune(now);
+      const token = randomBytes(32).toString('base64url');
+      const expiresAt = now + ttlMs;
+      sessions.set(digest(token), { userId, expiresAt });
+      return { token, expiresAt: new Date(expiresAt).toISOString() };
+    },
+
+    resolve(token: string, now: number = Date.now()): Session | null {
+      const session = sessions.get(digest(token));
+      if (!session) return null;
+      if (session.expiresAt <= now) {
+        sessions.delete(digest(token));
+        return null;
+      }
+      return session;
+    },
+
+    revoke(token: string) {
+      sessions.delete(digest(token));
+    },
+
+    // After a password change or reset, every other session of the user ends
+    revokeUser(userId: string, exceptToken?: string) {
+      const kept = exceptToken ? digest(exceptToken) : undefined;
+      sessions.forEach((session, key) => {
+        if (session.userId === userId && key !== kept) sessions.delete(key);
+      });
+    },
+
+    isLockedOut(userId: string, now: number = Date.now()): boolean {
+      return (failures.get(userId)?.lockedUntil || 0) > now;
+    },
+
+    recordFailure(userId: string, now: number = Date.now()) {
+      const count = (failures.get(userId)?.count || 0) + 1;
+      failures.set(userId, count >= MAX_FAILED_LOGINS ? { count: 0, lockedUntil: now + LOCKOUT_MS } : { count, lockedUntil: 0 });
+    },
+
+    recordSuccess(userId: string) {
+      failures.delete(userId);
+    },
+  };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
+
+export function bearerToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Ingest tokens let detectors and other systems post alerts without a user account. Digests are compared so
+// the comparison takes the same time whatever the token's length.
+export function isIngestToken(token: string, ingestTokens: string[]): boolean {
+  const presented = createHash('sha256').update(token).digest();
+  return ingestTokens.reduce(
+    (matched, candidate) => timingSafeEqual(presented, createHash('sha256').update(candidate).digest()) || matched,
+    false
+  );
+}
@@ -0,0 +1,25 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { setAuditChainKey } from '../src/services/auditChain';
+
+// Key for the audit chain's HMAC: AUDIT_CHAIN_KEY, or a key file kept next to the database. The key file only
+// helps if the database is copied or edited without it, so production should set the variable (e.g. from a
+// secrets store) and keep the key out of the database's backups.
+export function configureAuditChainKey(databasePath: string): void {
+  const fromEnv = process.env.AUDIT_CHAIN_KEY;
+  if (fromEnv) {
+    setAuditChainKey(fromEnv);
+    return;
+  }
+
+  const keyPath = `${databasePath}.chain-key`;
+  if (!existsSync(keyPath)) {
+    mkdirSync(dirname(keyPath), { recursive: true });
+    writeFileSync(keyPath, randomBytes(32).toString('hex'), { mode: 0o600, flag: 'wx' });
+    console.warn(`AUDIT_CHAIN_KEY is not set: generated an audit chain key in ${keyPath}. Anyone who can read it can forge timelines - set AUDIT_CHAIN_KEY instead.`);
+  }
+  const key = readFileSync(keyPath, 'utf8').trim();
+  if (!key) throw new Error(`Audit chain key file ${keyPath} is empty`);
+  setAuditChainKey(key);
+}
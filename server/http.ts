@@ -0,0 +1,130 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Thrown by route handlers; anything else is reported as a 500
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Returned by handlers that answer with something other than JSON (CSV exports, printable reports)
+export class FileResponse {
+  constructor(public contentType: string, public content: string, public fileName?: string) {}
+}
+
+export interface RouteRequest {
+  params: Record<string, string>;
+  headers: IncomingMessage['headers'];
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export type RouteHandler = (request: RouteRequest) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// Paths use `:name` placeholders, e.g. /api/alerts/:id/notes
+export function createRouter() {
+  const routes: Route[] = [];
+
+  const add = (method: string, path: string, handler: RouteHandler) => {
+    const paramNames: string[] = [];
+    const pattern = new RegExp('^' + path.replace(/:(\w+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    }) + '/?$');
+    routes.push({ method, pattern, paramNames, handler });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      const matching = routes
+        .map(route => ({ route, match: route.pattern.exec(url.pathname) }))
+        .filter(({ match }) => match !== null);
+      if (matching.length === 0) {
+        throw new HttpError(404, `No route for ${url.pathname}`);
+      }
+      const found = matching.find(({ route }) => route.method === req.method);
+      if (!found) {
+        throw new HttpError(405, `${req.method} is not allowed on ${url.pathname}`);
+      }
+
+      const params: Record<string, string> = {};
+      found.route.paramNames.forEach((name, index) => {
+        const raw = found.match![index + 1];
+        try {
+          params[name] = decodeURIComponent(raw);
+        } catch {
+          throw new HttpError(400, `Path segment "${raw}" is not a valid URL encoding`);
+        }
+      });
+      const body = req.method === 'GET' || req.method === 'DELETE' ? undefined : await readJson(req);
+      const result = await found.route.handler({ params, headers: req.headers, query: url.searchParams, body });
+      if (result instanceof FileResponse) {
+        sendFile(res, result);
+      } else {
+        sendJson(res, result === undefined ? 204 : 200, result);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message, details: error.details });
+      } else {
+        console.error(`Error handling ${req.method} ${url.pathname}:`, error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  };
+
+  return {
+    get: (path: string, handler: RouteHandler) => add('GET', path, handler),
+    post: (path: string, handler: RouteHandler) => add('POST', path, handler),
+    put: (path: string, handler: RouteHandler) => add('PUT', path, handler),
+    delete: (path: string, handler: RouteHandler) => add('DELETE', path, handler),
+    handle,
+  };
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text.trim()) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown) {
+  if (status === 204) {
+    res.writeHead(204).end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+function sendFile(res: ServerResponse, file: FileResponse) {
+  const headers: Record<string, string> = { 'Content-Type': file.contentType };
+  if (file.fileName) headers['Content-Disposition'] = `attachment; filename="${file.fileName}"`;
+  res.writeHead(200, headers);
+  res.end(file.content);
+}
@@ -0,0 +1,57 @@
+import { createServer } from 'node:http';
+import { createApi } from './api';
+import { openSqliteAlertRepository } from './sqliteAlertRepository';
+import { runSlaCheck } from './slaMonitor';
+import { bootstrapCredentials, createSessionStore } from './auth';
+import { configureAuditChainKey } from './chainKey';
+import { loadStoredUsers } from './userStore';
+
+const PORT = parseInt(process.env.PORT || '4000', 10);
+const DATABASE_PATH = process.env.ALERT_DB_PATH || 'data/alerts.sqlite';
+// Other internal tools call the API from their own origins
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+const SLA_CHECK_SECONDS = parseInt(process.env.SLA_CHECK_SECONDS || '60', 10);
+// Used for the administrators' first password instead of a random one
+const INITIAL_ADMIN_PASSWORD = process.env.INITIAL_ADMIN_PASSWORD;
+// Comma-separated, so a token can be rotated without a gap; the worker and other detection feeds post with one
+const INGEST_TOKENS = (process.env.ALERT_INGEST_TOKENS || '').split(',').map(token => token.trim()).filter(Boolean);
+
+async function main() {
+  configureAuditChainKey(DATABASE_PATH);
+  const repository = await openSqliteAlertRepository(DATABASE_PATH);
+  const issued = await bootstrapCredentials(repository, await loadStoredUsers(repository), INITIAL_ADMIN_PASSWORD);
+  issued.forEach(({ userId, password }) => {
+    console.log(INITIAL_ADMIN_PASSWORD
+      ? `Set the initial password of administrator "${userId}" from INITIAL_ADMIN_PASSWORD`
+      : `Initial password for administrator "${userId}": ${password} (shown once - change it after signing in)`);
+  });
+  const api = createApi(repository, createSessionStore(), INGEST_TOKENS);
+
+  const server = createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    api.handle(req, res);
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Compliance alert API listening on http://localhost:${PORT} (database: ${DATABASE_PATH})`);
+  });
+
+  const checkSlas = () => runSlaCheck(repository)
+    .then(count => {
+      if (count > 0) console.log(`Escalated ${count} alert(s) that breached SLA`);
+    })
+    .catch(error => console.error('SLA check failed:', error));
+  checkSlas();
+  setInterval(checkSlas, SLA_CHECK_SECONDS * 1000);
+}
+
+main().catch(error => {
+  console.error('Failed to start the API server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+import { ComplianceAlert, User } from '../src/types';
+import { AlertRepository } from '../src/services/alertRepository';
+import { groupIntoCases, suppressDuplicates } from '../src/services/correlation';
+import { ImportConflictStrategy, ImportPlan, ImportRow, planAlertImport } from '../src/services/alertImport';
+
+export interface IngestResult {
+  created: string[];
+  // Repeat detections folded into an existing alert
+  suppressed: number;
+  // Ids that were already stored
+  skipped: number;
+}
+
+// Stores genuinely new alerts, folds repeats into the alert they duplicate and links related alerts into cases
+export async function ingestAlerts(repository: AlertRepository, incoming: ComplianceAlert[]): Promise<IngestResult> {
+  const existing = await repository.listAlerts();
+  const { fresh, updated, suppressed } = suppressDuplicates(existing, incoming);
+
+  const touched = new Map([...updated, ...fresh].map(alert => [alert.id, alert]));
+  const merged = [...existing.map(alert => touched.get(alert.id) || alert), ...fresh];
+  const grouping = groupIntoCases(merged, await repository.listCases());
+  grouping.alerts.forEach(alert => touched.set(alert.id, alert));
+
+  await repository.saveAlerts([...touched.values()]);
+  await repository.saveCases(grouping.cases);
+  return { created: fresh.map(alert => alert.id), suppressed, skipped: incoming.length - fresh.length - suppressed };
+}
+
+// Applies a validated import (see services/alertImport). Unlike ingest, imported alerts are kept as they are
+// rather than folded into duplicates, but they are still linked into cases.
+export async function importAlerts(
+  repository: AlertRepository,
+  rows: ImportRow[],
+  strategy: ImportConflictStrategy,
+  actor: User,
+  dryRun: boolean,
+): Promise<ImportPlan> {
+  const existing = await repository.listAlerts();
+  const plan = planAlertImport(rows, existing, strategy, actor, 'API import');
+  if (dryRun) return plan;
+
+  const touched = new Map(plan.alerts.map(alert => [alert.id, alert]));
+  const merged = [...existing.map(alert => touched.get(alert.id) || alert), ...plan.created.map(id => touched.get(id)!)];
+  const grouping = groupIntoCases(merged, await repository.listCases());
+  grouping.alerts.forEach(alert => touched.set(alert.id, alert));
+
+  await repository.saveAlerts([...touched.values()]);
+  await repository.saveCases(grouping.cases);
+  return plan;
+}
@@ -0,0 +1,92 @@
+import { createServer as createHttpServer } from 'node:http';
+import { createServer as createTcpServer } from 'node:net';
+import { timingSafeEqual } from 'node:crypto';
+import { signWebhook } from './notifications';
+
+// Local stand-ins for a webhook receiver and an SMTP relay, for trying out notification channels.
+// Point channels at http://localhost:4010/<anything> and SMTP host localhost port 4025 (allowInsecure: true).
+// Paths containing "flaky" answer 503 to every other request, "reject" answers 400, to exercise retries.
+const HTTP_PORT = parseInt(process.env.STUB_HTTP_PORT || '4010', 10);
+const SMTP_PORT = parseInt(process.env.STUB_SMTP_PORT || '4025', 10);
+// When set, webhook signatures are checked and the result printed
+const WEBHOOK_SECRET = process.env.STUB_WEBHOOK_SECRET;
+
+let flakyCount = 0;
+
+const httpServer = createHttpServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    let verdict = '';
+    const signature = req.headers['x-signature-256'];
+    if (WEBHOOK_SECRET && typeof signature === 'string') {
+      const expected = signWebhook(WEBHOOK_SECRET, String(req.headers['x-signature-timestamp']), body);
+      const valid = expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+      verdict = valid ? ' (signature valid)' : ' (SIGNATURE INVALID)';
+    }
+
+    let status = 200;
+    if (req.url?.includes('reject')) status = 400;
+    if (req.url?.includes('flaky') && flakyCount++ % 2 === 0) status = 503;
+    console.log(`[http] ${req.method} ${req.url} -> ${status}${verdict}\n${body}\n`);
+    res.writeHead(status, { 'Content-Type': 'text/plain' }).end(status === 200 ? 'ok' : 'stub failure');
+  });
+});
+
+const smtpServer = createTcpServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let message: string[] = [];
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  reply('220 notification-stub ESMTP');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          console.log(`[smtp] message received:\n${message.join('\n')}\n`);
+          message = [];
+          reply('250 2.0.0 queued');
+        } else {
+          message.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const verb = line.split(' ')[0].toUpperCase();
+      console.log(`[smtp] ${verb === 'AUTH' ? 'AUTH ***' : line}`);
+      switch (verb) {
+        case 'EHLO':
+          reply('250-notification-stub');
+          reply('250 AUTH PLAIN');
+          break;
+        case 'HELO': case 'MAIL': case 'RCPT': case 'RSET': case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'AUTH':
+          reply('235 2.7.0 Authentication successful');
+          break;
+        case 'DATA':
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    }
+  });
+  socket.on('error', error => console.error('[smtp] connection error:', error.message));
+});
+
+httpServer.listen(HTTP_PORT, () => console.log(`Webhook stub listening on http://localhost:${HTTP_PORT}`));
+smtpServer.listen(SMTP_PORT, () => console.log(`SMTP stub listening on localhost:${SMTP_PORT}`));
@@ -0,0 +1,198 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ComplianceAlert } from '../src/types';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS, deliver, DeliveryRecord, isThrottled, maskSecrets, NotificationChannel,
+  NotificationSettings, restoreSecrets, routeAlert, signWebhook, validateNotificationSettings, WebhookChannel,
+} from './notifications';
+
+const alert: ComplianceAlert = {
+  id: 'ALT-1',
+  type: 'Spoofing',
+  severity: 'Critical',
+  status: 'New',
+  symbol: 'AAPL',
+  trader: { id: 'T1', name: 'Pat Trader', email: '', firm: 'Example Securities', registrationDate: '' },
+  timestamp: '2025-03-03T15:00:00.000Z',
+  description: 'Layered orders cancelled before execution',
+  detectedBy: 'Test',
+  investigationNotes: '',
+  timeline: [],
+};
+
+const webhook = (url: string, extra: Partial<WebhookChannel> = {}): WebhookChannel =>
+  ({ id: 'hook', name: 'Hook', kind: 'webhook', enabled: true, url, ...extra });
+
+const settingsWith = (channels: NotificationChannel[], extra: Partial<NotificationSettings> = {}): NotificationSettings => ({
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  channels,
+  rules: [{ id: 'all', name: 'All', enabled: true, severities: [], types: [], symbols: [], channelIds: channels.map(c => c.id) }],
+  retry: { attempts: 3, backoffMs: 0 },
+  ...extra,
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('validateNotificationSettings', () => {
+  it.each([
+    'http://127.0.0.1/',
+    'http://2130706433/',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/',
+    'http://[::]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:7f00:1]/',
+    'http://[0:0:0:0:0:ffff:a9fe:a9fe]/',
+    'http://[64:ff9b::a9fe:a9fe]/',
+    'http://[2002:c0a8:101::1]/',
+    'http://[fe80::1]/',
+    'http://[fd00::1]/',
+  ])('refuses the internal address in %s', url => {
+    expect(validateNotificationSettings(settingsWith([webhook(url)])).join()).toContain('is an internal address');
+  });
+
+  it.each(['https://hooks.example.com/alerts', 'http://[2606:4700:4700::1111]/', 'http://[::ffff:8.8.8.8]/'])('accepts %s', url => {
+    expect(validateNotificationSettings(settingsWith([webhook(url)]))).toEqual([]);
+  });
+
+  it('only accepts listed hosts when an allow-list is set', () => {
+    vi.stubEnv('NOTIFICATION_ALLOWED_HOSTS', 'hooks.slack.com, *.example.com');
+
+    expect(validateNotificationSettings(settingsWith([webhook('https://hooks.slack.com/x')]))).toEqual([]);
+    expect(validateNotificationSettings(settingsWith([webhook('https://ci.example.com/x')]))).toEqual([]);
+    expect(validateNotificationSettings(settingsWith([webhook('https://example.org/x')])).join())
+      .toContain('not in NOTIFICATION_ALLOWED_HOSTS');
+  });
+});
+
+describe('notification rule validation', () => {
+  const withRule = (rule: Record<string, unknown>) => settingsWith([webhook('https://a.example.com')], {
+    rules: [{ id: 'r1', name: 'Rule', enabled: true, severities: [], types: [], symbols: [], channelIds: ['hook'], ...rule }] as NotificationSettings['rules'],
+  });
+
+  it('requires severities, types and symbols to be lists', () => {
+    expect(validateNotificationSettings(withRule({ types: undefined, symbols: 'AAPL' }))).toEqual([
+      'Rule r1: types must be a list (empty matches everything)',
+      'Rule r1: symbols must be a list (empty matches everything)',
+    ]);
+  });
+
+  it('refuses unknown severities and alert types', () => {
+    expect(validateNotificationSettings(withRule({ severities: ['Extreme'], types: ['Fraud'] }))).toEqual([
+      'Rule r1: unknown severity "Extreme"',
+      'Rule r1: unknown alert type "Fraud"',
+    ]);
+  });
+
+  it('refuses rules that are not objects', () => {
+    const settings = { ...withRule({}), rules: [null] } as unknown as NotificationSettings;
+    expect(validateNotificationSettings(settings)).toEqual(['Rule 1: must be an object']);
+  });
+});
+
+describe('routeAlert', () => {
+  it('sends one delivery per enabled channel, however many rules match', () => {
+    const channels = [webhook('https://a.example.com', { id: 'a' }), webhook('https://b.example.com', { id: 'b', enabled: false })];
+    const settings = settingsWith(channels, {
+      rules: [
+        { id: 'critical', name: 'Critical', enabled: true, severities: ['Critical'], types: [], symbols: [], channelIds: ['a', 'b'] },
+        { id: 'aapl', name: 'AAPL', enabled: true, severities: [], types: [], symbols: ['aapl'], channelIds: ['a'] },
+        { id: 'wash', name: 'Wash', enabled: true, severities: [], types: ['Wash Trading'], symbols: [], channelIds: ['a'] },
+      ],
+    });
+
+    expect(routeAlert(alert, settings).map(({ channel, ruleIds }) => [channel.id, ruleIds])).toEqual([['a', ['critical', 'aapl']]]);
+  });
+});
+
+describe('isThrottled', () => {
+  it('counts sent deliveries to the channel within the window', () => {
+    const channel = webhook('https://a.example.com', { throttle: { maxPerWindow: 2, windowMinutes: 10 } });
+    const sent = (timestamp: string): DeliveryRecord =>
+      ({ id: timestamp, timestamp, alertId: 'ALT-0', channelId: 'hook', ruleIds: [], status: 'sent', attempts: 1 });
+    const now = new Date('2025-03-03T15:00:00Z');
+
+    expect(isThrottled(channel, [sent('2025-03-03T14:55:00Z'), sent('2025-03-03T14:40:00Z')], now)).toBe(false);
+    expect(isThrottled(channel, [sent('2025-03-03T14:55:00Z'), sent('2025-03-03T14:58:00Z')], now)).toBe(true);
+  });
+});
+
+describe('secrets', () => {
+  it('masks secrets and restores them only for the same destination', () => {
+    const stored = settingsWith([webhook('https://a.example.com/hook', { secret: 'shh' })]);
+    const masked = maskSecrets(stored);
+    expect((masked.channels[0] as WebhookChannel).secret).toBe('********');
+
+    expect((restoreSecrets(masked, stored).channels[0] as WebhookChannel).secret).toBe('shh');
+    const moved = { ...masked, channels: [{ ...masked.channels[0], url: 'https://evil.example.com/' } as WebhookChannel] };
+    expect((restoreSecrets(moved, stored).channels[0] as WebhookChannel).secret).toBeUndefined();
+  });
+});
+
+describe('deliver', () => {
+  let server: Server;
+  let url: string;
+  const received: { request: IncomingMessage; body: string }[] = [];
+  let statuses: number[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        received.push({ request, body });
+        const status = statuses.shift() ?? 200;
+        response.writeHead(status, status === 302 ? { Location: 'http://169.254.169.254/' } : {}).end('reply');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  afterEach(() => {
+    received.length = 0;
+    statuses = [];
+  });
+
+  it('does not send to internal addresses unless they are listed', async () => {
+    const record = await deliver(webhook(url), alert, ['all'], settingsWith([webhook(url)]));
+
+    expect(record).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(record.error).toContain('internal address');
+    expect(received).toHaveLength(0);
+  });
+
+  it('signs webhook bodies', async () => {
+    vi.stubEnv('NOTIFICATION_ALLOWED_HOSTS', '127.0.0.1');
+    const channel = webhook(url, { secret: 'shh' });
+    const record = await deliver(channel, alert, ['all'], settingsWith([channel]));
+
+    expect(record).toMatchObject({ status: 'sent', attempts: 1 });
+    const [{ request, body }] = received;
+    expect(JSON.parse(body).alert.id).toBe('ALT-1');
+    expect(request.headers['x-signature-256']).toBe(signWebhook('shh', request.headers['x-signature-timestamp'] as string, body));
+  });
+
+  it('retries server errors', async () => {
+    vi.stubEnv('NOTIFICATION_ALLOWED_HOSTS', '127.0.0.1');
+    statuses = [503, 500];
+    const record = await deliver(webhook(url), alert, ['all'], settingsWith([webhook(url)]));
+
+    expect(record).toMatchObject({ status: 'sent', attempts: 3 });
+  });
+
+  it('does not follow redirects', async () => {
+    vi.stubEnv('NOTIFICATION_ALLOWED_HOSTS', '127.0.0.1');
+    statuses = [302];
+    const record = await deliver(webhook(url), alert, ['all'], settingsWith([webhook(url)]));
+
+    expect(record).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(record.error).toContain('redirects are not followed');
+    expect(received).toHaveLength(1);
+  });
+});
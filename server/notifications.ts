@@ -0,0 +1,576 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { isIP, LookupFunction } from 'node:net';
+import { AlertType, ComplianceAlert, Severity } from '../src/types';
+import { AlertRepository } from '../src/services/alertRepository';
+import { sendEmail, SmtpSettings } from './smtp';
+
+export type ChannelKind = 'webhook' | 'slack' | 'teams' | 'email';
+
+interface ChannelBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // At most this many notifications per window; the rest are logged as throttled
+  throttle?: { maxPerWindow: number; windowMinutes: number };
+}
+
+// Generic JSON webhook, signed with HMAC-SHA256 when a secret is set
+export interface WebhookChannel extends ChannelBase {
+  kind: 'webhook';
+  url: string;
+  secret?: string;
+}
+
+// Slack incoming webhook or Teams connector / workflow webhook
+export interface ChatChannel extends ChannelBase {
+  kind: 'slack' | 'teams';
+  url: string;
+}
+
+export interface EmailChannel extends ChannelBase {
+  kind: 'email';
+  smtp: SmtpSettings;
+  from: string;
+  to: string[];
+}
+
+export type NotificationChannel = WebhookChannel | ChatChannel | EmailChannel;
+
+// Sends matching alerts to its channels. Empty lists match everything.
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severities: Severity[];
+  types: AlertType[];
+  symbols: string[];
+  channelIds: string[];
+}
+
+export interface NotificationSettings {
+  channels: NotificationChannel[];
+  rules: NotificationRule[];
+  // Webhook and chat deliveries are retried on network errors, 408/429 and 5xx
+  retry: { attempts: number; backoffMs: number };
+  // Links in messages open the dashboard filtered to the alert
+  dashboardUrl?: string;
+}
+
+export type DeliveryStatus = 'sent' | 'failed' | 'throttled';
+
+export interface DeliveryRecord {
+  id: string;
+  timestamp: string;
+  alertId: string;
+  channelId: string;
+  ruleIds: string[];
+  status: DeliveryStatus;
+  attempts: number;
+  error?: string;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  channels: [],
+  rules: [],
+  retry: { attempts: 3, backoffMs: 1000 },
+};
+
+const SETTINGS_META_KEY = 'notificationSettings';
+const DELIVERIES_META_KEY = 'notificationDeliveries';
+const MAX_LOGGED_DELIVERIES = 1000;
+const SECRET_MASK = '********';
+const HTTP_TIMEOUT_MS = 10_000;
+const CHANNEL_KINDS: ChannelKind[] = ['webhook', 'slack', 'teams', 'email'];
+const SEVERITIES: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+const ALERT_TYPES: AlertType[] = ['Market Manipulation', 'Wash Trading', 'Spoofing', 'Insider Trading', 'Position Limit Breach'];
+const SEVERITY_COLORS: Record<Severity, string> = { Critical: 'B91C1C', High: 'EA580C', Medium: 'CA8A04', Low: '2563EB' };
+
+export class DeliveryError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+// Comma-separated hosts notifications may go to, e.g. "hooks.slack.com,*.webhook.office.com,smtp.example.com".
+// Without it any public host is allowed but internal addresses never are, so a channel (and its test
+// endpoint) can't be used to reach services inside the network.
+const allowedHosts = () =>
+  (process.env.NOTIFICATION_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+const isListedHost = (host: string, listed: string[]) => listed.some(entry =>
+  entry.startsWith('*.') ? host.endsWith(entry.slice(1)) : host === entry);
+
+// This network, loopback, private, shared, link-local, benchmarking, multicast and reserved ranges
+function isInternalIPv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 || (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) || (a === 172 && b >= 16 && b < 32) || (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// The 16 bytes of an IPv6 address in any notation ("::ffff:7f00:1", "::ffff:127.0.0.1", "fe80::1%eth0")
+function ipv6Bytes(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (isIP(dotted[2]) !== 4) return null;
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const groups = (part: string) => part === '' ? [] : part.split(':');
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const words = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!words.every(word => /^[0-9a-f]{1,4}$/.test(word))) return null;
+  return words.flatMap(word => [parseInt(word, 16) >> 8, parseInt(word, 16) & 0xff]);
+}
+
+// Internal IPv4 ranges, also when embedded in IPv6 (mapped, translated, 6to4), plus IPv6's own loopback,
+// unspecified, unique-local, link-local, site-local and multicast ranges. NAT64 and Teredo addresses are refused
+// outright, as the IPv4 host behind them can't be told for certain. Anything that doesn't parse counts as internal.
+function isInternalAddress(address: string): boolean {
+  if (isIP(address) === 4) return isInternalIPv4(address.split('.').map(Number));
+  const bytes = ipv6Bytes(address);
+  if (!bytes) return true;
+  const zeros = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  const word = (index: number) => (bytes[index * 2] << 8) | bytes[index * 2 + 1];
+
+  // ::ffff:0:0/96 (mapped) and ::ffff:0:0:0/96 (translated)
+  if (zeros(0, 10) && word(5) === 0xffff) return isInternalIPv4(bytes.slice(12));
+  if (zeros(0, 8) && word(4) === 0xffff && word(5) === 0) return isInternalIPv4(bytes.slice(12));
+  // ::, ::1 and the deprecated IPv4-compatible ::/96
+  if (zeros(0, 12)) return true;
+  // 64:ff9b::/96 and 64:ff9b:1::/48
+  if (word(0) === 0x64 && word(1) === 0xff9b) return true;
+  // 2001::/32
+  if (word(0) === 0x2001 && word(1) === 0) return true;
+  // 2002::/16 carries an IPv4 address in its next 32 bits
+  if (word(0) === 0x2002) return isInternalIPv4(bytes.slice(2, 6));
+  return (bytes[0] & 0xfe) === 0xfc || (bytes[0] === 0xfe && bytes[1] >= 0x80) || bytes[0] === 0xff;
+}
+
+const hostOf = (url: string) => new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+
+// What can be told without resolving the name, for validating settings
+function targetProblem(host: string): string | undefined {
+  const listed = allowedHosts();
+  if (listed.length > 0) {
+    return isListedHost(host, listed) ? undefined : `${host} is not in NOTIFICATION_ALLOWED_HOSTS`;
+  }
+  return isIP(host) && isInternalAddress(host) ? `${host} is an internal address` : undefined;
+}
+
+// Checked again before every delivery, since a name can be pointed somewhere else after it was saved.
+// Returns the checked address to connect to, so the name isn't resolved a second time (and possibly to
+// somewhere else) when connecting; undefined for allow-listed hosts, which are trusted however they resolve.
+async function checkTarget(host: string): Promise<string | undefined> {
+  const problem = targetProblem(host);
+  if (problem) throw new DeliveryError(problem, false);
+  if (allowedHosts().length > 0) return undefined;
+  if (isIP(host)) return host;
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch (error) {
+    throw new DeliveryError(`Could not resolve ${host}: ${(error as Error).message}`, true);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+    throw new DeliveryError(`${host} resolves to an internal address; list it in NOTIFICATION_ALLOWED_HOSTS to send there`, false);
+  }
+  return addresses[0].address;
+}
+
+// Answers every lookup with the given address; TLS still checks the certificate against the host name
+function pinnedLookup(address: string): LookupFunction {
+  const family = isIP(address);
+  return (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  };
+}
+
+export function validateNotificationSettings(settings: NotificationSettings): string[] {
+  const errors: string[] = [];
+  const channelIds = new Set<string>();
+  settings.channels.forEach((channel, index) => {
+    const label = `Channel ${channel.id || index + 1}`;
+    if (!channel.id) errors.push(`Channel ${index + 1}: id is required`);
+    if (channelIds.has(channel.id)) errors.push(`${label}: id is used more than once`);
+    channelIds.add(channel.id);
+    if (!CHANNEL_KINDS.includes(channel.kind)) errors.push(`${label}: kind must be one of ${CHANNEL_KINDS.join(', ')}`);
+    if (channel.kind === 'email') {
+      if (!channel.smtp?.host || !Number.isInteger(channel.smtp.port)) errors.push(`${label}: smtp.host and smtp.port are required`);
+      const problem = channel.smtp?.host && targetProblem(channel.smtp.host.toLowerCase());
+      if (problem) errors.push(`${label}: ${problem}`);
+      if (!channel.from) errors.push(`${label}: from is required`);
+      if (!Array.isArray(channel.to) || channel.to.length === 0) errors.push(`${label}: at least one recipient is required`);
+    } else if (CHANNEL_KINDS.includes(channel.kind)) {
+      try {
+        if (!/^https?:$/.test(new URL(channel.url).protocol)) throw new Error();
+        const problem = targetProblem(hostOf(channel.url));
+        if (problem) errors.push(`${label}: ${problem}`);
+      } catch {
+        errors.push(`${label}: url must be an http(s) URL`);
+      }
+    }
+    if (channel.throttle && !(channel.throttle.maxPerWindow >= 1 && channel.throttle.windowMinutes > 0)) {
+      errors.push(`${label}: throttle needs maxPerWindow >= 1 and windowMinutes > 0`);
+    }
+  });
+
+  settings.rules.forEach((rule, index) => {
+    if (typeof rule !== 'object' || rule === null) {
+      errors.push(`Rule ${index + 1}: must be an object`);
+      return;
+    }
+    const label = `Rule ${rule.id || index + 1}`;
+    if (!rule.id) errors.push(`Rule ${index + 1}: id is required`);
+    // Stored settings are used as they are, so a missing list would break routing for every alert
+    const lists: [string, string, unknown, (value: unknown) => boolean][] = [
+      ['severities', 'severity', rule.severities, value => SEVERITIES.includes(value as Severity)],
+      ['types', 'alert type', rule.types, value => ALERT_TYPES.includes(value as AlertType)],
+      ['symbols', 'symbol', rule.symbols, value => typeof value === 'string' && value.trim() !== ''],
+    ];
+    lists.forEach(([field, noun, list, known]) => {
+      if (!Array.isArray(list)) {
+        errors.push(`${label}: ${field} must be a list (empty matches everything)`);
+        return;
+      }
+      const unknown = list.find(value => !known(value));
+      if (unknown !== undefined) errors.push(`${label}: unknown ${noun} "${String(unknown)}"`);
+    });
+    if (!Array.isArray(rule.channelIds) || rule.channelIds.length === 0) errors.push(`${label}: at least one channel is required`);
+    (rule.channelIds || []).filter(id => !channelIds.has(id)).forEach(id => errors.push(`${label}: unknown channel "${id}"`));
+  });
+
+  if (!(Number.isInteger(settings.retry?.attempts) && settings.retry.attempts >= 1 && settings.retry.backoffMs >= 0)) {
+    errors.push('retry needs attempts >= 1 and backoffMs >= 0');
+  }
+  return errors;
+}
+
+export function ruleMatches(rule: NotificationRule, alert: ComplianceAlert): boolean {
+  return rule.enabled &&
+    (rule.severities.length === 0 || rule.severities.includes(alert.severity)) &&
+    (rule.types.length === 0 || rule.types.includes(alert.type)) &&
+    (rule.symbols.length === 0 || (!!alert.symbol && rule.symbols.map(s => s.toUpperCase()).includes(alert.symbol)));
+}
+
+// One delivery per channel, however many rules route the alert there
+export function routeAlert(alert: ComplianceAlert, settings: NotificationSettings): { channel: NotificationChannel; ruleIds: string[] }[] {
+  const routes = new Map<string, string[]>();
+  settings.rules.filter(rule => ruleMatches(rule, alert)).forEach(rule => {
+    rule.channelIds.forEach(channelId => routes.set(channelId, [...(routes.get(channelId) || []), rule.id]));
+  });
+  return [...routes.entries()]
+    .map(([channelId, ruleIds]) => ({ channel: settings.channels.find(channel => channel.id === channelId)!, ruleIds }))
+    .filter(({ channel }) => channel?.enabled);
+}
+
+export function isThrottled(channel: NotificationChannel, log: DeliveryRecord[], now: Date): boolean {
+  if (!channel.throttle) return false;
+  const since = now.getTime() - channel.throttle.windowMinutes * 60_000;
+  const sent = log.filter(record =>
+    record.channelId === channel.id && record.status === 'sent' && new Date(record.timestamp).getTime() >= since);
+  return sent.length >= channel.throttle.maxPerWindow;
+}
+
+function alertLink(alert: ComplianceAlert, settings: NotificationSettings): string | undefined {
+  if (!settings.dashboardUrl) return undefined;
+  const url = new URL(settings.dashboardUrl);
+  url.searchParams.set('q', `id:${alert.id}`);
+  return url.toString();
+}
+
+function headline(alert: ComplianceAlert): string {
+  return `${alert.severity} ${alert.type} alert ${alert.id}` + (alert.symbol ? ` on ${alert.symbol}` : '');
+}
+
+function facts(alert: ComplianceAlert): [string, string][] {
+  return [
+    ['Trader', `${alert.trader.name} (${alert.trader.id})`],
+    ['Firm', alert.trader.firm],
+    ['Symbol', alert.symbol || '-'],
+    ['Status', alert.status],
+    ['Detected', new Date(alert.timestamp).toISOString()],
+    ['Detected by', alert.detectedBy],
+  ];
+}
+
+export function buildWebhookPayload(alert: ComplianceAlert, settings: NotificationSettings, now: Date) {
+  return {
+    event: 'alert.created',
+    sentAt: now.toISOString(),
+    link: alertLink(alert, settings),
+    alert: {
+      id: alert.id,
+      type: alert.type,
+      severity: alert.severity,
+      status: alert.status,
+      symbol: alert.symbol,
+      ruleId: alert.ruleId,
+      timestamp: alert.timestamp,
+      description: alert.description,
+      detectedBy: alert.detectedBy,
+      trader: { id: alert.trader.id, name: alert.trader.name, firm: alert.trader.firm },
+    },
+  };
+}
+
+export function buildSlackPayload(alert: ComplianceAlert, settings: NotificationSettings) {
+  const link = alertLink(alert, settings);
+  return {
+    text: `${headline(alert)}: ${alert.description}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: headline(alert) } },
+      { type: 'section', text: { type: 'mrkdwn', text: alert.description } },
+      { type: 'section', fields: facts(alert).map(([name, value]) => ({ type: 'mrkdwn', text: `*${name}*\n${value}` })) },
+      ...(link ? [{ type: 'section', text: { type: 'mrkdwn', text: `<${link}|Open in dashboard>` } }] : []),
+    ],
+  };
+}
+
+// Office 365 connector card; also accepted by Teams workflow webhooks
+export function buildTeamsPayload(alert: ComplianceAlert, settings: NotificationSettings) {
+  const link = alertLink(alert, settings);
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    summary: headline(alert),
+    themeColor: SEVERITY_COLORS[alert.severity],
+    title: headline(alert),
+    text: alert.description,
+    sections: [{ facts: facts(alert).map(([name, value]) => ({ name, value })) }],
+    ...(link ? {
+      potentialAction: [{ '@type': 'OpenUri', name: 'Open in dashboard', targets: [{ os: 'default', uri: link }] }],
+    } : {}),
+  };
+}
+
+export function buildEmailText(alert: ComplianceAlert, settings: NotificationSettings): string {
+  const link = alertLink(alert, settings);
+  return [
+    headline(alert),
+    '',
+    alert.description,
+    '',
+    ...facts(alert).map(([name, value]) => `${name}: ${value}`),
+    ...(link ? ['', `Open in dashboard: ${link}`] : []),
+  ].join('\n');
+}
+
+// Receivers recompute HMAC-SHA256(secret, "<timestamp>.<body>") and compare it with X-Signature-256
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// node:http rather than fetch, which can't be told which address to connect to. Redirects are not followed.
+function post(url: string, body: string, headers: Record<string, string>, address?: string): Promise<{ status: number; text: string }> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+    const request = send(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body), ...headers },
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      ...(address ? { lookup: pinnedLookup(address) } : {}),
+    }, response => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => { if (text.length < 200) text += chunk; });
+      response.on('end', () => resolve({ status: response.statusCode ?? 0, text }));
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string>): Promise<void> {
+  const address = await checkTarget(hostOf(url));
+  let response: { status: number; text: string };
+  try {
+    response = await post(url, body, headers, address);
+  } catch (error) {
+    throw new DeliveryError(`Request failed: ${(error as Error).message}`, true);
+  }
+  if (response.status >= 300 && response.status < 400) {
+    // A redirect could lead anywhere, including past checkTarget
+    throw new DeliveryError(`HTTP ${response.status}: redirects are not followed`, false);
+  }
+  if (response.status < 200 || response.status >= 300) {
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    throw new DeliveryError(`HTTP ${response.status}: ${response.text.slice(0, 200)}`, retryable);
+  }
+}
+
+async function deliverOnce(channel: NotificationChannel, alert: ComplianceAlert, settings: NotificationSettings, deliveryId: string, now: Date) {
+  switch (channel.kind) {
+    case 'webhook': {
+      const body = JSON.stringify(buildWebhookPayload(alert, settings, now));
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers: Record<string, string> = { 'X-Delivery-Id': deliveryId, 'X-Signature-Timestamp': timestamp };
+      if (channel.secret) headers['X-Signature-256'] = signWebhook(channel.secret, timestamp, body);
+      return postJson(channel.url, body, headers);
+    }
+    case 'slack':
+      return postJson(channel.url, JSON.stringify(buildSlackPayload(alert, settings)), {});
+    case 'teams':
+      return postJson(channel.url, JSON.stringify(buildTeamsPayload(alert, settings)), {});
+    case 'email': {
+      const address = await checkTarget(channel.smtp.host.toLowerCase());
+      try {
+        return await sendEmail(channel.smtp, {
+          from: channel.from,
+          to: channel.to,
+          subject: `[Compliance] ${headline(alert)}`,
+          text: buildEmailText(alert, settings),
+        }, address);
+      } catch (error) {
+        // Temporary SMTP failures (4xx replies, dropped connections) are worth another attempt
+        const code = (error as { code?: unknown }).code;
+        throw new DeliveryError((error as Error).message, typeof code !== 'number' || code < 500);
+      }
+    }
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Delivers with exponential backoff; never throws, the outcome is in the returned record
+export async function deliver(
+  channel: NotificationChannel,
+  alert: ComplianceAlert,
+  ruleIds: string[],
+  settings: NotificationSettings,
+  now: Date = new Date(),
+): Promise<DeliveryRecord> {
+  const record: DeliveryRecord = {
+    id: randomUUID(),
+    timestamp: now.toISOString(),
+    alertId: alert.id,
+    channelId: channel.id,
+    ruleIds,
+    status: 'failed',
+    attempts: 0,
+  };
+  while (record.attempts < settings.retry.attempts) {
+    record.attempts++;
+    try {
+      await deliverOnce(channel, alert, settings, record.id, now);
+      record.status = 'sent';
+      delete record.error;
+      return record;
+    } catch (error) {
+      record.error = (error as Error).message;
+      const retryable = !(error instanceof DeliveryError) || error.retryable;
+      if (!retryable || record.attempts >= settings.retry.attempts) break;
+      await sleep(settings.retry.backoffMs * 2 ** (record.attempts - 1));
+    }
+  }
+  return record;
+}
+
+export async function loadNotificationSettings(repository: AlertRepository): Promise<NotificationSettings> {
+  const stored = await repository.getMeta(SETTINGS_META_KEY);
+  if (!stored) return DEFAULT_NOTIFICATION_SETTINGS;
+
+  try {
+    return { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Stored notification settings are corrupt, notifications are off:', error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+export async function saveNotificationSettings(repository: AlertRepository, settings: NotificationSettings): Promise<void> {
+  await repository.setMeta(SETTINGS_META_KEY, JSON.stringify(settings));
+}
+
+export async function loadDeliveryLog(repository: AlertRepository): Promise<DeliveryRecord[]> {
+  const stored = await repository.getMeta(DELIVERIES_META_KEY);
+  if (!stored) return [];
+
+  try {
+    const log = JSON.parse(stored);
+    return Array.isArray(log) ? log : [];
+  } catch (error) {
+    console.error('Stored delivery log is corrupt, starting a new one:', error);
+    return [];
+  }
+}
+
+// Keeps the most recent deliveries only
+export async function appendDeliveryLog(repository: AlertRepository, records: DeliveryRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const log = [...(await loadDeliveryLog(repository)), ...records].slice(-MAX_LOGGED_DELIVERIES);
+  await repository.setMeta(DELIVERIES_META_KEY, JSON.stringify(log));
+}
+
+// Secrets are never sent back out; a masked value on update means "keep the stored one"
+export function maskSecrets(settings: NotificationSettings): NotificationSettings {
+  return {
+    ...settings,
+    channels: settings.channels.map(channel => {
+      if (channel.kind === 'webhook' && channel.secret) return { ...channel, secret: SECRET_MASK };
+      if (channel.kind === 'email' && channel.smtp.password) return { ...channel, smtp: { ...channel.smtp, password: SECRET_MASK } };
+      return channel;
+    }),
+  };
+}
+
+// Only kept while the channel still points at the same place: otherwise whoever may edit settings could send
+// the stored secret to a host of their choosing
+export function restoreSecrets(incoming: NotificationSettings, stored: NotificationSettings): NotificationSettings {
+  const previous = new Map(stored.channels.map(channel => [channel.id, channel]));
+  return {
+    ...incoming,
+    channels: incoming.channels.map(channel => {
+      const before = previous.get(channel.id);
+      if (channel.kind === 'webhook' && channel.secret === SECRET_MASK) {
+        const sameUrl = before?.kind === 'webhook' && before.url === channel.url;
+        return { ...channel, secret: sameUrl ? before.secret : undefined };
+      }
+      if (channel.kind === 'email' && channel.smtp?.password === SECRET_MASK) {
+        const sameServer = before?.kind === 'email' && before.smtp.host === channel.smtp.host && before.smtp.port === channel.smtp.port;
+        return { ...channel, smtp: { ...channel.smtp, password: sameServer ? before.smtp.password : undefined } };
+      }
+      return channel;
+    }),
+  };
+}
+
+// Routes newly created alerts to their channels, applying throttles, and records every outcome
+export async function notifyNewAlerts(
+  repository: AlertRepository,
+  alerts: ComplianceAlert[],
+  now: Date = new Date(),
+): Promise<DeliveryRecord[]> {
+  if (alerts.length === 0) return [];
+  const settings = await loadNotificationSettings(repository);
+  if (settings.rules.length === 0) return [];
+
+  const log = await loadDeliveryLog(repository);
+  const records: DeliveryRecord[] = [];
+  for (const alert of alerts) {
+    for (const { channel, ruleIds } of routeAlert(alert, settings)) {
+      const record = isThrottled(channel, [...log, ...records], now)
+        ? { id: randomUUID(), timestamp: now.toISOString(), alertId: alert.id, channelId: channel.id, ruleIds, status: 'throttled' as const, attempts: 0 }
+        : await deliver(channel, alert, ruleIds, settings, now);
+      if (record.status === 'failed') {
+        console.error(`Notification of ${alert.id} via ${channel.id} failed after ${record.attempts} attempt(s): ${record.error}`);
+      }
+      records.push(record);
+    }
+  }
+  await appendDeliveryLog(repository, records);
+  return records;
+}
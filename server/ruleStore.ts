@@ -0,0 +1,22 @@
+import { AlertRepository } from '../src/services/alertRepository';
+import { DEFAULT_RULES, DetectionRule } from '../src/services/detectionRules';
+
+const RULES_META_KEY = 'detectionRules';
+
+// Rules are small and always read as a whole, so they live in the repository's metadata
+export async function loadStoredRules(repository: AlertRepository): Promise<DetectionRule[]> {
+  const stored = await repository.getMeta(RULES_META_KEY);
+  if (!stored) return DEFAULT_RULES;
+
+  try {
+    const rules: DetectionRule[] = JSON.parse(stored);
+    return Array.isArray(rules) ? rules : DEFAULT_RULES;
+  } catch (error) {
+    console.error('Stored detection rules are corrupt, falling back to defaults:', error);
+    return DEFAULT_RULES;
+  }
+}
+
+export async function saveStoredRules(repository: AlertRepository, rules: DetectionRule[]): Promise<void> {
+  await repository.setMeta(RULES_META_KEY, JSON.stringify(rules));
+}
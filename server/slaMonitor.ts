@@ -0,0 +1,12 @@
+import { AlertRepository } from '../src/services/alertRepository';
+import { checkSlaBreaches } from '../src/services/sla';
+import { loadStoredSlaTargets } from './userStore';
+
+// Escalates alerts that missed their SLA so breaches are recorded even when nobody has the dashboard open
+export async function runSlaCheck(repository: AlertRepository, now: Date = new Date()): Promise<number> {
+  const breached = checkSlaBreaches(await repository.listAlerts(), await loadStoredSlaTargets(repository), now);
+  if (breached.length > 0) {
+    await repository.saveAlerts(breached);
+  }
+  return breached.length;
+}
@@ -0,0 +1,164 @@
+import { connect as connectTcp, Socket } from 'node:net';
+import { connect as connectTls, TLSSocket } from 'node:tls';
+import { hostname } from 'node:os';
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure?: boolean;
+  // Send over plain text even if the server doesn't offer STARTTLS (local relays and test stubs)
+  allowInsecure?: boolean;
+  username?: string;
+  password?: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+// Reads complete (possibly multi-line, "250-...") replies off the socket in order
+function createReplyReader(socket: Socket | TLSSocket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: { code: number; lines: string[] }[] = [];
+  const waiting: { resolve: (reply: { code: number; lines: string[] }) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const flush = () => {
+    while (replies.length > 0 && waiting.length > 0) waiting.shift()!.resolve(replies.shift()!);
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), lines });
+        lines = [];
+      }
+    }
+    flush();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(waiter => waiter.reject(error));
+  };
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', () => onError(new SmtpError('Connection closed by the SMTP server')));
+
+  return {
+    next(): Promise<{ code: number; lines: string[] }> {
+      if (replies.length > 0) return Promise.resolve(replies.shift()!);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.removeAllListeners('close');
+    },
+  };
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// Lines starting with "." are doubled so they aren't read as the end of the message
+function formatMessage(message: EmailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text.replace(/\r?\n/g, '\r\n').split('\r\n').map(line => line.startsWith('.') ? `.${line}` : line);
+  return [...headers, '', ...body].join('\r\n');
+}
+
+function open(settings: SmtpSettings, address = settings.host): Promise<Socket | TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = settings.secure
+      ? connectTls({ host: address, port: settings.port, servername: settings.host }, () => resolve(socket))
+      : connectTcp({ host: address, port: settings.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: Socket, host: string): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = connectTls({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+// Minimal SMTP submission client: EHLO, STARTTLS, AUTH PLAIN, one message, QUIT. `address` connects to an
+// address already resolved for settings.host; certificates are still checked against the host name.
+export async function sendEmail(settings: SmtpSettings, message: EmailMessage, address?: string): Promise<void> {
+  let socket = await open(settings, address);
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new SmtpError('SMTP server timed out')));
+  let reader = createReplyReader(socket);
+
+  const expect = async (codes: number[], step: string) => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`${step} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  };
+  const command = async (line: string, codes: number[], step = line.split(' ')[0]) => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, step);
+  };
+
+  try {
+    await expect([220], 'Greeting');
+    let capabilities = (await command(`EHLO ${hostname()}`, [250])).lines.map(line => line.toUpperCase());
+
+    if (!settings.secure) {
+      if (capabilities.some(line => line.startsWith('STARTTLS'))) {
+        await command('STARTTLS', [220]);
+        reader.detach();
+        socket = await upgrade(socket as Socket, settings.host);
+        reader = createReplyReader(socket);
+        capabilities = (await command(`EHLO ${hostname()}`, [250])).lines.map(line => line.toUpperCase());
+      } else if (!settings.allowInsecure) {
+        throw new SmtpError(`${settings.host} does not offer STARTTLS; set allowInsecure to send in plain text`);
+      }
+    }
+
+    if (settings.username) {
+      const credentials = Buffer.from(`\0${settings.username}\0${settings.password || ''}`, 'utf8').toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await command(`MAIL FROM:<${message.from}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251], `RCPT TO ${recipient}`);
+    }
+    await command('DATA', [354]);
+    await command(`${formatMessage(message)}\r\n.`, [250], 'Message');
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
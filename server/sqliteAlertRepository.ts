@@ -0,0 +1,192 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { Case, ComplianceAlert } from '../src/types';
+import {
+  AlertRecord, AlertRepository, assertAppendOnly, joinAlert, NotesRecord, splitAlert, TimelineRecord,
+  assertCaseAppendOnly, appendedEvents,
+} from '../src/services/alertRepository';
+
+// Each entry upgrades the schema by one version (tracked in PRAGMA user_version); append, never edit
+const MIGRATIONS: string[] = [
+  // v1: alerts, their timelines and notes, plus key/value metadata
+  `CREATE TABLE alerts (id TEXT PRIMARY KEY, record TEXT NOT NULL);
+   CREATE TABLE timeline (
+     alert_id TEXT NOT NULL, id TEXT NOT NULL, position INTEGER NOT NULL, event TEXT NOT NULL,
+     PRIMARY KEY (alert_id, id)
+   );
+   CREATE TABLE notes (alert_id TEXT PRIMARY KEY, notes TEXT NOT NULL, updated_at TEXT NOT NULL);
+   CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);`,
+  // v2: look alerts up by status without loading everything
+  `ALTER TABLE alerts ADD COLUMN status TEXT;
+   CREATE INDEX alerts_status ON alerts (status);`,
+  // v3: cases grouping related alerts
+  `CREATE TABLE cases (id TEXT PRIMARY KEY, record TEXT NOT NULL);`,
+];
+
+function migrate(db: Database) {
+  const [{ values }] = db.exec('PRAGMA user_version');
+  for (let version = Number(values[0][0]); version < MIGRATIONS.length; version++) {
+    db.exec('BEGIN');
+    try {
+      db.exec(MIGRATIONS[version]);
+      db.exec(`PRAGMA user_version = ${version + 1}`);
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+function queryAll(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Record<string, SqlValue>[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+const isRunning = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+// sql.js rewrites the whole file on every save, so two processes on one file silently drop each other's
+// writes. A lock file holding the owner's pid keeps a second one out; a lock left by a process that has
+// died is taken over.
+function lockDatabase(filePath: string): void {
+  const lockPath = `${filePath}.lock`;
+  mkdirSync(dirname(filePath), { recursive: true });
+  try {
+    writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    const owner = parseInt(readFileSync(lockPath, 'utf8'), 10);
+    if (Number.isInteger(owner) && owner !== process.pid && isRunning(owner)) {
+      throw new Error(`${filePath} is in use by process ${owner}. Only one process may open it - point the worker ` +
+        `at the API server with "apiUrl" instead (or delete ${lockPath} if that process is not using it).`);
+    }
+    writeFileSync(lockPath, String(process.pid));
+  }
+  process.on('exit', () => {
+    try {
+      if (readFileSync(lockPath, 'utf8') === String(process.pid)) unlinkSync(lockPath);
+    } catch {
+      // Already gone
+    }
+  });
+}
+
+// sql.js keeps the database in memory, so every write is flushed back to `filePath`
+export async function openSqliteAlertRepository(filePath: string): Promise<AlertRepository> {
+  lockDatabase(filePath);
+  const SQL = await initSqlJs();
+  const db = existsSync(filePath) ? new SQL.Database(readFileSync(filePath)) : new SQL.Database();
+  migrate(db);
+
+  const persist = () => {
+    mkdirSync(dirname(filePath), { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated database behind
+    writeFileSync(`${filePath}.tmp`, db.export());
+    renameSync(`${filePath}.tmp`, filePath);
+  };
+  persist();
+
+  const readTimeline = (alertId: string): TimelineRecord[] =>
+    queryAll(db, 'SELECT event, position FROM timeline WHERE alert_id = ?', [alertId])
+      .map(row => ({ ...JSON.parse(row.event as string), alertId, position: row.position as number }));
+
+  const readAlert = (record: AlertRecord): ComplianceAlert => {
+    const timeline = readTimeline(record.id);
+    const [notesRow] = queryAll(db, 'SELECT notes, updated_at FROM notes WHERE alert_id = ?', [record.id]);
+    const notes: NotesRecord | undefined = notesRow
+      ? { alertId: record.id, notes: notesRow.notes as string, updatedAt: notesRow.updated_at as string }
+      : undefined;
+    return joinAlert(record, timeline, notes);
+  };
+
+  const write = (statements: () => void) => {
+    db.exec('BEGIN');
+    try {
+      statements();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+    persist();
+  };
+
+  return {
+    async listAlerts() {
+      return queryAll(db, 'SELECT record FROM alerts')
+        .map(row => readAlert(JSON.parse(row.record as string)));
+    },
+
+    async getAlert(id: string) {
+      const [row] = queryAll(db, 'SELECT record FROM alerts WHERE id = ?', [id]);
+      return row ? readAlert(JSON.parse(row.record as string)) : null;
+    },
+
+    async saveAlerts(alerts: ComplianceAlert[]) {
+      write(() => {
+        alerts.forEach(alert => {
+          const { record, timeline, notes } = splitAlert(alert);
+          const stored = readTimeline(alert.id);
+          assertAppendOnly(alert.id, stored, timeline);
+          db.run('INSERT OR REPLACE INTO alerts (id, record, status) VALUES (?, ?, ?)',
+            [record.id, JSON.stringify(record), record.status]);
+          // Plain INSERT: an event id that is already stored fails the save instead of overwriting history
+          appendedEvents(alert.id, stored, timeline).forEach(({ alertId, position, ...event }) => {
+            db.run('INSERT INTO timeline (alert_id, id, position, event) VALUES (?, ?, ?, ?)',
+              [alertId, event.id, position, JSON.stringify(event)]);
+          });
+          db.run('INSERT OR REPLACE INTO notes (alert_id, notes, updated_at) VALUES (?, ?, ?)',
+            [notes.alertId, notes.notes, notes.updatedAt]);
+        });
+      });
+    },
+
+    async listCases() {
+      return queryAll(db, 'SELECT record FROM cases').map(row => JSON.parse(row.record as string) as Case);
+    },
+
+    async getCase(id: string) {
+      const [row] = queryAll(db, 'SELECT record FROM cases WHERE id = ?', [id]);
+      return row ? JSON.parse(row.record as string) as Case : null;
+    },
+
+    async saveCases(cases: Case[]) {
+      write(() => {
+        cases.forEach(caseRecord => {
+          const [row] = queryAll(db, 'SELECT record FROM cases WHERE id = ?', [caseRecord.id]);
+          assertCaseAppendOnly(row ? JSON.parse(row.record as string) : null, caseRecord);
+          db.run('INSERT OR REPLACE INTO cases (id, record) VALUES (?, ?)', [caseRecord.id, JSON.stringify(caseRecord)]);
+        });
+      });
+    },
+
+    async getMeta(key: string) {
+      const [row] = queryAll(db, 'SELECT value FROM meta WHERE key = ?', [key]);
+      return row ? (row.value as string) : null;
+    },
+
+    async setMeta(key: string, value: string) {
+      write(() => {
+        db.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, value]);
+      });
+    },
+  };
+}
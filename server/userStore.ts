@@ -0,0 +1,55 @@
+import { User } from '../src/types';
+import { AlertRepository } from '../src/services/alertRepository';
+import { DEFAULT_FOUR_EYES_POLICY, DEFAULT_USERS, FourEyesPolicy } from '../src/services/users';
+import { DEFAULT_SLA_TARGETS, SlaTargets } from '../src/services/sla';
+import { EMPTY_REPORTING_ENTITY, ReportingEntity } from '../src/services/regulatoryReports';
+
+const USERS_META_KEY = 'users';
+const FOUR_EYES_META_KEY = 'fourEyesPolicy';
+const SLA_META_KEY = 'slaTargets';
+const REPORTING_ENTITY_META_KEY = 'reportingEntity';
+
+async function loadMetaJson<T>(repository: AlertRepository, key: string, fallback: T): Promise<T> {
+  const stored = await repository.getMeta(key);
+  if (!stored) return fallback;
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error(`Stored ${key} is corrupt, falling back to defaults:`, error);
+    return fallback;
+  }
+}
+
+export async function loadStoredUsers(repository: AlertRepository): Promise<User[]> {
+  const users = await loadMetaJson(repository, USERS_META_KEY, DEFAULT_USERS);
+  return Array.isArray(users) && users.length > 0 ? users : DEFAULT_USERS;
+}
+
+export async function saveStoredUsers(repository: AlertRepository, users: User[]): Promise<void> {
+  await repository.setMeta(USERS_META_KEY, JSON.stringify(users));
+}
+
+export async function loadStoredFourEyesPolicy(repository: AlertRepository): Promise<FourEyesPolicy> {
+  return { ...DEFAULT_FOUR_EYES_POLICY, ...(await loadMetaJson(repository, FOUR_EYES_META_KEY, {})) };
+}
+
+export async function saveStoredFourEyesPolicy(repository: AlertRepository, policy: FourEyesPolicy): Promise<void> {
+  await repository.setMeta(FOUR_EYES_META_KEY, JSON.stringify(policy));
+}
+
+export async function loadStoredSlaTargets(repository: AlertRepository): Promise<SlaTargets> {
+  return { ...DEFAULT_SLA_TARGETS, ...(await loadMetaJson(repository, SLA_META_KEY, {})) };
+}
+
+export async function saveStoredSlaTargets(repository: AlertRepository, targets: SlaTargets): Promise<void> {
+  await repository.setMeta(SLA_META_KEY, JSON.stringify(targets));
+}
+
+export async function loadStoredReportingEntity(repository: AlertRepository): Promise<ReportingEntity> {
+  return { ...EMPTY_REPORTING_ENTITY, ...(await loadMetaJson(repository, REPORTING_ENTITY_META_KEY, {})) };
+}
+
+export async function saveStoredReportingEntity(repository: AlertRepository, entity: ReportingEntity): Promise<void> {
+  await repository.setMeta(REPORTING_ENTITY_META_KEY, JSON.stringify(entity));
+}
@@ -0,0 +1,21 @@
+import { AlertRepository } from '../src/services/alertRepository';
+import { DEFAULT_WATCHLIST, Watchlist } from '../src/services/watchlist';
+
+const WATCHLIST_META_KEY = 'watchlist';
+
+export async function loadStoredWatchlist(repository: AlertRepository): Promise<Watchlist> {
+  const stored = await repository.getMeta(WATCHLIST_META_KEY);
+  if (!stored) return DEFAULT_WATCHLIST;
+
+  try {
+    const watchlist: Watchlist = JSON.parse(stored);
+    return Array.isArray(watchlist?.symbols) && Array.isArray(watchlist.groups) ? watchlist : DEFAULT_WATCHLIST;
+  } catch (error) {
+    console.error('Stored watchlist is corrupt, falling back to defaults:', error);
+    return DEFAULT_WATCHLIST;
+  }
+}
+
+export async function saveStoredWatchlist(repository: AlertRepository, watchlist: Watchlist): Promise<void> {
+  await repository.setMeta(WATCHLIST_META_KEY, JSON.stringify(watchlist));
+}
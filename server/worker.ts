@@ -0,0 +1,155 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { ComplianceAlert } from '../src/types';
+import { sealTimeline } from '../src/services/auditChain';
+import { createMarketDataProvider } from '../src/services/marketDataProvider';
+import { createFetchScheduler, FetchScheduler, SchedulerState } from '../src/services/fetchScheduler';
+import { DetectionRule } from '../src/services/detectionRules';
+import { Watchlist, watchlistSymbols } from '../src/services/watchlist';
+import {
+  createDetectionState, DetectionState, restoreDetectionState, runDetectionCycle, serializeDetectionState,
+} from '../src/services/detectionCycle';
+import { openSqliteAlertRepository } from './sqliteAlertRepository';
+import { configureAuditChainKey } from './chainKey';
+import { ingestAlerts } from './ingest';
+import { notifyNewAlerts } from './notifications';
+import { loadStoredRules } from './ruleStore';
+import { loadStoredWatchlist } from './watchlistStore';
+import { loadWorkerConfig, WorkerConfig } from './workerConfig';
+
+// Where the worker reads rules and the watchlist from and writes alerts to
+interface AlertTarget {
+  loadRules(): Promise<DetectionRule[]>;
+  loadWatchlist(): Promise<Watchlist>;
+  saveAlerts(alerts: ComplianceAlert[]): Promise<number>;
+}
+
+async function openDatabaseTarget(databasePath: string): Promise<AlertTarget> {
+  // Same key as the API server, or the two would write chains that don't verify against each other
+  configureAuditChainKey(databasePath);
+  const repository = await openSqliteAlertRepository(databasePath);
+  return {
+    loadRules: () => loadStoredRules(repository),
+    loadWatchlist: () => loadStoredWatchlist(repository),
+    async saveAlerts(detected) {
+      // The detectors ran in this process, so their alerts are ours to seal
+      const alerts = detected.map(sealTimeline);
+      const { created } = await ingestAlerts(repository, alerts);
+      await notifyNewAlerts(repository, alerts.filter(alert => created.includes(alert.id)));
+      return created.length;
+    },
+  };
+}
+
+function openApiTarget(apiUrl: string, apiToken: string): AlertTarget {
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiToken}` },
+    });
+    if (!response.ok) {
+      throw new Error(`${init?.method || 'GET'} ${path} failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+    return response.json() as Promise<T>;
+  };
+  return {
+    loadRules: () => request<DetectionRule[]>('/api/rules'),
+    loadWatchlist: () => request<Watchlist>('/api/watchlist'),
+    async saveAlerts(alerts) {
+      if (alerts.length === 0) return 0;
+      const result = await request<{ created: string[] }>('/api/alerts', { method: 'POST', body: JSON.stringify(alerts) });
+      return result.created.length;
+    },
+  };
+}
+
+interface WorkerState {
+  detection: DetectionState;
+  scheduler: Partial<SchedulerState>;
+}
+
+function loadState(statePath: string): WorkerState {
+  if (!existsSync(statePath)) return { detection: createDetectionState(), scheduler: {} };
+  try {
+    const stored = JSON.parse(readFileSync(statePath, 'utf8'));
+    return { detection: restoreDetectionState(stored), scheduler: stored.scheduler || {} };
+  } catch (error) {
+    console.error(`Worker state ${statePath} is corrupt, starting from scratch:`, error);
+    return { detection: createDetectionState(), scheduler: {} };
+  }
+}
+
+function saveState(statePath: string, state: DetectionState, scheduler: FetchScheduler) {
+  mkdirSync(dirname(statePath), { recursive: true });
+  const serialized = { ...serializeDetectionState(state), scheduler: scheduler.state };
+  writeFileSync(`${statePath}.tmp`, JSON.stringify(serialized, null, 2));
+  renameSync(`${statePath}.tmp`, statePath);
+}
+
+async function runCycle(config: WorkerConfig, target: AlertTarget, state: DetectionState, scheduler: FetchScheduler) {
+  const rules = await target.loadRules();
+  const watchlist = await target.loadWatchlist();
+  const symbols = config.symbols || watchlistSymbols(watchlist);
+  // Half the interval may be spent waiting for rate-limit tokens; the rest of the watchlist waits for the next cycle
+  const { quotes, alerts, deferred, intradayRefreshed } = await runDetectionCycle(
+    scheduler, symbols, state, { rules, traders: config.traders, watchlist }, config.intervalSeconds * 500
+  );
+  const saved = await target.saveAlerts(alerts);
+  saveState(config.statePath, state, scheduler);
+  console.log(
+    `[${new Date().toISOString()}] ${quotes.length} quotes, ${deferred.length} deferred, ` +
+    `${intradayRefreshed.length} intraday refreshed, ${alerts.length} alerts (${saved} new)`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const configIndex = args.indexOf('--config');
+  const configPath = configIndex >= 0 ? args[configIndex + 1] : args.find(arg => !arg.startsWith('--'));
+  if (!configPath) {
+    console.error('Usage: npm run worker -- --config <worker.config.json> [--once]');
+    process.exit(2);
+  }
+
+  const config = loadWorkerConfig(configPath);
+  const target = config.apiUrl ? openApiTarget(config.apiUrl, config.apiToken!) : await openDatabaseTarget(config.databasePath!);
+  const { detection: state, scheduler: schedulerState } = loadState(config.statePath);
+  // One provider and scheduler for the worker's lifetime, so the rate-limit budget and cache carry across cycles
+  const provider = createMarketDataProvider(config.provider);
+  if (!provider) throw new Error('Market data provider is not configured');
+  const scheduler = createFetchScheduler(provider, schedulerState);
+
+  if (args.includes('--once')) {
+    await runCycle(config, target, state, scheduler);
+    return;
+  }
+
+  // Cycles never overlap: the next one is scheduled only after the previous one finishes
+  let timer: NodeJS.Timeout | undefined;
+  let stopping = false;
+  const tick = async () => {
+    try {
+      await runCycle(config, target, state, scheduler);
+    } catch (error) {
+      console.error('Detection cycle failed:', error);
+    }
+    if (!stopping) {
+      timer = setTimeout(tick, config.intervalSeconds * 1000);
+    }
+  };
+  const stop = () => {
+    stopping = true;
+    clearTimeout(timer);
+    console.log('Worker stopped');
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`Detection worker polling ${config.symbols?.join(', ') || 'the watchlist'} every ${config.intervalSeconds}s`);
+  await tick();
+}
+
+main().catch(error => {
+  console.error('Worker failed:', error);
+  process.exit(1);
+});
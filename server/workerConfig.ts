@@ -0,0 +1,95 @@
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { ProviderSettings } from '../src/services/marketDataProvider';
+import { parseRecording } from '../src/services/replayProvider';
+import { parseTraderRegistry, TraderRegistry, EMPTY_REGISTRY } from '../src/services/traderRegistry';
+
+export interface WorkerConfig {
+  provider: ProviderSettings;
+  // Pins the polled symbols; otherwise the stored watchlist is polled
+  symbols?: string[];
+  intervalSeconds: number;
+  // Alerts and rules come from either a local database file or a running API server
+  databasePath?: string;
+  apiUrl?: string;
+  // Ingest token the API server was started with (ALERT_INGEST_TOKENS)
+  apiToken?: string;
+  statePath: string;
+  traders: TraderRegistry;
+}
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+// Relative paths in the config file are resolved against the file's own directory
+export function loadWorkerConfig(configPath: string): WorkerConfig {
+  const baseDir = dirname(resolve(configPath));
+  const pathFrom = (value: unknown, field: string) => {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error(`"${field}" must be a file path`);
+    }
+    return resolve(baseDir, value);
+  };
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read worker config ${configPath}: ${(error as Error).message}`);
+  }
+
+  const provider = raw.provider as Record<string, unknown> | undefined;
+  let providerSettings: ProviderSettings;
+  switch (provider?.kind) {
+    case 'alphaVantage': {
+      const apiKey = (provider.apiKey as string | undefined) || process.env.ALPHA_VANTAGE_API_KEY || '';
+      if (!apiKey) {
+        throw new Error('Alpha Vantage needs "provider.apiKey" or the ALPHA_VANTAGE_API_KEY variable');
+      }
+      providerSettings = { kind: 'alphaVantage', apiKey };
+      break;
+    }
+    case 'simulated':
+      providerSettings = { kind: 'simulated', seed: Number.isFinite(provider.seed) ? provider.seed as number : 42 };
+      break;
+    case 'replay': {
+      const recordingPath = pathFrom(provider.recordingFile, 'provider.recordingFile');
+      providerSettings = { kind: 'replay', recording: parseRecording(readFileSync(recordingPath, 'utf8')) };
+      break;
+    }
+    default:
+      throw new Error('"provider.kind" must be one of alphaVantage, simulated, replay');
+  }
+
+  if (raw.databasePath && raw.apiUrl) {
+    throw new Error('Set either "databasePath" or "apiUrl", not both');
+  }
+  const apiToken = (raw.apiToken as string | undefined) || process.env.ALERT_INGEST_TOKEN;
+  if (raw.apiUrl && !apiToken) {
+    throw new Error('Posting to "apiUrl" needs "apiToken" or the ALERT_INGEST_TOKEN variable');
+  }
+  const symbols = raw.symbols;
+  if (symbols !== undefined && (!Array.isArray(symbols) || symbols.some(symbol => typeof symbol !== 'string'))) {
+    throw new Error('"symbols" must be an array of tickers');
+  }
+  const intervalSeconds = raw.intervalSeconds === undefined ? DEFAULT_INTERVAL_SECONDS : Number(raw.intervalSeconds);
+  if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+    throw new Error('"intervalSeconds" must be a positive number');
+  }
+
+  let traders = EMPTY_REGISTRY;
+  if (raw.tradersFile !== undefined) {
+    const tradersPath = pathFrom(raw.tradersFile, 'tradersFile');
+    traders = parseTraderRegistry(tradersPath, readFileSync(tradersPath, 'utf8'));
+  }
+
+  return {
+    provider: providerSettings,
+    symbols: symbols?.map((symbol: string) => symbol.toUpperCase()),
+    intervalSeconds,
+    apiUrl: typeof raw.apiUrl === 'string' ? raw.apiUrl.replace(/\/$/, '') : undefined,
+    apiToken: raw.apiUrl ? apiToken : undefined,
+    databasePath: raw.apiUrl ? undefined : pathFrom(raw.databasePath ?? 'data/alerts.sqlite', 'databasePath'),
+    statePath: pathFrom(raw.statePath ?? 'data/worker-state.json', 'statePath'),
+    traders,
+  };
+}
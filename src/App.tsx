@@ -1,185 +1,508 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { 
   Search, Download, AlertTriangle, Clock, TrendingUp, 
-  BarChart3, ChevronDown, SortAsc, SortDesc, Settings, RefreshCw, ExternalLink
+  BarChart3, ChevronDown, SortAsc, SortDesc, Settings, RefreshCw, ExternalLink, History,
+  SlidersHorizontal, ScanSearch, Scale, Users, UserCog, Timer, FolderOpen, Copy, Bookmark, Link2,
+  Upload, Eye, CalendarClock, LogOut
 } from 'lucide-react';
-import { ComplianceAlert, Severity, Status } from './types';
+import { Case, ComplianceAlert, Severity, Status, Trader, User } from './types';
 import { generateMockAlerts } from './mockData';
 import AlertDetailModal from './components/AlertDetailModal';
 import SettingsModal from './components/SettingsModal';
-import { fetchMultipleStocks, fetchIntradayData, StockData } from './services/alphaVantage';
-import { generateAlertsFromStockData } from './services/alertGenerator';
+import ReplayModal from './components/ReplayModal';
+import RulesModal from './components/RulesModal';
+import OrderSurveillanceModal from './components/OrderSurveillanceModal';
+import PositionsModal from './components/PositionsModal';
+import InsiderTradingModal from './components/InsiderTradingModal';
+import TradersModal from './components/TradersModal';
+import TraderProfileModal from './components/TraderProfileModal';
+import UsersModal from './components/UsersModal';
+import CasesModal from './components/CasesModal';
+import BulkActionBar from './components/BulkActionBar';
+import ExportModal from './components/ExportModal';
+import ImportModal from './components/ImportModal';
+import WatchlistModal from './components/WatchlistModal';
+import { createMarketDataProvider, loadProviderSettings, ProviderSettings } from './services/marketDataProvider';
+import { createDetectionState, DetectionState, runDetectionCycle } from './services/detectionCycle';
+import { createFetchScheduler, loadSchedulerState, saveSchedulerState } from './services/fetchScheduler';
+import { loadBaselines, saveBaselines } from './services/statisticalBaseline';
+import { DetectionRule, loadRules, saveRules } from './services/detectionRules';
+import { loadTraderRegistry, saveTraderRegistry, TraderRegistry } from './services/traderRegistry';
+import { loadWatchlist, saveWatchlist, Watchlist, watchlistSymbols } from './services/watchlist';
+import { AlertRepository, SEEDED_META_KEY } from './services/alertRepository';
+import { openIndexedDbAlertRepository } from './services/indexedDbAlertRepository';
+import { createApiAlertRepository, importAlertsOnServer } from './services/apiAlertRepository';
+import { loadServerSettings, saveServerSettings } from './services/apiSettings';
+import { ApiClient } from './services/apiClient';
+import { ImportConflictStrategy, ImportRow } from './services/alertImport';
+import { sealTimeline } from './services/auditChain';
+import {
+  FourEyesPolicy, hasPermission, loadFourEyesPolicy, loadUsers, saveFourEyesPolicy, saveUsers, ROLE_LABELS,
+} from './services/users';
+import { AuthSession, Authenticator } from './services/auth';
+import { checkSlaBreaches, formatSlaRemaining, getSlaStatus, loadSlaTargets, saveSlaTargets, SlaTargets } from './services/sla';
+import { ALL_QUEUES, alertsInQueue, AlertQueue, openQueueCount, TEAM_QUEUE } from './services/assignment';
+import { groupIntoCases, suppressDuplicates } from './services/correlation';
+import {
+  applyAlertQuery, DEFAULT_SORT, parseAlertQuery, queryTermValues, setQueryTerm,
+} from './services/alertQuery';
+import { loadSavedViews, SavedView, saveSavedViews, viewFromUrl, viewToUrl } from './services/savedViews';
+import { STATUSES } from './services/alertActions';
 import toast from 'react-hot-toast';
 
-const STOCK_SYMBOLS = ['AAPL', 'TSLA', 'MSFT', 'GOOGL', 'AMZN'];
+const SEVERITIES: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+const QUERY_HELP = 'Free text searches id, trader, description and notes. Filters: severity:Critical,High status:New ' +
+  'type:Spoofing symbol:AAPL trader:name trader.firm:"Goldman Sachs" assignee:me|none case:any|none occurrences:>2 ' +
+  'rule:<id>; prefix with - to exclude. Dates: since:7d until:2024-01-31. Sort: sort:severity:asc (any field).';
 const REFRESH_INTERVAL = 60000; // 60 seconds
+// How long one cycle may wait for rate-limit tokens before deferring the rest of the watchlist
+const CYCLE_BUDGET = 30000;
+const SLA_CHECK_INTERVAL = 30000; // 30 seconds
 
-function App() {
-  const [apiKey, setApiKey] = useState<string>(() => {
-    return localStorage.getItem('alphaVantageApiKey') || '';
-  });
+// Merge with existing alerts: repeats of an open alert are folded into it, new ones are added with their
+// timelines sealed into the audit chain
+function mergeAlerts(existing: ComplianceAlert[], incoming: ComplianceAlert[]): ComplianceAlert[] {
+  const { fresh, updated } = suppressDuplicates(existing, incoming);
+  const updatedById = new Map(updated.map(alert => [alert.id, alert]));
+  const merged = existing.map(alert => updatedById.get(alert.id) || alert);
+  return [...merged, ...fresh.map(sealTimeline)].sort((a, b) =>
+    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+interface AppProps {
+  session: AuthSession;
+  authenticator: Authenticator;
+  // Set when the dashboard works on the API server's alerts (VITE_API_URL); null in browser-only mode
+  apiClient: ApiClient | null;
+  onSignOut: () => void;
+}
+
+function App({ session, authenticator, apiClient, onSignOut }: AppProps) {
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const provider = useMemo(() => createMarketDataProvider(providerSettings), [providerSettings]);
+  const scheduler = useMemo(
+    () => provider && createFetchScheduler(provider, loadSchedulerState(provider.kind)),
+    [provider]
+  );
+  // The cycle in flight, so a new one (after a provider switch or a manual refresh) waits for it
+  const cycleRef = useRef<Promise<void> | null>(null);
   const [alerts, setAlerts] = useState<ComplianceAlert[]>([]);
+  const alertsRef = useRef(alerts);
+  alertsRef.current = alerts;
+  const alertStoreRef = useRef<AlertRepository | null>(null);
+  // Against the API server the store is there from the start, so detections made before the first load go to it
+  const [apiStore] = useState(() => apiClient && createApiAlertRepository(apiClient));
+  // Last version of each alert written to the store, compared by reference to find edits
+  const persistedAlertsRef = useRef<Map<string, ComplianceAlert>>(new Map());
+  const [isStoreLoaded, setIsStoreLoaded] = useState(false);
   const [isUsingRealData, setIsUsingRealData] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [isWatchlistOpen, setIsWatchlistOpen] = useState(false);
+  const [isOrderSurveillanceOpen, setIsOrderSurveillanceOpen] = useState(false);
+  const [isPositionsOpen, setIsPositionsOpen] = useState(false);
+  const [isInsiderOpen, setIsInsiderOpen] = useState(false);
+  const [isTradersOpen, setIsTradersOpen] = useState(false);
+  const [profileTrader, setProfileTrader] = useState<Trader | null>(null);
+  const [isUsersOpen, setIsUsersOpen] = useState(false);
+  // Alerts being exported: the filtered list or the current selection
+  const [exportAlerts, setExportAlerts] = useState<ComplianceAlert[] | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // Until the server's users have loaded, only the signed-in user is known
+  const [users, setUsers] = useState<User[]>(() => apiClient ? [session.user] : loadUsers());
+  // The signed-in user; deactivating them takes their permissions away immediately
+  const currentUser = users.find(user => user.id === session.user.id && user.active) || null;
+  const [fourEyesPolicy, setFourEyesPolicy] = useState<FourEyesPolicy>(loadFourEyesPolicy);
+  const [slaTargets, setSlaTargets] = useState<SlaTargets>(loadSlaTargets);
+  const [now, setNow] = useState(() => new Date());
+  const [traderRegistry, setTraderRegistry] = useState<TraderRegistry>(loadTraderRegistry);
+  const traderRegistryRef = useRef(traderRegistry);
+  traderRegistryRef.current = traderRegistry;
+  const [rules, setRules] = useState<DetectionRule[]>(loadRules);
+  // Read through a ref so editing rules doesn't restart the refresh loop
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+  const [watchlist, setWatchlist] = useState<Watchlist>(loadWatchlist);
+  const watchlistRef = useRef(watchlist);
+  watchlistRef.current = watchlist;
   const [selectedAlert, setSelectedAlert] = useState<ComplianceAlert | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [severityFilter, setSeverityFilter] = useState<Severity | 'All'>('All');
-  const [statusFilter, setStatusFilter] = useState<Status | 'All'>('All');
-  const [sortBy, setSortBy] = useState<'time' | 'severity'>('time');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  // Alerts ticked in the grid for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [cases, setCases] = useState<Case[]>([]);
+  const persistedCasesRef = useRef(new Map<string, Case>());
+  const [isCasesOpen, setIsCasesOpen] = useState(false);
+  // A shared link (?view=&q=&queue=) decides the initial list
+  const [initialView] = useState(() => viewFromUrl(window.location.search));
+  const [queryText, setQueryText] = useState(initialView?.query || '');
+  const [queue, setQueue] = useState<AlertQueue>(initialView?.queue || ALL_QUEUES);
+  const [savedViews, setSavedViews] = useState<SavedView[]>(loadSavedViews);
+  const [activeViewName, setActiveViewName] = useState(initialView?.name || '');
   
-  const previousDataRef = useRef<Map<string, StockData>>(new Map());
-  const intradayDataRef = useRef<Map<string, { price: number; volume: number; timestamp: string }[]>>(new Map());
+  const [initialDetectionState] = useState(() => createDetectionState(loadBaselines(providerSettings.kind)));
+  const detectionStateRef = useRef<DetectionState>(initialDetectionState);
+
+  const runExclusive = useCallback(async (cycle: () => Promise<void>) => {
+    while (cycleRef.current) await cycleRef.current;
+    const running = cycle();
+    cycleRef.current = running;
+    try {
+      await running;
+    } finally {
+      cycleRef.current = null;
+    }
+  }, []);
+
+  // The API server's copy is the record: after every change, including a refused one, alerts and cases are
+  // reloaded from it (the server may have folded, grouped or escalated them too)
+  const reloadFromServer = useCallback(async () => {
+    if (!apiStore) return;
+    const [stored, storedCases] = await Promise.all([apiStore.listAlerts(), apiStore.listCases()]);
+    persistedAlertsRef.current = new Map(stored.map(alert => [alert.id, alert]));
+    persistedCasesRef.current = new Map(storedCases.map(caseRecord => [caseRecord.id, caseRecord]));
+    setAlerts(stored);
+    setCases(storedCases);
+    setSelectedAlert(prev => prev ? stored.find(alert => alert.id === prev.id) || null : null);
+  }, [apiStore]);
+
+  const reportServerError = useCallback((what: string, error: unknown) => {
+    console.error(`Error ${what}:`, error);
+    toast.error(`Could not ${what}: ${(error as Error).message}`);
+    reloadFromServer().catch(reloadError => console.error('Error reloading alerts:', reloadError));
+  }, [reloadFromServer]);
+
+  // Seeding only looks at the provider the dashboard started with; switching sources later seeds nothing
+  const startedWithProviderRef = useRef(provider !== null);
 
-  // Initialize with mock data if no API key
+  // Load stored alerts once; demo data is seeded a single time so it stays stable across reloads
   useEffect(() => {
-    if (!apiKey) {
-      setAlerts(generateMockAlerts());
-      setIsUsingRealData(false);
+    let cancelled = false;
+
+    const loadStoredAlerts = async () => {
+      try {
+        const store = apiStore || await openIndexedDbAlertRepository();
+        let stored = await store.listAlerts();
+        if (stored.length === 0 && !apiStore && !startedWithProviderRef.current && !(await store.getMeta(SEEDED_META_KEY))) {
+          stored = generateMockAlerts().map(sealTimeline);
+          await store.saveAlerts(stored);
+          await store.setMeta(SEEDED_META_KEY, new Date().toISOString());
+        }
+        const storedCases = await store.listCases();
+        const serverSettings = apiClient && await loadServerSettings(apiClient);
+        if (cancelled) return;
+        if (serverSettings) {
+          setUsers(serverSettings.users);
+          setFourEyesPolicy(serverSettings.fourEyesPolicy);
+          setSlaTargets(serverSettings.slaTargets);
+        }
+        alertStoreRef.current = store;
+        stored.forEach(alert => persistedAlertsRef.current.set(alert.id, alert));
+        storedCases.forEach(caseRecord => persistedCasesRef.current.set(caseRecord.id, caseRecord));
+        setAlerts(prev => apiStore ? stored : mergeAlerts(stored, prev));
+        setCases(storedCases);
+      } catch (error) {
+        console.error('Error opening alert store:', error);
+        if (apiStore) {
+          toast.error(`Could not load alerts from the API server: ${(error as Error).message}`);
+          return;
+        }
+        toast.error('Alert store unavailable - changes will not survive a reload');
+        if (!cancelled && !startedWithProviderRef.current) {
+          setAlerts(prev => mergeAlerts(generateMockAlerts(), prev));
+        }
+      } finally {
+        if (!cancelled) setIsStoreLoaded(true);
+      }
+    };
+
+    loadStoredAlerts();
+    return () => {
+      cancelled = true;
+    };
+  }, [apiStore, apiClient]);
+
+  // Write new and edited alerts back to the store
+  useEffect(() => {
+    const store = alertStoreRef.current;
+    if (!isStoreLoaded || !store) return;
+
+    const changed = alerts.filter(alert => persistedAlertsRef.current.get(alert.id) !== alert);
+    if (changed.length === 0) return;
+
+    changed.forEach(alert => persistedAlertsRef.current.set(alert.id, alert));
+    if (apiStore) {
+      apiStore.saveAlerts(changed).then(reloadFromServer).catch(error => reportServerError('save alert changes', error));
+      return;
+    }
+    store.saveAlerts(changed).catch(error => {
+      console.error('Error saving alerts:', error);
+      changed.forEach(alert => persistedAlertsRef.current.delete(alert.id));
+      toast.error('Could not save alert changes');
+    });
+  }, [alerts, isStoreLoaded, apiStore, reloadFromServer, reportServerError]);
+
+  // Keep the address bar in step with the list so it can be bookmarked or shared
+  useEffect(() => {
+    window.history.replaceState(null, '', viewToUrl({ name: activeViewName, query: queryText, queue }, window.location.href));
+  }, [activeViewName, queryText, queue]);
+
+  // Write new and edited cases back to the store
+  useEffect(() => {
+    const store = alertStoreRef.current;
+    if (!isStoreLoaded || !store) return;
+
+    const changed = cases.filter(caseRecord => persistedCasesRef.current.get(caseRecord.id) !== caseRecord);
+    if (changed.length === 0) return;
+
+    changed.forEach(caseRecord => persistedCasesRef.current.set(caseRecord.id, caseRecord));
+    if (apiStore) {
+      apiStore.saveCases(changed).then(reloadFromServer).catch(error => reportServerError('save case changes', error));
+      return;
+    }
+    store.saveCases(changed).catch(error => {
+      console.error('Error saving cases:', error);
+      changed.forEach(caseRecord => persistedCasesRef.current.delete(caseRecord.id));
+      toast.error('Could not save case changes');
+    });
+  }, [cases, isStoreLoaded, apiStore, reloadFromServer, reportServerError]);
+
+  // Pick up what other users, the worker and the server's SLA monitor changed
+  useEffect(() => {
+    if (!apiStore || !isStoreLoaded) return;
+
+    const interval = setInterval(() => {
+      reloadFromServer().catch(error => console.error('Error refreshing alerts:', error));
+    }, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [apiStore, isStoreLoaded, reloadFromServer]);
+
+  // Group related open alerts into cases as they arrive (the API server groups its own)
+  useEffect(() => {
+    if (!isStoreLoaded || apiStore) return;
+
+    const grouping = groupIntoCases(alerts, cases);
+    if (grouping.alerts.length === 0) return;
+
+    const alertsById = new Map(grouping.alerts.map(alert => [alert.id, alert]));
+    const casesById = new Map(grouping.cases.map(caseRecord => [caseRecord.id, caseRecord]));
+    setAlerts(prev => prev.map(alert => alertsById.get(alert.id) || alert));
+    setCases(prev => [
+      ...prev.map(caseRecord => casesById.get(caseRecord.id) || caseRecord),
+      ...grouping.cases.filter(caseRecord => !prev.some(c => c.id === caseRecord.id)),
+    ]);
+    setSelectedAlert(prev => prev ? alertsById.get(prev.id) || prev : null);
+  }, [alerts, cases, isStoreLoaded, apiStore]);
+
+  // Keep SLA countdowns current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), SLA_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Record an escalation the first time an alert misses its SLA (the API server's SLA monitor does this there)
+  useEffect(() => {
+    if (!isStoreLoaded || apiStore) return;
+
+    const breached = checkSlaBreaches(alerts, slaTargets, now);
+    if (breached.length === 0) return;
+
+    const byId = new Map(breached.map(alert => [alert.id, alert]));
+    setAlerts(prev => prev.map(alert => byId.get(alert.id) || alert));
+    setSelectedAlert(prev => prev ? byId.get(prev.id) || prev : null);
+    toast.error(`${breached.length} alert${breached.length === 1 ? '' : 's'} breached SLA and escalated`);
+  }, [alerts, slaTargets, now, isStoreLoaded, apiStore]);
+
+  // New detections join the alerts; the API server folds repeats itself, so there they are sent as they are
+  const addDetectedAlerts = useCallback((detected: ComplianceAlert[]) => {
+    if (!apiStore) {
+      setAlerts(prev => mergeAlerts(prev, detected));
+      return;
     }
-  }, [apiKey]);
+    if (detected.length === 0) return;
+    apiStore.saveAlerts(detected).then(reloadFromServer).catch(error => reportServerError('send new alerts', error));
+  }, [apiStore, reloadFromServer, reportServerError]);
 
-  // Fetch real data when API key is available
+  // Fetch real data when a market data source is available
   const fetchRealData = useCallback(async () => {
-    if (!apiKey) return;
+    if (!provider || !scheduler) return;
 
     setIsRefreshing(true);
     try {
-      // Fetch current stock quotes
-      const stockData = await fetchMultipleStocks(apiKey, STOCK_SYMBOLS);
-      
-      if (stockData.length === 0) {
-        toast.error('Failed to fetch stock data. Using demo data.');
-        setAlerts(generateMockAlerts());
-        setIsUsingRealData(false);
-        setIsRefreshing(false);
-        return;
-      }
+      // Symbols with recent stored alerts are fetched first
+      scheduler.recordAlerts(alertsRef.current);
+      // An empty watchlist falls back to whatever the source itself covers
+      const symbols = watchlistSymbols(watchlistRef.current);
+      const { quotes: stockData, alerts: newAlerts, deferred } = await runDetectionCycle(
+        scheduler,
+        symbols.length > 0 ? symbols : provider.defaultSymbols || [],
+        detectionStateRef.current,
+        { rules: rulesRef.current, traders: traderRegistryRef.current, watchlist: watchlistRef.current },
+        CYCLE_BUDGET
+      );
+      saveSchedulerState(provider.kind, scheduler.state);
+      saveBaselines(provider.kind, detectionStateRef.current.baselines);
 
-      // We'll fetch intraday data for first stock only to avoid rate limits
-      if (stockData.length > 0) {
-        const intraday = await fetchIntradayData(apiKey, stockData[0].symbol);
-        if (intraday.length > 0) {
-          intradayDataRef.current.set(stockData[0].symbol, intraday);
+      if (stockData.length === 0) {
+        if (deferred.length > 0) {
+          toast.error(`${provider.name} rate limit reached - ${deferred.length} symbols will be fetched next cycle`);
+        } else {
+          toast.error('Failed to fetch stock data. Showing stored alerts.');
+          setIsUsingRealData(false);
         }
+        return;
       }
 
-      // Generate alerts from stock data
-      const newAlerts = generateAlertsFromStockData(
-        stockData,
-        previousDataRef.current,
-        intradayDataRef.current
-      );
-
-      // Update previous data for next comparison
-      stockData.forEach(stock => {
-        previousDataRef.current.set(stock.symbol, stock);
-      });
-
-      // Merge with existing alerts (keep old alerts, add new ones)
-      setAlerts(prev => {
-        const existingIds = new Set(prev.map(a => a.id));
-        const newUniqueAlerts = newAlerts.filter(a => !existingIds.has(a.id));
-        return [...prev, ...newUniqueAlerts].sort((a, b) => 
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-        );
-      });
+      addDetectedAlerts(newAlerts);
 
       setIsUsingRealData(true);
       setLastUpdated(new Date());
-      toast.success(`Updated ${stockData.length} stocks, generated ${newAlerts.length} alerts`);
+      toast.success(
+        `Updated ${stockData.length} stocks${deferred.length > 0 ? ` (${deferred.length} deferred by rate limit)` : ''}, ` +
+        `generated ${newAlerts.length} alerts`
+      );
     } catch (error) {
       console.error('Error fetching real data:', error);
-      toast.error('Error fetching market data. Using demo data.');
-      setAlerts(generateMockAlerts());
+      toast.error('Error fetching market data. Showing stored alerts.');
       setIsUsingRealData(false);
     } finally {
       setIsRefreshing(false);
     }
-  }, [apiKey]);
+  }, [provider, scheduler, addDetectedAlerts]);
 
-  // Auto-refresh every 60 seconds when using real data
+  // Refresh every 60 seconds when using real data. The next cycle is scheduled only once the previous one has
+  // finished, so a slow, rate-limited cycle never overlaps the next
   useEffect(() => {
-    if (!apiKey) return;
+    if (!provider) return;
 
-    // Initial fetch
-    fetchRealData();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const tick = async () => {
+      await runExclusive(fetchRealData);
+      if (!stopped) timer = setTimeout(tick, REFRESH_INTERVAL);
+    };
+    tick();
 
-    // Set up interval
-    const interval = setInterval(() => {
-      fetchRealData();
-    }, REFRESH_INTERVAL);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [provider, fetchRealData, runExclusive]);
 
-    return () => clearInterval(interval);
-  }, [apiKey, fetchRealData]);
+  // Switching sources starts a fresh comparison with the new source's own statistical baselines; the effects above
+  // pick up the new provider
+  const handleProviderChange = (settings: ProviderSettings) => {
+    detectionStateRef.current = createDetectionState(loadBaselines(settings.kind));
+    setProviderSettings(settings);
+  };
 
-  const handleApiKeySet = (key: string) => {
-    setApiKey(key);
-    if (key) {
-      fetchRealData();
-    } else {
-      setAlerts(generateMockAlerts());
-      setIsUsingRealData(false);
-      previousDataRef.current.clear();
-      intradayDataRef.current.clear();
+  const handleRulesSave = (updated: DetectionRule[]) => {
+    saveRules(updated);
+    setRules(updated);
+  };
+
+  const handleWatchlistSave = (updated: Watchlist) => {
+    saveWatchlist(updated);
+    setWatchlist(updated);
+  };
+
+  const handleUsersSave = (updated: User[], policy: FourEyesPolicy, targets: SlaTargets) => {
+    if (apiClient) {
+      saveServerSettings(apiClient, { users: updated, fourEyesPolicy: policy, slaTargets: targets })
+        .then(() => {
+          setUsers(updated);
+          setFourEyesPolicy(policy);
+          setSlaTargets(targets);
+        })
+        .catch(error => {
+          console.error('Error saving users:', error);
+          toast.error(`Could not save users: ${(error as Error).message}`);
+        });
+      return;
     }
+    saveUsers(updated);
+    saveFourEyesPolicy(policy);
+    saveSlaTargets(targets);
+    setUsers(updated);
+    setFourEyesPolicy(policy);
+    setSlaTargets(targets);
+  };
+
+  const handleRegistryChange = (registry: TraderRegistry) => {
+    saveTraderRegistry(registry);
+    setTraderRegistry(registry);
   };
 
   const handleManualRefresh = () => {
-    if (apiKey) {
-      fetchRealData();
+    if (provider) {
+      runExclusive(fetchRealData);
     } else {
       toast('Add API key to fetch live market data', { icon: 'ℹ️' });
     }
   };
 
-  const filteredAndSortedAlerts = useMemo(() => {
-    // STEP 1: Filter alerts based on search, severity, and status
-    const filtered = alerts.filter(alert => {
-      // Search filter - check alert ID, trader name, or trader ID
-      const searchLower = searchQuery.toLowerCase().trim();
-      const matchesSearch = searchLower === '' ||
-        alert.id.toLowerCase().includes(searchLower) ||
-        alert.trader.name.toLowerCase().includes(searchLower) ||
-        alert.trader.id.toLowerCase().includes(searchLower);
-      
-      // Severity filter - exact string match (no trimming needed, values are clean)
-      const matchesSeverity = severityFilter === 'All' || alert.severity === severityFilter;
-      
-      // Status filter - exact string match (no trimming needed, values are clean)
-      const matchesStatus = statusFilter === 'All' || alert.status === statusFilter;
-      
-      return matchesSearch && matchesSeverity && matchesStatus;
-    });
+  const parsedQuery = useMemo(() => parseAlertQuery(queryText, now), [queryText, now]);
 
-    // STEP 2: Sort the filtered results
-    const sorted = [...filtered].sort((a, b) => {
-      if (sortBy === 'time') {
-        const timeA = new Date(a.timestamp).getTime();
-        const timeB = new Date(b.timestamp).getTime();
-        // Handle invalid dates
-        if (isNaN(timeA) && isNaN(timeB)) return 0;
-        if (isNaN(timeA)) return 1;
-        if (isNaN(timeB)) return -1;
-        return sortOrder === 'asc' ? timeA - timeB : timeB - timeA;
-      } else {
-        // Sort by severity
-        const severityOrder: Record<Severity, number> = {
-          'Critical': 4,
-          'High': 3,
-          'Medium': 2,
-          'Low': 1,
-        };
-        const orderA = severityOrder[a.severity] || 0;
-        const orderB = severityOrder[b.severity] || 0;
-        return sortOrder === 'asc' ? orderA - orderB : orderB - orderA;
-      }
-    });
+  const filteredAndSortedAlerts = useMemo(
+    () => applyAlertQuery(alertsInQueue(alerts, queue), parsedQuery, { now, currentUserId: currentUser?.id }),
+    [alerts, queue, parsedQuery, now, currentUser]
+  );
+
+  // Dropdowns and sort buttons edit the query text, so a saved view or link captures everything
+  const singleTermValue = (field: 'severity' | 'status', options: readonly string[]) => {
+    const values = queryTermValues(parsedQuery, field);
+    if (values.length === 0) return 'All';
+    if (values.length > 1) return 'Multiple';
+    return options.find(option => option.toLowerCase() === values[0].toLowerCase()) || 'Multiple';
+  };
+  const severityFilter = singleTermValue('severity', SEVERITIES);
+  const statusFilter = singleTermValue('status', STATUSES);
+  const activeSort = parsedQuery.sort || DEFAULT_SORT;
 
-    return sorted;
-  }, [alerts, searchQuery, severityFilter, statusFilter, sortBy, sortOrder]);
+  const handleSortClick = (field: 'timestamp' | 'severity') => {
+    const order = activeSort.field === field && activeSort.order === 'desc' ? 'asc' : 'desc';
+    const isDefault = field === DEFAULT_SORT.field && order === DEFAULT_SORT.order;
+    setQueryText(prev => setQueryTerm(prev, 'sort', isDefault ? [] : [`${field}:${order}`]));
+  };
+
+  const handleApplyView = (name: string) => {
+    const view = savedViews.find(v => v.name === name);
+    setActiveViewName(name);
+    if (view) {
+      setQueryText(view.query);
+      setQueue(view.queue);
+    }
+  };
+
+  const handleSaveView = () => {
+    const name = window.prompt('Name this view', activeViewName)?.trim();
+    if (!name) return;
+    const view: SavedView = { name, query: queryText, queue };
+    const updated = [...savedViews.filter(v => v.name !== name), view].sort((a, b) => a.name.localeCompare(b.name));
+    saveSavedViews(updated);
+    setSavedViews(updated);
+    setActiveViewName(name);
+    toast.success(`Saved view "${name}"`);
+  };
+
+  const handleDeleteView = () => {
+    const updated = savedViews.filter(v => v.name !== activeViewName);
+    saveSavedViews(updated);
+    setSavedViews(updated);
+    setActiveViewName('');
+  };
+
+  const handleCopyViewLink = async () => {
+    try {
+      await navigator.clipboard.writeText(viewToUrl({ name: activeViewName, query: queryText, queue }, window.location.href));
+      toast.success('Link to this view copied');
+    } catch (error) {
+      console.error('Error copying view link:', error);
+      toast.error('Could not copy the link');
+    }
+  };
 
   const metrics = useMemo(() => {
     const totalAlerts = alerts.length;
@@ -250,16 +573,42 @@ function App() {
     }
   };
 
-  const handleExport = () => {
-    const dataStr = JSON.stringify(filteredAndSortedAlerts, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `compliance-alerts-${new Date().toISOString().split('T')[0]}.json`;
-    link.click();
-    URL.revokeObjectURL(url);
-    toast.success('Alerts exported successfully');
+  const toggleSelected = (alertId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(alertId)) next.delete(alertId); else next.add(alertId);
+      return next;
+    });
+  };
+
+  const allVisibleSelected = filteredAndSortedAlerts.length > 0 &&
+    filteredAndSortedAlerts.every(alert => selectedIds.has(alert.id));
+
+  const handleSelectAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredAndSortedAlerts.map(alert => alert.id)));
+  };
+
+  // Successful alerts leave the selection; failures stay selected so they can be fixed and retried
+  const handleBulkApply = (updated: ComplianceAlert[], failedIds: string[]) => {
+    const byId = new Map(updated.map(alert => [alert.id, alert]));
+    setAlerts(prev => prev.map(alert => byId.get(alert.id) || alert));
+    setSelectedIds(new Set(failedIds));
+  };
+
+  // Imported alerts replace stored ones with the same id (the import plan keeps their timelines append-only). The
+  // API server plans the import again itself.
+  const handleImport = (imported: ComplianceAlert[], rows: ImportRow[], strategy: ImportConflictStrategy) => {
+    if (apiClient) {
+      importAlertsOnServer(apiClient, rows, strategy).then(reloadFromServer).catch(error => reportServerError('import alerts', error));
+      return;
+    }
+    const byId = new Map(imported.map(alert => [alert.id, alert]));
+    setAlerts(prev => {
+      const fresh = imported.filter(alert => !prev.some(existing => existing.id === alert.id));
+      return [...prev.map(alert => byId.get(alert.id) || alert), ...fresh].sort((a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
+    });
   };
 
   const getSeverityColor = (severity: Severity) => {
@@ -281,6 +630,13 @@ function App() {
     }
   };
 
+  // Red once breached, amber in the last hour
+  const getSlaColor = (remainingMs: number) => {
+    if (remainingMs < 0) return 'text-red-400';
+    if (remainingMs < 60 * 60 * 1000) return 'text-amber-400';
+    return 'text-white/50';
+  };
+
   const getTimeAgo = (date: Date | null) => {
     if (!date) return 'Never';
     const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
@@ -294,7 +650,7 @@ function App() {
   return (
     <div className="min-h-screen">
       {/* API Key Banner */}
-      {!apiKey && (
+      {!provider && (
         <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 shadow-lg">
           <div className="max-w-7xl mx-auto flex items-center justify-between flex-wrap gap-2">
             <div className="flex items-center gap-2">
@@ -323,10 +679,10 @@ function App() {
       )}
 
       {/* Demo Data Banner */}
-      {!isUsingRealData && apiKey && (
+      {!isUsingRealData && provider && (
         <div className="bg-yellow-500/20 backdrop-blur-sm border-b border-yellow-400/30 py-2 px-4">
           <div className="max-w-7xl mx-auto text-sm text-yellow-200 font-medium">
-            Using demo data - add API key for live market data
+            Using demo data - {provider.name} returned no quotes yet
           </div>
         </div>
       )}
@@ -347,6 +703,18 @@ function App() {
               )}
             </div>
             <div className="flex items-center gap-3">
+              <div className="text-right text-sm">
+                <p className="text-white font-medium">{session.user.name}</p>
+                <p className="text-white/50 text-xs">{currentUser ? ROLE_LABELS[currentUser.role] : 'Deactivated'}</p>
+              </div>
+              <button
+                onClick={onSignOut}
+                className="btn-secondary"
+                title="Sign out"
+              >
+                <LogOut className="w-4 h-4" />
+                <span className="hidden sm:inline">Sign out</span>
+              </button>
               {isUsingRealData && (
                 <button
                   onClick={handleManualRefresh}
@@ -357,6 +725,71 @@ function App() {
                   <span className="hidden sm:inline">Refresh</span>
                 </button>
               )}
+              {hasPermission(currentUser, 'manageUsers') && (
+                <button
+                  onClick={() => setIsUsersOpen(true)}
+                  className="btn-secondary"
+                >
+                  <UserCog className="w-4 h-4" />
+                  <span className="hidden sm:inline">Users</span>
+                </button>
+              )}
+              <button
+                onClick={() => setIsCasesOpen(true)}
+                className="btn-secondary"
+              >
+                <FolderOpen className="w-4 h-4" />
+                <span className="hidden sm:inline">Cases</span>
+              </button>
+              <button
+                onClick={() => setIsTradersOpen(true)}
+                className="btn-secondary"
+              >
+                <Users className="w-4 h-4" />
+                <span className="hidden sm:inline">Traders</span>
+              </button>
+              <button
+                onClick={() => setIsOrderSurveillanceOpen(true)}
+                className="btn-secondary"
+              >
+                <ScanSearch className="w-4 h-4" />
+                <span className="hidden sm:inline">Orders</span>
+              </button>
+              <button
+                onClick={() => setIsPositionsOpen(true)}
+                className="btn-secondary"
+              >
+                <Scale className="w-4 h-4" />
+                <span className="hidden sm:inline">Limits</span>
+              </button>
+              <button
+                onClick={() => setIsInsiderOpen(true)}
+                className="btn-secondary"
+              >
+                <CalendarClock className="w-4 h-4" />
+                <span className="hidden sm:inline">Insider</span>
+              </button>
+              <button
+                onClick={() => setIsWatchlistOpen(true)}
+                className="btn-secondary"
+              >
+                <Eye className="w-4 h-4" />
+                <span className="hidden sm:inline">Watchlist</span>
+              </button>
+              <button
+                onClick={() => setIsRulesOpen(true)}
+                className="btn-secondary"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                <span className="hidden sm:inline">Rules</span>
+              </button>
+              <button
+                onClick={() => setIsReplayOpen(true)}
+                className="btn-secondary"
+              >
+                <History className="w-4 h-4" />
+                <span className="hidden sm:inline">Replay</span>
+              </button>
               <button
                 onClick={() => setIsSettingsOpen(true)}
                 className="btn-secondary"
@@ -364,8 +797,17 @@ function App() {
                 <Settings className="w-4 h-4" />
                 <span className="hidden sm:inline">Settings</span>
               </button>
+              {hasPermission(currentUser, 'importAlerts') && (
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="btn-secondary"
+                >
+                  <Upload className="w-4 h-4" />
+                  <span className="hidden sm:inline">Import</span>
+                </button>
+              )}
               <button
-                onClick={handleExport}
+                onClick={() => setExportAlerts(filteredAndSortedAlerts)}
                 className="btn-primary"
               >
                 <Download className="w-4 h-4" />
@@ -427,23 +869,42 @@ function App() {
               <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-white/50" />
               <input
                 type="text"
-                placeholder="Search by alert ID, trader name, or trader ID..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder='Search or filter, e.g. severity:Critical,High status:New since:7d "spoofing"'
+                value={queryText}
+                onChange={(e) => setQueryText(e.target.value)}
                 className="input-modern pl-12"
+                title={QUERY_HELP}
               />
             </div>
 
+            <div className="relative">
+              <select
+                value={queue}
+                onChange={(e) => setQueue(e.target.value)}
+                className="select-modern pr-10"
+              >
+                <option value={ALL_QUEUES} className="bg-slate-900">All Queues</option>
+                <option value={TEAM_QUEUE} className="bg-slate-900">
+                  Team Queue ({openQueueCount(alerts, TEAM_QUEUE)})
+                </option>
+                {users.filter(user => user.active).map(user => (
+                  <option key={user.id} value={user.id} className="bg-slate-900">
+                    {user.id === currentUser?.id ? 'My Queue' : user.name} ({openQueueCount(alerts, user.id)})
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-4 top-1/2 transform -translate-y-1/2 w-4 h-4 text-white/50 pointer-events-none" />
+            </div>
+
             <div className="relative">
               <select
                 value={severityFilter}
-                onChange={(e) => {
-                  // Direct assignment - values are already validated by the select options
-                  setSeverityFilter(e.target.value as Severity | 'All');
-                }}
+                onChange={(e) => setQueryText(prev =>
+                  setQueryTerm(prev, 'severity', e.target.value === 'All' ? [] : [e.target.value]))}
                 className="select-modern pr-10"
               >
                 <option value="All" className="bg-slate-900">All Severities</option>
+                {severityFilter === 'Multiple' && <option value="Multiple" disabled className="bg-slate-900">Several Severities</option>}
                 <option value="Critical" className="bg-slate-900">Critical</option>
                 <option value="High" className="bg-slate-900">High</option>
                 <option value="Medium" className="bg-slate-900">Medium</option>
@@ -455,10 +916,12 @@ function App() {
             <div className="relative">
               <select
                 value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value as Status | 'All')}
+                onChange={(e) => setQueryText(prev =>
+                  setQueryTerm(prev, 'status', e.target.value === 'All' ? [] : [e.target.value]))}
                 className="select-modern pr-10"
               >
                 <option value="All" className="bg-slate-900">All Statuses</option>
+                {statusFilter === 'Multiple' && <option value="Multiple" disabled className="bg-slate-900">Several Statuses</option>}
                 <option value="New" className="bg-slate-900">New</option>
                 <option value="In Review" className="bg-slate-900">In Review</option>
                 <option value="Escalated" className="bg-slate-900">Escalated</option>
@@ -470,45 +933,76 @@ function App() {
 
             <div className="flex gap-2">
               <button
-                onClick={() => {
-                  if (sortBy === 'time') {
-                    setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-                  } else {
-                    setSortBy('time');
-                    setSortOrder('desc');
-                  }
-                }}
+                onClick={() => handleSortClick('timestamp')}
                 className={`flex items-center gap-2 px-4 py-2.5 rounded-xl font-semibold transition-all ${
-                  sortBy === 'time' 
+                  activeSort.field === 'timestamp' 
                     ? 'bg-gradient-to-r from-blue-500/30 to-purple-500/30 text-white border border-blue-400/50' 
                     : 'bg-white/10 text-white/70 border border-white/20 hover:bg-white/20'
                 }`}
               >
-                {sortOrder === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />}
+                {activeSort.field === 'timestamp' && activeSort.order === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />}
                 Time
               </button>
               <button
-                onClick={() => {
-                  if (sortBy === 'severity') {
-                    setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-                  } else {
-                    setSortBy('severity');
-                    setSortOrder('desc');
-                  }
-                }}
+                onClick={() => handleSortClick('severity')}
                 className={`flex items-center gap-2 px-4 py-2.5 rounded-xl font-semibold transition-all ${
-                  sortBy === 'severity' 
+                  activeSort.field === 'severity' 
                     ? 'bg-gradient-to-r from-blue-500/30 to-purple-500/30 text-white border border-blue-400/50' 
                     : 'bg-white/10 text-white/70 border border-white/20 hover:bg-white/20'
                 }`}
               >
-                {sortOrder === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />}
+                {activeSort.field === 'severity' && activeSort.order === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />}
                 Severity
               </button>
             </div>
           </div>
+
+          {parsedQuery.errors.length > 0 && (
+            <p className="mt-3 text-sm text-red-300">{parsedQuery.errors.join('; ')}</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 mt-4 text-sm">
+            <Bookmark className="w-4 h-4 text-white/50" />
+            <select
+              value={savedViews.some(v => v.name === activeViewName) ? activeViewName : ''}
+              onChange={(e) => handleApplyView(e.target.value)}
+              className="select-modern"
+            >
+              <option value="" className="bg-slate-900">{savedViews.length > 0 ? 'Saved views...' : 'No saved views'}</option>
+              {savedViews.map(view => (
+                <option key={view.name} value={view.name} className="bg-slate-900">{view.name}</option>
+              ))}
+            </select>
+            <button onClick={handleSaveView} className="btn-secondary">Save view</button>
+            {savedViews.some(v => v.name === activeViewName) && (
+              <button onClick={handleDeleteView} className="btn-secondary">Delete view</button>
+            )}
+            <button onClick={handleCopyViewLink} className="btn-secondary inline-flex items-center gap-2">
+              <Link2 className="w-4 h-4" />
+              Copy link
+            </button>
+            <span className="text-white/50">
+              {filteredAndSortedAlerts.length} of {alerts.length} alerts
+            </span>
+            <label className="flex items-center gap-2 text-white/70 ml-auto cursor-pointer">
+              <input type="checkbox" checked={allVisibleSelected} onChange={handleSelectAllVisible} className="w-4 h-4" />
+              Select all shown
+            </label>
+          </div>
         </div>
 
+        {selectedIds.size > 0 && (
+          <BulkActionBar
+            selected={alerts.filter(alert => selectedIds.has(alert.id))}
+            users={users}
+            currentUser={currentUser}
+            fourEyesPolicy={fourEyesPolicy}
+            onApply={handleBulkApply}
+            onExport={setExportAlerts}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+
         {/* Alerts Grid */}
         {filteredAndSortedAlerts.length === 0 ? (
           <div className="card p-12 text-center animate-fade-in">
@@ -518,20 +1012,44 @@ function App() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredAndSortedAlerts.map((alert, index) => (
+            {filteredAndSortedAlerts.map((alert, index) => {
+              const sla = getSlaStatus(alert, slaTargets, now);
+              const assignee = users.find(user => user.id === alert.assignee);
+              return (
               <div
                 key={alert.id}
                 onClick={() => setSelectedAlert(alert)}
-                className="card card-hover p-6 animate-slide-in"
+                className={`card card-hover p-6 animate-slide-in ${selectedIds.has(alert.id) ? 'ring-2 ring-blue-400/60' : ''}`}
                 style={{ animationDelay: `${index * 0.05}s` }}
               >
                 <div className="flex items-start justify-between mb-4">
-                  <div>
-                    <h3 className="text-lg font-bold text-white mb-1">{alert.id}</h3>
-                    <p className="text-sm text-white/60">{alert.type}</p>
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(alert.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => toggleSelected(alert.id)}
+                      className="w-4 h-4 mt-1.5"
+                      aria-label={`Select ${alert.id}`}
+                    />
+                    <div>
+                      <h3 className="text-lg font-bold text-white mb-1">{alert.id}</h3>
+                      <p className="text-sm text-white/60">{alert.type}</p>
+                    </div>
                   </div>
-                  <div className={`px-3 py-1.5 rounded-lg text-xs font-bold ${getSeverityColor(alert.severity)}`}>
-                    {alert.severity}
+                  <div className="flex items-center gap-2">
+                    {alert.occurrences && alert.occurrences > 1 && (
+                      <span
+                        className="flex items-center gap-1 text-xs font-semibold text-white/70"
+                        title={`Detected ${alert.occurrences} times, last at ${new Date(alert.lastSeenAt || alert.timestamp).toLocaleString()}`}
+                      >
+                        <Copy className="w-3.5 h-3.5" />
+                        ×{alert.occurrences}
+                      </span>
+                    )}
+                    <div className={`px-3 py-1.5 rounded-lg text-xs font-bold ${getSeverityColor(alert.severity)}`}>
+                      {alert.severity}
+                    </div>
                   </div>
                 </div>
 
@@ -544,6 +1062,16 @@ function App() {
                     <span className="text-white/50">Firm:</span>
                     <span className="text-white/80">{alert.trader.firm}</span>
                   </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-white/50">Assignee:</span>
+                    <span className="text-white/80">{assignee?.name || alert.assignee || 'Team queue'}</span>
+                  </div>
+                  {alert.caseId && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <FolderOpen className="w-4 h-4 text-white/40" />
+                      <span className="text-white/60">{alert.caseId}</span>
+                    </div>
+                  )}
                   <div className="flex items-center gap-2 text-sm">
                     <Clock className="w-4 h-4 text-white/40" />
                     <span className="text-white/60">
@@ -561,10 +1089,21 @@ function App() {
                   <span className={`px-3 py-1.5 rounded-lg text-xs font-semibold ${getStatusColor(alert.status)}`}>
                     {alert.status}
                   </span>
-                  <p className="text-xs text-white/40">{alert.trader.id}</p>
+                  {sla.stage === 'met' ? (
+                    <p className="text-xs text-white/40">{alert.trader.id}</p>
+                  ) : (
+                    <span
+                      className={`flex items-center gap-1 text-xs font-semibold ${getSlaColor(sla.remainingMs)}`}
+                      title={`${sla.stage === 'triage' ? 'Triage' : 'Resolution'} due ${new Date(sla.dueAt!).toLocaleString()}`}
+                    >
+                      <Timer className="w-3.5 h-3.5" />
+                      {formatSlaRemaining(sla.remainingMs)}
+                    </span>
+                  )}
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </main>
@@ -573,7 +1112,127 @@ function App() {
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
-        onApiKeySet={handleApiKeySet}
+        onProviderChange={handleProviderChange}
+      />
+
+      {/* Export Modal */}
+      <ExportModal
+        isOpen={exportAlerts !== null}
+        onClose={() => setExportAlerts(null)}
+        alerts={exportAlerts || []}
+      />
+
+      {/* Import Modal */}
+      <ImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        alerts={alerts}
+        currentUser={currentUser}
+        onImport={handleImport}
+      />
+
+      {/* Replay / Backtest Modal */}
+      <ReplayModal
+        isOpen={isReplayOpen}
+        onClose={() => setIsReplayOpen(false)}
+        rules={rules}
+        onAddAlerts={addDetectedAlerts}
+      />
+
+      {/* Order Surveillance Modal */}
+      <OrderSurveillanceModal
+        isOpen={isOrderSurveillanceOpen}
+        onClose={() => setIsOrderSurveillanceOpen(false)}
+        traders={traderRegistry}
+        onAddAlerts={addDetectedAlerts}
+      />
+
+      {/* Position Limits Modal */}
+      <PositionsModal
+        isOpen={isPositionsOpen}
+        onClose={() => setIsPositionsOpen(false)}
+        traders={traderRegistry}
+        onAddAlerts={addDetectedAlerts}
+      />
+
+      {/* Insider Trading Modal */}
+      <InsiderTradingModal
+        isOpen={isInsiderOpen}
+        onClose={() => setIsInsiderOpen(false)}
+        traders={traderRegistry}
+        watchlist={watchlist}
+        onAddAlerts={addDetectedAlerts}
+      />
+
+      {/* Trader Registry Modal */}
+      <TradersModal
+        isOpen={isTradersOpen}
+        onClose={() => setIsTradersOpen(false)}
+        registry={traderRegistry}
+        alerts={alerts}
+        onRegistryChange={handleRegistryChange}
+        onSelectTrader={(trader) => {
+          setIsTradersOpen(false);
+          setProfileTrader(trader);
+        }}
+      />
+
+      {/* Trader Profile Modal */}
+      {profileTrader && (
+        <TraderProfileModal
+          trader={profileTrader}
+          alerts={alerts}
+          onClose={() => setProfileTrader(null)}
+          onSelectAlert={(alert) => {
+            setProfileTrader(null);
+            setSelectedAlert(alert);
+          }}
+        />
+      )}
+
+      {/* Detection Rules Modal */}
+      <RulesModal
+        isOpen={isRulesOpen}
+        onClose={() => setIsRulesOpen(false)}
+        rules={rules}
+        onSave={handleRulesSave}
+        canEdit={hasPermission(currentUser, 'manageRules')}
+      />
+
+      {/* Watchlist Modal */}
+      <WatchlistModal
+        isOpen={isWatchlistOpen}
+        onClose={() => setIsWatchlistOpen(false)}
+        watchlist={watchlist}
+        rules={rules}
+        providerSymbols={provider?.defaultSymbols || []}
+        onSave={handleWatchlistSave}
+        canEdit={hasPermission(currentUser, 'manageRules')}
+      />
+
+      {/* Users, Approvals & SLAs Modal */}
+      <UsersModal
+        isOpen={isUsersOpen}
+        onClose={() => setIsUsersOpen(false)}
+        users={users}
+        fourEyesPolicy={fourEyesPolicy}
+        slaTargets={slaTargets}
+        onSave={handleUsersSave}
+        onSetPassword={(userId, password) => authenticator.setPassword(session.user, userId, password)}
+      />
+
+      {/* Cases Modal */}
+      <CasesModal
+        isOpen={isCasesOpen}
+        onClose={() => setIsCasesOpen(false)}
+        cases={cases}
+        alerts={alerts}
+        currentUser={currentUser}
+        onUpdateCase={(updated) => setCases(prev => prev.map(c => c.id === updated.id ? updated : c))}
+        onSelectAlert={(alert) => {
+          setIsCasesOpen(false);
+          setSelectedAlert(alert);
+        }}
       />
 
       {/* Alert Detail Modal */}
@@ -582,6 +1241,14 @@ function App() {
           alert={selectedAlert}
           onClose={() => setSelectedAlert(null)}
           onUpdate={handleUpdateAlert}
+          currentUser={currentUser}
+          users={users}
+          fourEyesPolicy={fourEyesPolicy}
+          slaTargets={slaTargets}
+          onViewTrader={(trader) => {
+            setSelectedAlert(null);
+            setProfileTrader(trader);
+          }}
         />
       )}
     </div>
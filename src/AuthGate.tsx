@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import App from './App';
+import SignIn from './components/SignIn';
+import { AuthSession, createApiAuthenticator, createLocalAuthenticator } from './services/auth';
+import { createApiClient } from './services/apiClient';
+import { setServerVerifiedChains } from './services/auditChain';
+
+// Set at build time: with it the dashboard works on the API server's alerts, without it browser-only on IndexedDB
+const API_URL = (import.meta.env.VITE_API_URL || '').replace(/\/$/, '');
+const apiClient = API_URL ? createApiClient(API_URL) : null;
+setServerVerifiedChains(apiClient !== null);
+
+// Nothing of the dashboard runs until someone has signed in
+function AuthGate() {
+  const [authenticator] = useState(() => apiClient ? createApiAuthenticator(apiClient) : createLocalAuthenticator());
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [isChecking, setIsChecking] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([authenticator.restore(), authenticator.needsSetup()])
+      .then(([restored, setup]) => {
+        if (cancelled) return;
+        setSession(restored);
+        setNeedsSetup(setup);
+      })
+      .catch(error => {
+        console.error('Error checking the session:', error);
+        toast.error((error as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authenticator]);
+
+  // An expired session (or a restarted server) sends the user back to the sign-in form
+  useEffect(() => {
+    apiClient?.onUnauthorized(() => setSession(null));
+  }, []);
+
+  const handleSignOut = async () => {
+    await authenticator.signOut();
+    setSession(null);
+  };
+
+  if (isChecking) return null;
+  if (!session) {
+    return (
+      <SignIn
+        authenticator={authenticator}
+        isSetup={needsSetup}
+        onSignedIn={(signedIn) => {
+          setNeedsSetup(false);
+          setSession(signedIn);
+        }}
+      />
+    );
+  }
+  return <App session={session} authenticator={authenticator} apiClient={apiClient} onSignOut={handleSignOut} />;
+}
+
+export default AuthGate;
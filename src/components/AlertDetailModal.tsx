@@ -1,43 +1,178 @@
-import { useState } from 'react';
-import { X, Clock, User, Building, Mail, Calendar, FileText, AlertCircle } from 'lucide-react';
-import { ComplianceAlert, Status } from '../types';
+import { useState, useMemo } from 'react';
+import {
+  X, Clock, User as UserIcon, Building, Mail, Calendar, FileText, AlertCircle, ListOrdered, Scale,
+  ShieldCheck, ShieldAlert, Download, Timer, UserCheck, Printer, FileDown, LineChart, CalendarClock,
+} from 'lucide-react';
+import { ComplianceAlert, Status, Trader, User } from '../types';
+import { CORPORATE_EVENT_LABELS } from '../services/corporateEvents';
 import toast from 'react-hot-toast';
+import {
+  approveTransition, canDecideApproval, dismissalReasonLabel, rejectTransition, requiresApproval, transitionAlert,
+  transitionsForUser, WorkflowError, WorkflowTransition, DISMISSAL_REASONS, ESCALATION_TARGETS,
+} from '../services/workflow';
+import { FourEyesPolicy, hasPermission } from '../services/users';
+import { exportAuditChain, verifyTimeline } from '../services/auditChain';
+import { assignAlert, canAssign } from '../services/assignment';
+import { formatSlaRemaining, getSlaStatus, SlaTargets, SLA_STAGE_LABELS } from '../services/sla';
+import { buildCaseReportHtml, downloadFile } from '../services/exporters';
+import {
+  buildRegulatoryDraft, loadReportingEntity, RegulatoryReportType, REGULATORY_REPORT_TYPES,
+} from '../services/regulatoryReports';
+import EvidenceChart from './EvidenceChart';
 
 interface AlertDetailModalProps {
   alert: ComplianceAlert;
   onClose: () => void;
   onUpdate: (alertId: string, updates: Partial<ComplianceAlert>) => void;
+  onViewTrader: (trader: Trader) => void;
+  currentUser: User | null;
+  users: User[];
+  fourEyesPolicy: FourEyesPolicy;
+  slaTargets: SlaTargets;
 }
 
-export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDetailModalProps) {
+export default function AlertDetailModal({
+  alert, onClose, onUpdate, onViewTrader, currentUser, users, fourEyesPolicy, slaTargets,
+}: AlertDetailModalProps) {
   const [notes, setNotes] = useState(alert.investigationNotes);
   const [isLoading, setIsLoading] = useState(false);
+  // Transitions needing a reason code or escalation target open a small form first
+  const [pendingTransition, setPendingTransition] = useState<WorkflowTransition | null>(null);
+  const [reasonCode, setReasonCode] = useState('');
+  const [escalationTarget, setEscalationTarget] = useState('');
+
+  const handleAction = async (transition: WorkflowTransition) => {
+    const needsForm = transition.requires.some(field => field === 'reasonCode' || field === 'escalationTarget');
+    if (needsForm && pendingTransition !== transition) {
+      setPendingTransition(transition);
+      return;
+    }
+
+    if (!currentUser) {
+      toast.error('Select a user before acting on alerts');
+      return;
+    }
+    const needsApproval = requiresApproval(alert, transition.to, fourEyesPolicy);
+    const updated = await applyWorkflow(() => transitionAlert(alert, {
+      to: transition.to,
+      actor: currentUser,
+      notes,
+      reasonCode,
+      escalationTarget,
+    }, fourEyesPolicy));
+    if (!updated) return;
+
+    setPendingTransition(null);
+    if (needsApproval) {
+      toast.success(`${transition.action} sent for approval by a second user`);
+      return;
+    }
+    toast.success(`${transition.action} completed successfully`);
+    
+    if (transition.to === 'Resolved' || transition.to === 'Dismissed') {
+      setTimeout(onClose, 500);
+    }
+  };
+
+  const handleApproval = async (decision: 'approve' | 'reject') => {
+    if (!currentUser) return;
+    const action = alert.pendingApproval?.action;
+    const updated = await applyWorkflow(() => decision === 'approve'
+      ? approveTransition(alert, currentUser)
+      : rejectTransition(alert, currentUser, notes));
+    if (!updated) return;
+
+    toast.success(`${action} ${decision === 'approve' ? 'approved' : 'rejected'}`);
+    if (decision === 'approve' && (updated.status === 'Resolved' || updated.status === 'Dismissed')) {
+      setTimeout(onClose, 500);
+    }
+  };
+
+  const handleAssign = async (assigneeId: string) => {
+    if (!currentUser) {
+      toast.error('Select a user before acting on alerts');
+      return;
+    }
+    const assignee = users.find(user => user.id === assigneeId) || null;
+    const updated = await applyWorkflow(() => assignAlert(alert, assignee, currentUser));
+    if (updated) {
+      toast.success(assignee ? `Assigned to ${assignee.name}` : 'Returned to team queue');
+    }
+  };
+
+  // Runs a workflow step, surfaces rule violations as toasts and saves the result
+  const applyWorkflow = async (step: () => ComplianceAlert): Promise<ComplianceAlert | null> => {
+    let updated: ComplianceAlert;
+    try {
+      updated = step();
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        toast.error(error.message);
+        return null;
+      }
+      throw error;
+    }
 
-  const handleAction = async (newStatus: Status, actionName: string) => {
     setIsLoading(true);
     
     // Simulate API call
     await new Promise(resolve => setTimeout(resolve, 800));
-    
-    const timelineEvent = {
-      id: `${alert.id}-${Date.now()}`,
-      timestamp: new Date().toISOString(),
-      action: actionName,
-      user: 'Current User',
-      notes: notes || undefined,
-    };
 
     onUpdate(alert.id, {
-      status: newStatus,
-      investigationNotes: notes,
-      timeline: [...alert.timeline, timelineEvent],
+      status: updated.status,
+      investigationNotes: updated.investigationNotes,
+      timeline: updated.timeline,
+      pendingApproval: updated.pendingApproval,
+      assignee: updated.assignee,
     });
 
     setIsLoading(false);
-    toast.success(`${actionName} completed successfully`);
-    
-    if (newStatus === 'Resolved' || newStatus === 'Dismissed') {
-      setTimeout(onClose, 500);
+    return updated;
+  };
+
+  const sla = getSlaStatus(alert, slaTargets);
+  const assigneeName = users.find(user => user.id === alert.assignee)?.name || alert.assignee;
+  const canAssignAnyone = hasPermission(currentUser, 'assign');
+
+  const verification = useMemo(() => verifyTimeline(alert.id, alert.timeline), [alert.id, alert.timeline]);
+
+  const handleExportAuditLog = () => {
+    downloadFile(JSON.stringify(exportAuditChain([alert]), null, 2), `audit-log-${alert.id}.json`, 'application/json');
+  };
+
+  // Opens the report in a new window and hands it to the browser's print dialog ("Save as PDF")
+  const handlePrintReport = () => {
+    const reportWindow = window.open('', '_blank');
+    if (!reportWindow) {
+      toast.error('Allow pop-ups to print the case report');
+      return;
+    }
+    reportWindow.document.write(buildCaseReportHtml(alert, currentUser));
+    reportWindow.document.close();
+    reportWindow.focus();
+    reportWindow.print();
+  };
+
+  const handleRegulatoryDraft = (reportType: RegulatoryReportType) => {
+    const draft = buildRegulatoryDraft(alert, reportType, loadReportingEntity(), currentUser);
+    downloadFile(JSON.stringify(draft, null, 2), `${reportType.toLowerCase()}-draft-${alert.id}.json`, 'application/json');
+    if (draft.missingFields.length > 0) {
+      toast(`${reportType} draft saved. Still to complete: ${draft.missingFields.join(', ')}`, { duration: 6000 });
+    } else {
+      toast.success(`${reportType} draft saved`);
+    }
+  };
+
+  const getTransitionButtonClass = (status: Status) => {
+    switch (status) {
+      case 'Escalated':
+        return 'px-4 py-2.5 bg-gradient-to-r from-orange-600 to-red-600 text-white rounded-xl hover:from-orange-700 hover:to-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95';
+      case 'Dismissed':
+        return 'px-4 py-2.5 bg-white/10 text-white rounded-xl hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold border border-white/20';
+      case 'Resolved':
+        return 'px-4 py-2.5 bg-gradient-to-r from-green-600 to-teal-600 text-white rounded-xl hover:from-green-700 hover:to-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95';
+      default:
+        return 'btn-primary disabled:opacity-50 disabled:cursor-not-allowed';
     }
   };
 
@@ -82,12 +217,32 @@ export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDeta
             </div>
             <h2 className="text-2xl font-bold text-white">{alert.id}</h2>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
-          >
-            <X className="w-6 h-6 text-white/70" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handlePrintReport}
+              className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+              title="Print case report (save as PDF)"
+            >
+              <Printer className="w-5 h-5 text-white/70" />
+            </button>
+            {REGULATORY_REPORT_TYPES.map(reportType => (
+              <button
+                key={reportType}
+                onClick={() => handleRegulatoryDraft(reportType)}
+                className="px-2 py-2 hover:bg-white/10 rounded-xl transition-colors inline-flex items-center gap-1 text-xs font-semibold text-white/70"
+                title={`Download a pre-filled ${reportType} draft`}
+              >
+                <FileDown className="w-4 h-4" />
+                {reportType}
+              </button>
+            ))}
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+            >
+              <X className="w-6 h-6 text-white/70" />
+            </button>
+          </div>
         </div>
 
         {/* Content */}
@@ -107,6 +262,20 @@ export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDeta
                 <label className="text-sm font-medium text-white/60">Detected By</label>
                 <p className="text-white/90">{alert.detectedBy}</p>
               </div>
+              {alert.occurrences && alert.occurrences > 1 && (
+                <div>
+                  <label className="text-sm font-medium text-white/60">Occurrences</label>
+                  <p className="text-white/90">
+                    {alert.occurrences} detections, last {new Date(alert.lastSeenAt || alert.timestamp).toLocaleString()}
+                  </p>
+                </div>
+              )}
+              {alert.caseId && (
+                <div>
+                  <label className="text-sm font-medium text-white/60">Case</label>
+                  <p className="text-white/90">{alert.caseId}</p>
+                </div>
+              )}
               <div className="col-span-2">
                 <label className="text-sm font-medium text-white/60">Description</label>
                 <p className="text-white/90">{alert.description}</p>
@@ -126,13 +295,62 @@ export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDeta
                   })}
                 </p>
               </div>
+              <div>
+                <label className="text-sm font-medium text-white/60 flex items-center gap-1">
+                  <Timer className="w-4 h-4" />
+                  SLA
+                </label>
+                {sla.stage === 'met' ? (
+                  <p className="text-white/90">Closed</p>
+                ) : (
+                  <p className={sla.breached ? 'text-red-400 font-semibold' : 'text-white/90'}>
+                    {SLA_STAGE_LABELS[sla.stage]} {formatSlaRemaining(sla.remainingMs)}
+                    <span className="text-white/50 text-sm"> (due {new Date(sla.dueAt!).toLocaleString()})</span>
+                  </p>
+                )}
+              </div>
+              <div className="col-span-2">
+                <label className="text-sm font-medium text-white/60 flex items-center gap-1">
+                  <UserCheck className="w-4 h-4" />
+                  Assignee
+                </label>
+                <div className="flex items-center gap-3 mt-1">
+                  {canAssignAnyone ? (
+                    <select
+                      value={alert.assignee || ''}
+                      onChange={(e) => handleAssign(e.target.value)}
+                      disabled={isLoading}
+                      className="select-modern"
+                    >
+                      <option value="" className="bg-slate-900">Team queue (unassigned)</option>
+                      {users.filter(user => user.active || user.id === alert.assignee).map(user => (
+                        <option key={user.id} value={user.id} disabled={!user.active} className="bg-slate-900">
+                          {user.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-white/90">{assigneeName || 'Team queue (unassigned)'}</p>
+                  )}
+                  {!canAssignAnyone && currentUser && canAssign(currentUser, alert, currentUser.id) && (
+                    <button onClick={() => handleAssign(currentUser.id)} disabled={isLoading} className="btn-secondary">
+                      Claim
+                    </button>
+                  )}
+                  {!canAssignAnyone && currentUser && alert.assignee === currentUser.id && (
+                    <button onClick={() => handleAssign('')} disabled={isLoading} className="btn-secondary">
+                      Return to team queue
+                    </button>
+                  )}
+                </div>
+              </div>
             </div>
           </section>
 
           {/* Trader Details */}
           <section className="border-t border-white/10 pt-6">
             <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-              <User className="w-5 h-5 text-blue-400" />
+              <UserIcon className="w-5 h-5 text-blue-400" />
               Trader Details
             </h3>
             <div className="grid grid-cols-2 gap-4">
@@ -142,7 +360,12 @@ export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDeta
               </div>
               <div>
                 <label className="text-sm font-medium text-white/60">Name</label>
-                <p className="text-white/90">{alert.trader.name}</p>
+                <button
+                  onClick={() => onViewTrader(alert.trader)}
+                  className="text-blue-300 hover:text-blue-200 underline font-medium transition-colors"
+                >
+                  {alert.trader.name}
+                </button>
               </div>
               <div>
                 <label className="text-sm font-medium text-white/60 flex items-center gap-1">
@@ -164,22 +387,265 @@ export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDeta
                   Registration Date
                 </label>
                 <p className="text-white/90">
-                  {new Date(alert.trader.registrationDate).toLocaleDateString('en-US', {
-                    year: 'numeric',
-                    month: 'long',
-                    day: 'numeric',
-                  })}
+                  {alert.trader.registrationDate
+                    ? new Date(alert.trader.registrationDate).toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })
+                    : 'Unknown'}
                 </p>
               </div>
             </div>
           </section>
 
+          {/* Evidence */}
+          {alert.evidence?.kind === 'orders' && (
+            <section className="border-t border-white/10 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <ListOrdered className="w-5 h-5 text-blue-400" />
+                Order Evidence
+              </h3>
+              <p className="text-sm text-white/70 mb-3">{alert.evidence.summary}</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-white/50 border-b border-white/10">
+                      <th className="py-2 pr-4 font-medium">Time</th>
+                      <th className="py-2 pr-4 font-medium">Event</th>
+                      <th className="py-2 pr-4 font-medium">Order</th>
+                      <th className="py-2 pr-4 font-medium">Account</th>
+                      <th className="py-2 pr-4 font-medium">Side</th>
+                      <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                      <th className="py-2 font-medium text-right">Price</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {alert.evidence.events.map(event => (
+                      <tr key={event.id} className="border-b border-white/5 text-white/80">
+                        <td className="py-1.5 pr-4 whitespace-nowrap">
+                          {/* Millisecond precision matters for order lifetimes */}
+                          {new Date(event.timestamp).toISOString().slice(11, 23)} UTC
+                        </td>
+                        <td className="py-1.5 pr-4 capitalize">{event.type}</td>
+                        <td className="py-1.5 pr-4">{event.orderId}</td>
+                        <td className="py-1.5 pr-4">{event.account}</td>
+                        <td className="py-1.5 pr-4 capitalize">{event.side}</td>
+                        <td className="py-1.5 pr-4 text-right">{event.quantity.toLocaleString()}</td>
+                        <td className="py-1.5 text-right">${event.price.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          {alert.evidence?.kind === 'position' && (
+            <section className="border-t border-white/10 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <Scale className="w-5 h-5 text-blue-400" />
+                Position Evidence
+              </h3>
+              <p className="text-sm text-white/70 mb-3">{alert.evidence.summary}</p>
+              <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+                <div>
+                  <label className="text-white/60">Limit</label>
+                  <p className="text-white/90">
+                    {alert.evidence.limit.id} · {alert.evidence.limit.scope} {alert.evidence.limit.key} · {alert.evidence.limit.measure}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-white/60">Exposure / Limit</label>
+                  <p className="text-white/90">
+                    {Math.round(alert.evidence.exposure).toLocaleString()} / {alert.evidence.limit.limit.toLocaleString()}
+                    {alert.evidence.limit.unit === 'notional' ? ' USD' : ' shares'}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-white/60">Utilisation</label>
+                  <p className="text-white font-semibold">{alert.evidence.utilisationPercent.toFixed(1)}%</p>
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/50 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">Account</th>
+                    <th className="py-2 pr-4 font-medium">Symbol</th>
+                    <th className="py-2 pr-4 font-medium text-right">Quantity</th>
+                    <th className="py-2 font-medium text-right">Price</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {alert.evidence.positions.map(position => (
+                    <tr key={`${position.account}-${position.symbol}`} className="border-b border-white/5 text-white/80">
+                      <td className="py-1.5 pr-4">{position.account}</td>
+                      <td className="py-1.5 pr-4">{position.symbol}</td>
+                      <td className="py-1.5 pr-4 text-right">{position.quantity.toLocaleString()}</td>
+                      <td className="py-1.5 text-right">${position.price.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {alert.evidence?.kind === 'insider' && (
+            <section className="border-t border-white/10 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <CalendarClock className="w-5 h-5 text-blue-400" />
+                Insider Trading Evidence
+              </h3>
+              <p className="text-sm text-white/70 mb-3">{alert.evidence.summary}</p>
+              <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+                <div>
+                  <label className="text-white/60">Corporate Event</label>
+                  <p className="text-white/90">
+                    {CORPORATE_EVENT_LABELS[alert.evidence.event.type]}: {alert.evidence.event.title}
+                  </p>
+                  <p className="text-xs text-white/50">{new Date(alert.evidence.event.timestamp).toLocaleString()}</p>
+                  {alert.evidence.restrictedBy && (
+                    <p className="text-xs text-red-300">Restricted list: {alert.evidence.restrictedBy.join(', ')}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="text-white/60">Account / Pre-event Activity</label>
+                  <p className="text-white/90">
+                    {alert.evidence.account} · ${Math.round(alert.evidence.notional).toLocaleString()} in {alert.evidence.lookbackDays} days
+                  </p>
+                  <p className="text-xs text-white/50">
+                    Typical ${Math.round(alert.evidence.typicalNotional).toLocaleString()} · net {alert.evidence.netQuantity.toLocaleString()} shares
+                  </p>
+                </div>
+                <div>
+                  <label className="text-white/60">Position Into Event</label>
+                  <p className="text-white/90">
+                    {alert.evidence.position
+                      ? `${alert.evidence.position.quantity.toLocaleString()} @ $${alert.evidence.position.price.toFixed(2)}`
+                      : '—'}
+                  </p>
+                </div>
+              </div>
+              {alert.evidence.fills.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-white/50 border-b border-white/10">
+                      <th className="py-2 pr-4 font-medium">Time</th>
+                      <th className="py-2 pr-4 font-medium">Order</th>
+                      <th className="py-2 pr-4 font-medium">Side</th>
+                      <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                      <th className="py-2 font-medium text-right">Price</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {alert.evidence.fills.map(fill => (
+                      <tr key={fill.id} className="border-b border-white/5 text-white/80">
+                        <td className="py-1.5 pr-4 whitespace-nowrap">{new Date(fill.timestamp).toLocaleString()}</td>
+                        <td className="py-1.5 pr-4">{fill.orderId}</td>
+                        <td className="py-1.5 pr-4 capitalize">{fill.side}</td>
+                        <td className="py-1.5 pr-4 text-right">{fill.quantity.toLocaleString()}</td>
+                        <td className="py-1.5 text-right">${fill.price.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          )}
+
+          {alert.evidence?.kind === 'marketData' && (
+            <section className="border-t border-white/10 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <LineChart className="w-5 h-5 text-blue-400" />
+                Market Data Evidence
+              </h3>
+              <p className="text-sm text-white/70 mb-3">{alert.evidence.summary}</p>
+              {alert.evidence.session && (
+                <p className="text-xs text-white/50 mb-3">Session: {alert.evidence.session}</p>
+              )}
+              {alert.evidence.baseline && (
+                <div className="flex flex-wrap gap-2 mb-3 text-xs">
+                  {alert.evidence.baseline.volume && (
+                    <span className="px-2 py-1 rounded-lg bg-purple-500/20 text-purple-200">
+                      Volume {alert.evidence.baseline.volume.zScore.toFixed(1)}σ vs {alert.evidence.baseline.volume.bucket} bucket
+                      {' '}(mean {Math.round(alert.evidence.baseline.volume.mean).toLocaleString()} ±
+                      {' '}{Math.round(alert.evidence.baseline.volume.stdDev).toLocaleString()} over {alert.evidence.baseline.volume.days} days)
+                    </span>
+                  )}
+                  {alert.evidence.baseline.price && (
+                    <span className="px-2 py-1 rounded-lg bg-purple-500/20 text-purple-200">
+                      Price move {alert.evidence.baseline.price.zScore.toFixed(1)}σ
+                      {' '}({alert.evidence.baseline.price.movePercent.toFixed(2)}% vs EWMA volatility
+                      {' '}{alert.evidence.baseline.price.volatilityPercent.toFixed(2)}% per bar)
+                    </span>
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-4 gap-4 mb-4 text-sm">
+                <div>
+                  <label className="text-white/60">Rule</label>
+                  <p className="text-white/90">{alert.evidence.rule.name} · v{alert.evidence.rule.version}</p>
+                  {alert.evidence.rule.overriddenBy && (
+                    <p className="text-xs text-yellow-300">Overridden by {alert.evidence.rule.overriddenBy.join(', ')}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="text-white/60">Observed / Threshold</label>
+                  <p className="text-white font-semibold">
+                    {alert.evidence.observedValue.toFixed(2)} {alert.evidence.rule.comparator} {alert.evidence.rule.threshold} {alert.evidence.rule.unit}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-white/60">Quote</label>
+                  <p className="text-white/90">
+                    ${alert.evidence.quote.price.toFixed(2)} ({alert.evidence.quote.changePercent >= 0 ? '+' : ''}
+                    {alert.evidence.quote.changePercent.toFixed(2)}%)
+                    {alert.evidence.quote.previousClose !== undefined && ` · prev close $${alert.evidence.quote.previousClose.toFixed(2)}`}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-white/60">Volume</label>
+                  <p className="text-white/90">
+                    {alert.evidence.quote.volume.toLocaleString()}
+                    {alert.evidence.averageVolume !== undefined && ` · avg ${Math.round(alert.evidence.averageVolume).toLocaleString()}`}
+                  </p>
+                </div>
+              </div>
+              <div className="bg-white/5 rounded-xl p-3">
+                <EvidenceChart evidence={alert.evidence} />
+              </div>
+            </section>
+          )}
+
           {/* Action Timeline */}
           <section className="border-t border-white/10 pt-6">
-            <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-              <Clock className="w-5 h-5 text-blue-400" />
-              Action Timeline
-            </h3>
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                <Clock className="w-5 h-5 text-blue-400" />
+                Action Timeline
+              </h3>
+              <div className="flex items-center gap-2">
+                <span
+                  className={`px-2 py-1 rounded-lg text-xs font-semibold inline-flex items-center gap-1 ${verification.valid ? 'status-resolved' : 'badge-critical'}`}
+                  title={verification.valid ? `Head ${verification.headHash}` : verification.issues.map(issue => issue.message).join('\n')}
+                >
+                  {verification.valid ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                  {verification.valid ? 'Audit chain verified' : `${verification.issues.length} audit chain issue(s)`}
+                </span>
+                <button
+                  onClick={handleExportAuditLog}
+                  className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+                  title="Export audit log with verification result"
+                >
+                  <Download className="w-4 h-4 text-white/70" />
+                </button>
+              </div>
+            </div>
+            {!verification.valid && (
+              <ul className="mb-4 text-sm text-red-300 list-disc list-inside">
+                {verification.issues.map(issue => <li key={`${issue.index}-${issue.problem}`}>{issue.message}</li>)}
+              </ul>
+            )}
             <div className="space-y-4">
               {alert.timeline.map((event, index) => (
                 <div key={event.id} className="flex gap-4">
@@ -202,6 +668,12 @@ export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDeta
                       </span>
                     </div>
                     <p className="text-sm text-white/70">By {event.user}</p>
+                    {event.reasonCode && (
+                      <p className="text-sm text-white/60 mt-1">Reason: {dismissalReasonLabel(event.reasonCode)}</p>
+                    )}
+                    {event.escalationTarget && (
+                      <p className="text-sm text-white/60 mt-1">Escalated to: {event.escalationTarget}</p>
+                    )}
                     {event.notes && (
                       <p className="text-sm text-white/60 mt-1">{event.notes}</p>
                     )}
@@ -226,42 +698,96 @@ export default function AlertDetailModal({ alert, onClose, onUpdate }: AlertDeta
           </section>
 
           {/* Action Buttons */}
-          <section className="border-t border-white/10 pt-6 flex flex-wrap gap-3">
-            {alert.status === 'New' && (
-              <button
-                onClick={() => handleAction('In Review', 'Start Investigation')}
-                disabled={isLoading}
-                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isLoading ? 'Processing...' : 'Start Investigation'}
-              </button>
-            )}
-            {alert.status !== 'Escalated' && alert.status !== 'Resolved' && alert.status !== 'Dismissed' && (
-              <button
-                onClick={() => handleAction('Escalated', 'Escalate')}
-                disabled={isLoading}
-                className="px-4 py-2.5 bg-gradient-to-r from-orange-600 to-red-600 text-white rounded-xl hover:from-orange-700 hover:to-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95"
-              >
-                {isLoading ? 'Processing...' : 'Escalate'}
-              </button>
+          <section className="border-t border-white/10 pt-6 space-y-4">
+            {alert.pendingApproval && (
+              <div className="bg-yellow-500/10 border border-yellow-400/30 rounded-xl p-4 space-y-3">
+                <p className="text-sm text-yellow-200">
+                  <span className="font-semibold">{alert.pendingApproval.action}</span> requested by{' '}
+                  {alert.pendingApproval.requestedByName} on {new Date(alert.pendingApproval.requestedAt).toLocaleString()}
+                  {alert.pendingApproval.reasonCode && ` - ${dismissalReasonLabel(alert.pendingApproval.reasonCode)}`}
+                  . Waiting for a second user to approve.
+                </p>
+                {canDecideApproval(alert, currentUser) && (
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => handleApproval('approve')}
+                      disabled={isLoading}
+                      className={getTransitionButtonClass('Resolved')}
+                    >
+                      {isLoading ? 'Processing...' : 'Approve'}
+                    </button>
+                    <button
+                      onClick={() => handleApproval('reject')}
+                      disabled={isLoading}
+                      title="Enter the reason in the investigation notes"
+                      className={getTransitionButtonClass('Dismissed')}
+                    >
+                      {isLoading ? 'Processing...' : 'Reject'}
+                    </button>
+                  </div>
+                )}
+              </div>
             )}
-            {alert.status !== 'Resolved' && alert.status !== 'Dismissed' && (
-              <button
-                onClick={() => handleAction('Dismissed', 'Dismiss')}
-                disabled={isLoading}
-                className="px-4 py-2.5 bg-white/10 text-white rounded-xl hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold border border-white/20"
-              >
-                {isLoading ? 'Processing...' : 'Dismiss'}
-              </button>
+            {pendingTransition && (
+              <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+                {pendingTransition.requires.includes('reasonCode') && (
+                  <label className="block">
+                    <span className="text-sm font-medium text-white/60">Dismissal reason</span>
+                    <select
+                      value={reasonCode}
+                      onChange={(e) => setReasonCode(e.target.value)}
+                      className="select-modern w-full mt-1"
+                    >
+                      <option value="" className="bg-slate-900">Select a reason...</option>
+                      {DISMISSAL_REASONS.map(reason => (
+                        <option key={reason.code} value={reason.code} className="bg-slate-900">{reason.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {pendingTransition.requires.includes('escalationTarget') && (
+                  <label className="block">
+                    <span className="text-sm font-medium text-white/60">Escalate to</span>
+                    <select
+                      value={escalationTarget}
+                      onChange={(e) => setEscalationTarget(e.target.value)}
+                      className="select-modern w-full mt-1"
+                    >
+                      <option value="" className="bg-slate-900">Select a target...</option>
+                      {ESCALATION_TARGETS.map(target => (
+                        <option key={target} value={target} className="bg-slate-900">{target}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleAction(pendingTransition)}
+                    disabled={isLoading}
+                    className={getTransitionButtonClass(pendingTransition.to)}
+                  >
+                    {isLoading ? 'Processing...' : `Confirm ${pendingTransition.action}`}
+                  </button>
+                  <button onClick={() => setPendingTransition(null)} disabled={isLoading} className="btn-secondary">
+                    Cancel
+                  </button>
+                </div>
+              </div>
             )}
-            {alert.status !== 'Resolved' && alert.status !== 'Dismissed' && (
-              <button
-                onClick={() => handleAction('Resolved', 'Mark Resolved')}
-                disabled={isLoading}
-                className="px-4 py-2.5 bg-gradient-to-r from-green-600 to-teal-600 text-white rounded-xl hover:from-green-700 hover:to-teal-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-semibold shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95"
-              >
-                {isLoading ? 'Processing...' : 'Mark Resolved'}
-              </button>
+            {!pendingTransition && (
+              <div className="flex flex-wrap gap-3">
+                {transitionsForUser(alert, currentUser).map(transition => (
+                  <button
+                    key={transition.to}
+                    onClick={() => handleAction(transition)}
+                    disabled={isLoading}
+                    title={transition.requires.includes('notes') ? 'Requires investigation notes' : undefined}
+                    className={getTransitionButtonClass(transition.to)}
+                  >
+                    {isLoading ? 'Processing...' : transition.action}
+                  </button>
+                ))}
+              </div>
             )}
           </section>
         </div>
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { X, CheckSquare, Download, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert, Status, User } from '../types';
+import { applyBulkAction, BulkAction, BulkFailure } from '../services/bulkActions';
+import { DISMISSAL_REASONS, ESCALATION_TARGETS, WorkflowError } from '../services/workflow';
+import { FourEyesPolicy } from '../services/users';
+import { STATUSES } from '../services/alertActions';
+
+interface BulkActionBarProps {
+  selected: ComplianceAlert[];
+  users: User[];
+  currentUser: User | null;
+  fourEyesPolicy: FourEyesPolicy;
+  onApply: (updated: ComplianceAlert[], failedIds: string[]) => void;
+  onExport: (alerts: ComplianceAlert[]) => void;
+  onClear: () => void;
+}
+
+type BulkMode = 'assign' | 'transition' | 'note';
+
+export default function BulkActionBar({
+  selected, users, currentUser, fourEyesPolicy, onApply, onExport, onClear,
+}: BulkActionBarProps) {
+  const [mode, setMode] = useState<BulkMode>('transition');
+  const [assigneeId, setAssigneeId] = useState('');
+  const [targetStatus, setTargetStatus] = useState<Status>('In Review');
+  const [reasonCode, setReasonCode] = useState('');
+  const [escalationTarget, setEscalationTarget] = useState('');
+  const [notes, setNotes] = useState('');
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+
+  const buildAction = (): BulkAction => {
+    switch (mode) {
+      case 'assign':
+        return { kind: 'assign', assignee: users.find(user => user.id === assigneeId) || null };
+      case 'note':
+        return { kind: 'note', notes };
+      case 'transition':
+        return {
+          kind: 'transition',
+          to: targetStatus,
+          notes: notes || undefined,
+          reasonCode: targetStatus === 'Dismissed' ? reasonCode : undefined,
+          escalationTarget: targetStatus === 'Escalated' ? escalationTarget : undefined,
+        };
+    }
+  };
+
+  const handleApply = () => {
+    if (!currentUser) {
+      toast.error('Select a user before acting on alerts');
+      return;
+    }
+
+    let result;
+    try {
+      result = applyBulkAction(selected, buildAction(), currentUser, fourEyesPolicy);
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        toast.error(error.message);
+        return;
+      }
+      throw error;
+    }
+
+    onApply(result.updated, result.failures.map(failure => failure.alertId));
+    setFailures(result.failures);
+    const summary = `${result.updated.length} updated` +
+      (result.unchanged.length > 0 ? `, ${result.unchanged.length} unchanged` : '') +
+      (result.failures.length > 0 ? `, ${result.failures.length} failed` : '');
+    if (result.failures.length > 0) {
+      toast.error(summary);
+    } else {
+      toast.success(summary);
+      setNotes('');
+    }
+  };
+
+  return (
+    <div className="card p-4 mb-6 animate-fade-in space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="flex items-center gap-2 font-semibold text-white">
+          <CheckSquare className="w-4 h-4 text-blue-400" />
+          {selected.length} selected
+        </span>
+
+        <select value={mode} onChange={(e) => setMode(e.target.value as BulkMode)} className="select-modern">
+          <option value="transition" className="bg-slate-900">Change status</option>
+          <option value="assign" className="bg-slate-900">Assign</option>
+          <option value="note" className="bg-slate-900">Add note</option>
+        </select>
+
+        {mode === 'assign' && (
+          <select value={assigneeId} onChange={(e) => setAssigneeId(e.target.value)} className="select-modern">
+            <option value="" className="bg-slate-900">Team queue (unassigned)</option>
+            {users.filter(user => user.active).map(user => (
+              <option key={user.id} value={user.id} className="bg-slate-900">{user.name}</option>
+            ))}
+          </select>
+        )}
+
+        {mode === 'transition' && (
+          <>
+            <select value={targetStatus} onChange={(e) => setTargetStatus(e.target.value as Status)} className="select-modern">
+              {STATUSES.filter(status => status !== 'New').map(status => (
+                <option key={status} value={status} className="bg-slate-900">{status}</option>
+              ))}
+            </select>
+            {targetStatus === 'Dismissed' && (
+              <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value)} className="select-modern">
+                <option value="" className="bg-slate-900">Dismissal reason...</option>
+                {DISMISSAL_REASONS.map(reason => (
+                  <option key={reason.code} value={reason.code} className="bg-slate-900">{reason.label}</option>
+                ))}
+              </select>
+            )}
+            {targetStatus === 'Escalated' && (
+              <select value={escalationTarget} onChange={(e) => setEscalationTarget(e.target.value)} className="select-modern">
+                <option value="" className="bg-slate-900">Escalate to...</option>
+                {ESCALATION_TARGETS.map(target => (
+                  <option key={target} value={target} className="bg-slate-900">{target}</option>
+                ))}
+              </select>
+            )}
+          </>
+        )}
+
+        {mode !== 'assign' && (
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={mode === 'note' ? 'Note for every selected alert' : 'Comment (required to resolve or reopen)'}
+            className="input-modern flex-1 min-w-[12rem]"
+          />
+        )}
+
+        <button onClick={handleApply} className="btn-primary">Apply</button>
+        <button onClick={() => onExport(selected)} className="btn-secondary inline-flex items-center gap-2">
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+        <button onClick={onClear} className="p-2 hover:bg-white/10 rounded-xl transition-colors" title="Clear selection">
+          <X className="w-4 h-4 text-white/70" />
+        </button>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="bg-red-500/10 border border-red-400/30 rounded-xl p-3 text-sm">
+          <div className="flex items-center justify-between mb-1">
+            <span className="flex items-center gap-2 font-semibold text-red-200">
+              <AlertCircle className="w-4 h-4" />
+              {failures.length} alert(s) were not changed and stay selected
+            </span>
+            <button onClick={() => setFailures([])} className="text-white/50 hover:text-white/80">Dismiss</button>
+          </div>
+          <ul className="list-disc list-inside text-red-300 max-h-32 overflow-y-auto">
+            {failures.map(failure => <li key={failure.alertId}>{failure.alertId}: {failure.message}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
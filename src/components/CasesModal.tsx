@@ -0,0 +1,281 @@
+import { useState, useMemo } from 'react';
+import { X, FolderOpen, ArrowLeft, Clock, FileText, ShieldCheck, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Case, CaseStatus, ComplianceAlert, User } from '../types';
+import { addCaseNote, CASE_STATUSES, updateCaseStatus } from '../services/cases';
+import { verifyTimeline } from '../services/auditChain';
+import { WorkflowError } from '../services/workflow';
+
+interface CasesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cases: Case[];
+  alerts: ComplianceAlert[];
+  currentUser: User | null;
+  onUpdateCase: (updated: Case) => void;
+  onSelectAlert: (alert: ComplianceAlert) => void;
+}
+
+const getCaseStatusColor = (status: CaseStatus) => {
+  switch (status) {
+    case 'Open': return 'status-new';
+    case 'Investigating': return 'status-review';
+    case 'Closed': return 'status-resolved';
+  }
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'New': return 'status-new';
+    case 'In Review': return 'status-review';
+    case 'Escalated': return 'status-escalated';
+    case 'Dismissed': return 'status-dismissed';
+    case 'Resolved': return 'status-resolved';
+    default: return 'bg-gray-500/20 text-gray-300 border-gray-400/30';
+  }
+};
+
+export default function CasesModal({
+  isOpen, onClose, cases, alerts, currentUser, onUpdateCase, onSelectAlert,
+}: CasesModalProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | 'All'>('All');
+  const [notes, setNotes] = useState('');
+
+  const selected = cases.find(c => c.id === selectedId) || null;
+
+  // The notes draft starts from the case's notes when switching cases, and is left alone by saves
+  const selectCase = (caseRecord: Case | null) => {
+    setSelectedId(caseRecord?.id ?? null);
+    setNotes(caseRecord?.notes || '');
+  };
+
+  const verification = useMemo(
+    () => selected ? verifyTimeline(selected.id, selected.timeline) : null,
+    [selected]
+  );
+
+  const applyCaseAction = (step: () => Case, message: string) => {
+    try {
+      onUpdateCase(step());
+      toast.success(message);
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        toast.error(error.message);
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const handleStatus = (status: CaseStatus) => {
+    if (!selected) return;
+    if (!currentUser) {
+      toast.error('Select a user before acting on cases');
+      return;
+    }
+    applyCaseAction(() => updateCaseStatus(selected, status, currentUser, notes), `${selected.id} moved to ${status}`);
+  };
+
+  const handleSaveNotes = () => {
+    if (!selected || !notes.trim()) return;
+    if (!currentUser) {
+      toast.error('Select a user before acting on cases');
+      return;
+    }
+    applyCaseAction(() => addCaseNote(selected, notes, currentUser), 'Case notes saved');
+  };
+
+  if (!isOpen) return null;
+
+  const visibleCases = cases
+    .filter(c => statusFilter === 'All' || c.status === statusFilter)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  const caseAlerts = selected
+    ? alerts.filter(alert => selected.alertIds.includes(alert.id))
+    : [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            {selected ? (
+              <button onClick={() => selectCase(null)} className="p-2 hover:bg-white/10 rounded-xl transition-colors">
+                <ArrowLeft className="w-5 h-5 text-white/70" />
+              </button>
+            ) : (
+              <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+                <FolderOpen className="w-6 h-6 text-blue-400" />
+              </div>
+            )}
+            <div>
+              <h2 className="text-2xl font-bold text-white">{selected ? selected.title : 'Cases'}</h2>
+              {selected && <p className="text-sm text-white/60">{selected.id}</p>}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        {!selected ? (
+          <div className="p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-white/60">
+                Open alerts for the same trader, instrument and pattern are grouped into a case automatically;
+                repeat detections within the correlation window are counted on the original alert.
+              </p>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as CaseStatus | 'All')}
+                className="select-modern"
+              >
+                <option value="All" className="bg-slate-900">All Cases</option>
+                {CASE_STATUSES.map(status => (
+                  <option key={status} value={status} className="bg-slate-900">{status}</option>
+                ))}
+              </select>
+            </div>
+
+            {visibleCases.length === 0 ? (
+              <p className="text-white/60 text-center py-8">No cases yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/50 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">Case</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Updated</th>
+                    <th className="py-2 font-medium text-right">Alerts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleCases.map(c => (
+                    <tr
+                      key={c.id}
+                      onClick={() => selectCase(c)}
+                      className="border-b border-white/5 text-white/80 cursor-pointer hover:bg-white/5"
+                    >
+                      <td className="py-2 pr-4">
+                        <span className="font-semibold text-white">{c.title}</span>
+                        <span className="text-white/50 ml-2">{c.id}</span>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <span className={`px-2 py-0.5 rounded-lg text-xs font-semibold ${getCaseStatusColor(c.status)}`}>
+                          {c.status}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">{new Date(c.updatedAt).toLocaleString()}</td>
+                      <td className="py-2 text-right">{c.alertIds.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            <section className="flex items-center justify-between gap-4">
+              <span className={`px-3 py-1.5 rounded-lg text-sm font-semibold ${getCaseStatusColor(selected.status)}`}>
+                {selected.status}
+              </span>
+              <div className="flex gap-2">
+                {CASE_STATUSES.filter(status => status !== selected.status).map(status => (
+                  <button
+                    key={status}
+                    onClick={() => handleStatus(status)}
+                    className={status === 'Closed' ? 'btn-primary' : 'btn-secondary'}
+                  >
+                    {status === 'Closed' ? 'Close Case' : selected.status === 'Closed' ? 'Reopen' : `Mark ${status}`}
+                  </button>
+                ))}
+              </div>
+            </section>
+
+            <section className="border-t border-white/10 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Linked Alerts ({caseAlerts.length})</h3>
+              <div className="space-y-2">
+                {caseAlerts.map(alert => (
+                  <div
+                    key={alert.id}
+                    onClick={() => onSelectAlert(alert)}
+                    className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm cursor-pointer hover:bg-white/10 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="font-semibold text-white">
+                        {alert.id}
+                        {alert.occurrences && alert.occurrences > 1 ? ` (×${alert.occurrences})` : ''}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-lg text-xs font-semibold ${getStatusColor(alert.status)}`}>
+                        {alert.status}
+                      </span>
+                    </div>
+                    <p className="text-white/70">{alert.description}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="border-t border-white/10 pt-6">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <FileText className="w-5 h-5 text-blue-400" />
+                Case Notes
+              </h3>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Findings that apply to the whole case... (required to close it)"
+                className="input-modern h-32 resize-none"
+              />
+              <div className="flex justify-end mt-2">
+                <button onClick={handleSaveNotes} disabled={!notes.trim()} className="btn-secondary disabled:opacity-50">
+                  Save Notes
+                </button>
+              </div>
+            </section>
+
+            <section className="border-t border-white/10 pt-6">
+              <div className="flex items-center justify-between gap-3 mb-4">
+                <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                  <Clock className="w-5 h-5 text-blue-400" />
+                  Case Timeline
+                </h3>
+                {verification && (
+                  <span
+                    className={`px-2 py-1 rounded-lg text-xs font-semibold inline-flex items-center gap-1 ${verification.valid ? 'status-resolved' : 'badge-critical'}`}
+                    title={verification.valid ? `Head ${verification.headHash}` : verification.issues.map(issue => issue.message).join('\n')}
+                  >
+                    {verification.valid ? <ShieldCheck className="w-3 h-3" /> : <ShieldAlert className="w-3 h-3" />}
+                    {verification.valid ? 'Audit chain verified' : `${verification.issues.length} audit chain issue(s)`}
+                  </span>
+                )}
+              </div>
+              <div className="space-y-3">
+                {selected.timeline.map(event => (
+                  <div key={event.id} className="text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-white">{event.action}</span>
+                      <span className="text-white/60">{new Date(event.timestamp).toLocaleString()}</span>
+                    </div>
+                    <p className="text-white/70">By {event.user}</p>
+                    {event.notes && <p className="text-white/60 mt-1">{event.notes}</p>}
+                  </div>
+                ))}
+              </div>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { MarketDataEvidence, MarketDataPoint } from '../types';
+
+interface EvidenceChartProps {
+  evidence: MarketDataEvidence;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PADDING = { left: 56, right: 110, top: 12, bottom: 22 };
+const PRICE_HEIGHT = 160;
+const VOLUME_TOP = PADDING.top + PRICE_HEIGHT + 12;
+const VOLUME_HEIGHT = HEIGHT - VOLUME_TOP - PADDING.bottom;
+
+const formatTime = (timestamp: string) => new Date(timestamp).toISOString().slice(11, 16);
+const formatVolume = (volume: number) => volume >= 1_000_000
+  ? `${(volume / 1_000_000).toFixed(1)}M`
+  : volume >= 1_000 ? `${(volume / 1_000).toFixed(0)}K` : String(Math.round(volume));
+
+// Bars plus the quote the rule saw, in time order
+function chartPoints(evidence: MarketDataEvidence): MarketDataPoint[] {
+  const points = [...evidence.bars];
+  const lastBar = points[points.length - 1];
+  if (!lastBar || new Date(evidence.quote.timestamp).getTime() > new Date(lastBar.timestamp).getTime()) {
+    points.push({ timestamp: evidence.quote.timestamp, price: evidence.quote.price, volume: evidence.quote.volume });
+  }
+  return points;
+}
+
+function range(values: number[]): [number, number] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const margin = (max - min) * 0.08 || Math.abs(max) * 0.01 || 1;
+  return [min - margin, max + margin];
+}
+
+// Price line over volume bars, with the trigger point and the rule's threshold levels marked
+export default function EvidenceChart({ evidence }: EvidenceChartProps) {
+  const points = chartPoints(evidence);
+  const priceMarkers = evidence.thresholds.filter(marker => marker.axis === 'price');
+  const volumeMarkers = evidence.thresholds.filter(marker => marker.axis === 'volume');
+
+  const times = points.map(point => new Date(point.timestamp).getTime());
+  const [minTime, maxTime] = [Math.min(...times), Math.max(...times)];
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const x = (timestamp: string) => maxTime === minTime
+    ? PADDING.left + plotWidth / 2
+    : PADDING.left + ((new Date(timestamp).getTime() - minTime) / (maxTime - minTime)) * plotWidth;
+
+  const [minPrice, maxPrice] = range([...points.map(point => point.price), ...priceMarkers.map(marker => marker.value)]);
+  const priceY = (price: number) => PADDING.top + (1 - (price - minPrice) / (maxPrice - minPrice)) * PRICE_HEIGHT;
+
+  const maxVolume = Math.max(
+    ...points.map(point => point.volume), ...volumeMarkers.map(marker => marker.value), evidence.averageVolume || 0, 1
+  ) * 1.1;
+  const volumeY = (volume: number) => VOLUME_TOP + (1 - volume / maxVolume) * VOLUME_HEIGHT;
+  const barWidth = Math.max(2, Math.min(12, plotWidth / points.length - 2));
+
+  const trigger = evidence.trigger;
+  const triggerX = x(trigger.timestamp);
+  const line = points.map(point => `${x(point.timestamp).toFixed(1)},${priceY(point.price).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Price and volume around the trigger">
+      {/* Axes labels */}
+      <text x={PADDING.left - 6} y={priceY(maxPrice) + 10} textAnchor="end" fontSize="10" fill="rgba(255,255,255,0.5)">
+        {maxPrice.toFixed(2)}
+      </text>
+      <text x={PADDING.left - 6} y={priceY(minPrice)} textAnchor="end" fontSize="10" fill="rgba(255,255,255,0.5)">
+        {minPrice.toFixed(2)}
+      </text>
+      <text x={PADDING.left - 6} y={VOLUME_TOP + 10} textAnchor="end" fontSize="10" fill="rgba(255,255,255,0.5)">
+        {formatVolume(maxVolume)}
+      </text>
+      <text x={PADDING.left} y={HEIGHT - 6} fontSize="10" fill="rgba(255,255,255,0.5)">{formatTime(points[0].timestamp)} UTC</text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize="10" fill="rgba(255,255,255,0.5)">
+        {formatTime(points[points.length - 1].timestamp)} UTC
+      </text>
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={VOLUME_TOP + VOLUME_HEIGHT} y2={VOLUME_TOP + VOLUME_HEIGHT} stroke="rgba(255,255,255,0.2)" />
+
+      {/* Volume */}
+      {points.map(point => (
+        <rect
+          key={point.timestamp}
+          x={x(point.timestamp) - barWidth / 2}
+          y={volumeY(point.volume)}
+          width={barWidth}
+          height={VOLUME_TOP + VOLUME_HEIGHT - volumeY(point.volume)}
+          fill={point.timestamp === trigger.timestamp ? '#f97316' : 'rgba(96,165,250,0.45)'}
+        />
+      ))}
+      {evidence.averageVolume !== undefined && (
+        <g>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={volumeY(evidence.averageVolume)} y2={volumeY(evidence.averageVolume)} stroke="rgba(255,255,255,0.5)" strokeDasharray="2 3" />
+          <text x={WIDTH - PADDING.right + 4} y={volumeY(evidence.averageVolume) + 3} fontSize="10" fill="rgba(255,255,255,0.6)">Avg volume</text>
+        </g>
+      )}
+
+      {/* Price */}
+      <polyline points={line} fill="none" stroke="#60a5fa" strokeWidth="2" />
+      {points.length === 1 && <circle cx={x(points[0].timestamp)} cy={priceY(points[0].price)} r="3" fill="#60a5fa" />}
+
+      {/* Threshold levels */}
+      {[...priceMarkers.map(marker => ({ ...marker, y: priceY(marker.value) })), ...volumeMarkers.map(marker => ({ ...marker, y: volumeY(marker.value) }))]
+        .map(marker => (
+          <g key={`${marker.axis}-${marker.label}`}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={marker.y} y2={marker.y} stroke="#f87171" strokeDasharray="5 4" />
+            <text x={WIDTH - PADDING.right + 4} y={marker.y + 3} fontSize="10" fill="#fca5a5">{marker.label}</text>
+          </g>
+        ))}
+
+      {/* Trigger */}
+      <line x1={triggerX} x2={triggerX} y1={PADDING.top} y2={VOLUME_TOP + VOLUME_HEIGHT} stroke="#f97316" strokeDasharray="3 3" />
+      <circle cx={triggerX} cy={priceY(trigger.price)} r="5" fill="#f97316" stroke="white" strokeWidth="1.5" />
+      <text
+        x={triggerX + (triggerX > WIDTH - PADDING.right - 60 ? -8 : 8)}
+        y={Math.max(PADDING.top + 10, priceY(trigger.price) - 8)}
+        textAnchor={triggerX > WIDTH - PADDING.right - 60 ? 'end' : 'start'}
+        fontSize="11"
+        fontWeight="600"
+        fill="#fdba74"
+      >
+        Trigger {trigger.price.toFixed(2)} @ {formatTime(trigger.timestamp)}
+      </text>
+    </svg>
+  );
+}
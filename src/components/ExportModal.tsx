@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { X, Download, FileSpreadsheet } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert } from '../types';
+import {
+  alertsToCsv, downloadFile, exportFileName, loadExportColumns, saveExportColumns,
+  DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, ExportFormat,
+} from '../services/exporters';
+import {
+  loadReportingEntity, saveReportingEntity, EMPTY_REPORTING_ENTITY, ReportingEntity,
+} from '../services/regulatoryReports';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  alerts: ComplianceAlert[];
+}
+
+const ENTITY_FIELDS: { key: keyof ReportingEntity; label: string }[] = [
+  { key: 'name', label: 'Firm name' },
+  { key: 'lei', label: 'LEI' },
+  { key: 'country', label: 'Country' },
+  { key: 'contactName', label: 'Contact name' },
+  { key: 'contactPhone', label: 'Contact phone' },
+  { key: 'contactEmail', label: 'Contact email' },
+];
+
+export default function ExportModal({ isOpen, onClose, alerts }: ExportModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [entity, setEntity] = useState<ReportingEntity>(EMPTY_REPORTING_ENTITY);
+
+  useEffect(() => {
+    if (isOpen) {
+      setColumns(loadExportColumns());
+      setEntity(loadReportingEntity());
+    }
+  }, [isOpen]);
+
+  const toggleColumn = (key: string) => {
+    // Keep the columns in their canonical order whatever order they were ticked in
+    setColumns(prev => EXPORT_COLUMNS
+      .map(column => column.key)
+      .filter(columnKey => columnKey === key ? !prev.includes(key) : prev.includes(columnKey)));
+  };
+
+  const handleExport = () => {
+    if (format === 'csv') {
+      if (columns.length === 0) {
+        toast.error('Select at least one column');
+        return;
+      }
+      saveExportColumns(columns);
+      downloadFile(alertsToCsv(alerts, columns), exportFileName('compliance-alerts', 'csv'), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(JSON.stringify(alerts, null, 2), exportFileName('compliance-alerts', 'json'), 'application/json');
+    }
+    toast.success(`${alerts.length} alerts exported successfully`);
+    onClose();
+  };
+
+  const handleSaveEntity = () => {
+    saveReportingEntity(entity);
+    toast.success('Reporting firm details saved');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <FileSpreadsheet className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Export {alerts.length} Alerts</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <section className="space-y-3">
+            <div className="flex items-center gap-3">
+              <label className="text-sm font-semibold text-white/80">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className="select-modern">
+                <option value="csv" className="bg-slate-900">CSV (opens in Excel)</option>
+                <option value="json" className="bg-slate-900">JSON (full records)</option>
+              </select>
+            </div>
+
+            {format === 'csv' && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-semibold text-white/80">Columns</label>
+                  <div className="flex gap-3 text-xs">
+                    <button onClick={() => setColumns(EXPORT_COLUMNS.map(column => column.key))} className="text-blue-400 hover:text-blue-300">All</button>
+                    <button onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)} className="text-blue-400 hover:text-blue-300">Defaults</button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                  {EXPORT_COLUMNS.map(column => (
+                    <label key={column.key} className="flex items-center gap-2 text-white/80 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={columns.includes(column.key)}
+                        onChange={() => toggleColumn(column.key)}
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <button onClick={handleExport} disabled={alerts.length === 0} className="btn-primary disabled:opacity-50">
+                <Download className="w-4 h-4" />
+                Download
+              </button>
+            </div>
+          </section>
+
+          <section className="border-t border-white/10 pt-6">
+            <h3 className="text-lg font-semibold text-white mb-1">Reporting Firm</h3>
+            <p className="text-sm text-white/60 mb-4">
+              Pre-filled on STOR and SAR drafts generated from an alert's detail view.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {ENTITY_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs text-white/60 mb-1">{field.label}</label>
+                  <input
+                    value={entity[field.key]}
+                    onChange={(e) => setEntity({ ...entity, [field.key]: e.target.value })}
+                    className="input-modern"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end mt-3">
+              <button onClick={handleSaveEntity} className="btn-secondary">Save Firm Details</button>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
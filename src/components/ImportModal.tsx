@@ -0,0 +1,181 @@
+import { useState, useMemo, useEffect } from 'react';
+import { X, Upload, FileInput } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert, User } from '../types';
+import {
+  parseAlertImport, planAlertImport, CONFLICT_STRATEGY_LABELS, ImportConflictStrategy, ImportRow,
+} from '../services/alertImport';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  alerts: ComplianceAlert[];
+  currentUser: User | null;
+  // The rows and strategy go along for the API server, which plans the import again against its own alerts
+  onImport: (imported: ComplianceAlert[], rows: ImportRow[], strategy: ImportConflictStrategy) => void;
+}
+
+const OUTCOME_LABELS: Record<ImportConflictStrategy, string> = {
+  skip: 'Exists - skipped',
+  overwrite: 'Exists - overwritten',
+  merge: 'Exists - timeline merged',
+};
+
+export default function ImportModal({ isOpen, onClose, alerts, currentUser, onImport }: ImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('skip');
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName('');
+      setRows([]);
+    }
+  }, [isOpen]);
+
+  const existingIds = useMemo(() => new Set(alerts.map(alert => alert.id)), [alerts]);
+  const plan = useMemo(
+    () => planAlertImport(rows, alerts, strategy, currentUser, fileName),
+    [rows, alerts, strategy, currentUser, fileName]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseAlertImport(file.name, await file.text());
+      setFileName(file.name);
+      setRows(parsed);
+      if (parsed.length === 0) toast.error('The file contains no alerts');
+    } catch (error) {
+      toast.error(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleImport = () => {
+    onImport(plan.alerts, rows, strategy);
+    const parts = [
+      `${plan.created.length} imported`,
+      plan.overwritten.length > 0 && `${plan.overwritten.length} overwritten`,
+      plan.merged.length > 0 && `${plan.merged.length} merged`,
+      plan.skipped.length > 0 && `${plan.skipped.length} skipped`,
+      plan.invalid > 0 && `${plan.invalid} invalid rows left out`,
+    ].filter(Boolean);
+    toast.success(parts.join(', '));
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <FileInput className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Import Alerts</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-white/60">
+              Import alerts raised by other surveillance systems from a JSON file (an array of alerts, or
+              <code className="text-white/80"> {'{ "alerts": [...] }'}</code>) or a CSV file with one alert per row
+              (e.g. <code className="text-white/80">id,type,severity,status,timestamp,description,detectedBy,trader.id,trader.name</code>).
+              Every alert is checked before anything is imported.
+            </p>
+            <label className="btn-secondary cursor-pointer inline-flex items-center gap-2 whitespace-nowrap">
+              <Upload className="w-4 h-4" />
+              Choose File
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+                <span className="text-white/80">
+                  <span className="font-semibold text-white">{fileName}</span>: {rows.length} rows,{' '}
+                  {plan.created.length} new, {rows.filter(row => row.alert && existingIds.has(row.id)).length} already stored,{' '}
+                  <span className={plan.invalid > 0 ? 'text-red-300' : ''}>{plan.invalid} invalid</span>
+                </span>
+                <select
+                  value={strategy}
+                  onChange={(e) => setStrategy(e.target.value as ImportConflictStrategy)}
+                  className="select-modern"
+                >
+                  {(Object.keys(CONFLICT_STRATEGY_LABELS) as ImportConflictStrategy[]).map(key => (
+                    <option key={key} value={key} className="bg-slate-900">{CONFLICT_STRATEGY_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-white/50 border-b border-white/10">
+                      <th className="py-2 pr-4 font-medium">Row</th>
+                      <th className="py-2 pr-4 font-medium">Alert</th>
+                      <th className="py-2 pr-4 font-medium">Type</th>
+                      <th className="py-2 pr-4 font-medium">Trader</th>
+                      <th className="py-2 font-medium">Outcome</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.row} className="border-b border-white/5 text-white/80 align-top">
+                        <td className="py-1.5 pr-4">{row.row}</td>
+                        <td className="py-1.5 pr-4 font-semibold text-white">{row.id || '-'}</td>
+                        <td className="py-1.5 pr-4">{row.alert ? `${row.alert.severity} ${row.alert.type}` : ''}</td>
+                        <td className="py-1.5 pr-4">{row.alert?.trader.name}</td>
+                        <td className="py-1.5">
+                          {!row.alert ? (
+                            <ul className="text-red-300 list-disc list-inside">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : existingIds.has(row.id) ? (
+                            <span className="text-yellow-300">
+                              {strategy === 'merge' && plan.skipped.includes(row.id) ? 'Exists - nothing new' : OUTCOME_LABELS[strategy]}
+                            </span>
+                          ) : (
+                            <span className="text-green-300">New</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button onClick={() => setRows([])} className="btn-secondary">Discard</button>
+                <button onClick={handleImport} disabled={plan.alerts.length === 0} className="btn-primary disabled:opacity-50">
+                  Import {plan.alerts.length} Alert{plan.alerts.length === 1 ? '' : 's'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, CalendarClock, Upload, Play, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert, CorporateEvent, OrderEvent, Position } from '../types';
+import { parseOrderEvents } from '../services/orderEvents';
+import { buildPositions, parsePositionSnapshot } from '../services/positions';
+import { TraderRegistry } from '../services/traderRegistry';
+import { Watchlist } from '../services/watchlist';
+import {
+  CORPORATE_EVENT_LABELS, loadCorporateEvents, parseCorporateEvents, saveCorporateEvents,
+} from '../services/corporateEvents';
+import {
+  detectInsiderTrading, InsiderTradingConfig, loadInsiderTradingConfig, restrictedGroupsFor, saveInsiderTradingConfig,
+} from '../services/insiderDetector';
+
+interface InsiderTradingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  traders: TraderRegistry;
+  watchlist: Watchlist;
+  onAddAlerts: (alerts: ComplianceAlert[]) => void;
+}
+
+export default function InsiderTradingModal({ isOpen, onClose, traders, watchlist, onAddAlerts }: InsiderTradingModalProps) {
+  const [corporateEvents, setCorporateEvents] = useState<CorporateEvent[]>([]);
+  const [orderEvents, setOrderEvents] = useState<OrderEvent[]>([]);
+  const [snapshot, setSnapshot] = useState<Position[]>([]);
+  const [config, setConfig] = useState<InsiderTradingConfig>(loadInsiderTradingConfig);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCorporateEvents(loadCorporateEvents());
+      setConfig(loadInsiderTradingConfig());
+    }
+  }, [isOpen]);
+
+  const restrictedSymbols = useMemo(
+    () => watchlist.symbols
+      .map(entry => entry.symbol)
+      .filter(symbol => restrictedGroupsFor(watchlist, symbol).length > 0),
+    [watchlist]
+  );
+
+  const readFile = async (file: File | undefined, apply: (name: string, text: string) => void) => {
+    if (!file) return;
+    try {
+      apply(file.name, await file.text());
+    } catch (error) {
+      toast.error(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleEventsFile = (name: string, text: string) => {
+    const result = parseCorporateEvents(name, text);
+    setParseErrors(result.errors);
+    if (result.errors.length > 0) {
+      toast.error(`${result.errors.length} rows could not be read`);
+    }
+    setCorporateEvents(result.events);
+    saveCorporateEvents(result.events);
+    toast.success(`Loaded ${result.events.length} corporate events`);
+  };
+
+  const handleOrdersFile = (name: string, text: string) => {
+    const result = parseOrderEvents(name, text);
+    if (result.errors.length > 0) {
+      toast.error(`${result.errors.length} rows could not be read`);
+    }
+    setOrderEvents(result.events);
+  };
+
+  const handleSnapshotFile = (name: string, text: string) => {
+    const loaded = parsePositionSnapshot(name, text);
+    setSnapshot(loaded);
+    toast.success(`Loaded ${loaded.length} positions`);
+  };
+
+  const handleClearEvents = () => {
+    setCorporateEvents([]);
+    saveCorporateEvents([]);
+  };
+
+  const handleRun = () => {
+    saveInsiderTradingConfig(config);
+
+    const positions = buildPositions(orderEvents, snapshot);
+    const alerts = detectInsiderTrading(corporateEvents, orderEvents, positions, watchlist, config, traders);
+    if (alerts.length === 0) {
+      toast.success('No abnormal pre-event trading or positions found');
+      return;
+    }
+    onAddAlerts(alerts);
+    toast.success(`Generated ${alerts.length} insider trading alerts from ${corporateEvents.length} corporate events`);
+    onClose();
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="input-modern"
+    />
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <CalendarClock className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Insider Trading</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <section className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Corporate Events ({corporateEvents.length})</h3>
+            <p className="text-sm text-white/60">
+              CSV (<code className="text-white/80">id,symbol,type,timestamp,title</code>, type is earnings, m&amp;a or news)
+              or a JSON array with the same fields. Loaded events are kept for the next run.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Events file
+                <input type="file" accept=".csv,.json" className="hidden"
+                  onChange={(e) => readFile(e.target.files?.[0], handleEventsFile)} />
+              </label>
+              {corporateEvents.length > 0 && (
+                <button onClick={handleClearEvents} className="btn-secondary inline-flex items-center gap-2">
+                  <Trash2 className="w-4 h-4" />
+                  Clear
+                </button>
+              )}
+            </div>
+            {parseErrors.length > 0 && (
+              <ul className="text-sm text-red-300 list-disc list-inside max-h-32 overflow-y-auto">
+                {parseErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+            {corporateEvents.length > 0 && (
+              <div className="max-h-48 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-white/50 border-b border-white/10">
+                      <th className="py-2 pr-4 font-medium">Date</th>
+                      <th className="py-2 pr-4 font-medium">Symbol</th>
+                      <th className="py-2 pr-4 font-medium">Type</th>
+                      <th className="py-2 font-medium">Title</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {corporateEvents.map(event => (
+                      <tr key={event.id} className="border-b border-white/5 text-white/80">
+                        <td className="py-1.5 pr-4 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</td>
+                        <td className="py-1.5 pr-4">
+                          {event.symbol}
+                          {restrictedSymbols.includes(event.symbol) && (
+                            <span className="ml-2 text-xs text-red-300">restricted</span>
+                          )}
+                        </td>
+                        <td className="py-1.5 pr-4">{CORPORATE_EVENT_LABELS[event.type]}</td>
+                        <td className="py-1.5">{event.title}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-2">
+            <h3 className="text-lg font-semibold text-white">Trading Activity</h3>
+            <p className="text-sm text-white/60">
+              Order events (only fills count) and, for upcoming events, an optional positions snapshot
+              (<code className="text-white/80">account,symbol,quantity,price</code>) that the fills are rolled onto.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Orders{orderEvents.length > 0 ? ` (${orderEvents.length})` : ''}
+                <input type="file" accept=".csv,.json" className="hidden"
+                  onChange={(e) => readFile(e.target.files?.[0], handleOrdersFile)} />
+              </label>
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Positions{snapshot.length > 0 ? ` (${snapshot.length})` : ''}
+                <input type="file" accept=".csv,.json" className="hidden"
+                  onChange={(e) => readFile(e.target.files?.[0], handleSnapshotFile)} />
+              </label>
+            </div>
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-2">
+            <h3 className="text-lg font-semibold text-white">Restricted List</h3>
+            <p className="text-sm text-white/60">
+              Symbols in the watchlist's restricted groups. Any pre-event trading or position in them is flagged as Critical.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {restrictedSymbols.length === 0 ? (
+                <span className="text-sm text-white/40">No restricted groups on the watchlist</span>
+              ) : restrictedSymbols.map(symbol => (
+                <span key={symbol} className="px-2 py-0.5 rounded-lg bg-red-500/20 text-red-200 text-xs font-semibold">
+                  {symbol}
+                </span>
+              ))}
+            </div>
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-3">
+            <h3 className="text-lg font-semibold text-white">Thresholds</h3>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="text-xs font-medium text-white/60">Days before the event</label>
+                {numberInput(config.lookbackDays, lookbackDays => setConfig({ ...config, lookbackDays }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Typical activity from the prior (days)</label>
+                {numberInput(config.baselineDays, baselineDays => setConfig({ ...config, baselineDays }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Abnormal above (x typical)</label>
+                {numberInput(config.abnormalMultiple, abnormalMultiple => setConfig({ ...config, abnormalMultiple }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Minimum pre-event notional ($)</label>
+                {numberInput(config.minNotional, minNotional => setConfig({ ...config, minNotional }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Minimum position notional ($)</label>
+                {numberInput(config.minPositionNotional, minPositionNotional => setConfig({ ...config, minPositionNotional }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Critical from notional ($)</label>
+                {numberInput(config.criticalNotional, criticalNotional => setConfig({ ...config, criticalNotional }))}
+              </div>
+            </div>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-white/10">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={corporateEvents.length === 0 || (orderEvents.length === 0 && snapshot.length === 0)}
+            className="btn-primary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" />
+            Run detector
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { X, ScanSearch, Upload, Play } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert, OrderEvent } from '../types';
+import { parseOrderEvents } from '../services/orderEvents';
+import { TraderRegistry } from '../services/traderRegistry';
+import {
+  loadOrderDetectionConfig, runOrderDetectors, saveOrderDetectionConfig, OrderDetectionConfig,
+} from '../services/orderDetectors';
+
+interface OrderSurveillanceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  traders: TraderRegistry;
+  onAddAlerts: (alerts: ComplianceAlert[]) => void;
+}
+
+function formatGroups(groups: string[][]): string {
+  return groups.map(group => group.join(', ')).join('\n');
+}
+
+function parseGroups(text: string): string[][] {
+  return text
+    .split('\n')
+    .map(line => line.split(',').map(account => account.trim()).filter(Boolean))
+    .filter(group => group.length > 1);
+}
+
+export default function OrderSurveillanceModal({ isOpen, onClose, traders, onAddAlerts }: OrderSurveillanceModalProps) {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [config, setConfig] = useState<OrderDetectionConfig>(loadOrderDetectionConfig);
+  const [relatedText, setRelatedText] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      const stored = loadOrderDetectionConfig();
+      setConfig(stored);
+      setRelatedText(formatGroups(stored.washTrading.relatedAccounts));
+    }
+  }, [isOpen]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseOrderEvents(file.name, await file.text());
+    setEvents(result.events);
+    setFileName(file.name);
+    setParseErrors(result.errors);
+    if (result.errors.length > 0) {
+      toast.error(`${result.errors.length} rows could not be read`);
+    } else {
+      toast.success(`Loaded ${result.events.length} order events`);
+    }
+  };
+
+  const handleRun = () => {
+    const effective: OrderDetectionConfig = {
+      ...config,
+      washTrading: { ...config.washTrading, relatedAccounts: parseGroups(relatedText) },
+    };
+    saveOrderDetectionConfig(effective);
+
+    const alerts = runOrderDetectors(events, effective, traders);
+    if (alerts.length === 0) {
+      toast.success('No wash trading, spoofing or layering patterns found');
+      return;
+    }
+    onAddAlerts(alerts);
+    toast.success(`Generated ${alerts.length} alerts from ${events.length} order events`);
+    onClose();
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="input-modern"
+    />
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <ScanSearch className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Order Surveillance</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <section className="space-y-2">
+            <p className="text-sm text-white/60">
+              Load order and execution events as CSV (
+              <code className="text-white/80">id,orderId,type,timestamp,account,symbol,side,quantity,price</code>
+              , type is new, cancel or fill) or as a JSON array with the same fields.
+            </p>
+            <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              {fileName ? `${fileName} (${events.length} events)` : 'Choose events file'}
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            {parseErrors.length > 0 && (
+              <ul className="text-sm text-red-300 list-disc list-inside max-h-32 overflow-y-auto">
+                {parseErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-3">
+            <h3 className="text-lg font-semibold text-white">Wash Trading</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-medium text-white/60">Match window (ms)</label>
+                {numberInput(config.washTrading.windowMs, windowMs =>
+                  setConfig({ ...config, washTrading: { ...config.washTrading, windowMs } }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Price tolerance (%)</label>
+                {numberInput(config.washTrading.priceTolerancePercent, priceTolerancePercent =>
+                  setConfig({ ...config, washTrading: { ...config.washTrading, priceTolerancePercent } }))}
+              </div>
+            </div>
+            <div>
+              <label className="text-xs font-medium text-white/60">
+                Related accounts (one group per line, comma separated; accounts of the same registered trader are always related)
+              </label>
+              <textarea
+                value={relatedText}
+                onChange={(e) => setRelatedText(e.target.value)}
+                placeholder="ACC-001, ACC-002"
+                className="input-modern h-20 resize-none"
+              />
+            </div>
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-3">
+            <h3 className="text-lg font-semibold text-white">Spoofing &amp; Layering</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-medium text-white/60">Large order size (shares)</label>
+                {numberInput(config.spoofing.minQuantity, minQuantity =>
+                  setConfig({ ...config, spoofing: { ...config.spoofing, minQuantity } }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Cancelled within (ms)</label>
+                {numberInput(config.spoofing.maxLifetimeMs, maxLifetimeMs =>
+                  setConfig({ ...config, spoofing: { ...config.spoofing, maxLifetimeMs } }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Layering price levels</label>
+                {numberInput(config.layering.minLevels, minLevels =>
+                  setConfig({ ...config, layering: { ...config.layering, minLevels } }))}
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Layering window (ms)</label>
+                {numberInput(config.layering.windowMs, windowMs =>
+                  setConfig({ ...config, layering: { ...config.layering, windowMs } }))}
+              </div>
+            </div>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-white/10">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={events.length === 0}
+            className="btn-primary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" />
+            Run detectors
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
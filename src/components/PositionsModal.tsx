@@ -0,0 +1,231 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Scale, Upload, Play, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert, LimitMeasure, LimitScope, OrderEvent, Position, PositionLimit } from '../types';
+import { parseOrderEvents } from '../services/orderEvents';
+import { TraderRegistry } from '../services/traderRegistry';
+import {
+  attributePositions, buildPositions, checkPositionLimits, loadLimits, measureUtilisation,
+  parseLimits, parsePositionSnapshot, saveLimits, validateLimit,
+} from '../services/positions';
+
+interface PositionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  traders: TraderRegistry;
+  onAddAlerts: (alerts: ComplianceAlert[]) => void;
+}
+
+const utilisationColor = (percent: number) =>
+  percent > 100 ? 'bg-red-500' : percent >= 95 ? 'bg-orange-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+export default function PositionsModal({ isOpen, onClose, traders, onAddAlerts }: PositionsModalProps) {
+  const [snapshot, setSnapshot] = useState<Position[]>([]);
+  const [fills, setFills] = useState<OrderEvent[]>([]);
+  const [limits, setLimits] = useState<PositionLimit[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLimits(loadLimits());
+    }
+  }, [isOpen]);
+
+  const positions = useMemo(
+    () => attributePositions(buildPositions(fills, snapshot), traders),
+    [fills, snapshot, traders]
+  );
+  const utilisation = useMemo(
+    () => limits.filter(limit => validateLimit(limit).length === 0).map(limit => measureUtilisation(limit, positions)),
+    [limits, positions]
+  );
+
+  const readFile = async (file: File | undefined, apply: (name: string, text: string) => void) => {
+    if (!file) return;
+    try {
+      apply(file.name, await file.text());
+    } catch (error) {
+      toast.error(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSnapshotFile = (name: string, text: string) => {
+    const loaded = parsePositionSnapshot(name, text);
+    setSnapshot(loaded);
+    toast.success(`Loaded ${loaded.length} positions`);
+  };
+
+  const handleFillsFile = (name: string, text: string) => {
+    const result = parseOrderEvents(name, text);
+    if (result.errors.length > 0) {
+      toast.error(`${result.errors.length} rows could not be read`);
+    }
+    setFills(result.events.filter(event => event.type === 'fill'));
+  };
+
+  const handleLimitsFile = (name: string, text: string) => {
+    const loaded = parseLimits(name, text);
+    setLimits(loaded);
+    saveLimits(loaded);
+    toast.success(`Loaded ${loaded.length} limits`);
+  };
+
+  const updateLimit = (index: number, updates: Partial<PositionLimit>) => {
+    setLimits(prev => prev.map((limit, i) => i === index ? { ...limit, ...updates } : limit));
+  };
+
+  const handleRun = () => {
+    const invalid = limits.findIndex(limit => validateLimit(limit).length > 0);
+    if (invalid >= 0) {
+      toast.error(`Limit ${limits[invalid].id}: ${validateLimit(limits[invalid]).join('; ')}`);
+      return;
+    }
+    saveLimits(limits);
+
+    const alerts = checkPositionLimits(positions, limits, undefined, traders);
+    if (alerts.length === 0) {
+      toast.success('All positions are within their limits');
+      return;
+    }
+    onAddAlerts(alerts);
+    toast.success(`Generated ${alerts.length} position limit alerts`);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <Scale className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Position Limits</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <section className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Positions ({positions.length})</h3>
+            <p className="text-sm text-white/60">
+              Start from a snapshot (<code className="text-white/80">account,symbol,quantity,price,traderId,firm</code>)
+              and/or roll forward from an order events file; only fills are applied.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Snapshot{snapshot.length > 0 ? ` (${snapshot.length})` : ''}
+                <input type="file" accept=".csv,.json" className="hidden"
+                  onChange={(e) => readFile(e.target.files?.[0], handleSnapshotFile)} />
+              </label>
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Fills{fills.length > 0 ? ` (${fills.length})` : ''}
+                <input type="file" accept=".csv,.json" className="hidden"
+                  onChange={(e) => readFile(e.target.files?.[0], handleFillsFile)} />
+              </label>
+            </div>
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-white">Limits</h3>
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Import limits
+                <input type="file" accept=".csv,.json" className="hidden"
+                  onChange={(e) => readFile(e.target.files?.[0], handleLimitsFile)} />
+              </label>
+            </div>
+            <div className="space-y-2">
+              {limits.map((limit, index) => {
+                const usage = utilisation.find(u => u.limit.id === limit.id);
+                return (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center text-sm">
+                    <input value={limit.id} onChange={(e) => updateLimit(index, { id: e.target.value })}
+                      className="input-modern col-span-2" placeholder="Id" />
+                    <select value={limit.scope} onChange={(e) => updateLimit(index, { scope: e.target.value as LimitScope })}
+                      className="select-modern col-span-1">
+                      <option value="symbol" className="bg-slate-900">Symbol</option>
+                      <option value="trader" className="bg-slate-900">Trader</option>
+                      <option value="firm" className="bg-slate-900">Firm</option>
+                    </select>
+                    <input value={limit.key} onChange={(e) => updateLimit(index, {
+                        key: limit.scope === 'symbol' ? e.target.value.toUpperCase() : e.target.value,
+                      })}
+                      className="input-modern col-span-2" placeholder="Symbol / trader / firm" />
+                    <input value={limit.symbol || ''} onChange={(e) => updateLimit(index, { symbol: e.target.value.toUpperCase() || undefined })}
+                      className="input-modern col-span-1" placeholder="Symbol" disabled={limit.scope === 'symbol'} />
+                    <select value={limit.measure} onChange={(e) => updateLimit(index, { measure: e.target.value as LimitMeasure })}
+                      className="select-modern col-span-1">
+                      <option value="gross" className="bg-slate-900">Gross</option>
+                      <option value="net" className="bg-slate-900">Net</option>
+                    </select>
+                    <select value={limit.unit} onChange={(e) => updateLimit(index, { unit: e.target.value as PositionLimit['unit'] })}
+                      className="select-modern col-span-1">
+                      <option value="shares" className="bg-slate-900">Shares</option>
+                      <option value="notional" className="bg-slate-900">$</option>
+                    </select>
+                    <input type="number" value={limit.limit} onChange={(e) => updateLimit(index, { limit: parseFloat(e.target.value) })}
+                      className="input-modern col-span-2" />
+                    <div className="col-span-1">
+                      {usage && (
+                        <div title={`${usage.utilisationPercent.toFixed(1)}% used`}>
+                          <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                            <div className={`h-full ${utilisationColor(usage.utilisationPercent)}`}
+                              style={{ width: `${Math.min(usage.utilisationPercent, 100)}%` }} />
+                          </div>
+                          <span className="text-xs text-white/60">{usage.utilisationPercent.toFixed(0)}%</span>
+                        </div>
+                      )}
+                    </div>
+                    <button onClick={() => setLimits(prev => prev.filter((_, i) => i !== index))}
+                      className="p-2 text-red-400 hover:bg-red-500/20 rounded-xl transition-colors col-span-1 justify-self-end">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => setLimits(prev => [...prev, {
+                id: `LIM-${prev.length + 1}`, scope: 'symbol', key: '', measure: 'gross', unit: 'shares', limit: 100000,
+              }])}
+              className="btn-secondary inline-flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add limit
+            </button>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-white/10">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={positions.length === 0 || limits.length === 0}
+            className="btn-primary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4" />
+            Check limits
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
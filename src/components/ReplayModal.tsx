@@ -0,0 +1,206 @@
+import { useRef, useState } from 'react';
+import { X, History, Upload, Play, Square, PlusCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert } from '../types';
+import { DetectionRule } from '../services/detectionRules';
+import { MarketRecording } from '../services/replayProvider';
+import { parseReplayFile, runReplay, ReplayProgress, ReplaySpeed } from '../services/replay';
+
+interface ReplayModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: DetectionRule[];
+  onAddAlerts: (alerts: ComplianceAlert[]) => void;
+}
+
+const SPEED_OPTIONS: { value: ReplaySpeed; label: string }[] = [
+  { value: 1, label: '1x (real time)' },
+  { value: 10, label: '10x' },
+  { value: 'max', label: 'As fast as possible' },
+];
+
+export default function ReplayModal({ isOpen, onClose, rules, onAddAlerts }: ReplayModalProps) {
+  const [recording, setRecording] = useState<MarketRecording | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [speed, setSpeed] = useState<ReplaySpeed>('max');
+  const [progress, setProgress] = useState<ReplayProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseReplayFile(file.name, await file.text());
+      setRecording(parsed);
+      setFileName(file.name);
+      setProgress(null);
+      toast.success(`Loaded ${parsed.quotes.length} quotes from ${file.name}`);
+    } catch (error) {
+      toast.error(`Could not read recording: ${(error as Error).message}`);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!recording) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setProgress(null);
+
+    const result = await runReplay(recording, {
+      speed,
+      rules,
+      signal: controller.signal,
+      onProgress: setProgress,
+    });
+
+    setIsRunning(false);
+    abortRef.current = null;
+    toast.success(
+      `${result.aborted ? 'Replay stopped' : 'Replay finished'}: ${result.alerts.length} alerts from ${result.quotesProcessed} quotes`
+    );
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleClose = () => {
+    handleStop();
+    onClose();
+  };
+
+  const handleAddAlerts = () => {
+    if (!progress || progress.alerts.length === 0) return;
+    onAddAlerts(progress.alerts);
+    toast.success(`Added ${progress.alerts.length} backtest alerts to the alert list`);
+  };
+
+  if (!isOpen) return null;
+
+  const percent = progress ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={handleClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <History className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Replay &amp; Backtest</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-white/60">
+            Stream a recorded tape through the current detection rules. CSV files use the columns
+            {' '}<code className="text-white/80">type,timestamp,symbol,price,volume,change,changePercent,previousClose</code>
+            {' '}(type is <code className="text-white/80">quote</code> or <code className="text-white/80">bar</code>);
+            JSON files use the same format as the replay data source.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              {fileName || 'Choose recording'}
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                disabled={isRunning}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+
+            <select
+              value={String(speed)}
+              onChange={(e) => setSpeed(e.target.value === 'max' ? 'max' : (Number(e.target.value) as ReplaySpeed))}
+              disabled={isRunning}
+              className="select-modern"
+            >
+              {SPEED_OPTIONS.map(option => (
+                <option key={String(option.value)} value={String(option.value)} className="bg-slate-900">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
+            {isRunning ? (
+              <button onClick={handleStop} className="btn-secondary inline-flex items-center gap-2">
+                <Square className="w-4 h-4" />
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleStart}
+                disabled={!recording}
+                className="btn-primary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play className="w-4 h-4" />
+                Start
+              </button>
+            )}
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-sm text-white/60">
+                <span>{progress.processed} / {progress.total} quotes ({percent}%)</span>
+                <span>Tape time: {new Date(progress.currentTimestamp).toLocaleString()}</span>
+              </div>
+            </div>
+          )}
+
+          {progress && (
+            <section className="border-t border-white/10 pt-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-white">
+                  Resulting Alerts ({progress.alerts.length})
+                </h3>
+                <button
+                  onClick={handleAddAlerts}
+                  disabled={isRunning || progress.alerts.length === 0}
+                  className="btn-secondary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <PlusCircle className="w-4 h-4" />
+                  Add to alert list
+                </button>
+              </div>
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {progress.alerts.map(alert => (
+                  <div key={alert.id} className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-white">{alert.type} · {alert.severity}</span>
+                      <span className="text-white/50">{new Date(alert.timestamp).toLocaleString()}</span>
+                    </div>
+                    <p className="text-white/70">{alert.description}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
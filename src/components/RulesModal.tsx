@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { X, SlidersHorizontal, Save, Plus, Trash2, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AlertType, Severity } from '../types';
+import {
+  COMPARATORS, DEFAULT_RULES, RULE_METRICS,
+  Comparator, DetectionRule, RuleMetric, SessionCondition, stampRuleVersions, validateRules,
+} from '../services/detectionRules';
+import { MarketSession, SESSION_LABELS } from '../services/exchangeCalendar';
+
+interface RulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: DetectionRule[];
+  onSave: (rules: DetectionRule[]) => void;
+  // Users without the manageRules permission can look but not save
+  canEdit: boolean;
+}
+
+const ALERT_TYPES: AlertType[] = [
+  'Market Manipulation',
+  'Wash Trading',
+  'Spoofing',
+  'Insider Trading',
+  'Position Limit Breach',
+];
+
+const SEVERITIES: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+
+export default function RulesModal({ isOpen, onClose, rules, onSave, canEdit }: RulesModalProps) {
+  const [draft, setDraft] = useState<DetectionRule[]>(rules);
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(rules);
+      setErrors({});
+    }
+  }, [isOpen, rules]);
+
+  const updateRule = (index: number, updates: Partial<DetectionRule>) => {
+    setDraft(prev => prev.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  // An empty condition is dropped so the rule runs at any time of day
+  const updateSessionCondition = (index: number, rule: DetectionRule, updates: Partial<SessionCondition>) => {
+    const condition = { sessions: [], ...rule.sessionCondition, ...updates };
+    updateRule(index, {
+      sessionCondition: condition.sessions.length === 0 && !condition.window ? undefined : condition,
+    });
+  };
+
+  const handleAddRule = () => {
+    setDraft(prev => [...prev, {
+      id: `rule-${Date.now()}`,
+      name: 'New rule',
+      metric: 'volumeAboveAveragePercent',
+      comparator: '>',
+      threshold: 100,
+      severity: 'Medium',
+      severityBands: [],
+      alertType: 'Market Manipulation',
+      enabled: false,
+      version: 1,
+      updatedAt: new Date().toISOString(),
+    }]);
+  };
+
+  const handleSave = () => {
+    const validationErrors = validateRules(draft);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      toast.error('Some rules are invalid. Please fix the highlighted fields.');
+      return;
+    }
+
+    onSave(stampRuleVersions(draft, rules));
+    toast.success('Detection rules saved');
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 glass flex items-center justify-between p-6 border-b border-white/10 z-10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <SlidersHorizontal className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Detection Rules</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {draft.map((rule, index) => (
+            <div
+              key={index}
+              className={`bg-white/5 border rounded-xl p-4 space-y-3 ${errors[rule.id] ? 'border-red-400/60' : 'border-white/10'}`}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                  className="w-4 h-4"
+                  title="Enabled"
+                />
+                <input
+                  type="text"
+                  value={rule.name}
+                  onChange={(e) => updateRule(index, { name: e.target.value })}
+                  className="input-modern flex-1"
+                />
+                <span className="text-xs text-white/50 whitespace-nowrap">v{rule.version}</span>
+                <button
+                  onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-red-400 hover:bg-red-500/20 rounded-xl transition-colors"
+                  title="Delete rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div className="col-span-2">
+                  <label className="text-xs font-medium text-white/60">Metric</label>
+                  <select
+                    value={rule.metric}
+                    onChange={(e) => updateRule(index, { metric: e.target.value as RuleMetric })}
+                    className="select-modern w-full"
+                  >
+                    {(Object.keys(RULE_METRICS) as RuleMetric[]).map(metric => (
+                      <option key={metric} value={metric} className="bg-slate-900">{RULE_METRICS[metric].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-white/60">Comparator</label>
+                  <select
+                    value={rule.comparator}
+                    onChange={(e) => updateRule(index, { comparator: e.target.value as Comparator })}
+                    className="select-modern w-full"
+                  >
+                    {COMPARATORS.map(c => <option key={c} value={c} className="bg-slate-900">{c}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-white/60">
+                    Threshold ({RULE_METRICS[rule.metric].unit})
+                  </label>
+                  <input
+                    type="number"
+                    value={rule.threshold}
+                    onChange={(e) => updateRule(index, { threshold: parseFloat(e.target.value) })}
+                    className="input-modern"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-white/60">Base severity</label>
+                  <select
+                    value={rule.severity}
+                    onChange={(e) => updateRule(index, { severity: e.target.value as Severity })}
+                    className="select-modern w-full"
+                  >
+                    {SEVERITIES.map(s => <option key={s} value={s} className="bg-slate-900">{s}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <label className="text-xs font-medium text-white/60">Alert type</label>
+                  <select
+                    value={rule.alertType}
+                    onChange={(e) => updateRule(index, { alertType: e.target.value as AlertType })}
+                    className="select-modern w-full"
+                  >
+                    {ALERT_TYPES.map(t => <option key={t} value={t} className="bg-slate-900">{t}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-white/60">
+                  Trading sessions (exchange time of the symbol's venue; none selected = any time)
+                </label>
+                <div className="flex flex-wrap items-center gap-2 text-sm text-white/70">
+                  {(Object.keys(SESSION_LABELS) as MarketSession[]).map(session => {
+                    const sessions = rule.sessionCondition?.sessions || [];
+                    const selected = sessions.includes(session);
+                    return (
+                      <button
+                        key={session}
+                        onClick={() => updateSessionCondition(index, rule, {
+                          sessions: selected ? sessions.filter(s => s !== session) : [...sessions, session],
+                        })}
+                        className={`px-2 py-0.5 rounded-lg text-xs font-semibold transition-colors ${
+                          selected ? 'bg-blue-500/40 text-white' : 'bg-white/5 text-white/40 hover:text-white/70'
+                        }`}
+                      >
+                        {SESSION_LABELS[session]}
+                      </button>
+                    );
+                  })}
+                  <label className="flex items-center gap-2 ml-2">
+                    <input
+                      type="checkbox"
+                      checked={!!rule.sessionCondition?.window}
+                      onChange={(e) => updateSessionCondition(index, rule, {
+                        window: e.target.checked ? { anchor: 'open', from: 0, to: 5 } : undefined,
+                      })}
+                      className="w-4 h-4"
+                    />
+                    Only from
+                  </label>
+                  {rule.sessionCondition?.window && (() => {
+                    const window = rule.sessionCondition.window;
+                    return (
+                      <>
+                        <input
+                          type="number"
+                          value={window.from}
+                          onChange={(e) => updateSessionCondition(index, rule, { window: { ...window, from: parseFloat(e.target.value) } })}
+                          className="input-modern w-20"
+                        />
+                        <span>to</span>
+                        <input
+                          type="number"
+                          value={window.to}
+                          onChange={(e) => updateSessionCondition(index, rule, { window: { ...window, to: parseFloat(e.target.value) } })}
+                          className="input-modern w-20"
+                        />
+                        <span>minutes after the</span>
+                        <select
+                          value={window.anchor}
+                          onChange={(e) => updateSessionCondition(index, rule, {
+                            window: { ...window, anchor: e.target.value as 'open' | 'close' },
+                          })}
+                          className="select-modern"
+                        >
+                          <option value="open" className="bg-slate-900">open</option>
+                          <option value="close" className="bg-slate-900">close</option>
+                        </select>
+                        <span className="text-xs text-white/50">(negative = before)</span>
+                      </>
+                    );
+                  })()}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-white/60">Severity bands</label>
+                {rule.severityBands.map((band, bandIndex) => (
+                  <div key={bandIndex} className="flex items-center gap-2 text-sm text-white/70">
+                    <span>{rule.comparator}</span>
+                    <input
+                      type="number"
+                      value={band.threshold}
+                      onChange={(e) => updateRule(index, {
+                        severityBands: rule.severityBands.map((b, i) =>
+                          i === bandIndex ? { ...b, threshold: parseFloat(e.target.value) } : b
+                        ),
+                      })}
+                      className="input-modern w-32"
+                    />
+                    <span>→</span>
+                    <select
+                      value={band.severity}
+                      onChange={(e) => updateRule(index, {
+                        severityBands: rule.severityBands.map((b, i) =>
+                          i === bandIndex ? { ...b, severity: e.target.value as Severity } : b
+                        ),
+                      })}
+                      className="select-modern"
+                    >
+                      {SEVERITIES.map(s => <option key={s} value={s} className="bg-slate-900">{s}</option>)}
+                    </select>
+                    <button
+                      onClick={() => updateRule(index, {
+                        severityBands: rule.severityBands.filter((_, i) => i !== bandIndex),
+                      })}
+                      className="p-1 text-white/50 hover:text-red-400 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateRule(index, {
+                    severityBands: [...rule.severityBands, { severity: 'Critical', threshold: rule.threshold * 2 }],
+                  })}
+                  className="text-sm text-blue-400 hover:text-blue-300 font-semibold"
+                >
+                  + Add band
+                </button>
+              </div>
+
+              {errors[rule.id] && (
+                <ul className="text-sm text-red-300 list-disc list-inside">
+                  {errors[rule.id].map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          <button onClick={handleAddRule} className="btn-secondary inline-flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add rule
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-white/10">
+          <button
+            onClick={() => setDraft(DEFAULT_RULES)}
+            className="px-4 py-2 text-white/70 hover:bg-white/10 rounded-xl transition-colors font-semibold inline-flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to defaults
+          </button>
+          <div className="flex items-center gap-3">
+            {!canEdit && <span className="text-sm text-white/50">Only senior officers and admins can change rules</span>}
+            <button onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!canEdit}
+              className="btn-primary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
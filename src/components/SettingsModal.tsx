@@ -1,68 +1,86 @@
 import { useState, useEffect } from 'react';
-import { X, Key, Save } from 'lucide-react';
+import { X, Key, Save, Upload } from 'lucide-react';
 import toast from 'react-hot-toast';
+import {
+  createMarketDataProvider, loadProviderSettings, saveProviderSettings,
+  PROVIDER_LABELS, ProviderKind, ProviderSettings,
+} from '../services/marketDataProvider';
+import { MarketRecording, parseRecording } from '../services/replayProvider';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onApiKeySet: (apiKey: string) => void;
+  onProviderChange: (settings: ProviderSettings) => void;
 }
 
-export default function SettingsModal({ isOpen, onClose, onApiKeySet }: SettingsModalProps) {
+export default function SettingsModal({ isOpen, onClose, onProviderChange }: SettingsModalProps) {
+  const [kind, setKind] = useState<ProviderKind>('alphaVantage');
   const [apiKey, setApiKey] = useState('');
+  const [seed, setSeed] = useState('42');
+  const [recording, setRecording] = useState<MarketRecording | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
-      const stored = localStorage.getItem('alphaVantageApiKey');
-      if (stored) {
-        setApiKey(stored);
-      }
+      const stored = loadProviderSettings();
+      setKind(stored.kind);
+      if (stored.kind === 'alphaVantage') setApiKey(stored.apiKey);
+      if (stored.kind === 'simulated') setSeed(String(stored.seed));
+      if (stored.kind === 'replay') setRecording(stored.recording);
     }
   }, [isOpen]);
 
+  const buildSettings = (): ProviderSettings => {
+    switch (kind) {
+      case 'alphaVantage': return { kind, apiKey: apiKey.trim() };
+      case 'simulated': return { kind, seed: parseInt(seed, 10) || 0 };
+      case 'replay': return { kind, recording };
+    }
+  };
+
+  const canSave = kind === 'alphaVantage' ? !!apiKey.trim()
+    : kind === 'replay' ? !!recording
+    : seed.trim() !== '';
+
+  const handleRecordingFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setRecording(parseRecording(await file.text()));
+    } catch (error) {
+      toast.error(`Could not read recording: ${(error as Error).message}`);
+    }
+  };
+
   const handleSave = async () => {
-    if (!apiKey.trim()) {
-      toast.error('Please enter an API key');
+    const settings = buildSettings();
+    const provider = createMarketDataProvider(settings);
+    if (!provider) {
+      toast.error(kind === 'alphaVantage' ? 'Please enter an API key' : 'Please load a recording file');
       return;
     }
 
     setIsLoading(true);
-    
-    // Test the API key with a simple request
-    try {
-      const testUrl = `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=AAPL&apikey=${apiKey.trim()}`;
-      const response = await fetch(testUrl);
-      const data = await response.json();
-
-      if (data['Error Message']) {
-        toast.error('Invalid API key. Please check and try again.');
-        setIsLoading(false);
-        return;
-      }
-
-      if (data['Note']) {
-        toast.error('API rate limit reached. Please try again later.');
-        setIsLoading(false);
-        return;
-      }
-
-      // Save to localStorage
-      localStorage.setItem('alphaVantageApiKey', apiKey.trim());
-      onApiKeySet(apiKey.trim());
-      toast.success('API key saved successfully!');
-      setIsLoading(false);
-      onClose();
-    } catch (error) {
-      toast.error('Failed to validate API key. Please check your connection.');
-      setIsLoading(false);
+
+    // Check the provider before switching over to it
+    const health = await provider.healthCheck();
+    setIsLoading(false);
+    if (!health.ok) {
+      toast.error(health.message);
+      return;
     }
+
+    saveProviderSettings(settings);
+    onProviderChange(settings);
+    toast.success(`${PROVIDER_LABELS[kind]} connected`);
+    onClose();
   };
 
   const handleRemove = () => {
-    localStorage.removeItem('alphaVantageApiKey');
+    const settings: ProviderSettings = { kind: 'alphaVantage', apiKey: '' };
+    saveProviderSettings(settings);
+    setKind('alphaVantage');
     setApiKey('');
-    onApiKeySet('');
+    onProviderChange(settings);
     toast.success('API key removed. Using demo data.');
     onClose();
   };
@@ -83,7 +101,7 @@ export default function SettingsModal({ isOpen, onClose, onApiKeySet }: Settings
             <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
               <Key className="w-6 h-6 text-blue-400" />
             </div>
-            <h2 className="text-2xl font-bold text-white">API Settings</h2>
+            <h2 className="text-2xl font-bold text-white">Data Source Settings</h2>
           </div>
           <button
             onClick={onClose}
@@ -96,39 +114,98 @@ export default function SettingsModal({ isOpen, onClose, onApiKeySet }: Settings
         <div className="p-6 space-y-4">
           <div>
             <label className="block text-sm font-semibold text-white/80 mb-2">
-              Alpha Vantage API Key
+              Market Data Source
             </label>
-            <input
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="Enter your API key"
-              className="input-modern"
-            />
-            <p className="mt-2 text-sm text-white/60">
-              Get your free API key at{' '}
-              <a
-                href="https://www.alphavantage.co/support/#api-key"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-400 hover:text-blue-300 underline font-medium transition-colors"
-              >
-                alphavantage.co
-              </a>
-              {' '}(takes 30 seconds, no credit card)
-            </p>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ProviderKind)}
+              className="select-modern w-full"
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(k => (
+                <option key={k} value={k} className="bg-slate-900">{PROVIDER_LABELS[k]}</option>
+              ))}
+            </select>
           </div>
 
-          <div className="bg-blue-500/20 border border-blue-400/30 rounded-xl p-4 backdrop-blur-sm">
-            <p className="text-sm text-blue-200">
-              <strong className="font-semibold">Note:</strong> The free tier allows 5 API calls per minute. 
-              The app will automatically manage rate limits.
-            </p>
-          </div>
+          {kind === 'alphaVantage' && (
+            <div>
+              <label className="block text-sm font-semibold text-white/80 mb-2">
+                Alpha Vantage API Key
+              </label>
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Enter your API key"
+                className="input-modern"
+              />
+              <p className="mt-2 text-sm text-white/60">
+                Get your free API key at{' '}
+                <a
+                  href="https://www.alphavantage.co/support/#api-key"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 underline font-medium transition-colors"
+                >
+                  alphavantage.co
+                </a>
+                {' '}(takes 30 seconds, no credit card)
+              </p>
+            </div>
+          )}
+
+          {kind === 'simulated' && (
+            <div>
+              <label className="block text-sm font-semibold text-white/80 mb-2">
+                Random Seed
+              </label>
+              <input
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                className="input-modern"
+              />
+              <p className="mt-2 text-sm text-white/60">
+                The same seed always produces the same price and volume tape.
+              </p>
+            </div>
+          )}
+
+          {kind === 'replay' && (
+            <div>
+              <label className="block text-sm font-semibold text-white/80 mb-2">
+                Recording File (JSON)
+              </label>
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Choose file
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => handleRecordingFile(e.target.files?.[0])}
+                />
+              </label>
+              <p className="mt-2 text-sm text-white/60">
+                {recording
+                  ? `${recording.quotes.length} quotes loaded`
+                  : 'Expects { "quotes": [...], "intraday": { "SYMBOL": [...] } }'}
+              </p>
+            </div>
+          )}
+
+          {kind === 'alphaVantage' && (
+            <div className="bg-blue-500/20 border border-blue-400/30 rounded-xl p-4 backdrop-blur-sm">
+              <p className="text-sm text-blue-200">
+                <strong className="font-semibold">Note:</strong> The free tier allows 5 API calls per minute. 
+                The app will automatically manage rate limits.
+              </p>
+            </div>
+          )}
         </div>
 
         <div className="flex items-center justify-between p-6 border-t border-white/10">
-          {apiKey && (
+          {kind === 'alphaVantage' && apiKey && (
             <button
               onClick={handleRemove}
               className="px-4 py-2 text-red-400 hover:bg-red-500/20 rounded-xl transition-colors font-semibold"
@@ -145,7 +222,7 @@ export default function SettingsModal({ isOpen, onClose, onApiKeySet }: Settings
             </button>
             <button
               onClick={handleSave}
-              disabled={isLoading || !apiKey.trim()}
+              disabled={isLoading || !canSave}
               className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Save className="w-4 h-4" />
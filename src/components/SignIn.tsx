@@ -0,0 +1,82 @@
+import { useState, FormEvent } from 'react';
+import { LogIn, ShieldCheck } from 'lucide-react';
+import { AuthSession, Authenticator } from '../services/auth';
+import { MIN_PASSWORD_LENGTH } from '../services/users';
+
+interface SignInProps {
+  authenticator: Authenticator;
+  // First run in browser-only mode: the administrator's password is chosen instead of entered
+  isSetup: boolean;
+  onSignedIn: (session: AuthSession) => void;
+}
+
+export default function SignIn({ authenticator, isSetup, onSignedIn }: SignInProps) {
+  const [userId, setUserId] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSetup && password !== confirmation) {
+      setError('The passwords do not match');
+      return;
+    }
+    setError('');
+    setIsSubmitting(true);
+    try {
+      onSignedIn(isSetup ? await authenticator.setUp(password) : await authenticator.signIn(userId.trim(), password));
+    } catch (err) {
+      setError((err as Error).message);
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="glass rounded-2xl shadow-2xl max-w-sm w-full p-6 space-y-4 animate-slide-in">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+            {isSetup ? <ShieldCheck className="w-6 h-6 text-blue-400" /> : <LogIn className="w-6 h-6 text-blue-400" />}
+          </div>
+          <h1 className="text-2xl font-bold text-white">{isSetup ? 'Set Up Access' : 'Sign In'}</h1>
+        </div>
+
+        {isSetup ? (
+          <p className="text-sm text-white/60">
+            Choose the administrator's password (at least {MIN_PASSWORD_LENGTH} characters). The administrator
+            then sets passwords for the other users in the Users dialog.
+          </p>
+        ) : (
+          <div>
+            <label className="text-xs font-medium text-white/60">User id</label>
+            <input value={userId} onChange={(e) => setUserId(e.target.value)} className="input-modern"
+              autoComplete="username" autoFocus required />
+          </div>
+        )}
+        <div>
+          <label className="text-xs font-medium text-white/60">Password</label>
+          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} className="input-modern"
+            autoComplete={isSetup ? 'new-password' : 'current-password'} autoFocus={isSetup} required />
+        </div>
+        {isSetup && (
+          <div>
+            <label className="text-xs font-medium text-white/60">Repeat password</label>
+            <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)}
+              className="input-modern" autoComplete="new-password" required />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <button type="submit" disabled={isSubmitting}
+          className="btn-primary w-full justify-center disabled:opacity-50 disabled:cursor-not-allowed">
+          {isSetup ? 'Save and sign in' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { X, User, Building, Mail, Calendar, Wallet } from 'lucide-react';
+import { ComplianceAlert, Trader } from '../types';
+
+interface TraderProfileModalProps {
+  trader: Trader;
+  alerts: ComplianceAlert[];
+  onClose: () => void;
+  onSelectAlert: (alert: ComplianceAlert) => void;
+}
+
+const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'Critical': return 'badge-critical';
+    case 'High': return 'badge-high';
+    case 'Medium': return 'badge-medium';
+    case 'Low': return 'badge-low';
+    default: return 'bg-gray-500/20 text-gray-300 border-gray-400/50';
+  }
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'New': return 'status-new';
+    case 'In Review': return 'status-review';
+    case 'Escalated': return 'status-escalated';
+    case 'Dismissed': return 'status-dismissed';
+    case 'Resolved': return 'status-resolved';
+    default: return 'bg-gray-500/20 text-gray-300 border-gray-400/30';
+  }
+};
+
+export default function TraderProfileModal({ trader, alerts, onClose, onSelectAlert }: TraderProfileModalProps) {
+  const traderAlerts = alerts
+    .filter(alert => alert.trader.id === trader.id)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  const countBy = (status: string) => traderAlerts.filter(alert => alert.status === status).length;
+  const closed = countBy('Resolved') + countBy('Dismissed');
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 glass border-b border-white/10 px-6 py-4 flex items-center justify-between z-10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <User className="w-6 h-6 text-blue-400" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">{trader.name}</h2>
+              <p className="text-sm text-white/60">{trader.id}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-6 h-6 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <section className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-white/60 flex items-center gap-1">
+                <Building className="w-4 h-4" />
+                Firm
+              </label>
+              <p className="text-white/90">{trader.firm || 'Unknown'}</p>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-white/60 flex items-center gap-1">
+                <Mail className="w-4 h-4" />
+                Email
+              </label>
+              <p className="text-white/90">{trader.email || 'Unknown'}</p>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-white/60 flex items-center gap-1">
+                <Wallet className="w-4 h-4" />
+                Accounts
+              </label>
+              <p className="text-white/90">{trader.accounts?.join(', ') || 'None registered'}</p>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-white/60 flex items-center gap-1">
+                <Calendar className="w-4 h-4" />
+                Registration Date
+              </label>
+              <p className="text-white/90">
+                {trader.registrationDate
+                  ? new Date(trader.registrationDate).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                    })
+                  : 'Unknown'}
+              </p>
+            </div>
+            {trader.symbols && trader.symbols.length > 0 && (
+              <div className="col-span-2">
+                <label className="text-sm font-medium text-white/60">Covered Instruments</label>
+                <p className="text-white/90">{trader.symbols.join(', ')}</p>
+              </div>
+            )}
+          </section>
+
+          <section className="border-t border-white/10 pt-6">
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              <div className="metric-card">
+                <p className="text-xs text-white/60 uppercase tracking-wide">Alerts</p>
+                <p className="text-2xl font-bold text-white">{traderAlerts.length}</p>
+              </div>
+              <div className="metric-card">
+                <p className="text-xs text-white/60 uppercase tracking-wide">Open</p>
+                <p className="text-2xl font-bold text-white">{traderAlerts.length - closed}</p>
+              </div>
+              <div className="metric-card">
+                <p className="text-xs text-white/60 uppercase tracking-wide">Dismissed / Resolved</p>
+                <p className="text-2xl font-bold text-white">{countBy('Dismissed')} / {countBy('Resolved')}</p>
+              </div>
+            </div>
+
+            {traderAlerts.length === 0 ? (
+              <p className="text-white/60">No alerts for this trader.</p>
+            ) : (
+              <div className="space-y-2">
+                {traderAlerts.map(alert => {
+                  const lastEvent = alert.timeline[alert.timeline.length - 1];
+                  return (
+                    <div
+                      key={alert.id}
+                      onClick={() => onSelectAlert(alert)}
+                      className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm cursor-pointer hover:bg-white/10 transition-colors"
+                    >
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <span className="font-semibold text-white">{alert.id} · {alert.type}</span>
+                        <div className="flex items-center gap-2">
+                          <span className={`px-2 py-0.5 rounded-lg text-xs font-bold ${getSeverityColor(alert.severity)}`}>
+                            {alert.severity}
+                          </span>
+                          <span className={`px-2 py-0.5 rounded-lg text-xs font-semibold ${getStatusColor(alert.status)}`}>
+                            {alert.status}
+                          </span>
+                        </div>
+                      </div>
+                      <p className="text-white/70">{alert.description}</p>
+                      {lastEvent && (
+                        <p className="text-white/50 mt-1">
+                          Last action: {lastEvent.action} by {lastEvent.user} on {new Date(lastEvent.timestamp).toLocaleDateString()}
+                          {lastEvent.notes ? ` - ${lastEvent.notes}` : ''}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
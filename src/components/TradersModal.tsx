@@ -0,0 +1,110 @@
+import { X, Users, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ComplianceAlert, Trader } from '../types';
+import { parseTraderRegistry, TraderRegistry } from '../services/traderRegistry';
+
+interface TradersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  registry: TraderRegistry;
+  alerts: ComplianceAlert[];
+  onRegistryChange: (registry: TraderRegistry) => void;
+  onSelectTrader: (trader: Trader) => void;
+}
+
+export default function TradersModal({
+  isOpen, onClose, registry, alerts, onRegistryChange, onSelectTrader,
+}: TradersModalProps) {
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const loaded = parseTraderRegistry(file.name, await file.text());
+      onRegistryChange(loaded);
+      toast.success(`Imported ${loaded.traders.length} traders`);
+    } catch (error) {
+      toast.error(`Could not import traders: ${(error as Error).message}`);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <Users className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Traders &amp; Accounts</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-white/60">
+              Import a CSV (<code className="text-white/80">id,name,email,firm,registrationDate,accounts,symbols</code>,
+              lists separated by <code className="text-white/80">;</code>) or JSON file. Importing replaces the registry.
+            </p>
+            <label className="btn-secondary cursor-pointer inline-flex items-center gap-2 whitespace-nowrap">
+              <Upload className="w-4 h-4" />
+              Import
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          </div>
+
+          {registry.traders.length === 0 ? (
+            <p className="text-white/60 text-center py-8">
+              No traders registered. Alerts are attributed as "Unattributed" until a registry is imported.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-white/50 border-b border-white/10">
+                  <th className="py-2 pr-4 font-medium">Trader</th>
+                  <th className="py-2 pr-4 font-medium">Firm</th>
+                  <th className="py-2 pr-4 font-medium">Accounts</th>
+                  <th className="py-2 font-medium text-right">Alerts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {registry.traders.map(trader => (
+                  <tr
+                    key={trader.id}
+                    onClick={() => onSelectTrader(trader)}
+                    className="border-b border-white/5 text-white/80 cursor-pointer hover:bg-white/5"
+                  >
+                    <td className="py-2 pr-4">
+                      <span className="font-semibold text-white">{trader.name}</span>
+                      <span className="text-white/50 ml-2">{trader.id}</span>
+                    </td>
+                    <td className="py-2 pr-4">{trader.firm}</td>
+                    <td className="py-2 pr-4">{trader.accounts?.join(', ')}</td>
+                    <td className="py-2 text-right">{alerts.filter(alert => alert.trader.id === trader.id).length}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
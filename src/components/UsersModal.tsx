@@ -0,0 +1,241 @@
+import { useState, useEffect, Fragment } from 'react';
+import { X, UserCog, Plus, Save, KeyRound } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Severity, Status, User, UserRole } from '../types';
+import { FourEyesPolicy, ROLE_LABELS, validateUser } from '../services/users';
+import { SlaStage, SlaTargets, SLA_STAGE_LABELS, validateSlaTargets } from '../services/sla';
+
+interface UsersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  users: User[];
+  fourEyesPolicy: FourEyesPolicy;
+  slaTargets: SlaTargets;
+  onSave: (users: User[], policy: FourEyesPolicy, slaTargets: SlaTargets) => void;
+  onSetPassword: (userId: string, password: string) => Promise<void>;
+}
+
+const SEVERITIES: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+const CLOSING_STATUSES: Status[] = ['Dismissed', 'Resolved', 'Escalated'];
+
+export default function UsersModal({
+  isOpen, onClose, users, fourEyesPolicy, slaTargets, onSave, onSetPassword,
+}: UsersModalProps) {
+  const [draft, setDraft] = useState<User[]>(users);
+  const [policy, setPolicy] = useState<FourEyesPolicy>(fourEyesPolicy);
+  const [targets, setTargets] = useState<SlaTargets>(slaTargets);
+  // User whose password is being set, and the new password
+  const [passwordFor, setPasswordFor] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(users);
+      setPolicy(fourEyesPolicy);
+      setTargets(slaTargets);
+      setPasswordFor(null);
+    }
+  }, [isOpen, users, fourEyesPolicy, slaTargets]);
+
+  const handleSetPassword = async (userId: string) => {
+    try {
+      await onSetPassword(userId, newPassword);
+      toast.success(`Password set for ${userId}`);
+      setPasswordFor(null);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setNewPassword('');
+    }
+  };
+
+  const updateTarget = (severity: Severity, stage: SlaStage, minutes: number) => {
+    setTargets(prev => ({ ...prev, [severity]: { ...prev[severity], [stage]: minutes } }));
+  };
+
+  const updateUser = (index: number, updates: Partial<User>) => {
+    setDraft(prev => prev.map((user, i) => i === index ? { ...user, ...updates } : user));
+  };
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const handleSave = () => {
+    const invalid = draft.find(user => validateUser(user, draft).length > 0);
+    if (invalid) {
+      toast.error(`User ${invalid.id || '(no id)'}: ${validateUser(invalid, draft).join('; ')}`);
+      return;
+    }
+    if (!draft.some(user => user.active && user.role === 'admin')) {
+      toast.error('At least one active administrator is required');
+      return;
+    }
+    const slaErrors = validateSlaTargets(targets);
+    if (slaErrors.length > 0) {
+      toast.error(slaErrors.join('; '));
+      return;
+    }
+    onSave(draft, policy, targets);
+    toast.success('Users saved');
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <UserCog className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Users, Approvals &amp; SLAs</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <section className="space-y-2">
+            <h3 className="text-lg font-semibold text-white">Users</h3>
+            {draft.map((user, index) => (
+              <Fragment key={index}>
+                <div className="grid grid-cols-12 gap-2 items-center text-sm">
+                  <input value={user.id} onChange={(e) => updateUser(index, { id: e.target.value })}
+                    className="input-modern col-span-3" placeholder="Id" />
+                  <input value={user.name} onChange={(e) => updateUser(index, { name: e.target.value })}
+                    className="input-modern col-span-4" placeholder="Name" />
+                  <select value={user.role} onChange={(e) => updateUser(index, { role: e.target.value as UserRole })}
+                    className="select-modern col-span-2">
+                    {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                      <option key={role} value={role} className="bg-slate-900">{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <label className="col-span-2 flex items-center gap-2 text-white/70">
+                    <input type="checkbox" checked={user.active}
+                      onChange={(e) => updateUser(index, { active: e.target.checked })} className="w-4 h-4" />
+                    Active
+                  </label>
+                  <button
+                    onClick={() => {
+                      setNewPassword('');
+                      setPasswordFor(passwordFor === user.id ? null : user.id);
+                    }}
+                    disabled={!users.some(saved => saved.id === user.id)}
+                    title={users.some(saved => saved.id === user.id) ? 'Set password' : 'Save the user first'}
+                    className="col-span-1 p-2 hover:bg-white/10 rounded-xl transition-colors disabled:opacity-30"
+                  >
+                    <KeyRound className="w-4 h-4 text-white/70" />
+                  </button>
+                </div>
+                {passwordFor === user.id && (
+                  <div className="flex items-center gap-2 text-sm pl-2">
+                    <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)}
+                      className="input-modern flex-1" placeholder={`New password for ${user.id}`} autoComplete="new-password" />
+                    <button onClick={() => handleSetPassword(user.id)} className="btn-secondary">
+                      Set password
+                    </button>
+                  </div>
+                )}
+              </Fragment>
+            ))}
+            <p className="text-xs text-white/50">
+              Users are deactivated rather than deleted so their names stay attached to past timeline events.
+              Everyone signs in with their own password; set one for each new user after saving.
+            </p>
+            <button
+              onClick={() => setDraft(prev => [...prev, { id: '', name: '', role: 'analyst', active: true }])}
+              className="btn-secondary inline-flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add user
+            </button>
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-3">
+            <h3 className="text-lg font-semibold text-white">Four-eyes approval</h3>
+            <label className="flex items-center gap-2 text-sm text-white/80">
+              <input type="checkbox" checked={policy.enabled}
+                onChange={(e) => setPolicy(prev => ({ ...prev, enabled: e.target.checked }))} className="w-4 h-4" />
+              Require a second, different user to approve these transitions
+            </label>
+            <div className="flex flex-wrap gap-6 text-sm text-white/70">
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-white/60">Severities</p>
+                {SEVERITIES.map(severity => (
+                  <label key={severity} className="flex items-center gap-2">
+                    <input type="checkbox" checked={policy.severities.includes(severity)} disabled={!policy.enabled}
+                      onChange={() => setPolicy(prev => ({ ...prev, severities: toggle(prev.severities, severity) }))}
+                      className="w-4 h-4" />
+                    {severity}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-white/60">Moving to</p>
+                {CLOSING_STATUSES.map(status => (
+                  <label key={status} className="flex items-center gap-2">
+                    <input type="checkbox" checked={policy.statuses.includes(status)} disabled={!policy.enabled}
+                      onChange={() => setPolicy(prev => ({ ...prev, statuses: toggle(prev.statuses, status) }))}
+                      className="w-4 h-4" />
+                    {status}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          <section className="border-t border-white/10 pt-4 space-y-3">
+            <h3 className="text-lg font-semibold text-white">SLA targets (minutes from detection)</h3>
+            <div className="grid grid-cols-3 gap-2 text-sm items-center">
+              <span className="text-xs font-medium text-white/60">Severity</span>
+              {(Object.keys(SLA_STAGE_LABELS) as SlaStage[]).map(stage => (
+                <span key={stage} className="text-xs font-medium text-white/60">{SLA_STAGE_LABELS[stage]}</span>
+              ))}
+              {SEVERITIES.map(severity => (
+                <Fragment key={severity}>
+                  <span className="text-white/80">{severity}</span>
+                  {(Object.keys(SLA_STAGE_LABELS) as SlaStage[]).map(stage => (
+                    <input
+                      key={stage}
+                      type="number"
+                      min={1}
+                      value={targets[severity][stage]}
+                      onChange={(e) => updateTarget(severity, stage, Number(e.target.value))}
+                      className="input-modern"
+                    />
+                  ))}
+                </Fragment>
+              ))}
+            </div>
+            <p className="text-xs text-white/50">
+              Triage ends when an alert leaves New; resolution when it is dismissed or resolved. A missed target
+              is recorded on the alert timeline as an escalation to the senior compliance officer.
+            </p>
+          </section>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-white/10">
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="btn-primary inline-flex items-center gap-2">
+            <Save className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
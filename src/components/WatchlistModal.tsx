@@ -0,0 +1,403 @@
+import { useState, useEffect } from 'react';
+import { X, Eye, Save, Plus, Trash2, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Severity } from '../types';
+import { DetectionRule, RULE_METRICS } from '../services/detectionRules';
+import {
+  addSymbols, GROUP_KIND_LABELS, mergeWatchlistImport, normalizeSymbol, parseWatchlistFile, removeSymbol,
+  RuleOverride, validateWatchlist, Watchlist, WatchlistGroup, WatchlistGroupKind,
+} from '../services/watchlist';
+
+interface WatchlistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  watchlist: Watchlist;
+  rules: DetectionRule[];
+  // Symbols the current market data source knows about, offered for quick adding
+  providerSymbols: string[];
+  onSave: (watchlist: Watchlist) => void;
+  canEdit: boolean;
+}
+
+const SEVERITIES: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+
+export default function WatchlistModal({
+  isOpen, onClose, watchlist, rules, providerSymbols, onSave, canEdit,
+}: WatchlistModalProps) {
+  const [draft, setDraft] = useState<Watchlist>(watchlist);
+  const [newSymbols, setNewSymbols] = useState('');
+  const [newVenue, setNewVenue] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(watchlist);
+      setNewSymbols('');
+      setNewVenue('');
+      setErrors([]);
+    }
+  }, [isOpen, watchlist]);
+
+  const missingProviderSymbols = providerSymbols.filter(symbol => !draft.symbols.some(entry => entry.symbol === symbol));
+
+  const handleAdd = () => {
+    const symbols = newSymbols.split(/[\s,;]+/).map(normalizeSymbol).filter(Boolean);
+    if (symbols.length === 0) return;
+    setDraft(prev => addSymbols(prev, symbols.map(symbol => ({ symbol, venue: newVenue.trim() || undefined }))));
+    setNewSymbols('');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseWatchlistFile(file.name, await file.text());
+      setDraft(prev => mergeWatchlistImport(prev, imported));
+      toast.success(`Added ${imported.symbols.length} symbols from ${file.name}`);
+    } catch (error) {
+      toast.error(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const updateEntry = (symbol: string, updates: { name?: string; venue?: string }) => {
+    setDraft(prev => ({
+      ...prev,
+      symbols: prev.symbols.map(entry => entry.symbol === symbol ? { ...entry, ...updates } : entry),
+    }));
+  };
+
+  const updateGroup = (index: number, updates: Partial<WatchlistGroup>) => {
+    setDraft(prev => ({ ...prev, groups: prev.groups.map((group, i) => i === index ? { ...group, ...updates } : group) }));
+  };
+
+  const toggleMember = (index: number, symbol: string) => {
+    const group = draft.groups[index];
+    updateGroup(index, {
+      symbols: group.symbols.includes(symbol) ? group.symbols.filter(s => s !== symbol) : [...group.symbols, symbol],
+    });
+  };
+
+  const updateOverride = (groupIndex: number, overrideIndex: number, updates: Partial<RuleOverride>) => {
+    const group = draft.groups[groupIndex];
+    updateGroup(groupIndex, {
+      ruleOverrides: group.ruleOverrides.map((override, i) => {
+        if (i !== overrideIndex) return override;
+        // Unset fields fall back to the base rule, so drop them rather than storing undefined
+        const merged = { ...override, ...updates };
+        (Object.keys(merged) as (keyof RuleOverride)[]).forEach(key => merged[key] === undefined && delete merged[key]);
+        return merged;
+      }),
+    });
+  };
+
+  const handleAddGroup = () => {
+    setDraft(prev => ({
+      ...prev,
+      groups: [...prev.groups, { id: `group-${Date.now()}`, name: 'New group', kind: 'desk', symbols: [], ruleOverrides: [] }],
+    }));
+  };
+
+  const handleSave = () => {
+    const validationErrors = validateWatchlist(draft, rules);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) {
+      toast.error('The watchlist is invalid. Please fix the listed problems.');
+      return;
+    }
+
+    onSave(draft);
+    toast.success(`Watchlist saved: ${draft.symbols.length} symbols in ${draft.groups.length} groups`);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 glass flex items-center justify-between p-6 border-b border-white/10 z-10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-lg">
+              <Eye className="w-6 h-6 text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">Watchlist</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Symbol universe */}
+          <section className="space-y-3">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[12rem]">
+                <label className="text-xs font-medium text-white/60">Symbols (comma or space separated)</label>
+                <input
+                  type="text"
+                  value={newSymbols}
+                  onChange={(e) => setNewSymbols(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  placeholder="NVDA, JPM"
+                  className="input-modern w-full"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-medium text-white/60">Venue (MIC)</label>
+                <input
+                  type="text"
+                  value={newVenue}
+                  onChange={(e) => setNewVenue(e.target.value.toUpperCase())}
+                  placeholder="XNYS"
+                  maxLength={4}
+                  className="input-modern w-24"
+                />
+              </div>
+              <button onClick={handleAdd} className="btn-secondary inline-flex items-center gap-2">
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+              <label className="btn-secondary cursor-pointer inline-flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Import File
+                <input
+                  type="file"
+                  accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-white/50">
+              Files can be a plain list of tickers, CSV with <code>symbol,name,venue,groups</code> columns (groups separated
+              by ";") or JSON. Groups named in the file are created when they don't exist yet.
+            </p>
+            {missingProviderSymbols.length > 0 && (
+              <button
+                onClick={() => setDraft(prev => addSymbols(prev, missingProviderSymbols.map(symbol => ({ symbol }))))}
+                className="text-sm text-blue-400 hover:text-blue-300 font-semibold"
+              >
+                + Add the {missingProviderSymbols.length} symbols of the current data source ({missingProviderSymbols.slice(0, 5).join(', ')}
+                {missingProviderSymbols.length > 5 ? ', ...' : ''})
+              </button>
+            )}
+
+            <div className="max-h-72 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/50 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">Symbol</th>
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    <th className="py-2 pr-4 font-medium">Venue</th>
+                    <th className="py-2 pr-4 font-medium">Groups</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.symbols.map(entry => (
+                    <tr key={entry.symbol} className="border-b border-white/5 text-white/80">
+                      <td className="py-1.5 pr-4 font-semibold text-white">{entry.symbol}</td>
+                      <td className="py-1.5 pr-4">
+                        <input
+                          type="text"
+                          value={entry.name || ''}
+                          onChange={(e) => updateEntry(entry.symbol, { name: e.target.value || undefined })}
+                          className="input-modern w-full py-1"
+                        />
+                      </td>
+                      <td className="py-1.5 pr-4">
+                        <input
+                          type="text"
+                          value={entry.venue || ''}
+                          onChange={(e) => updateEntry(entry.symbol, { venue: e.target.value.toUpperCase() || undefined })}
+                          maxLength={4}
+                          className="input-modern w-20 py-1"
+                        />
+                      </td>
+                      <td className="py-1.5 pr-4 text-white/60">
+                        {draft.groups.filter(group => group.symbols.includes(entry.symbol)).map(group => group.name).join(', ')}
+                      </td>
+                      <td className="py-1.5 text-right">
+                        <button
+                          onClick={() => setDraft(prev => removeSymbol(prev, entry.symbol))}
+                          className="p-1 text-white/50 hover:text-red-400 transition-colors"
+                          title="Remove symbol"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {draft.symbols.length === 0 && (
+                <p className="text-sm text-white/50 py-3">No symbols are watched; detection will use the data source's own list.</p>
+              )}
+            </div>
+          </section>
+
+          {/* Groups */}
+          <section className="border-t border-white/10 pt-6 space-y-4">
+            <h3 className="text-lg font-semibold text-white">Groups & Rule Overrides</h3>
+            <p className="text-sm text-white/60">
+              Overrides replace a rule's enabled flag, threshold or base severity for the group's symbols. When a symbol
+              is in several groups, groups further down the list win.
+            </p>
+            {draft.groups.map((group, index) => (
+              <div key={group.id} className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={group.name}
+                    onChange={(e) => updateGroup(index, { name: e.target.value })}
+                    className="input-modern flex-1"
+                  />
+                  <select
+                    value={group.kind}
+                    onChange={(e) => updateGroup(index, { kind: e.target.value as WatchlistGroupKind })}
+                    className="select-modern"
+                  >
+                    {(Object.keys(GROUP_KIND_LABELS) as WatchlistGroupKind[]).map(kind => (
+                      <option key={kind} value={kind} className="bg-slate-900">{GROUP_KIND_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setDraft(prev => ({ ...prev, groups: prev.groups.filter((_, i) => i !== index) }))}
+                    className="p-2 text-red-400 hover:bg-red-500/20 rounded-xl transition-colors"
+                    title="Delete group"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  {draft.symbols.map(entry => (
+                    <button
+                      key={entry.symbol}
+                      onClick={() => toggleMember(index, entry.symbol)}
+                      className={`px-2 py-0.5 rounded-lg text-xs font-semibold transition-colors ${
+                        group.symbols.includes(entry.symbol)
+                          ? 'bg-blue-500/40 text-white'
+                          : 'bg-white/5 text-white/40 hover:text-white/70'
+                      }`}
+                    >
+                      {entry.symbol}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  {group.ruleOverrides.map((override, overrideIndex) => {
+                    const rule = rules.find(r => r.id === override.ruleId);
+                    return (
+                      <div key={overrideIndex} className="flex flex-wrap items-center gap-2 text-sm text-white/70">
+                        <select
+                          value={override.ruleId}
+                          onChange={(e) => updateOverride(index, overrideIndex, { ruleId: e.target.value })}
+                          className="select-modern"
+                        >
+                          {!rule && <option value={override.ruleId} className="bg-slate-900">{override.ruleId} (deleted)</option>}
+                          {rules.map(r => <option key={r.id} value={r.id} className="bg-slate-900">{r.name}</option>)}
+                        </select>
+                        <select
+                          value={override.enabled === undefined ? '' : String(override.enabled)}
+                          onChange={(e) => updateOverride(index, overrideIndex, {
+                            enabled: e.target.value === '' ? undefined : e.target.value === 'true',
+                          })}
+                          className="select-modern"
+                        >
+                          <option value="" className="bg-slate-900">Enabled: as rule</option>
+                          <option value="true" className="bg-slate-900">Enabled</option>
+                          <option value="false" className="bg-slate-900">Disabled</option>
+                        </select>
+                        <span>{rule?.comparator || ''}</span>
+                        <input
+                          type="number"
+                          value={override.threshold ?? ''}
+                          placeholder={rule ? `${rule.threshold}` : ''}
+                          onChange={(e) => updateOverride(index, overrideIndex, {
+                            threshold: e.target.value === '' ? undefined : parseFloat(e.target.value),
+                          })}
+                          className="input-modern w-32"
+                        />
+                        <span>{rule ? RULE_METRICS[rule.metric].unit : ''}</span>
+                        <select
+                          value={override.severity || ''}
+                          onChange={(e) => updateOverride(index, overrideIndex, {
+                            severity: (e.target.value || undefined) as Severity | undefined,
+                          })}
+                          className="select-modern"
+                        >
+                          <option value="" className="bg-slate-900">Severity: as rule</option>
+                          {SEVERITIES.map(s => <option key={s} value={s} className="bg-slate-900">{s}</option>)}
+                        </select>
+                        <button
+                          onClick={() => updateGroup(index, {
+                            ruleOverrides: group.ruleOverrides.filter((_, i) => i !== overrideIndex),
+                          })}
+                          className="p-1 text-white/50 hover:text-red-400 transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {rules.length > 0 && (
+                    <button
+                      onClick={() => updateGroup(index, {
+                        ruleOverrides: [
+                          ...group.ruleOverrides,
+                          { ruleId: (rules.find(r => !group.ruleOverrides.some(o => o.ruleId === r.id)) || rules[0]).id },
+                        ],
+                      })}
+                      className="text-sm text-blue-400 hover:text-blue-300 font-semibold"
+                    >
+                      + Add rule override
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <button onClick={handleAddGroup} className="btn-secondary inline-flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add group
+            </button>
+          </section>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-300 list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-white/10">
+          {!canEdit && <span className="text-sm text-white/50">Only senior officers and admins can change the watchlist</span>}
+          <button onClick={onClose} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canEdit}
+            className="btn-primary inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { ComplianceAlert, Status, User } from '../types';
+import { appendTimelineEvent, createTimelineEventId } from './auditChain';
+
+export const STATUSES: Status[] = ['New', 'In Review', 'Escalated', 'Dismissed', 'Resolved'];
+
+export interface StatusChange {
+  status: Status;
+  user: Pick<User, 'id' | 'name'>;
+  action: string;
+  notes?: string;
+  keepNotes?: boolean;
+  reasonCode?: string;
+  escalationTarget?: string;
+  approvedBy?: string;
+}
+
+export function isStatus(value: unknown): value is Status {
+  return STATUSES.includes(value as Status);
+}
+
+// Moves an alert to a new status and appends the matching timeline entry; callers go through the workflow
+export function applyStatusChange(alert: ComplianceAlert, change: StatusChange): ComplianceAlert {
+  const now = new Date();
+  return appendTimelineEvent({
+    ...alert,
+    status: change.status,
+    investigationNotes: change.keepNotes ? alert.investigationNotes : change.notes ?? alert.investigationNotes,
+  }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: change.action,
+    user: change.user.name,
+    userId: change.user.id,
+    notes: change.notes || undefined,
+    fromStatus: alert.status,
+    toStatus: change.status,
+    reasonCode: change.reasonCode,
+    escalationTarget: change.escalationTarget,
+    approvedBy: change.approvedBy,
+  });
+}
+
+export function addInvestigationNote(alert: ComplianceAlert, notes: string, user: User): ComplianceAlert {
+  const now = new Date();
+  return appendTimelineEvent({ ...alert, investigationNotes: notes }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: 'Note Added',
+    user: user.name,
+    userId: user.id,
+    notes,
+  });
+}
+
+// Adds to the alert's notes rather than replacing them, for comments made across many alerts at once
+export function appendInvestigationNote(alert: ComplianceAlert, note: string, user: User): ComplianceAlert {
+  const now = new Date();
+  const existing = alert.investigationNotes.trim();
+  return appendTimelineEvent({ ...alert, investigationNotes: existing ? `${existing}\n\n${note}` : note }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: 'Note Added',
+    user: user.name,
+    userId: user.id,
+    notes: note,
+  });
+}
@@ -1,144 +1,171 @@
-import { ComplianceAlert, AlertType, Severity } from '../types';
-import { StockData } from './alphaVantage';
+import { BaselineScores, ComplianceAlert, MarketDataEvidence, MarketDataPoint, Severity, Trader } from '../types';
+import { DEFAULT_RULES, DetectionRule, describeRuleMatch, evaluateRule, RULE_METRICS } from './detectionRules';
+import { IntradayBar, StockData } from './marketDataProvider';
+import { EMPTY_REGISTRY, resolveTraderForSymbol, TraderRegistry } from './traderRegistry';
+import { applyRuleOverrides, venueForSymbol, Watchlist } from './watchlist';
+import { calendarForVenue, formatSession, getSessionInfo, SessionInfo } from './exchangeCalendar';
+import { scoreBaseline, SymbolBaseline } from './statisticalBaseline';
+import { createTimelineEventId } from './auditChain';
 
 export interface AlertGenerationContext {
   currentData: StockData;
   previousData?: StockData;
-  intradayData?: { price: number; volume: number; timestamp: string }[];
+  intradayData?: IntradayBar[];
   averageVolume?: number;
+  // Session of the symbol's venue at the quote's timestamp
+  session: SessionInfo;
+  // The newest bar against the symbol's rolling statistics; empty until enough history exists
+  baseline: BaselineScores;
+}
+
+export interface AlertGenerationOptions {
+  rules?: DetectionRule[];
+  traders?: TraderRegistry;
+  // Group rule overrides are applied per symbol
+  watchlist?: Watchlist;
+  // Per-symbol rolling statistics, already updated with the bars in intradayDataMap
+  baselines?: Map<string, SymbolBaseline>;
 }
 
 export function generateAlertsFromStockData(
   stockData: StockData[],
   previousData: Map<string, StockData>,
-  intradayDataMap: Map<string, { price: number; volume: number; timestamp: string }[]>
+  intradayDataMap: Map<string, IntradayBar[]>,
+  options: AlertGenerationOptions = {}
 ): ComplianceAlert[] {
+  const rules = options.rules || DEFAULT_RULES;
+  const traders = options.traders || EMPTY_REGISTRY;
   const alerts: ComplianceAlert[] = [];
-  const now = new Date();
 
   stockData.forEach((current) => {
     const previous = previousData.get(current.symbol);
     const intraday = intradayDataMap.get(current.symbol) || [];
     
-    // Calculate average volume from intraday data
+    // Calculate average volume from intraday data; without bars there is nothing to compare against
     const volumes = intraday.map(d => d.volume);
     const averageVolume = volumes.length > 0
       ? volumes.reduce((sum, v) => sum + v, 0) / volumes.length
-      : current.volume;
+      : undefined;
 
+    const calendar = calendarForVenue(venueForSymbol(options.watchlist, current.symbol));
     const context: AlertGenerationContext = {
       currentData: current,
       previousData: previous,
       intradayData: intraday,
       averageVolume,
+      session: getSessionInfo(calendar, new Date(current.timestamp)),
+      baseline: scoreBaseline(options.baselines?.get(current.symbol), intraday, calendar),
     };
 
-    // Check for price spike > 5% in 15 minutes
-    if (intraday.length >= 2) {
-      const recent = intraday[intraday.length - 1];
-      const previous = intraday[intraday.length - 2];
-      const priceChangePercent = ((recent.price - previous.price) / previous.price) * 100;
-
-      if (Math.abs(priceChangePercent) > 5) {
+    const symbolRules = options.watchlist ? applyRuleOverrides(rules, options.watchlist, current.symbol) : rules;
+    symbolRules.forEach(rule => {
+      const match = evaluateRule(rule, context);
+      if (match) {
         alerts.push(createAlert(
-          'Market Manipulation',
-          priceChangePercent > 5 ? 'Critical' : 'High',
+          rule,
+          match.severity,
+          match.value,
           current,
-          `Significant price movement detected: ${priceChangePercent.toFixed(2)}% change in 15 minutes`,
+          resolveTraderForSymbol(traders, current.symbol),
+          describeRuleMatch(rule, match.value, context),
           context
         ));
       }
-    }
+    });
+  });
+
+  return alerts;
+}
 
-    // Check for volume spike > 200% of average
-    if (averageVolume && current.volume > averageVolume * 2) {
-      const volumeIncrease = ((current.volume - averageVolume) / averageVolume) * 100;
-      alerts.push(createAlert(
-        'Unusual Activity',
-        volumeIncrease > 300 ? 'Critical' : volumeIncrease > 200 ? 'High' : 'Medium',
-        current,
-        `Unusual trading volume detected: ${volumeIncrease.toFixed(0)}% above average (${current.volume.toLocaleString()} vs ${Math.round(averageVolume).toLocaleString()} avg)`,
-        context
-      ));
-    }
+// Several rules can fire for the same symbol within one millisecond (always, during a fast replay)
+let alertSequence = 0;
 
-    // Check for after-hours large trades (if current time is outside market hours)
-    const hour = now.getHours();
-    const isAfterHours = hour < 9 || hour >= 16;
-    if (isAfterHours && current.volume > 1000000) {
-      alerts.push(createAlert(
-        'Suspicious Trading Pattern',
-        'High',
-        current,
-        `Large after-hours trade detected: ${current.volume.toLocaleString()} shares traded outside market hours`,
-        context
-      ));
-    }
+export function createAlertId(tag: string): string {
+  return `ALT${Date.now()}-${tag}-${++alertSequence}`;
+}
 
-    // Check for rapid price changes
-    if (previous && Math.abs(current.changePercent) > 3) {
-      alerts.push(createAlert(
-        'Market Manipulation',
-        Math.abs(current.changePercent) > 5 ? 'Critical' : 'High',
-        current,
-        `Rapid price change: ${current.changePercent > 0 ? '+' : ''}${current.changePercent.toFixed(2)}%`,
-        context
-      ));
-    }
-  });
+// Enough bars to show the lead-up on the chart without bloating every stored alert
+const EVIDENCE_BAR_LIMIT = 48;
 
-  return alerts;
+export function buildMarketDataEvidence(
+  rule: DetectionRule,
+  observedValue: number,
+  context: AlertGenerationContext
+): MarketDataEvidence {
+  const metric = RULE_METRICS[rule.metric];
+  const format = (value: number) => metric.unit === '%'
+    ? `${value.toFixed(2)}%`
+    : `${Math.round(value).toLocaleString()} ${metric.unit}`;
+  const { currentData, previousData } = context;
+  const point = ({ timestamp, price, volume }: MarketDataPoint) => ({ timestamp, price, volume });
+  const quote = {
+    timestamp: currentData.timestamp,
+    price: currentData.price,
+    volume: currentData.volume,
+    change: currentData.change,
+    changePercent: currentData.changePercent,
+    previousClose: currentData.previousClose,
+  };
+  return {
+    kind: 'marketData',
+    summary: `${metric.label}: ${format(observedValue)} ${rule.comparator} ${format(rule.threshold)} (rule "${rule.name}" v${rule.version}${rule.overriddenBy ? `, overridden by ${rule.overriddenBy.join(', ')}` : ''})`,
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      version: rule.version,
+      metric: rule.metric,
+      metricLabel: metric.label,
+      unit: metric.unit,
+      comparator: rule.comparator,
+      threshold: rule.threshold,
+      overriddenBy: rule.overriddenBy,
+    },
+    observedValue,
+    quote,
+    previousQuote: previousData && {
+      timestamp: previousData.timestamp,
+      price: previousData.price,
+      volume: previousData.volume,
+      changePercent: previousData.changePercent,
+    },
+    bars: (context.intradayData || []).slice(-EVIDENCE_BAR_LIMIT).map(point),
+    averageVolume: context.averageVolume,
+    trigger: point(metric.trigger?.(context) || quote),
+    session: formatSession(context.session),
+    baseline: context.baseline.volume || context.baseline.price ? context.baseline : undefined,
+    thresholds: metric.markers(rule.threshold, context),
+  };
 }
 
 function createAlert(
-  type: AlertType | 'Unusual Activity' | 'Suspicious Trading Pattern',
+  rule: DetectionRule,
   severity: Severity,
+  observedValue: number,
   stockData: StockData,
+  trader: Trader,
   description: string,
-  _context: AlertGenerationContext
+  context: AlertGenerationContext
 ): ComplianceAlert {
-  const alertTypes: AlertType[] = [
-    'Market Manipulation',
-    'Wash Trading',
-    'Spoofing',
-    'Insider Trading',
-    'Position Limit Breach',
-  ];
-
-  const alertType = alertTypes.includes(type as AlertType)
-    ? (type as AlertType)
-    : 'Market Manipulation';
-
-  // Generate trader name from symbol (for demo purposes)
-  const traderNames = [
-    'James Mitchell', 'Sarah Chen', 'Michael Rodriguez', 'Emily Johnson',
-    'David Kim', 'Lisa Anderson', 'Robert Taylor', 'Jennifer Martinez',
-  ];
-  const traderIndex = stockData.symbol.charCodeAt(0) % traderNames.length;
-
   return {
-    id: `ALT${Date.now()}-${stockData.symbol}`,
-    type: alertType,
+    id: createAlertId(stockData.symbol),
+    type: rule.alertType,
     severity,
     status: 'New',
-    trader: {
-      id: `TRD${stockData.symbol}`,
-      name: traderNames[traderIndex],
-      email: `${traderNames[traderIndex].toLowerCase().replace(' ', '.')}@trading.com`,
-      firm: 'Market Participant',
-      registrationDate: new Date(2020, 0, 1).toISOString(),
-    },
+    trader,
     timestamp: stockData.timestamp,
     description: `${stockData.symbol}: ${description}`,
+    symbol: stockData.symbol,
+    ruleId: rule.id,
+    evidence: buildMarketDataEvidence(rule, observedValue, context),
     detectedBy: 'Real-Time Market Monitoring System',
     investigationNotes: '',
     timeline: [
       {
-        id: `timeline-${Date.now()}`,
+        id: createTimelineEventId(),
         timestamp: stockData.timestamp,
         action: 'Alert Created',
         user: 'Automated System',
-        notes: `Detected from live market data - Price: $${stockData.price.toFixed(2)}, Volume: ${stockData.volume.toLocaleString()}`,
+        notes: `Detected from live market data by rule "${rule.name}" (v${rule.version}) - Price: $${stockData.price.toFixed(2)}, Volume: ${stockData.volume.toLocaleString()}`,
       },
     ],
   };
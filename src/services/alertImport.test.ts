@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { ComplianceAlert } from '../types';
+import { importRowsFromJson, parseAlertImport, planAlertImport } from './alertImport';
+import { sealTimeline } from './auditChain';
+import { DEFAULT_USERS } from './users';
+
+const officer = DEFAULT_USERS[1];
+const now = new Date('2025-03-03T16:00:00.000Z');
+
+const fileAlert = (overrides: Record<string, unknown> = {}) => ({
+  id: 'EXT-1',
+  type: 'Spoofing',
+  severity: 'Low',
+  status: 'New',
+  trader: { id: 'T1', name: 'Pat Trader' },
+  timestamp: '2025-03-03T15:00:00.000Z',
+  description: 'Raised by the vendor system',
+  detectedBy: 'Vendor',
+  ...overrides,
+});
+
+const storedAlert = (): ComplianceAlert => sealTimeline({
+  id: 'EXT-1',
+  type: 'Spoofing',
+  severity: 'High',
+  status: 'In Review',
+  trader: { id: 'T1', name: 'Pat Trader', email: '', firm: '', registrationDate: '' },
+  timestamp: '2025-03-03T15:00:00.000Z',
+  description: 'Stored description',
+  detectedBy: 'Vendor',
+  investigationNotes: '',
+  assignee: 'analyst',
+  caseId: 'CASE-1',
+  timeline: [{ id: 'e1', timestamp: '2025-03-03T15:05:00.000Z', action: 'Start Investigation', user: 'Alex Analyst' }],
+});
+
+const plan = (values: unknown[], existing: ComplianceAlert[] = [], strategy: 'skip' | 'overwrite' | 'merge' = 'skip') =>
+  planAlertImport(importRowsFromJson(values), existing, strategy, officer, 'vendor.json', now);
+
+describe('parseAlertImport', () => {
+  it('reports every problem with a row and leaves it out', () => {
+    const [row] = importRowsFromJson([fileAlert({ severity: 'Extreme', colour: 'red', trader: { name: 'No Id' } })]);
+
+    expect(row.alert).toBeNull();
+    expect(row.errors).toEqual(expect.arrayContaining([
+      'colour is not a known field',
+      'severity "Extreme" is not a severity',
+      'trader.id is required',
+    ]));
+  });
+
+  it('flags ids repeated within the file', () => {
+    const rows = importRowsFromJson([fileAlert(), fileAlert()]);
+    expect(rows[1].errors).toContain('duplicate id "EXT-1" in this file');
+  });
+
+  it('reads CSV rows, including the export\'s column names', () => {
+    const csv = 'Alert ID,Type,Severity,Status,Timestamp,Description,Detected By,Trader ID,Trader Name\n'
+      + 'EXT-2,Wash Trading,Medium,New,2025-03-03T15:00:00Z,Crossed trades,Vendor,T2,Lee Trader\n';
+    const [row] = parseAlertImport('alerts.csv', csv);
+
+    expect(row.errors).toEqual([]);
+    expect(row.alert).toMatchObject({ id: 'EXT-2', type: 'Wash Trading', trader: { id: 'T2', name: 'Lee Trader', firm: '' } });
+  });
+
+  it('refuses files that are neither a list nor { alerts }', () => {
+    expect(() => parseAlertImport('alerts.json', '{"rows": []}')).toThrow('Expected an array of alerts');
+  });
+});
+
+describe('planAlertImport', () => {
+  it('starts new alerts as New, outside the workflow state the file claims', () => {
+    const result = plan([fileAlert({ status: 'Dismissed', assignee: 'analyst', caseId: 'CASE-9', slaBreaches: ['triage'] })]);
+    const [created] = result.alerts;
+
+    expect(result.created).toEqual(['EXT-1']);
+    expect(created.status).toBe('New');
+    expect(created).not.toHaveProperty('assignee');
+    expect(created).not.toHaveProperty('caseId');
+    expect(created).not.toHaveProperty('slaBreaches');
+    expect(created.timeline[0]).toMatchObject({ action: 'Imported', userId: officer.id });
+    expect(created.timeline[0].notes).toContain('status in the file: Dismissed');
+  });
+
+  it('drops a pending approval the file carries', () => {
+    const pendingApproval = { to: 'Dismissed', requestedBy: 'analyst', requestedByName: 'Alex Analyst', requestedAt: now.toISOString(), action: 'Dismiss' };
+    const [created] = plan([fileAlert({ pendingApproval })]).alerts;
+    expect(created.pendingApproval).toBeUndefined();
+  });
+
+  it('skips stored alerts by default', () => {
+    const result = plan([fileAlert()], [storedAlert()]);
+    expect(result).toMatchObject({ alerts: [], skipped: ['EXT-1'] });
+  });
+
+  it('overwrites fields but keeps the stored workflow state and history', () => {
+    const stored = storedAlert();
+    const result = plan([fileAlert({ status: 'Resolved', assignee: 'admin' })], [stored], 'overwrite');
+    const [overwritten] = result.alerts;
+
+    expect(result.overwritten).toEqual(['EXT-1']);
+    expect(overwritten).toMatchObject({
+      description: 'Raised by the vendor system', status: 'In Review', severity: 'High', assignee: 'analyst', caseId: 'CASE-1',
+    });
+    expect(overwritten.timeline.slice(0, 1)).toEqual(stored.timeline);
+    expect(overwritten.timeline[1].action).toBe('Overwritten by Import');
+  });
+
+  it('merges only the file\'s events not yet recorded, as reported text', () => {
+    const stored = storedAlert();
+    const extra = { id: 'x1', timestamp: '2025-03-03T15:30:00.000Z', action: 'Vendor Review', user: 'Vendor Bot' };
+    const result = plan([fileAlert({ timeline: [extra] })], [stored], 'merge');
+    const [merged] = result.alerts;
+
+    expect(result.merged).toEqual(['EXT-1']);
+    expect(merged.description).toBe('Stored description');
+    expect(merged.timeline).toHaveLength(2);
+    expect(merged.timeline[1].notes).toContain('Vendor Review by Vendor Bot');
+  });
+});
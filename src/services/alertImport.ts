@@ -0,0 +1,374 @@
+import { AlertType, ComplianceAlert, Severity, TimelineEvent, Trader, User } from '../types';
+import { parseCsv } from './csv';
+import { isStatus } from './alertActions';
+import { appendTimelineEvent, createTimelineEventId, verifyTimeline } from './auditChain';
+
+// What to do when an imported alert's id is already in the store.
+// Stored timelines are append-only, so neither strategy can drop history: overwrite takes the file's
+// alert fields apart from the workflow state, merge keeps the stored ones, and both append the file's
+// timeline events not yet recorded.
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'merge';
+
+export const CONFLICT_STRATEGY_LABELS: Record<ImportConflictStrategy, string> = {
+  skip: 'Skip existing alerts',
+  overwrite: 'Overwrite existing alerts',
+  merge: 'Merge timelines into existing alerts',
+};
+
+export interface ImportRow {
+  // 1-based position in the file (data rows for CSV)
+  row: number;
+  id: string;
+  alert: ComplianceAlert | null;
+  errors: string[];
+}
+
+export interface ImportPlan {
+  alerts: ComplianceAlert[];
+  created: string[];
+  overwritten: string[];
+  merged: string[];
+  skipped: string[];
+  invalid: number;
+}
+
+const ALERT_TYPES: AlertType[] = [
+  'Market Manipulation', 'Wash Trading', 'Spoofing', 'Insider Trading', 'Position Limit Breach',
+];
+const SEVERITIES: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+
+const ALERT_FIELDS = new Set([
+  'id', 'type', 'severity', 'status', 'trader', 'timestamp', 'description', 'detectedBy', 'investigationNotes',
+  'timeline', 'symbol', 'ruleId', 'evidence', 'pendingApproval', 'assignee', 'slaBreaches', 'occurrences',
+  'lastSeenAt', 'caseId',
+]);
+const TRADER_FIELDS = new Set(['id', 'name', 'email', 'firm', 'registrationDate', 'accounts', 'symbols']);
+const EVENT_FIELDS = new Set([
+  'id', 'timestamp', 'action', 'user', 'userId', 'notes', 'fromStatus', 'toStatus', 'reasonCode',
+  'escalationTarget', 'approvedBy', 'assignee', 'previousHash', 'hash',
+]);
+
+// CSV headers are matched ignoring case and punctuation, so both `trader.id` and the export's "Trader ID" work
+const CSV_COLUMNS: Record<string, string> = {
+  id: 'id', alertid: 'id',
+  type: 'type',
+  severity: 'severity',
+  status: 'status',
+  timestamp: 'timestamp', detectedat: 'timestamp',
+  description: 'description',
+  detectedby: 'detectedBy',
+  investigationnotes: 'investigationNotes', notes: 'investigationNotes',
+  symbol: 'symbol',
+  ruleid: 'ruleId', rule: 'ruleId',
+  assignee: 'assignee',
+  caseid: 'caseId', case: 'caseId',
+  occurrences: 'occurrences',
+  lastseenat: 'lastSeenAt', lastseen: 'lastSeenAt',
+  timeline: 'timeline',
+  traderid: 'trader.id',
+  tradername: 'trader.name',
+  traderemail: 'trader.email',
+  traderfirm: 'trader.firm', firm: 'trader.firm',
+  traderregistrationdate: 'trader.registrationDate',
+  traderaccounts: 'trader.accounts',
+  // Columns the CSV export derives from other fields
+  closedat: '', dismissalreason: '', evidencesummary: '',
+};
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isDate = (value: unknown) => typeof value === 'string' && value !== '' && !isNaN(new Date(value).getTime());
+
+function checkString(record: Json, field: string, path: string, errors: string[], required = true): void {
+  const value = record[field];
+  if (value === undefined || value === null) {
+    if (required) errors.push(`${path}${field} is required`);
+  } else if (typeof value !== 'string') {
+    errors.push(`${path}${field} must be a string`);
+  } else if (required && !value.trim()) {
+    errors.push(`${path}${field} must not be empty`);
+  }
+}
+
+function checkUnknown(record: Json, allowed: Set<string>, path: string, errors: string[]): void {
+  Object.keys(record).filter(key => !allowed.has(key)).forEach(key => errors.push(`${path}${key} is not a known field`));
+}
+
+// Shared with API ingest, so both entry points accept the same trader shape
+export function validateTrader(value: unknown, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push('trader must be an object');
+    return;
+  }
+  checkUnknown(value, TRADER_FIELDS, 'trader.', errors);
+  checkString(value, 'id', 'trader.', errors);
+  checkString(value, 'name', 'trader.', errors);
+  checkString(value, 'email', 'trader.', errors, false);
+  checkString(value, 'firm', 'trader.', errors, false);
+  if (value.registrationDate && !isDate(value.registrationDate)) errors.push('trader.registrationDate must be a date');
+  ['accounts', 'symbols'].forEach(field => {
+    const list = value[field];
+    if (list !== undefined && !(Array.isArray(list) && list.every(item => typeof item === 'string'))) {
+      errors.push(`trader.${field} must be a list of strings`);
+    }
+  });
+}
+
+function validateEvent(value: unknown, index: number, errors: string[]): void {
+  const path = `timeline[${index}].`;
+  if (!isObject(value)) {
+    errors.push(`timeline[${index}] must be an object`);
+    return;
+  }
+  checkUnknown(value, EVENT_FIELDS, path, errors);
+  checkString(value, 'id', path, errors);
+  checkString(value, 'action', path, errors);
+  checkString(value, 'user', path, errors);
+  if (!isDate(value.timestamp)) errors.push(`${path}timestamp must be an ISO timestamp`);
+  ['userId', 'notes', 'reasonCode', 'escalationTarget', 'approvedBy', 'assignee', 'previousHash', 'hash']
+    .forEach(field => checkString(value, field, path, errors, false));
+  ['fromStatus', 'toStatus'].forEach(field => {
+    if (value[field] !== undefined && !isStatus(value[field])) errors.push(`${path}${field} "${String(value[field])}" is not a status`);
+  });
+}
+
+// Strict check against the ComplianceAlert / Trader / TimelineEvent shapes; returns every problem found
+export function validateImportedAlert(value: unknown): string[] {
+  if (!isObject(value)) return ['alert must be an object'];
+  const errors: string[] = [];
+  checkUnknown(value, ALERT_FIELDS, '', errors);
+  checkString(value, 'id', '', errors);
+  checkString(value, 'description', '', errors);
+  checkString(value, 'detectedBy', '', errors);
+  checkString(value, 'investigationNotes', '', errors, false);
+  ['symbol', 'ruleId', 'assignee', 'caseId'].forEach(field => checkString(value, field, '', errors, false));
+  if (!ALERT_TYPES.includes(value.type as AlertType)) errors.push(`type "${String(value.type)}" is not an alert type`);
+  if (!SEVERITIES.includes(value.severity as Severity)) errors.push(`severity "${String(value.severity)}" is not a severity`);
+  if (!isStatus(value.status)) errors.push(`status "${String(value.status)}" is not a status`);
+  if (!isDate(value.timestamp)) errors.push('timestamp must be an ISO timestamp');
+  if (value.lastSeenAt !== undefined && !isDate(value.lastSeenAt)) errors.push('lastSeenAt must be an ISO timestamp');
+  if (value.occurrences !== undefined && !(Number.isInteger(value.occurrences) && (value.occurrences as number) >= 1)) {
+    errors.push('occurrences must be a positive integer');
+  }
+  if (value.evidence !== undefined && !(isObject(value.evidence) &&
+    ['orders', 'position', 'marketData', 'insider'].includes(value.evidence.kind as string) &&
+    typeof value.evidence.summary === 'string')) {
+    errors.push('evidence must be order, position, market data or insider trading evidence with a summary');
+  }
+  validateTrader(value.trader, errors);
+
+  if (value.timeline !== undefined) {
+    if (!Array.isArray(value.timeline)) {
+      errors.push('timeline must be a list of events');
+    } else {
+      value.timeline.forEach((event, index) => validateEvent(event, index, errors));
+      // Sealed events (e.g. from our own export) must still verify; trailing unsealed ones are kept only as text
+      // on the import event (see planAlertImport)
+      const events = value.timeline as TimelineEvent[];
+      const sealedCount = events.map(event => isObject(event) && !!event.hash).lastIndexOf(true) + 1;
+      if (errors.length === 0 && sealedCount > 0) {
+        const verification = verifyTimeline(value.id as string, events.slice(0, sealedCount));
+        if (!verification.valid) errors.push(`timeline audit chain does not verify: ${verification.issues[0].message}`);
+      }
+    }
+  }
+  return errors;
+}
+
+function normalizeAlert(value: Json): ComplianceAlert {
+  const trader = value.trader as Trader;
+  return {
+    ...(value as unknown as ComplianceAlert),
+    trader: {
+      ...trader,
+      email: trader.email || '',
+      firm: trader.firm || '',
+      registrationDate: trader.registrationDate || '',
+    },
+    investigationNotes: (value.investigationNotes as string) || '',
+    timeline: (value.timeline as TimelineEvent[]) || [],
+  };
+}
+
+// Turns a flat CSV row into the nested alert shape; the timeline column may hold the events as JSON
+function csvRowToAlert(row: Record<string, string>): { value: Json; errors: string[] } {
+  const value: Json = {};
+  const trader: Json = {};
+  const errors: string[] = [];
+  Object.entries(row).forEach(([header, cell]) => {
+    const field = CSV_COLUMNS[header.toLowerCase().replace(/[^a-z]/g, '')];
+    if (field === undefined) {
+      if (cell) errors.push(`column "${header}" is not a known field`);
+      return;
+    }
+    if (!field || cell === '') return;
+    if (field === 'trader.accounts') {
+      trader.accounts = cell.split(/[;|]/).map(account => account.trim()).filter(Boolean);
+    } else if (field.startsWith('trader.')) {
+      trader[field.slice('trader.'.length)] = cell;
+    } else if (field === 'occurrences') {
+      value.occurrences = Number(cell);
+    } else if (field === 'timeline') {
+      try {
+        value.timeline = JSON.parse(cell);
+      } catch {
+        errors.push('timeline column is not valid JSON');
+      }
+    } else {
+      value[field] = cell;
+    }
+  });
+  value.trader = trader;
+  return { value, errors };
+}
+
+// JSON: an array of alerts or { "alerts": [...] }. CSV: one alert per row, see CSV_COLUMNS.
+// Throws only when the file itself can't be read; problems with individual alerts are reported per row.
+export function parseAlertImport(fileName: string, text: string): ImportRow[] {
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    return toImportRows(parseCsv(text).map(csvRowToAlert));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as Error).message}`);
+  }
+  const list = Array.isArray(parsed) ? parsed : isObject(parsed) ? parsed.alerts : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected an array of alerts or { "alerts": [...] }');
+  return importRowsFromJson(list);
+}
+
+export function importRowsFromJson(list: unknown[]): ImportRow[] {
+  return toImportRows(list.map(value => ({ value, errors: [] })));
+}
+
+function toImportRows(values: { value: unknown; errors: string[] }[]): ImportRow[] {
+  const seen = new Set<string>();
+  return values.map(({ value, errors: parseErrors }, index) => {
+    const errors = [...parseErrors, ...validateImportedAlert(value)];
+    const id = isObject(value) && typeof value.id === 'string' ? value.id : '';
+    if (id && seen.has(id)) errors.push(`duplicate id "${id}" in this file`);
+    if (id) seen.add(id);
+    return {
+      row: index + 1,
+      id,
+      alert: errors.length === 0 ? normalizeAlert(value as Json) : null,
+      errors,
+    };
+  });
+}
+
+// Only events carrying this system's verified seal (i.e. from our own export) are kept as events. Anything
+// else is history nobody here recorded, so it is written into the import event's notes as reported text
+// instead of being sealed as if it had happened here.
+function describeUnverifiedEvents(events: TimelineEvent[]): string {
+  return events
+    .map(event => `- ${event.timestamp} ${event.action} by ${event.user}${event.notes ? `: ${event.notes}` : ''}`)
+    .join('\n');
+}
+
+// Status, approval, assignment, case and SLA state only change through the workflow, never through a file
+function withoutWorkflowState(alert: ComplianceAlert): ComplianceAlert {
+  const cleared: ComplianceAlert = { ...alert, status: 'New' };
+  delete cleared.pendingApproval;
+  delete cleared.assignee;
+  delete cleared.caseId;
+  delete cleared.slaBreaches;
+  return cleared;
+}
+
+// Severity stays too, as it decides the four-eyes policy and SLA deadlines that apply
+function withWorkflowStateOf(alert: ComplianceAlert, current: ComplianceAlert): ComplianceAlert {
+  return {
+    ...withoutWorkflowState(alert),
+    status: current.status,
+    severity: current.severity,
+    ...(current.pendingApproval && { pendingApproval: current.pendingApproval }),
+    ...(current.assignee && { assignee: current.assignee }),
+    ...(current.caseId && { caseId: current.caseId }),
+    ...(current.slaBreaches && { slaBreaches: current.slaBreaches }),
+  };
+}
+
+function withUnverifiedEvents(notes: string, events: TimelineEvent[]): string {
+  return events.length === 0
+    ? notes
+    : `${notes}. ${events.length} event(s) from the file, as reported and not verified:\n${describeUnverifiedEvents(events)}`;
+}
+
+// Works out what an import would change; nothing is written, so this doubles as the preview
+export function planAlertImport(
+  rows: ImportRow[],
+  existing: ComplianceAlert[],
+  strategy: ImportConflictStrategy,
+  actor: User | null,
+  source: string,
+  now: Date = new Date(),
+): ImportPlan {
+  const stored = new Map(existing.map(alert => [alert.id, alert]));
+  const plan: ImportPlan = {
+    alerts: [], created: [], overwritten: [], merged: [], skipped: [], invalid: rows.filter(row => !row.alert).length,
+  };
+  const importEvent = (action: string, notes: string): TimelineEvent => ({
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action,
+    user: actor?.name || 'Alert Import',
+    userId: actor?.id,
+    notes,
+  });
+
+  rows.forEach(({ alert }) => {
+    if (!alert) return;
+    const current = stored.get(alert.id);
+    if (!current) {
+      // Validation made sure the sealed events form a verified prefix
+      const sealed = alert.timeline.filter(event => event.hash);
+      const unsealed = alert.timeline.filter(event => !event.hash);
+      const imported = alert.status === 'New'
+        ? `Imported from ${source}`
+        : `Imported from ${source} as New (status in the file: ${alert.status})`;
+      plan.created.push(alert.id);
+      plan.alerts.push(appendTimelineEvent(
+        { ...withoutWorkflowState(alert), timeline: sealed },
+        importEvent('Imported', withUnverifiedEvents(imported, unsealed)),
+      ));
+      return;
+    }
+
+    // The file's copy of the timeline forks from ours, so its extra events can't be chained in as events
+    const known = new Set(current.timeline.map(event => event.id));
+    const extra = alert.timeline.filter(event => !known.has(event.id));
+
+    switch (strategy) {
+      case 'skip':
+        plan.skipped.push(alert.id);
+        return;
+      case 'overwrite':
+        plan.overwritten.push(alert.id);
+        plan.alerts.push(appendTimelineEvent({ ...withWorkflowStateOf(alert, current), timeline: current.timeline }, importEvent(
+          'Overwritten by Import',
+          withUnverifiedEvents(`Alert fields replaced from ${source}`, extra),
+        )));
+        return;
+      case 'merge':
+        if (extra.length === 0) {
+          plan.skipped.push(alert.id);
+          return;
+        }
+        plan.merged.push(alert.id);
+        plan.alerts.push(appendTimelineEvent(current, importEvent(
+          'Timeline Merged from Import',
+          withUnverifiedEvents(`Merged from ${source}`, [...extra].sort(
+            (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+          )),
+        )));
+    }
+  });
+
+  return plan;
+}
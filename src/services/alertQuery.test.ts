@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { ComplianceAlert } from '../types';
+import { applyAlertQuery, parseAlertQuery, queryTermValues, setQueryTerm } from './alertQuery';
+
+const now = new Date('2025-03-10T12:00:00.000Z');
+
+const makeAlert = (id: string, changes: Partial<ComplianceAlert> = {}): ComplianceAlert => ({
+  id,
+  type: 'Spoofing',
+  severity: 'Medium',
+  status: 'New',
+  symbol: 'AAPL',
+  trader: { id: 'T1', name: 'Pat Trader', email: '', firm: 'Goldman Sachs', registrationDate: '' },
+  timestamp: '2025-03-09T12:00:00.000Z',
+  description: 'Layered orders cancelled before execution',
+  detectedBy: 'Order Surveillance Engine',
+  investigationNotes: '',
+  timeline: [],
+  ...changes,
+});
+
+const alerts = [
+  makeAlert('A1', { severity: 'Critical', assignee: 'analyst', timestamp: '2025-03-10T09:00:00.000Z' }),
+  makeAlert('A2', { type: 'Wash Trading', symbol: 'MSFT', occurrences: 4, caseId: 'CASE-1' }),
+  makeAlert('A3', {
+    status: 'Dismissed',
+    trader: { id: 'T2', name: 'Lee Trader', email: '', firm: 'Example Securities', registrationDate: '' },
+    timestamp: '2025-02-01T12:00:00.000Z',
+    investigationNotes: 'Market maker hedging',
+  }),
+];
+
+const ids = (input: string, currentUserId?: string) =>
+  applyAlertQuery(alerts, parseAlertQuery(input, now), { now, currentUserId }).map(alert => alert.id);
+
+describe('parseAlertQuery', () => {
+  it('splits fields, values, exclusions and free text, keeping quoted values whole', () => {
+    const query = parseAlertQuery('severity:critical,high -status:Dismissed firm:"Goldman Sachs" hedging', now);
+
+    expect(query.filters).toEqual([
+      { field: 'severity', values: ['critical', 'high'], negated: false },
+      { field: 'status', values: ['Dismissed'], negated: true },
+      { field: 'trader.firm', values: ['Goldman Sachs'], negated: false },
+    ]);
+    expect(query.text).toEqual(['hedging']);
+    expect(query.errors).toEqual([]);
+  });
+
+  it('reads relative and absolute dates and the sort term', () => {
+    const query = parseAlertQuery('since:7d until:2025-03-10 sort:severity:asc', now);
+
+    expect(query.since).toBe(new Date('2025-03-03T12:00:00.000Z').getTime());
+    expect(query.until).toBe(new Date('2025-03-10').getTime());
+    expect(query.sort).toEqual({ field: 'severity', order: 'asc' });
+  });
+
+  it('reports every term it cannot use', () => {
+    expect(parseAlertQuery('colour:red severity:extreme status:open since:soon sort:price occurrences:many symbol:', now).errors).toEqual([
+      'Unknown field "colour"',
+      'Unknown severity "extreme"',
+      'Unknown status "open"',
+      '"soon" is not a date or duration (use e.g. 7d, 12h or 2024-01-31)',
+      'Cannot sort by "price"',
+      '"many" is not a count (use e.g. 3, >2 or <=5)',
+      '"symbol" needs a value',
+    ]);
+  });
+});
+
+describe('applyAlertQuery', () => {
+  it('matches whole values, ignoring case, and excludes negated terms', () => {
+    expect(ids('symbol:aapl')).toEqual(['A1', 'A3']);
+    expect(ids('type:"wash trading"')).toEqual(['A2']);
+    expect(ids('-status:dismissed')).toEqual(['A1', 'A2']);
+  });
+
+  it('matches trader names and firms on part of the value', () => {
+    expect(ids('trader:lee')).toEqual(['A3']);
+    expect(ids('firm:goldman')).toEqual(['A1', 'A2']);
+  });
+
+  it('understands assignee and case shortcuts and count comparisons', () => {
+    expect(ids('assignee:me', 'analyst')).toEqual(['A1']);
+    expect(ids('assignee:me')).toEqual([]);
+    expect(ids('assignee:none')).toEqual(['A2', 'A3']);
+    expect(ids('case:any')).toEqual(['A2']);
+    expect(ids('occurrences:>2')).toEqual(['A2']);
+    expect(ids('occurrences:1')).toEqual(['A1', 'A3']);
+  });
+
+  it('searches free text in the notes and filters by time', () => {
+    expect(ids('hedging')).toEqual(['A3']);
+    expect(ids('since:7d')).toEqual(['A1', 'A2']);
+    expect(ids('until:2025-03-01')).toEqual(['A3']);
+  });
+
+  it('sorts newest first by default, or by the requested field', () => {
+    expect(ids('')).toEqual(['A1', 'A2', 'A3']);
+    expect(ids('sort:severity')).toEqual(['A1', 'A2', 'A3']);
+    expect(ids('sort:symbol:desc')).toEqual(['A2', 'A1', 'A3']);
+    expect(ids('sort:time:asc')).toEqual(['A3', 'A2', 'A1']);
+  });
+});
+
+describe('setQueryTerm', () => {
+  it('replaces a term\'s values and keeps the rest of the query, quotes included', () => {
+    expect(setQueryTerm('status:New firm:"Goldman Sachs" spoof', 'status', ['In Review', 'Escalated']))
+      .toBe('firm:"Goldman Sachs" spoof status:"In Review",Escalated');
+    expect(setQueryTerm('status:New spoof', 'STATUS', [])).toBe('spoof');
+  });
+
+  it('round-trips through the parser for single-select controls', () => {
+    const input = setQueryTerm('', 'severity', ['High']);
+    expect(queryTermValues(parseAlertQuery(input, now), 'severity')).toEqual(['High']);
+  });
+});
@@ -0,0 +1,306 @@
+import { ComplianceAlert, Severity } from '../types';
+import { STATUSES } from './alertActions';
+
+// Query syntax: space-separated terms, each either free text or `field:value[,value...]`.
+// Quote values with spaces (`trader.firm:"Goldman Sachs"`), prefix a term with `-` to exclude matches.
+// Dates: `since:7d`, `since:2024-01-01`, `until:12h`. Sorting: `sort:field[:asc|desc]`.
+
+export type QueryField =
+  | 'id' | 'type' | 'severity' | 'status' | 'symbol' | 'rule' | 'trader' | 'trader.id' | 'trader.name'
+  | 'trader.firm' | 'assignee' | 'case' | 'detectedBy' | 'occurrences';
+
+export type SortField =
+  | 'timestamp' | 'severity' | 'status' | 'type' | 'id' | 'symbol' | 'trader' | 'trader.firm' | 'assignee'
+  | 'occurrences' | 'lastSeen';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface QueryFilter {
+  field: QueryField;
+  values: string[];
+  negated: boolean;
+}
+
+export interface AlertQuery {
+  filters: QueryFilter[];
+  text: string[];
+  since: number | null;
+  until: number | null;
+  sort: { field: SortField; order: SortOrder } | null;
+  errors: string[];
+}
+
+export interface QueryContext {
+  now: Date;
+  // Resolves `assignee:me`
+  currentUserId?: string;
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  id: 'id',
+  type: 'type',
+  severity: 'severity',
+  status: 'status',
+  symbol: 'symbol',
+  rule: 'rule',
+  trader: 'trader',
+  'trader.id': 'trader.id',
+  'trader.name': 'trader.name',
+  'trader.firm': 'trader.firm',
+  firm: 'trader.firm',
+  assignee: 'assignee',
+  case: 'case',
+  detectedby: 'detectedBy',
+  occurrences: 'occurrences',
+};
+
+const SORT_ALIASES: Record<string, SortField> = {
+  timestamp: 'timestamp',
+  time: 'timestamp',
+  severity: 'severity',
+  status: 'status',
+  type: 'type',
+  id: 'id',
+  symbol: 'symbol',
+  trader: 'trader',
+  firm: 'trader.firm',
+  'trader.firm': 'trader.firm',
+  assignee: 'assignee',
+  occurrences: 'occurrences',
+  lastseen: 'lastSeen',
+};
+
+export const QUERY_FIELDS = Object.keys(FIELD_ALIASES);
+export const SORT_FIELDS = Object.keys(SORT_ALIASES);
+
+const SEVERITY_ORDER: Record<Severity, number> = { Critical: 4, High: 3, Medium: 2, Low: 1 };
+const SEVERITIES = Object.keys(SEVERITY_ORDER) as Severity[];
+// Text fields match on substring, everything else on the whole value
+const CONTAINS_FIELDS: QueryField[] = ['trader', 'trader.name', 'trader.firm', 'detectedBy'];
+const DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+// Splits on whitespace outside double quotes and strips the quotes
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function parseInstant(value: string, now: Date): number | null {
+  const duration = /^(\d+)([mhdw])$/i.exec(value);
+  if (duration) {
+    return now.getTime() - Number(duration[1]) * DURATION_UNITS[duration[2].toLowerCase()];
+  }
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function validateValues(field: QueryField, values: string[]): string | null {
+  const lower = (list: readonly string[]) => list.map(item => item.toLowerCase());
+  if (field === 'severity') {
+    const unknown = values.find(value => !lower(SEVERITIES).includes(value.toLowerCase()));
+    return unknown ? `Unknown severity "${unknown}"` : null;
+  }
+  if (field === 'status') {
+    const unknown = values.find(value => !lower(STATUSES).includes(value.toLowerCase()));
+    return unknown ? `Unknown status "${unknown}"` : null;
+  }
+  if (field === 'occurrences') {
+    const invalid = values.find(value => !/^(>=|<=|>|<)?\d+$/.test(value));
+    return invalid ? `"${invalid}" is not a count (use e.g. 3, >2 or <=5)` : null;
+  }
+  return null;
+}
+
+export function parseAlertQuery(input: string, now: Date = new Date()): AlertQuery {
+  const query: AlertQuery = { filters: [], text: [], since: null, until: null, sort: null, errors: [] };
+
+  tokenize(input).forEach(token => {
+    const negated = token.startsWith('-') && token.includes(':');
+    const body = negated ? token.slice(1) : token;
+    const separator = body.indexOf(':');
+    if (separator <= 0) {
+      query.text.push(token.toLowerCase());
+      return;
+    }
+
+    const key = body.slice(0, separator).toLowerCase();
+    const value = body.slice(separator + 1);
+    if (!value) {
+      query.errors.push(`"${key}" needs a value`);
+      return;
+    }
+
+    if (key === 'since' || key === 'until') {
+      const time = parseInstant(value, now);
+      if (time === null) {
+        query.errors.push(`"${value}" is not a date or duration (use e.g. 7d, 12h or 2024-01-31)`);
+      } else {
+        query[key] = time;
+      }
+      return;
+    }
+
+    if (key === 'sort') {
+      const [name, order = 'desc'] = value.split(':');
+      const field = SORT_ALIASES[name.toLowerCase()];
+      if (!field) {
+        query.errors.push(`Cannot sort by "${name}"`);
+      } else if (order !== 'asc' && order !== 'desc') {
+        query.errors.push(`Sort order must be asc or desc, not "${order}"`);
+      } else {
+        query.sort = { field, order };
+      }
+      return;
+    }
+
+    const field = FIELD_ALIASES[key];
+    if (!field) {
+      query.errors.push(`Unknown field "${key}"`);
+      return;
+    }
+    const values = value.split(',').map(item => item.trim()).filter(Boolean);
+    const problem = validateValues(field, values);
+    if (problem) {
+      query.errors.push(problem);
+      return;
+    }
+    query.filters.push({ field, values, negated });
+  });
+
+  return query;
+}
+
+function fieldValues(alert: ComplianceAlert, field: QueryField): string[] {
+  switch (field) {
+    case 'id': return [alert.id];
+    case 'type': return [alert.type];
+    case 'severity': return [alert.severity];
+    case 'status': return [alert.status];
+    case 'symbol': return [alert.symbol || ''];
+    case 'rule': return [alert.ruleId || ''];
+    case 'trader': return [alert.trader.id, alert.trader.name];
+    case 'trader.id': return [alert.trader.id];
+    case 'trader.name': return [alert.trader.name];
+    case 'trader.firm': return [alert.trader.firm];
+    case 'assignee': return [alert.assignee || ''];
+    case 'case': return [alert.caseId || ''];
+    case 'detectedBy': return [alert.detectedBy];
+    case 'occurrences': return [String(alert.occurrences || 1)];
+  }
+}
+
+function matchesCount(count: number, condition: string): boolean {
+  const [, operator = '', digits] = /^(>=|<=|>|<)?(\d+)$/.exec(condition)!;
+  const target = Number(digits);
+  switch (operator) {
+    case '>': return count > target;
+    case '>=': return count >= target;
+    case '<': return count < target;
+    case '<=': return count <= target;
+    default: return count === target;
+  }
+}
+
+function matchesValue(alert: ComplianceAlert, field: QueryField, value: string, context: QueryContext): boolean {
+  const wanted = value.toLowerCase();
+  if (field === 'occurrences') return matchesCount(alert.occurrences || 1, value);
+  if ((field === 'assignee' || field === 'case') && wanted === 'none') return !fieldValues(alert, field)[0];
+  if ((field === 'assignee' || field === 'case') && wanted === 'any') return !!fieldValues(alert, field)[0];
+  if (field === 'assignee' && wanted === 'me') return !!context.currentUserId && alert.assignee === context.currentUserId;
+
+  return fieldValues(alert, field).some(actual => {
+    const candidate = (actual || '').toLowerCase();
+    return CONTAINS_FIELDS.includes(field) ? candidate.includes(wanted) : candidate === wanted;
+  });
+}
+
+// Free text searches the id, trader, description, investigation notes and timeline notes
+function searchableText(alert: ComplianceAlert): string {
+  return [
+    alert.id, alert.trader.id, alert.trader.name, alert.symbol, alert.description, alert.investigationNotes,
+    ...alert.timeline.map(event => event.notes),
+  ].filter(Boolean).join('\n').toLowerCase();
+}
+
+export function matchesAlertQuery(alert: ComplianceAlert, query: AlertQuery, context: QueryContext): boolean {
+  const time = new Date(alert.timestamp).getTime();
+  if (query.since !== null && !(time >= query.since)) return false;
+  if (query.until !== null && !(time <= query.until)) return false;
+
+  const filtersMatch = query.filters.every(filter => {
+    const matched = filter.values.some(value => matchesValue(alert, filter.field, value, context));
+    return filter.negated ? !matched : matched;
+  });
+  if (!filtersMatch) return false;
+
+  if (query.text.length === 0) return true;
+  const text = searchableText(alert);
+  return query.text.every(word => text.includes(word));
+}
+
+function sortValue(alert: ComplianceAlert, field: SortField): number | string {
+  switch (field) {
+    case 'timestamp': return new Date(alert.timestamp).getTime() || 0;
+    case 'lastSeen': return new Date(alert.lastSeenAt || alert.timestamp).getTime() || 0;
+    case 'severity': return SEVERITY_ORDER[alert.severity] || 0;
+    case 'status': return STATUSES.indexOf(alert.status);
+    case 'occurrences': return alert.occurrences || 1;
+    case 'type': return alert.type;
+    case 'id': return alert.id;
+    case 'symbol': return alert.symbol || '';
+    case 'trader': return alert.trader.name;
+    case 'trader.firm': return alert.trader.firm;
+    case 'assignee': return alert.assignee || '';
+  }
+}
+
+export const DEFAULT_SORT: NonNullable<AlertQuery['sort']> = { field: 'timestamp', order: 'desc' };
+
+export function applyAlertQuery(alerts: ComplianceAlert[], query: AlertQuery, context: QueryContext): ComplianceAlert[] {
+  const { field, order } = query.sort || DEFAULT_SORT;
+  const direction = order === 'asc' ? 1 : -1;
+  return alerts
+    .filter(alert => matchesAlertQuery(alert, query, context))
+    .sort((a, b) => {
+      const valueA = sortValue(a, field);
+      const valueB = sortValue(b, field);
+      const compared = typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB));
+      return compared * direction;
+    });
+}
+
+const quote = (value: string) => /\s/.test(value) ? `"${value}"` : value;
+
+// Puts back the quotes tokenize removed, around the value only
+function serializeToken(token: string): string {
+  const separator = token.indexOf(':');
+  return separator > 0 ? `${token.slice(0, separator + 1)}${quote(token.slice(separator + 1))}` : quote(token);
+}
+
+// Rewrites the query text so `key` has exactly these values (or is removed), leaving other terms alone.
+// Used by the dropdowns and sort buttons so the query text stays the single source of truth.
+export function setQueryTerm(input: string, key: string, values: string[]): string {
+  const kept = tokenize(input).filter(token => !token.toLowerCase().startsWith(`${key.toLowerCase()}:`));
+  const rest = kept.map(serializeToken);
+  return (values.length > 0 ? [...rest, `${key}:${values.map(quote).join(',')}`] : rest).join(' ');
+}
+
+// Values of a positive filter term, for reflecting the query back into single-select controls
+export function queryTermValues(query: AlertQuery, field: QueryField): string[] {
+  return query.filters.filter(filter => filter.field === field && !filter.negated).flatMap(filter => filter.values);
+}
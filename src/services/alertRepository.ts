@@ -0,0 +1,99 @@
+import { Case, ComplianceAlert, TimelineEvent } from '../types';
+import { computeEventHash, sameEventContent } from './auditChain';
+
+// Storage-agnostic access to alerts. Timelines and investigation notes are kept apart from the
+// alert record itself so backends can store them append-only / independently.
+export interface AlertRepository {
+  listAlerts(): Promise<ComplianceAlert[]>;
+  getAlert(id: string): Promise<ComplianceAlert | null>;
+  saveAlerts(alerts: ComplianceAlert[]): Promise<void>;
+  listCases(): Promise<Case[]>;
+  getCase(id: string): Promise<Case | null>;
+  saveCases(cases: Case[]): Promise<void>;
+  getMeta(key: string): Promise<string | null>;
+  setMeta(key: string, value: string): Promise<void>;
+}
+
+export type AlertRecord = Omit<ComplianceAlert, 'timeline' | 'investigationNotes'>;
+
+export interface TimelineRecord extends TimelineEvent {
+  alertId: string;
+  position: number;
+}
+
+export interface NotesRecord {
+  alertId: string;
+  notes: string;
+  updatedAt: string;
+}
+
+// Raised when a save would rewrite or drop timeline events that are already stored
+export class AuditLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditLogError';
+  }
+}
+
+function stripRecord({ alertId: _alertId, position: _position, ...event }: TimelineRecord): TimelineEvent {
+  return event;
+}
+
+// Timelines are append-only: every stored event must come back unchanged, in the same position
+export function assertAppendOnly(alertId: string, stored: TimelineRecord[], next: TimelineRecord[]): void {
+  stored.forEach(event => {
+    const replacement = next[event.position];
+    if (!replacement || replacement.id !== event.id) {
+      throw new AuditLogError(`Alert ${alertId}: timeline event ${event.id} cannot be removed or reordered`);
+    }
+    if (!sameEventContent(stripRecord(replacement), stripRecord(event)) || replacement.hash !== event.hash) {
+      throw new AuditLogError(`Alert ${alertId}: timeline event ${event.id} cannot be modified`);
+    }
+  });
+}
+
+// Events a save has to write: the ones after those already stored. Each must have been sealed where it was
+// created (appendTimelineEvent, or sealTimeline for a new record); storage never seals on a caller's behalf.
+export function appendedEvents(alertId: string, stored: TimelineRecord[], next: TimelineRecord[]): TimelineRecord[] {
+  const appended = next.filter(event => event.position >= stored.length);
+  appended.forEach(event => {
+    if (!event.hash || computeEventHash(alertId, stripRecord(event), event.previousHash || '') !== event.hash) {
+      throw new AuditLogError(`Alert ${alertId}: timeline event ${event.id} is not sealed by this system`);
+    }
+  });
+  return appended;
+}
+
+export function splitAlert(alert: ComplianceAlert): {
+  record: AlertRecord;
+  timeline: TimelineRecord[];
+  notes: NotesRecord;
+} {
+  const { timeline, investigationNotes, ...record } = alert;
+  return {
+    record,
+    timeline: timeline.map((event, position) => ({ ...event, alertId: alert.id, position })),
+    notes: { alertId: alert.id, notes: investigationNotes, updatedAt: new Date().toISOString() },
+  };
+}
+
+// Cases are stored whole, but their timelines get the same append-only checks as alert timelines
+export function assertCaseAppendOnly(stored: Case | null | undefined, next: Case): void {
+  const records = (timeline: TimelineEvent[]) =>
+    timeline.map((event, position) => ({ ...event, alertId: next.id, position }));
+  const storedRecords = records(stored?.timeline || []);
+  assertAppendOnly(next.id, storedRecords, records(next.timeline));
+  appendedEvents(next.id, storedRecords, records(next.timeline));
+}
+
+export function joinAlert(record: AlertRecord, timeline: TimelineRecord[], notes?: NotesRecord): ComplianceAlert {
+  return {
+    ...record,
+    investigationNotes: notes?.notes || '',
+    timeline: [...timeline]
+      .sort((a, b) => a.position - b.position)
+      .map(stripRecord),
+  };
+}
+
+export const SEEDED_META_KEY = 'seededWithDemoData';
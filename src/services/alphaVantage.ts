@@ -1,15 +1,11 @@
-const API_BASE_URL = 'https://www.alphavantage.co/query';
+import {
+  IntradayBar, MarketDataProvider, ProviderHealth, ProviderThrottledError, StockData,
+} from './marketDataProvider';
+import { instantFromLocal } from './exchangeCalendar';
 
-export interface StockData {
-  symbol: string;
-  price: number;
-  volume: number;
-  change: number;
-  changePercent: number;
-  timestamp: string;
-  previousClose?: number;
-  averageVolume?: number;
-}
+const API_BASE_URL = 'https://www.alphavantage.co/query';
+// Intraday series state their zone in the metadata; this is what it has always been
+const DEFAULT_SERIES_TIME_ZONE = 'America/New_York';
 
 export interface StockQuote {
   '01. symbol': string;
@@ -27,12 +23,20 @@ export interface StockQuote {
 export interface AlphaVantageResponse {
   'Global Quote'?: StockQuote;
   'Note'?: string;
+  // Used instead of Note for the daily limit
+  'Information'?: string;
   'Error Message'?: string;
 }
 
+// Alpha Vantage answers HTTP 200 with a Note or Information message instead of data when it throttles
+function throttleMessage(data: AlphaVantageResponse): string | undefined {
+  return data['Note'] || data['Information'];
+}
+
 export async function fetchStockQuote(apiKey: string, symbol: string): Promise<StockData | null> {
   try {
     const url = `${API_BASE_URL}?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${apiKey}`;
+    const fetchedAt = new Date();
     const response = await fetch(url);
     const data: AlphaVantageResponse = await response.json();
 
@@ -41,9 +45,9 @@ export async function fetchStockQuote(apiKey: string, symbol: string): Promise<S
       return null;
     }
 
-    if (data['Note']) {
-      console.warn(`API Note for ${symbol}:`, data['Note']);
-      return null;
+    const throttled = throttleMessage(data);
+    if (throttled) {
+      throw new ProviderThrottledError(throttled);
     }
 
     const quote = data['Global Quote'];
@@ -56,6 +60,8 @@ export async function fetchStockQuote(apiKey: string, symbol: string): Promise<S
     const change = parseFloat(quote['09. change']);
     const changePercent = parseFloat(quote['10. change percent'].replace('%', ''));
     const volume = parseInt(quote['06. volume']);
+    // GLOBAL_QUOTE only gives the trading day; see dailyQuoteTime
+    const tradingDay = quote['07. latest trading day'];
 
     return {
       symbol: quote['01. symbol'],
@@ -63,65 +69,90 @@ export async function fetchStockQuote(apiKey: string, symbol: string): Promise<S
       volume,
       change,
       changePercent,
-      timestamp: new Date().toISOString(),
+      timestamp: fetchedAt.toISOString(),
       previousClose,
+      ...(/^\d{4}-\d{2}-\d{2}$/.test(tradingDay || '') && { tradingDay }),
     };
   } catch (error) {
+    if (error instanceof ProviderThrottledError) throw error;
     console.error(`Error fetching stock data for ${symbol}:`, error);
     return null;
   }
 }
 
-export async function fetchMultipleStocks(
-  apiKey: string,
-  symbols: string[]
-): Promise<StockData[]> {
-  // Alpha Vantage free tier allows 5 API calls per minute
-  // We'll fetch sequentially with delays to respect rate limits
-  const results: StockData[] = [];
-  
-  for (let i = 0; i < symbols.length; i++) {
-    if (i > 0) {
-      // Wait 12 seconds between calls to stay under 5 calls/minute limit
-      await new Promise(resolve => setTimeout(resolve, 12000));
-    }
-    
-    const data = await fetchStockQuote(apiKey, symbols[i]);
-    if (data) {
-      results.push(data);
-    }
-  }
-
-  return results;
-}
-
 export async function fetchIntradayData(
   apiKey: string,
   symbol: string
-): Promise<{ price: number; volume: number; timestamp: string }[]> {
+): Promise<IntradayBar[]> {
   try {
     const url = `${API_BASE_URL}?function=TIME_SERIES_INTRADAY&symbol=${symbol}&interval=15min&apikey=${apiKey}`;
     const response = await fetch(url);
     const data = await response.json();
 
-    if (data['Error Message'] || data['Note']) {
+    const throttled = throttleMessage(data);
+    if (throttled) {
+      throw new ProviderThrottledError(throttled);
+    }
+    if (data['Error Message']) {
       return [];
     }
 
-    const timeSeries = data[`Time Series (15min)`];
+    const timeSeries: Record<string, Record<string, string>> | undefined = data[`Time Series (15min)`];
     if (!timeSeries) {
       return [];
     }
 
-    const entries = Object.entries(timeSeries).slice(0, 10); // Last 10 15-min intervals
-    return entries.map(([timestamp, values]: [string, any]) => ({
-      price: parseFloat(values['4. close']),
-      volume: parseInt(values['5. volume']),
-      timestamp,
-    }));
+    // Keys are local times ("2024-01-05 15:45:00") in the series' own zone, e.g. "US/Eastern"
+    const timeZone = data['Meta Data']?.['6. Time Zone'] || DEFAULT_SERIES_TIME_ZONE;
+
+    // Last 10 15-min intervals; the API lists newest first but providers return bars oldest first
+    const entries = Object.entries(timeSeries).slice(0, 10).reverse();
+    return entries.map(([localTime, values]) => {
+      const [date, time] = localTime.split(' ');
+      return {
+        price: parseFloat(values['4. close']),
+        volume: parseInt(values['5. volume']),
+        timestamp: instantFromLocal(timeZone, date, time || '00:00').toISOString(),
+      };
+    });
   } catch (error) {
+    if (error instanceof ProviderThrottledError) throw error;
     console.error(`Error fetching intraday data for ${symbol}:`, error);
     return [];
   }
 }
 
+
+export async function checkApiKey(apiKey: string): Promise<ProviderHealth> {
+  try {
+    const url = `${API_BASE_URL}?function=GLOBAL_QUOTE&symbol=AAPL&apikey=${apiKey}`;
+    const response = await fetch(url);
+    const data: AlphaVantageResponse = await response.json();
+
+    if (data['Error Message']) {
+      return { ok: false, message: 'Invalid API key. Please check and try again.' };
+    }
+
+    if (throttleMessage(data)) {
+      return { ok: false, message: 'API rate limit reached. Please try again later.' };
+    }
+
+    return { ok: true, message: 'Alpha Vantage API key is valid' };
+  } catch (error) {
+    return { ok: false, message: 'Failed to validate API key. Please check your connection.' };
+  }
+}
+
+export function createAlphaVantageProvider(apiKey: string): MarketDataProvider {
+  return {
+    kind: 'alphaVantage',
+    name: 'Alpha Vantage',
+    // Free tier: 5 calls per minute, 25 per day
+    rateLimit: { requestsPerMinute: 5, requestsPerDay: 25 },
+    // Global quotes refresh about once a minute; intraday bars every 15
+    cacheTtlSeconds: { quote: 60, intraday: 15 * 60 },
+    getQuote: (symbol) => fetchStockQuote(apiKey, symbol),
+    getIntraday: (symbol) => fetchIntradayData(apiKey, symbol),
+    healthCheck: () => checkApiKey(apiKey),
+  };
+}
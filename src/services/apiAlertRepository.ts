@@ -0,0 +1,183 @@
+import { Case, ComplianceAlert, TimelineEvent } from '../types';
+import { AlertRepository } from './alertRepository';
+import { ImportConflictStrategy, ImportRow } from './alertImport';
+import { AuditChainExport, recordServerVerification } from './auditChain';
+import { ApiClient, ApiError } from './apiClient';
+
+// The largest page the server hands out
+const PAGE_SIZE = 500;
+// Meta values (e.g. the demo-data flag) are about this browser, not the shared store
+const META_STORAGE_PREFIX = 'apiMeta:';
+
+interface AlertPage {
+  items: ComplianceAlert[];
+  total: number;
+}
+
+interface ApiCall {
+  path: string;
+  body: unknown;
+}
+
+// Events without a user are the system's (detections, case links, SLA escalations, repeat counts); the server
+// records its own, so the dashboard's copies are never sent
+const isSystemEvent = (event: TimelineEvent) => !event.userId;
+
+// The dashboard applies workflow steps locally, so it can check them and show the result at once; each new
+// event is then replayed as the matching API call, and the server checks and records it again itself
+function alertCall(alert: ComplianceAlert, event: TimelineEvent): ApiCall | null {
+  const path = `/api/alerts/${encodeURIComponent(alert.id)}`;
+  const transitionFields = { notes: event.notes, reasonCode: event.reasonCode, escalationTarget: event.escalationTarget };
+  // The status change that completes an approval is recorded by the approval call
+  if (isSystemEvent(event) || event.approvedBy) return null;
+  if (event.toStatus) {
+    return { path: `${path}/transitions`, body: { status: event.toStatus, ...transitionFields } };
+  }
+  if (event.action.endsWith(' Requested') && alert.pendingApproval) {
+    return { path: `${path}/transitions`, body: { status: alert.pendingApproval.to, ...transitionFields } };
+  }
+  if (event.action.endsWith(' Approved')) {
+    return { path: `${path}/approval`, body: { decision: 'approve' } };
+  }
+  if (event.action.endsWith(' Rejected')) {
+    return { path: `${path}/approval`, body: { decision: 'reject', notes: event.notes } };
+  }
+  if (event.assignee !== undefined) {
+    return { path: `${path}/assignment`, body: { assignee: event.assignee || null } };
+  }
+  if (event.action === 'Note Added') {
+    // Bulk notes are added to the alert's notes instead of replacing them (see appendInvestigationNote)
+    return event.notes === alert.investigationNotes
+      ? { path: `${path}/notes`, body: { notes: event.notes } }
+      : { path: '/api/alerts/bulk', body: { alertIds: [alert.id], action: 'note', notes: event.notes } };
+  }
+  throw new Error(`${alert.id}: "${event.action}" can't be recorded on the API server`);
+}
+
+function caseCall(caseRecord: Case, event: TimelineEvent): ApiCall | null {
+  const path = `/api/cases/${encodeURIComponent(caseRecord.id)}`;
+  if (isSystemEvent(event)) return null;
+  if (event.action === 'Note Added') {
+    return { path: `${path}/notes`, body: { notes: caseRecord.notes } };
+  }
+  if (event.action.startsWith('Case ')) {
+    return { path: `${path}/status`, body: { status: caseRecord.status, notes: event.notes || '' } };
+  }
+  throw new Error(`${caseRecord.id}: "${event.action}" can't be recorded on the API server`);
+}
+
+// The bulk endpoint reports refusals in its result instead of failing the request
+async function send(client: ApiClient, call: ApiCall): Promise<void> {
+  const result = await client.request<{ failures?: { message: string }[] }>('POST', call.path, call.body);
+  if (result?.failures?.length) throw new Error(result.failures[0].message);
+}
+
+const recordVerifications = (chain: AuditChainExport) =>
+  chain.alerts.forEach(({ alertId, verification }) => recordServerVerification(alertId, verification));
+
+// Alerts and cases live on the API server. Reads also fetch the server's audit-chain verification, since
+// the chain is keyed with a secret the browser doesn't have (see auditChain).
+export function createApiAlertRepository(client: ApiClient): AlertRepository {
+  // How many timeline events of each alert and case the server is known to have; later ones are new
+  const syncedAlerts = new Map<string, number>();
+  const syncedCases = new Map<string, number>();
+  // Saves are sent one at a time, so overlapping saves of one alert never send its new events twice
+  let saving: Promise<unknown> = Promise.resolve();
+  const inTurn = (save: () => Promise<void>): Promise<void> => {
+    const next = saving.then(save, save);
+    saving = next.catch(() => undefined);
+    return next;
+  };
+
+  const getOrNull = async <T>(path: string): Promise<T | null> => {
+    try {
+      return await client.request<T>('GET', path);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  };
+
+  return {
+    async listAlerts() {
+      const alerts: ComplianceAlert[] = [];
+      for (let page = 1; ; page++) {
+        const { items, total } = await client.request<AlertPage>('GET', `/api/alerts?page=${page}&pageSize=${PAGE_SIZE}`);
+        alerts.push(...items);
+        if (items.length === 0 || alerts.length >= total) break;
+      }
+      recordVerifications(await client.request<AuditChainExport>('GET', '/api/audit'));
+      alerts.forEach(alert => syncedAlerts.set(alert.id, alert.timeline.length));
+      return alerts;
+    },
+
+    async getAlert(id) {
+      const alert = await getOrNull<ComplianceAlert>(`/api/alerts/${encodeURIComponent(id)}`);
+      if (!alert) return null;
+      recordVerifications(await client.request<AuditChainExport>('GET', `/api/alerts/${encodeURIComponent(id)}/audit`));
+      syncedAlerts.set(alert.id, alert.timeline.length);
+      return alert;
+    },
+
+    // New alerts are ingested (the server folds repeats and groups cases itself); changes to stored ones are
+    // sent event by event, stopping at the first one the server refuses
+    saveAlerts: alerts => inTurn(async () => {
+      const created: ComplianceAlert[] = [];
+      for (const alert of alerts) {
+        const synced = syncedAlerts.get(alert.id);
+        if (synced === undefined) {
+          created.push(alert);
+          continue;
+        }
+        for (const event of alert.timeline.slice(synced)) {
+          const call = alertCall(alert, event);
+          if (call) await send(client, call);
+        }
+        syncedAlerts.set(alert.id, alert.timeline.length);
+      }
+      if (created.length > 0) await client.request('POST', '/api/alerts', created);
+    }),
+
+    async listCases() {
+      const cases = await client.request<Case[]>('GET', '/api/cases');
+      recordVerifications(await client.request<AuditChainExport>('GET', '/api/cases/audit'));
+      cases.forEach(caseRecord => syncedCases.set(caseRecord.id, caseRecord.timeline.length));
+      return cases;
+    },
+
+    async getCase(id) {
+      const caseRecord = await getOrNull<Case>(`/api/cases/${encodeURIComponent(id)}`);
+      if (caseRecord) syncedCases.set(caseRecord.id, caseRecord.timeline.length);
+      return caseRecord;
+    },
+
+    // Cases are opened by the server when it groups alerts, so only changes to known cases are sent
+    saveCases: cases => inTurn(async () => {
+      for (const caseRecord of cases) {
+        const synced = syncedCases.get(caseRecord.id);
+        if (synced === undefined) {
+          throw new Error(`${caseRecord.id} is not known to the API server; cases are opened there`);
+        }
+        for (const event of caseRecord.timeline.slice(synced)) {
+          const call = caseCall(caseRecord, event);
+          if (call) await send(client, call);
+        }
+        syncedCases.set(caseRecord.id, caseRecord.timeline.length);
+      }
+    }),
+
+    async getMeta(key) {
+      return localStorage.getItem(`${META_STORAGE_PREFIX}${key}`);
+    },
+
+    async setMeta(key, value) {
+      localStorage.setItem(`${META_STORAGE_PREFIX}${key}`, value);
+    },
+  };
+}
+
+// The server plans the import again against its own alerts and records it as the signed-in user
+export async function importAlertsOnServer(client: ApiClient, rows: ImportRow[], strategy: ImportConflictStrategy): Promise<void> {
+  const alerts = rows.flatMap(row => row.alert ? [row.alert] : []);
+  await client.request('POST', '/api/alerts/import', { alerts, strategy });
+}
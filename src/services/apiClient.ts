@@ -0,0 +1,65 @@
+// Talks to the API server (server/api.ts) on behalf of the signed-in user
+
+// sessionStorage, so closing the tab signs the user out
+const TOKEN_STORAGE_KEY = 'apiSessionToken';
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface ApiClient {
+  request<T>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown): Promise<T>;
+  setToken(token: string | null): void;
+  hasToken(): boolean;
+  // Called when the server no longer accepts the session, e.g. it expired or the server restarted
+  onUnauthorized(handler: () => void): void;
+}
+
+export function createApiClient(baseUrl: string): ApiClient {
+  let unauthorized: () => void = () => undefined;
+
+  return {
+    async request<T>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown): Promise<T> {
+      const token = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+      const headers: Record<string, string> = {};
+      if (body !== undefined) headers['Content-Type'] = 'application/json';
+      if (token) headers.Authorization = `Bearer ${token}`;
+
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (response.status === 204) return undefined as T;
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        if (response.status === 401 && token) {
+          sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+          unauthorized();
+        }
+        throw new ApiError(response.status, data?.error || `${method} ${path} failed with HTTP ${response.status}`);
+      }
+      return data as T;
+    },
+
+    setToken(token) {
+      if (token) {
+        sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+      } else {
+        sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      }
+    },
+
+    hasToken() {
+      return sessionStorage.getItem(TOKEN_STORAGE_KEY) !== null;
+    },
+
+    onUnauthorized(handler) {
+      unauthorized = handler;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { User } from '../types';
+import { ApiClient } from './apiClient';
+import { SlaTargets } from './sla';
+import { FourEyesPolicy } from './users';
+
+// Users, the four-eyes policy and SLA targets as the API server enforces them. Rules and the watchlist stay
+// in the browser: they only steer the dashboard's own detection.
+export interface ServerSettings {
+  users: User[];
+  fourEyesPolicy: FourEyesPolicy;
+  slaTargets: SlaTargets;
+}
+
+export async function loadServerSettings(client: ApiClient): Promise<ServerSettings> {
+  const [users, fourEyesPolicy, slaTargets] = await Promise.all([
+    client.request<User[]>('GET', '/api/users'),
+    client.request<FourEyesPolicy>('GET', '/api/four-eyes'),
+    client.request<SlaTargets>('GET', '/api/sla'),
+  ]);
+  return { users, fourEyesPolicy, slaTargets };
+}
+
+export async function saveServerSettings(client: ApiClient, settings: ServerSettings): Promise<void> {
+  await client.request('PUT', '/api/users', settings.users);
+  await client.request('PUT', '/api/four-eyes', settings.fourEyesPolicy);
+  await client.request('PUT', '/api/sla', settings.slaTargets);
+}
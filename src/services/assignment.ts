@@ -0,0 +1,52 @@
+import { ComplianceAlert, User } from '../types';
+import { appendTimelineEvent, createTimelineEventId } from './auditChain';
+import { hasPermission } from './users';
+import { WorkflowError } from './workflow';
+
+// 'all', 'team' (unassigned open alerts) or a user id for that analyst's queue
+export type AlertQueue = string;
+
+export const TEAM_QUEUE = 'team';
+export const ALL_QUEUES = 'all';
+
+const isOpen = (alert: ComplianceAlert) => alert.status !== 'Resolved' && alert.status !== 'Dismissed';
+
+export function alertsInQueue(alerts: ComplianceAlert[], queue: AlertQueue): ComplianceAlert[] {
+  if (queue === ALL_QUEUES) return alerts;
+  if (queue === TEAM_QUEUE) return alerts.filter(alert => !alert.assignee && isOpen(alert));
+  return alerts.filter(alert => alert.assignee === queue);
+}
+
+export function openQueueCount(alerts: ComplianceAlert[], queue: AlertQueue): number {
+  return alertsInQueue(alerts, queue).filter(isOpen).length;
+}
+
+// Officers assign to anyone; analysts can only claim unassigned alerts or hand back their own
+export function canAssign(actor: User | null, alert: ComplianceAlert, assigneeId: string | null): boolean {
+  if (!actor?.active) return false;
+  if (hasPermission(actor, 'assign')) return true;
+  if (!hasPermission(actor, 'review')) return false;
+  return assigneeId === actor.id ? !alert.assignee : alert.assignee === actor.id && assigneeId === null;
+}
+
+export function assignAlert(alert: ComplianceAlert, assignee: User | null, actor: User): ComplianceAlert {
+  const assigneeId = assignee?.id ?? null;
+  if (!canAssign(actor, alert, assigneeId)) {
+    throw new WorkflowError('forbidden', `${actor.name} is not allowed to change the assignee of ${alert.id}`);
+  }
+  if (assignee && !assignee.active) {
+    throw new WorkflowError('invalidField', `${assignee.name} is inactive and cannot be assigned alerts`);
+  }
+  if ((alert.assignee ?? null) === assigneeId) return alert;
+
+  const now = new Date();
+  return appendTimelineEvent({ ...alert, assignee: assignee?.id }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: assignee ? (assignee.id === actor.id ? 'Claimed' : 'Assigned') : 'Returned to Team Queue',
+    user: actor.name,
+    userId: actor.id,
+    notes: assignee ? `Assigned to ${assignee.name}` : undefined,
+    assignee: assigneeId ?? '',
+  });
+}
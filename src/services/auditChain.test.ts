@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { TimelineEvent } from '../types';
+import {
+  appendTimelineEvent, GENESIS_HASH, recordServerVerification, sealTimeline, setAuditChainKey,
+  setServerVerifiedChains, verifyTimeline,
+} from './auditChain';
+
+const event = (id: string, action: string): TimelineEvent => ({
+  id, timestamp: '2025-03-03T15:00:00.000Z', action, user: 'Alex Analyst', userId: 'analyst',
+});
+
+const record = () => ({
+  id: 'ALT-1',
+  timeline: [event('e1', 'Alert Created'), event('e2', 'Start Investigation'), event('e3', 'Note Added')],
+});
+
+const problems = (alertId: string, timeline: TimelineEvent[]) =>
+  verifyTimeline(alertId, timeline).issues.map(issue => issue.problem);
+
+afterEach(() => {
+  setAuditChainKey(null);
+  setServerVerifiedChains(false);
+});
+
+describe('sealTimeline', () => {
+  it('chains every event from the genesis hash', () => {
+    const sealed = sealTimeline(record());
+
+    expect(sealed.timeline[0].previousHash).toBe(GENESIS_HASH);
+    sealed.timeline.slice(1).forEach((sealedEvent, index) => {
+      expect(sealedEvent.previousHash).toBe(sealed.timeline[index].hash);
+    });
+    expect(verifyTimeline(sealed.id, sealed.timeline)).toMatchObject({ valid: true, algorithm: 'SHA-256', eventCount: 3 });
+  });
+
+  it('leaves an already sealed record as it is', () => {
+    const sealed = sealTimeline(record());
+    expect(sealTimeline(sealed)).toBe(sealed);
+  });
+});
+
+describe('appendTimelineEvent', () => {
+  it('extends a sealed chain so it still verifies', () => {
+    const extended = appendTimelineEvent(sealTimeline(record()), event('e4', 'Claimed'));
+    expect(verifyTimeline(extended.id, extended.timeline).valid).toBe(true);
+  });
+
+  it('leaves unsealed events unsealed', () => {
+    const appended = appendTimelineEvent(record(), event('e4', 'Claimed'));
+    expect(problems(appended.id, appended.timeline)).toEqual(['missingHash', 'missingHash', 'missingHash']);
+  });
+});
+
+describe('verifyTimeline', () => {
+  it('catches an edited event', () => {
+    const { id, timeline } = sealTimeline(record());
+    const edited = timeline.map(e => e.id === 'e2' ? { ...e, user: 'Someone Else' } : e);
+    expect(problems(id, edited)).toEqual(['hashMismatch']);
+  });
+
+  it('catches a removed event', () => {
+    const { id, timeline } = sealTimeline(record());
+    expect(problems(id, [timeline[0], timeline[2]])).toEqual(['brokenLink']);
+  });
+
+  it('catches events moved to another alert', () => {
+    const { timeline } = sealTimeline(record());
+    expect(verifyTimeline('ALT-2', timeline).valid).toBe(false);
+  });
+
+  it('does not accept an unkeyed chain once a key is set', () => {
+    const { id, timeline } = sealTimeline(record());
+    setAuditChainKey('secret');
+    expect(problems(id, timeline)).toEqual(['unkeyedHash', 'unkeyedHash', 'unkeyedHash']);
+  });
+
+  it('only verifies a keyed chain with the same key', () => {
+    setAuditChainKey('secret');
+    const { id, timeline } = sealTimeline(record());
+    expect(verifyTimeline(id, timeline)).toMatchObject({ valid: true, algorithm: 'HMAC-SHA256' });
+
+    setAuditChainKey('another secret');
+    expect(problems(id, timeline)).toEqual(['hashMismatch', 'hashMismatch', 'hashMismatch']);
+  });
+
+  it('shows the server result only for the timeline the server verified', () => {
+    setAuditChainKey('secret');
+    const sealed = sealTimeline(record());
+    const serverResult = verifyTimeline(sealed.id, sealed.timeline);
+    setAuditChainKey(null);
+    setServerVerifiedChains(true);
+
+    expect(problems(sealed.id, sealed.timeline)).toEqual(['notVerified']);
+    recordServerVerification(sealed.id, serverResult);
+    expect(verifyTimeline(sealed.id, sealed.timeline)).toEqual(serverResult);
+
+    const extended = appendTimelineEvent(sealed, event('e4', 'Claimed'));
+    expect(problems(extended.id, extended.timeline)).toEqual(['notVerified']);
+  });
+});
@@ -0,0 +1,196 @@
+import { TimelineEvent } from '../types';
+import { hmacSha256, sha256 } from './sha256';
+
+// previousHash of the first event in every chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type ChainProblem = 'missingHash' | 'brokenLink' | 'hashMismatch' | 'unkeyedHash' | 'notVerified';
+export type ChainAlgorithm = 'HMAC-SHA256' | 'SHA-256';
+
+export interface ChainIssue {
+  index: number;
+  eventId: string;
+  problem: ChainProblem;
+  message: string;
+}
+
+export interface TimelineVerification {
+  valid: boolean;
+  algorithm: ChainAlgorithm;
+  eventCount: number;
+  headHash: string;
+  issues: ChainIssue[];
+}
+
+export interface AuditChainExport {
+  generatedAt: string;
+  algorithm: ChainAlgorithm;
+  alerts: {
+    alertId: string;
+    verification: TimelineVerification;
+    events: TimelineEvent[];
+  }[];
+}
+
+// Keys sorted and undefined dropped, so the same event always serializes to the same text
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The server keys the chain with a secret (see server/chainKey), so a timeline can only be extended or
+// rewritten by something holding the key; anyone can recompute a plain SHA-256 chain over forged history.
+// The browser-only dashboard has nowhere to keep a secret and falls back to SHA-256.
+let chainKey: string | null = null;
+
+export function setAuditChainKey(key: string | null): void {
+  chainKey = key;
+}
+
+export function auditChainAlgorithm(): ChainAlgorithm {
+  return chainKey ? 'HMAC-SHA256' : 'SHA-256';
+}
+
+// A dashboard working against the API server can't recompute the server's keyed chain, so it shows the
+// server's verification instead. Each answer is matched on the head hash and event count, so it is never
+// shown for a timeline that has changed since.
+let serverVerified = false;
+const serverVerifications = new Map<string, TimelineVerification>();
+
+export function setServerVerifiedChains(enabled: boolean): void {
+  serverVerified = enabled;
+  serverVerifications.clear();
+}
+
+export function recordServerVerification(recordId: string, verification: TimelineVerification): void {
+  serverVerifications.set(recordId, verification);
+}
+
+function eventDigest(alertId: string, event: TimelineEvent, previousHash: string, key: string | null): string {
+  const { hash: _hash, previousHash: _previous, ...content } = event;
+  const text = `${previousHash}\n${canonicalize({ alertId, ...content })}`;
+  return key ? hmacSha256(key, text) : sha256(text);
+}
+
+// The alert id is part of the hash so events can't be moved between alerts
+export function computeEventHash(alertId: string, event: TimelineEvent, previousHash: string): string {
+  return eventDigest(alertId, event, previousHash, chainKey);
+}
+
+// Compares everything but the chain fields, e.g. to check a stored event comes back unchanged
+export function sameEventContent(a: TimelineEvent, b: TimelineEvent): boolean {
+  const { hash: _aHash, previousHash: _aPrevious, ...aContent } = a;
+  const { hash: _bHash, previousHash: _bPrevious, ...bContent } = b;
+  return canonicalize(aContent) === canonicalize(bContent);
+}
+
+function chainEvent(alertId: string, event: TimelineEvent, previousHash: string): TimelineEvent {
+  const linked = { ...event, previousHash };
+  return { ...linked, hash: computeEventHash(alertId, linked, previousHash) };
+}
+
+// Random rather than derived from the alert id and clock, which collide when two events are recorded
+// in the same millisecond
+export function createTimelineEventId(): string {
+  return crypto.randomUUID();
+}
+
+// Anything with its own chained timeline: alerts and cases
+interface ChainedRecord {
+  id: string;
+  timeline: TimelineEvent[];
+}
+
+// The only way events should be added to a timeline. Events already on the timeline are never sealed here:
+// one without a hash came from outside (an old import or a sender's payload) and stays visibly unsealed.
+export function appendTimelineEvent<T extends ChainedRecord>(record: T, event: TimelineEvent): T {
+  const lastHashed = [...record.timeline].reverse().find(existing => existing.hash);
+  return {
+    ...record,
+    timeline: [...record.timeline, chainEvent(record.id, event, lastHashed?.hash || GENESIS_HASH)],
+  };
+}
+
+// Seals a record this process has just created itself, e.g. a detector's new alert. Never use it on
+// records that arrived from outside: sealing them would vouch for history nobody here recorded.
+export function sealTimeline<T extends ChainedRecord>(record: T): T {
+  if (record.timeline.every(event => event.hash)) return record;
+  return record.timeline.reduce<T>(
+    (sealed, { hash: _hash, previousHash: _previousHash, ...event }) => appendTimelineEvent(sealed, event),
+    { ...record, timeline: [] }
+  );
+}
+
+function serverVerification(recordId: string, timeline: TimelineEvent[]): TimelineVerification {
+  const headHash = timeline[timeline.length - 1]?.hash || GENESIS_HASH;
+  const known = serverVerifications.get(recordId);
+  if (known && known.headHash === headHash && known.eventCount === timeline.length) return known;
+  return {
+    valid: false,
+    algorithm: 'HMAC-SHA256',
+    eventCount: timeline.length,
+    headHash,
+    issues: [{
+      index: timeline.length - 1,
+      eventId: timeline[timeline.length - 1]?.id || '',
+      problem: 'notVerified',
+      message: 'Not verified yet - the API server holds the audit chain key',
+    }],
+  };
+}
+
+export function verifyTimeline(alertId: string, timeline: TimelineEvent[]): TimelineVerification {
+  if (serverVerified) return serverVerification(alertId, timeline);
+  const issues: ChainIssue[] = [];
+  let expectedPrevious = GENESIS_HASH;
+
+  timeline.forEach((event, index) => {
+    const issue = (problem: ChainProblem, message: string) =>
+      issues.push({ index, eventId: event.id, problem, message });
+
+    if (!event.hash || !event.previousHash) {
+      issue('missingHash', `Event ${index + 1} (${event.action}) is not part of the chain`);
+    } else {
+      if (event.previousHash !== expectedPrevious) {
+        issue('brokenLink', `Event ${index + 1} (${event.action}) does not follow the previous event - an event was removed, inserted or reordered`);
+      }
+      if (computeEventHash(alertId, event, event.previousHash) !== event.hash) {
+        if (chainKey && eventDigest(alertId, event, event.previousHash, null) === event.hash) {
+          issue('unkeyedHash', `Event ${index + 1} (${event.action}) was sealed before the audit chain was keyed, so it can't be told apart from a forgery`);
+        } else {
+          issue('hashMismatch', `Event ${index + 1} (${event.action}) was modified after it was recorded`);
+        }
+      }
+    }
+    expectedPrevious = event.hash || expectedPrevious;
+  });
+
+  return {
+    valid: issues.length === 0,
+    algorithm: auditChainAlgorithm(),
+    eventCount: timeline.length,
+    headHash: timeline[timeline.length - 1]?.hash || GENESIS_HASH,
+    issues,
+  };
+}
+
+// Also used for cases, whose ids go in alertId
+export function exportAuditChain(alerts: ChainedRecord[]): AuditChainExport {
+  return {
+    generatedAt: new Date().toISOString(),
+    algorithm: auditChainAlgorithm(),
+    alerts: alerts.map(alert => ({
+      alertId: alert.id,
+      verification: verifyTimeline(alert.id, alert.timeline),
+      events: alert.timeline,
+    })),
+  };
+}
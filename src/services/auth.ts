@@ -0,0 +1,192 @@
+import { User } from '../types';
+import { ApiClient, ApiError } from './apiClient';
+import { hasPermission, loadUsers, validatePassword } from './users';
+
+// Who is signed in to the dashboard. The actor of every action is taken from here, never picked from a list.
+export interface AuthSession {
+  user: User;
+  expiresAt: string;
+}
+
+export interface Authenticator {
+  // True until the first administrator password has been set (browser-only mode)
+  needsSetup(): Promise<boolean>;
+  // Sets the first administrator's password and signs them in
+  setUp(password: string): Promise<AuthSession>;
+  signIn(userId: string, password: string): Promise<AuthSession>;
+  signOut(): Promise<void>;
+  // Picks up a session that is still valid, e.g. after a reload
+  restore(): Promise<AuthSession | null>;
+  // Users change their own password with the current one; administrators may reset anyone's
+  setPassword(actor: User, userId: string, password: string, currentPassword?: string): Promise<void>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+interface LocalCredential {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+const CREDENTIALS_STORAGE_KEY = 'credentials';
+// sessionStorage, so closing the tab signs the user out
+const SESSION_STORAGE_KEY = 'session';
+const PBKDF2_ITERATIONS = 210000;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => Uint8Array.from((hex.match(/../g) || []).map(pair => parseInt(pair, 16)));
+
+async function deriveHash(password: string, salt: BufferSource, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(bits);
+}
+
+function loadCredentials(): Record<string, LocalCredential> {
+  const stored = localStorage.getItem(CREDENTIALS_STORAGE_KEY);
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    // Treating corrupt credentials as "none" would offer the first-run setup to whoever opens the page
+    throw new AuthError(`Stored credentials are corrupt: ${(error as Error).message}`);
+  }
+}
+
+async function storePassword(userId: string, password: string): Promise<void> {
+  const problems = validatePassword(password);
+  if (problems.length > 0) throw new AuthError(problems.join('; '));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const credentials = loadCredentials();
+  credentials[userId] = { salt: toHex(salt), hash: await deriveHash(password, salt, PBKDF2_ITERATIONS), iterations: PBKDF2_ITERATIONS };
+  localStorage.setItem(CREDENTIALS_STORAGE_KEY, JSON.stringify(credentials));
+}
+
+async function checkPassword(userId: string, password: string): Promise<boolean> {
+  const credential = loadCredentials()[userId];
+  if (!credential) return false;
+  return await deriveHash(password, fromHex(credential.salt), credential.iterations) === credential.hash;
+}
+
+function startSession(user: User): AuthSession {
+  const session = { user, expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString() };
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ userId: user.id, expiresAt: session.expiresAt }));
+  return session;
+}
+
+const activeUser = (userId: string) => loadUsers().find(user => user.id === userId && user.active);
+
+// Browser-only mode: passwords are kept as PBKDF2 hashes in local storage. This stops people acting under
+// someone else's name from the same browser, but anyone who can edit the browser's storage can get round it;
+// four-eyes approval is only enforced when the dashboard runs against the API server.
+export function createLocalAuthenticator(): Authenticator {
+  return {
+    async needsSetup() {
+      return Object.keys(loadCredentials()).length === 0;
+    },
+
+    async setUp(password) {
+      if (Object.keys(loadCredentials()).length > 0) throw new AuthError('Passwords have already been set up');
+      const admin = loadUsers().find(user => user.active && user.role === 'admin');
+      if (!admin) throw new AuthError('There is no active administrator to set up');
+      await storePassword(admin.id, password);
+      return startSession(admin);
+    },
+
+    async signIn(userId, password) {
+      const user = activeUser(userId);
+      // Same message either way, so the form doesn't reveal which ids exist
+      if (!user || !(await checkPassword(userId, password))) throw new AuthError('Unknown user or wrong password');
+      return startSession(user);
+    },
+
+    async signOut() {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    },
+
+    async restore() {
+      const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+      if (!stored) return null;
+      try {
+        const { userId, expiresAt } = JSON.parse(stored);
+        const user = activeUser(userId);
+        if (!user || new Date(expiresAt).getTime() <= Date.now()) return null;
+        return { user, expiresAt };
+      } catch {
+        return null;
+      }
+    },
+
+    async setPassword(actor, userId, password, currentPassword) {
+      if (actor.id === userId && !hasPermission(actor, 'manageUsers')) {
+        if (!currentPassword || !(await checkPassword(userId, currentPassword))) {
+          throw new AuthError('Current password is wrong');
+        }
+      } else if (!hasPermission(actor, 'manageUsers')) {
+        throw new AuthError(`${actor.name} is not allowed to set other users' passwords`);
+      }
+      await storePassword(userId, password);
+    },
+  };
+}
+
+// Against the API server: the server checks passwords and issues the session token, and the acting user of
+// every request is taken from that token
+export function createApiAuthenticator(client: ApiClient): Authenticator {
+  // Server messages are shown as they are; anything else (e.g. the server being down) is reported plainly
+  const call = async <T>(request: () => Promise<T>): Promise<T> => {
+    try {
+      return await request();
+    } catch (error) {
+      if (error instanceof ApiError) throw new AuthError(error.message);
+      throw new AuthError(`Could not reach the API server: ${(error as Error).message}`);
+    }
+  };
+
+  return {
+    async needsSetup() {
+      // The server issues the first administrator password itself (see INITIAL_ADMIN_PASSWORD)
+      return false;
+    },
+
+    async setUp() {
+      throw new AuthError('Passwords are set up on the API server');
+    },
+
+    async signIn(userId, password) {
+      const { token, expiresAt, user } = await call(() => client.request<AuthSession & { token: string }>(
+        'POST', '/api/auth/login', { userId, password }
+      ));
+      client.setToken(token);
+      return { user, expiresAt };
+    },
+
+    async signOut() {
+      await client.request('POST', '/api/auth/logout').catch(() => undefined);
+      client.setToken(null);
+    },
+
+    async restore() {
+      if (!client.hasToken()) return null;
+      try {
+        return await client.request<AuthSession>('GET', '/api/auth/session');
+      } catch {
+        client.setToken(null);
+        return null;
+      }
+    },
+
+    async setPassword(_actor, userId, password, currentPassword) {
+      await call(() => client.request('PUT', `/api/users/${encodeURIComponent(userId)}/password`, { password, currentPassword }));
+    },
+  };
+}
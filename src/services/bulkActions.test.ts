@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { ComplianceAlert, Severity } from '../types';
+import { applyBulkAction } from './bulkActions';
+import { DEFAULT_USERS, FourEyesPolicy } from './users';
+import { WorkflowError } from './workflow';
+
+const [analyst, officer] = DEFAULT_USERS;
+const policy: FourEyesPolicy = { enabled: true, severities: ['Critical'], statuses: ['Dismissed'] };
+
+const makeAlert = (id: string, changes: Partial<ComplianceAlert> = {}, severity: Severity = 'Medium'): ComplianceAlert => ({
+  id,
+  type: 'Spoofing',
+  severity,
+  status: 'New',
+  trader: { id: 'T1', name: 'Pat Trader', email: '', firm: 'Example Securities', registrationDate: '' },
+  timestamp: '2025-03-03T15:00:00.000Z',
+  description: 'Layered orders cancelled before execution',
+  detectedBy: 'Test',
+  investigationNotes: 'Own findings',
+  timeline: [],
+  ...changes,
+});
+
+describe('applyBulkAction', () => {
+  it('moves each alert through the workflow and reports the ones that refuse', () => {
+    const result = applyBulkAction(
+      [makeAlert('A1'), makeAlert('A2', { status: 'Resolved' }), makeAlert('A3', { status: 'In Review' })],
+      { kind: 'transition', to: 'Resolved', notes: 'Same scheme' },
+      analyst,
+      policy
+    );
+
+    expect(result.updated.map(alert => [alert.id, alert.status])).toEqual([['A3', 'Resolved']]);
+    expect(result.failures.map(failure => failure.alertId)).toEqual(['A1', 'A2']);
+    expect(result.unchanged).toEqual([]);
+  });
+
+  it('records a shared comment on each timeline without replacing the alerts\' own notes', () => {
+    const { updated } = applyBulkAction(
+      [makeAlert('A1'), makeAlert('A2', {}, 'Critical')],
+      { kind: 'transition', to: 'Dismissed', reasonCode: 'FALSE_POSITIVE', notes: 'Batch review' },
+      analyst,
+      policy
+    );
+
+    expect(updated.map(alert => [alert.status, alert.investigationNotes])).toEqual([
+      ['Dismissed', 'Own findings'],
+      ['New', 'Own findings'],
+    ]);
+    expect(updated[1].pendingApproval).toMatchObject({ to: 'Dismissed', notes: 'Batch review', keepNotes: true });
+    updated.forEach(alert => expect(alert.timeline.at(-1)?.notes).toBe('Batch review'));
+  });
+
+  it('appends notes and needs one to be given', () => {
+    const { updated } = applyBulkAction([makeAlert('A1')], { kind: 'note', notes: 'Same desk' }, analyst, policy);
+    expect(updated[0].investigationNotes).toBe('Own findings\n\nSame desk');
+
+    expect(() => applyBulkAction([makeAlert('A1')], { kind: 'note', notes: ' ' }, analyst, policy)).toThrow(WorkflowError);
+  });
+
+  it('lists alerts already in the requested state as unchanged', () => {
+    const result = applyBulkAction(
+      [makeAlert('A1', { assignee: 'analyst' }), makeAlert('A2')],
+      { kind: 'assign', assignee: analyst },
+      officer,
+      policy
+    );
+
+    expect(result.unchanged).toEqual(['A1']);
+    expect(result.updated.map(alert => alert.assignee)).toEqual(['analyst']);
+  });
+
+  it('only lets analysts claim unassigned alerts', () => {
+    const result = applyBulkAction(
+      [makeAlert('A1'), makeAlert('A2', { assignee: 'officer' })],
+      { kind: 'assign', assignee: analyst },
+      analyst,
+      policy
+    );
+
+    expect(result.updated.map(alert => alert.id)).toEqual(['A1']);
+    expect(result.failures).toEqual([{ alertId: 'A2', message: 'Alex Analyst is not allowed to change the assignee of A2' }]);
+  });
+});
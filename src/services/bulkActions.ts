@@ -0,0 +1,72 @@
+import { ComplianceAlert, Status, User } from '../types';
+import { appendInvestigationNote } from './alertActions';
+import { assignAlert } from './assignment';
+import { FourEyesPolicy } from './users';
+import { transitionAlert, WorkflowError } from './workflow';
+
+export type BulkAction =
+  | { kind: 'assign'; assignee: User | null }
+  | { kind: 'transition'; to: Status; notes?: string; reasonCode?: string; escalationTarget?: string }
+  | { kind: 'note'; notes: string };
+
+export interface BulkFailure {
+  alertId: string;
+  message: string;
+}
+
+export interface BulkResult {
+  // Alerts that changed; each carries its own timeline entry
+  updated: ComplianceAlert[];
+  // Alerts the action was requested for but already in the requested state (e.g. same assignee)
+  unchanged: string[];
+  failures: BulkFailure[];
+}
+
+function applyOne(alert: ComplianceAlert, action: BulkAction, actor: User, policy: FourEyesPolicy): ComplianceAlert {
+  switch (action.kind) {
+    case 'assign':
+      return assignAlert(alert, action.assignee, actor);
+    case 'note':
+      return appendInvestigationNote(alert, action.notes, actor);
+    case 'transition':
+      // A shared comment belongs on each timeline, not over each alert's own notes
+      return transitionAlert(alert, {
+        to: action.to,
+        actor,
+        notes: action.notes,
+        keepNotes: true,
+        reasonCode: action.reasonCode,
+        escalationTarget: action.escalationTarget,
+      }, policy);
+  }
+}
+
+// Runs the action through the same workflow as the detail view, alert by alert; one alert failing its
+// checks doesn't stop the rest
+export function applyBulkAction(
+  alerts: ComplianceAlert[],
+  action: BulkAction,
+  actor: User,
+  policy: FourEyesPolicy
+): BulkResult {
+  const result: BulkResult = { updated: [], unchanged: [], failures: [] };
+  if (action.kind === 'note' && !action.notes.trim()) {
+    throw new WorkflowError('missingField', 'A note is required', 'notes');
+  }
+
+  alerts.forEach(alert => {
+    try {
+      const updated = applyOne(alert, action, actor, policy);
+      if (updated === alert) {
+        result.unchanged.push(alert.id);
+      } else {
+        result.updated.push(updated);
+      }
+    } catch (error) {
+      if (!(error instanceof WorkflowError)) throw error;
+      result.failures.push({ alertId: alert.id, message: error.message });
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,52 @@
+import { Case, CaseStatus, User } from '../types';
+import { appendTimelineEvent, createTimelineEventId } from './auditChain';
+import { hasPermission } from './users';
+import { WorkflowError } from './workflow';
+
+export const CASE_STATUSES: CaseStatus[] = ['Open', 'Investigating', 'Closed'];
+
+let caseSequence = 0;
+
+export function createCaseId(): string {
+  return `CASE${Date.now()}-${++caseSequence}`;
+}
+
+export function isCaseStatus(value: unknown): value is CaseStatus {
+  return CASE_STATUSES.includes(value as CaseStatus);
+}
+
+// Closing and reopening follow the same permissions as resolving and reopening alerts
+export function updateCaseStatus(caseRecord: Case, status: CaseStatus, actor: User, notes: string): Case {
+  if (status === caseRecord.status) {
+    throw new WorkflowError('illegalTransition', `${caseRecord.id} is already ${status}`);
+  }
+  const permission = status === 'Closed' ? 'resolve' : caseRecord.status === 'Closed' ? 'reopen' : 'review';
+  if (!hasPermission(actor, permission)) {
+    throw new WorkflowError('forbidden', `${actor.name} is not allowed to move ${caseRecord.id} to ${status}`);
+  }
+  if (status === 'Closed' && !notes.trim()) {
+    throw new WorkflowError('missingField', 'Closing a case requires notes', 'notes');
+  }
+
+  const now = new Date();
+  return appendTimelineEvent({ ...caseRecord, status, updatedAt: now.toISOString() }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: status === 'Closed' ? 'Case Closed' : caseRecord.status === 'Closed' ? 'Case Reopened' : `Case ${status}`,
+    user: actor.name,
+    userId: actor.id,
+    notes: notes || undefined,
+  });
+}
+
+export function addCaseNote(caseRecord: Case, notes: string, actor: User): Case {
+  const now = new Date();
+  return appendTimelineEvent({ ...caseRecord, notes, updatedAt: now.toISOString() }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: 'Note Added',
+    user: actor.name,
+    userId: actor.id,
+    notes,
+  });
+}
@@ -0,0 +1,91 @@
+import { CorporateEvent, CorporateEventType } from '../types';
+import { parseCsv } from './csv';
+
+export interface CorporateEventParseResult {
+  events: CorporateEvent[];
+  errors: string[];
+}
+
+export const CORPORATE_EVENT_LABELS: Record<CorporateEventType, string> = {
+  earnings: 'Earnings',
+  mergerAcquisition: 'M&A announcement',
+  materialNews: 'Material news',
+};
+
+// Spellings accepted in the type column, compared without case, spaces, dashes or underscores
+const TYPE_ALIASES: Record<string, CorporateEventType> = {
+  earnings: 'earnings',
+  mergeracquisition: 'mergerAcquisition',
+  'm&a': 'mergerAcquisition',
+  merger: 'mergerAcquisition',
+  acquisition: 'mergerAcquisition',
+  materialnews: 'materialNews',
+  news: 'materialNews',
+};
+
+const EVENTS_STORAGE_KEY = 'corporateEvents';
+
+function parseEvent(raw: Record<string, unknown> | null, row: number): CorporateEvent | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return `Row ${row}: expected an object`;
+  const text = (key: string) => String(raw[key] ?? '').trim();
+  const type = TYPE_ALIASES[text('type').toLowerCase().replace(/[\s_-]/g, '')];
+  const timestamp = text('timestamp') || text('date');
+
+  if (!text('symbol')) return `Row ${row}: symbol is required`;
+  if (!type) return `Row ${row}: type "${text('type')}" must be earnings, m&a or news`;
+  if (isNaN(new Date(timestamp).getTime())) return `Row ${row}: timestamp "${timestamp}" is not a valid date`;
+
+  const symbol = text('symbol').toUpperCase();
+  return {
+    id: text('id') || `${symbol}-${type}-${row}`,
+    symbol,
+    type,
+    timestamp: new Date(timestamp).toISOString(),
+    title: text('title') || CORPORATE_EVENT_LABELS[type],
+  };
+}
+
+// Accepts a CSV with columns id,symbol,type,timestamp,title (a date instead of a timestamp is fine)
+// or a JSON array of objects with the same fields
+export function parseCorporateEvents(fileName: string, text: string): CorporateEventParseResult {
+  let rows: Record<string, unknown>[];
+  try {
+    rows = fileName.toLowerCase().endsWith('.csv') ? parseCsv(text) : JSON.parse(text);
+  } catch (error) {
+    return { events: [], errors: [`Could not parse file: ${(error as Error).message}`] };
+  }
+
+  if (!Array.isArray(rows)) {
+    return { events: [], errors: ['Expected a JSON array of corporate events'] };
+  }
+
+  const events: CorporateEvent[] = [];
+  const errors: string[] = [];
+  rows.forEach((raw, index) => {
+    const result = parseEvent(raw, index + 1);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else {
+      events.push(result);
+    }
+  });
+
+  events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  return { events, errors };
+}
+
+export function loadCorporateEvents(): CorporateEvent[] {
+  const stored = localStorage.getItem(EVENTS_STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Stored corporate events are corrupt:', error);
+    return [];
+  }
+}
+
+export function saveCorporateEvents(events: CorporateEvent[]): void {
+  localStorage.setItem(EVENTS_STORAGE_KEY, JSON.stringify(events));
+}
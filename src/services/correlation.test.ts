@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Case, ComplianceAlert } from '../types';
+import { verifyTimeline } from './auditChain';
+import { alertFingerprint, groupIntoCases, suppressDuplicates } from './correlation';
+
+const now = new Date('2025-03-03T18:00:00.000Z');
+
+const trader = { id: 'T1', name: 'Pat Trader', email: '', firm: 'Example Securities', registrationDate: '' };
+
+const detection = (id: string, minute: number, changes: Partial<ComplianceAlert> = {}): ComplianceAlert => ({
+  id,
+  type: 'Spoofing',
+  severity: 'Medium',
+  status: 'New',
+  symbol: 'AAPL',
+  ruleId: 'volume-spike',
+  trader,
+  timestamp: new Date(Date.UTC(2025, 2, 3, 15, minute)).toISOString(),
+  description: 'Layered orders cancelled before execution',
+  detectedBy: 'Test',
+  investigationNotes: '',
+  timeline: [],
+  ...changes,
+});
+
+describe('suppressDuplicates', () => {
+  it('folds repeats within the window into the first alert, keeping the worst severity', () => {
+    const result = suppressDuplicates([], [
+      detection('A1', 0),
+      detection('A2', 20, { severity: 'High' }),
+      detection('A3', 45),
+    ]);
+
+    expect(result.suppressed).toBe(2);
+    expect(result.updated).toEqual([]);
+    expect(result.fresh).toHaveLength(1);
+    expect(result.fresh[0]).toMatchObject({ id: 'A1', severity: 'High', occurrences: 3, lastSeenAt: '2025-03-03T15:45:00.000Z' });
+    expect(result.fresh[0].timeline.map(event => event.notes)).toEqual([
+      expect.stringContaining('as A2 (occurrence 2); severity raised from Medium to High'),
+      expect.stringContaining('as A3 (occurrence 3)'),
+    ]);
+    expect(verifyTimeline('A1', result.fresh[0].timeline).valid).toBe(true);
+  });
+
+  it('measures the window from the last repeat and starts over after it', () => {
+    const result = suppressDuplicates([], [detection('A1', 0), detection('A2', 50), detection('A3', 100), detection('A4', 200)]);
+    expect(result.fresh.map(alert => alert.id)).toEqual(['A1', 'A4']);
+  });
+
+  it('updates stored open alerts, but not closed ones', () => {
+    const stored = detection('S1', 0);
+    const open = suppressDuplicates([stored], [detection('A1', 10)]);
+    expect(open).toMatchObject({ fresh: [], suppressed: 1 });
+    expect(open.updated[0]).toMatchObject({ id: 'S1', occurrences: 2 });
+
+    const closed = suppressDuplicates([{ ...stored, status: 'Resolved' }], [detection('A1', 10)]);
+    expect(closed.fresh.map(alert => alert.id)).toEqual(['A1']);
+  });
+
+  it('does not count the same detection twice', () => {
+    const stored = detection('S1', 0, { evidence: { kind: 'orders', summary: 'Cancelled order', events: [] } });
+    const result = suppressDuplicates([stored], [
+      detection('A1', 0),
+      detection('A2', 5, { evidence: stored.evidence }),
+      detection('S1', 10),
+    ]);
+
+    expect(result).toMatchObject({ fresh: [], updated: [], suppressed: 0 });
+  });
+
+  it('keeps different traders, symbols and rules apart', () => {
+    const incoming = [
+      detection('A1', 0),
+      detection('A2', 1, { trader: { ...trader, id: 'T2' } }),
+      detection('A3', 2, { symbol: 'MSFT' }),
+      detection('A4', 3, { ruleId: 'after-hours-volume' }),
+    ];
+    expect(new Set(incoming.map(alertFingerprint)).size).toBe(4);
+    expect(suppressDuplicates([], incoming).fresh).toHaveLength(4);
+  });
+});
+
+describe('groupIntoCases', () => {
+  it('opens a case once enough related open alerts are unlinked', () => {
+    const { alerts, cases } = groupIntoCases(
+      [detection('A1', 0), detection('A2', 5, { ruleId: 'layering' }), detection('A3', 5, { symbol: 'MSFT' })],
+      [],
+      undefined,
+      now
+    );
+
+    expect(cases).toHaveLength(1);
+    expect(cases[0]).toMatchObject({ title: 'Spoofing - Pat Trader / AAPL', status: 'Open', alertIds: ['A1', 'A2'] });
+    expect(cases[0].timeline.map(event => event.action)).toEqual(['Case Opened', 'Alerts Linked']);
+    expect(alerts.map(alert => [alert.id, alert.caseId])).toEqual([['A1', cases[0].id], ['A2', cases[0].id]]);
+    expect(alerts[0].timeline.at(-1)?.action).toBe('Linked to Case');
+  });
+
+  it('adds new alerts to the open case, leaving closed cases and closed alerts alone', () => {
+    const openCase: Case = {
+      id: 'CASE-1', title: 'Spoofing - Pat Trader / AAPL', status: 'Open', traderId: 'T1', traderName: 'Pat Trader', symbol: 'AAPL',
+      alertType: 'Spoofing', alertIds: ['A0'], createdAt: now.toISOString(), updatedAt: now.toISOString(), notes: '', timeline: [],
+    };
+    const { alerts, cases } = groupIntoCases(
+      [detection('A1', 0), detection('A2', 5, { status: 'Dismissed' }), detection('A3', 5, { caseId: 'CASE-0' })],
+      [openCase, { ...openCase, id: 'CASE-0', status: 'Closed' }],
+      undefined,
+      now
+    );
+
+    expect(alerts.map(alert => alert.id)).toEqual(['A1']);
+    expect(cases).toMatchObject([{ id: 'CASE-1', alertIds: ['A0', 'A1'] }]);
+  });
+
+  it('waits for the minimum number of alerts', () => {
+    expect(groupIntoCases([detection('A1', 0)], [], undefined, now)).toEqual({ alerts: [], cases: [] });
+  });
+});
@@ -0,0 +1,203 @@
+import { Case, ComplianceAlert, Severity } from '../types';
+import { appendTimelineEvent, createTimelineEventId } from './auditChain';
+import { createCaseId } from './cases';
+
+export interface CorrelationSettings {
+  // Repeat detections of the same fingerprint within this window are folded into the first alert
+  windowMinutes: number;
+  // Open alerts sharing trader, symbol and pattern needed before a case is opened
+  minAlertsPerCase: number;
+}
+
+export const DEFAULT_CORRELATION_SETTINGS: CorrelationSettings = {
+  windowMinutes: 60,
+  minAlertsPerCase: 2,
+};
+
+export interface SuppressionResult {
+  // Incoming alerts that are genuinely new
+  fresh: ComplianceAlert[];
+  // Existing alerts a repeat was folded into
+  updated: ComplianceAlert[];
+  suppressed: number;
+}
+
+export interface CaseGrouping {
+  alerts: ComplianceAlert[];
+  cases: Case[];
+}
+
+const CORRELATION_USER = 'Correlation Engine';
+const SEVERITY_RANK: Record<Severity, number> = { Low: 1, Medium: 2, High: 3, Critical: 4 };
+
+const isOpen = (alert: ComplianceAlert) => alert.status !== 'Resolved' && alert.status !== 'Dismissed';
+const lastSeen = (alert: ComplianceAlert) => new Date(alert.lastSeenAt || alert.timestamp).getTime();
+
+// Same trader, same instrument, same rule (or alert type when no rule raised it)
+export function alertFingerprint(alert: ComplianceAlert): string {
+  return [alert.trader.id, alert.symbol || '', alert.ruleId || alert.type].join('|');
+}
+
+// Cases group a little wider than duplicates: any rule detecting the same pattern
+export function caseKey(alert: ComplianceAlert): string {
+  return [alert.trader.id, alert.symbol || '', alert.type].join('|');
+}
+
+export function suppressDuplicates(
+  existing: ComplianceAlert[],
+  incoming: ComplianceAlert[],
+  settings: CorrelationSettings = DEFAULT_CORRELATION_SETTINGS
+): SuppressionResult {
+  const windowMs = settings.windowMinutes * 60 * 1000;
+  const ids = new Set(existing.map(alert => alert.id));
+  const latest = new Map<string, ComplianceAlert>();
+  existing.filter(isOpen).forEach(alert => {
+    const current = latest.get(alertFingerprint(alert));
+    if (!current || lastSeen(alert) > lastSeen(current)) latest.set(alertFingerprint(alert), alert);
+  });
+
+  const fresh: ComplianceAlert[] = [];
+  const updated = new Map<string, ComplianceAlert>();
+  // Detection times and evidence already counted per fingerprint. Polling the same quote or re-posting the
+  // same detection yields an identical repeat, which is not a new occurrence.
+  const counted = new Map<string, { times: Set<number>; evidence: Set<string> }>();
+  const countedFor = (fingerprint: string, match: ComplianceAlert) => {
+    if (!counted.has(fingerprint)) {
+      counted.set(fingerprint, {
+        times: new Set([new Date(match.timestamp).getTime(), lastSeen(match)]),
+        evidence: new Set(match.evidence ? [JSON.stringify(match.evidence)] : []),
+      });
+    }
+    return counted.get(fingerprint)!;
+  };
+  let suppressed = 0;
+
+  [...incoming]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(alert => {
+      if (ids.has(alert.id)) return;
+      ids.add(alert.id);
+
+      const fingerprint = alertFingerprint(alert);
+      const match = latest.get(fingerprint);
+      const time = new Date(alert.timestamp).getTime();
+      if (!match || time - lastSeen(match) > windowMs) {
+        fresh.push(alert);
+        latest.set(fingerprint, alert);
+        counted.delete(fingerprint);
+        return;
+      }
+
+      const seen = countedFor(fingerprint, match);
+      const evidence = alert.evidence ? JSON.stringify(alert.evidence) : null;
+      if (seen.times.has(time) || (evidence !== null && seen.evidence.has(evidence))) return;
+      seen.times.add(time);
+      if (evidence !== null) seen.evidence.add(evidence);
+
+      // A repeat can be worse than the original; the alert carries the worst severity seen
+      const severity = SEVERITY_RANK[alert.severity] > SEVERITY_RANK[match.severity] ? alert.severity : match.severity;
+      const occurrences = (match.occurrences || 1) + 1;
+      const folded = appendTimelineEvent<ComplianceAlert>({
+        ...match,
+        severity,
+        occurrences,
+        lastSeenAt: new Date(Math.max(time, lastSeen(match))).toISOString(),
+      }, {
+        id: createTimelineEventId(),
+        timestamp: new Date().toISOString(),
+        action: 'Repeat Detected',
+        user: CORRELATION_USER,
+        notes: `Detected again at ${alert.timestamp} as ${alert.id} (occurrence ${occurrences})` +
+          (severity !== match.severity ? `; severity raised from ${match.severity} to ${severity}` : ''),
+      });
+      latest.set(fingerprint, folded);
+      const freshIndex = fresh.indexOf(match);
+      if (freshIndex >= 0) {
+        fresh[freshIndex] = folded;
+      } else {
+        updated.set(folded.id, folded);
+      }
+      suppressed++;
+    });
+
+  return { fresh, updated: [...updated.values()], suppressed };
+}
+
+function linkEvent(caseRecord: Case, now: Date) {
+  return {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: 'Linked to Case',
+    user: CORRELATION_USER,
+    notes: `Grouped into ${caseRecord.id} (${caseRecord.title})`,
+  };
+}
+
+// Links open, unlinked alerts to the open case for their trader/symbol/pattern, opening one once enough
+// related alerts accumulate. Returns only the alerts and cases that changed.
+export function groupIntoCases(
+  alerts: ComplianceAlert[],
+  cases: Case[],
+  settings: CorrelationSettings = DEFAULT_CORRELATION_SETTINGS,
+  now: Date = new Date()
+): CaseGrouping {
+  const openCases = new Map<string, Case>();
+  cases.filter(c => c.status !== 'Closed').forEach(c => {
+    openCases.set([c.traderId, c.symbol || '', c.alertType].join('|'), c);
+  });
+
+  const candidates = new Map<string, ComplianceAlert[]>();
+  alerts.filter(alert => isOpen(alert) && !alert.caseId).forEach(alert => {
+    const key = caseKey(alert);
+    candidates.set(key, [...(candidates.get(key) || []), alert]);
+  });
+
+  const changedAlerts: ComplianceAlert[] = [];
+  const changedCases = new Map<string, Case>();
+
+  candidates.forEach((group, key) => {
+    let caseRecord = openCases.get(key);
+    if (!caseRecord) {
+      if (group.length < settings.minAlertsPerCase) return;
+      const first = group[0];
+      const id = createCaseId();
+      caseRecord = appendTimelineEvent<Case>({
+        id,
+        title: `${first.type} - ${first.trader.name}${first.symbol ? ` / ${first.symbol}` : ''}`,
+        status: 'Open',
+        traderId: first.trader.id,
+        traderName: first.trader.name,
+        symbol: first.symbol,
+        alertType: first.type,
+        alertIds: [],
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        notes: '',
+        timeline: [],
+      }, {
+        id: createTimelineEventId(),
+        timestamp: now.toISOString(),
+        action: 'Case Opened',
+        user: CORRELATION_USER,
+        notes: `${group.length} related alerts for the same trader, instrument and pattern`,
+      });
+    }
+
+    const linkedCase = caseRecord;
+    const linked = group.map(alert => appendTimelineEvent({ ...alert, caseId: linkedCase.id }, linkEvent(linkedCase, now)));
+    changedAlerts.push(...linked);
+    changedCases.set(linkedCase.id, appendTimelineEvent({
+      ...linkedCase,
+      alertIds: [...linkedCase.alertIds, ...linked.map(alert => alert.id)],
+      updatedAt: now.toISOString(),
+    }, {
+      id: createTimelineEventId(),
+      timestamp: now.toISOString(),
+      action: 'Alerts Linked',
+      user: CORRELATION_USER,
+      notes: linked.map(alert => alert.id).join(', '),
+    }));
+  });
+
+  return { alerts: changedAlerts, cases: [...changedCases.values()] };
+}
@@ -0,0 +1,99 @@
+import { ComplianceAlert } from '../types';
+import { AlertGenerationOptions, generateAlertsFromStockData } from './alertGenerator';
+import { FetchScheduler } from './fetchScheduler';
+import { IntradayBar, StockData } from './marketDataProvider';
+import { calendarForVenue, dailyQuoteTime } from './exchangeCalendar';
+import { createBaseline, SymbolBaseline, updateBaseline } from './statisticalBaseline';
+import { venueForSymbol } from './watchlist';
+
+// What one polling cycle needs from the previous one
+export interface DetectionState {
+  previousData: Map<string, StockData>;
+  intradayData: Map<string, IntradayBar[]>;
+  baselines: Map<string, SymbolBaseline>;
+}
+
+export interface DetectionCycleResult {
+  quotes: StockData[];
+  alerts: ComplianceAlert[];
+  // Symbols whose quotes were left for the next cycle to stay within the rate limit
+  deferred: string[];
+  // Symbols whose intraday bars were refreshed this cycle
+  intradayRefreshed: string[];
+}
+
+export interface SerializedDetectionState {
+  previousData: Record<string, StockData>;
+  intradayData: Record<string, IntradayBar[]>;
+  baselines: Record<string, SymbolBaseline>;
+  savedAt: string;
+}
+
+// Baselines outlive the rest of the state, so a fresh state can start from stored ones
+export function createDetectionState(baselines: Map<string, SymbolBaseline> = new Map()): DetectionState {
+  return { previousData: new Map(), intradayData: new Map(), baselines };
+}
+
+// Fetches quotes, refreshes intraday bars and runs the rules; state is updated in place.
+// The cycle may wait up to budgetMs for rate-limit tokens; whatever doesn't fit is left for the next cycle.
+export async function runDetectionCycle(
+  scheduler: FetchScheduler,
+  symbols: string[],
+  state: DetectionState,
+  options: AlertGenerationOptions = {},
+  budgetMs = 0
+): Promise<DetectionCycleResult> {
+  const deadline = Date.now() + budgetMs;
+  // Quotes stop waiting one request early so intraday bars keep rotating even when quotes use up the budget
+  const fetched = await scheduler.fetchQuotes(symbols, deadline - scheduler.requestIntervalMs);
+  const { deferred } = fetched;
+  const quotes = fetched.quotes.map(quote => quote.tradingDay ? {
+    ...quote,
+    timestamp: dailyQuoteTime(
+      calendarForVenue(venueForSymbol(options.watchlist, quote.symbol)), quote.tradingDay, new Date(quote.timestamp)
+    ).toISOString(),
+  } : quote);
+
+  const intraday = await scheduler.refreshIntraday(symbols, deadline);
+  intraday.forEach((bars, symbol) => {
+    if (bars.length === 0) return;
+    state.intradayData.set(symbol, bars);
+    const baseline = state.baselines.get(symbol) || createBaseline();
+    updateBaseline(baseline, bars, calendarForVenue(venueForSymbol(options.watchlist, symbol)));
+    state.baselines.set(symbol, baseline);
+  });
+  const intradayRefreshed = [...intraday.keys()];
+
+  if (quotes.length === 0) {
+    return { quotes, alerts: [], deferred, intradayRefreshed };
+  }
+
+  const alerts = generateAlertsFromStockData(
+    quotes, state.previousData, state.intradayData, { ...options, baselines: state.baselines }
+  );
+  scheduler.recordAlerts(alerts);
+
+  // Update previous data for next comparison
+  quotes.forEach(quote => {
+    state.previousData.set(quote.symbol, quote);
+  });
+
+  return { quotes, alerts, deferred, intradayRefreshed };
+}
+
+export function serializeDetectionState(state: DetectionState): SerializedDetectionState {
+  return {
+    previousData: Object.fromEntries(state.previousData),
+    intradayData: Object.fromEntries(state.intradayData),
+    baselines: Object.fromEntries(state.baselines),
+    savedAt: new Date().toISOString(),
+  };
+}
+
+export function restoreDetectionState(serialized: Partial<SerializedDetectionState>): DetectionState {
+  return {
+    previousData: new Map(Object.entries(serialized.previousData || {})),
+    intradayData: new Map(Object.entries(serialized.intradayData || {})),
+    baselines: new Map(Object.entries(serialized.baselines || {})),
+  };
+}
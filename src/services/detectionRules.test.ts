@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { AlertGenerationContext } from './alertGenerator';
+import { DEFAULT_RULES, DetectionRule, evaluateRule, stampRuleVersions, validateRule } from './detectionRules';
+import { calendarForVenue, getSessionInfo } from './exchangeCalendar';
+
+const volumeSpike = DEFAULT_RULES.find(rule => rule.id === 'volume-spike')!;
+const afterHours = DEFAULT_RULES.find(rule => rule.id === 'after-hours-volume')!;
+
+const validate = (changes: Record<string, unknown>) => {
+  const rule = { ...volumeSpike, ...changes } as DetectionRule;
+  return validateRule(rule, [rule]);
+};
+
+const contextAt = (iso: string, volume: number, averageVolume?: number): AlertGenerationContext => ({
+  currentData: { symbol: 'AAPL', price: 100, volume, change: 0, changePercent: 0, timestamp: iso },
+  averageVolume,
+  session: getSessionInfo(calendarForVenue('XNYS'), new Date(iso)),
+  baseline: {},
+});
+
+describe('validateRule', () => {
+  it('accepts the default rules', () => {
+    DEFAULT_RULES.forEach(rule => expect(validateRule(rule, DEFAULT_RULES)).toEqual([]));
+  });
+
+  it('refuses unknown severities, alert types and metrics', () => {
+    expect(validate({ severity: 'Extreme', alertType: 'Fraud', metric: 'constructor' })).toEqual([
+      'Unknown metric "constructor"',
+      'Unknown severity "Extreme"',
+      'Unknown alert type "Fraud"',
+    ]);
+  });
+
+  it('checks each severity band\'s shape, threshold and severity', () => {
+    expect(validate({ severityBands: ['High', { threshold: 200 }, { severity: 'Low', threshold: 50 }] })).toEqual([
+      'Band 1: must have a severity and a threshold',
+      'Band 2: unknown severity "undefined"',
+      'Band 3: threshold must be above the base threshold',
+      'Band 3: severity must be higher than the base severity (Medium)',
+    ]);
+    expect(validate({ severityBands: 'High' })).toEqual(['Severity bands must be a list']);
+  });
+
+  it('checks session conditions', () => {
+    expect(validate({ sessionCondition: { sessions: ['lunch'], window: { anchor: 'open', from: 5, to: 0 } } })).toEqual([
+      'Session condition: unknown session',
+      'Session window must end after it starts',
+    ]);
+  });
+});
+
+describe('stampRuleVersions', () => {
+  it('keeps the version when only the key order changed', () => {
+    const reordered = Object.fromEntries(Object.entries(volumeSpike).reverse()) as unknown as DetectionRule;
+    expect(stampRuleVersions([reordered], [volumeSpike])[0]).toBe(volumeSpike);
+  });
+
+  it('bumps the version when the definition changed', () => {
+    const [stamped] = stampRuleVersions([{ ...volumeSpike, threshold: 150 }], [volumeSpike]);
+    expect(stamped.version).toBe(volumeSpike.version + 1);
+  });
+
+  it('bumps the version when a band changed', () => {
+    const severityBands = [{ severity: 'High' as const, threshold: 250 }, volumeSpike.severityBands[1]];
+    const [stamped] = stampRuleVersions([{ ...volumeSpike, severityBands }], [volumeSpike]);
+    expect(stamped.version).toBe(volumeSpike.version + 1);
+  });
+});
+
+describe('evaluateRule', () => {
+  it('escalates to the most severe band crossed', () => {
+    const rule = { ...volumeSpike, enabled: true };
+    expect(evaluateRule(rule, contextAt('2025-03-05T16:00:00Z', 250, 100))).toEqual({ value: 150, severity: 'Medium' });
+    expect(evaluateRule(rule, contextAt('2025-03-05T16:00:00Z', 450, 100))).toEqual({ value: 350, severity: 'Critical' });
+  });
+
+  it('only counts after-hours volume outside the regular session', () => {
+    expect(evaluateRule(afterHours, contextAt('2025-03-05T16:00:00Z', 2_000_000))).toBeNull();
+    expect(evaluateRule(afterHours, contextAt('2025-03-05T22:00:00Z', 2_000_000))).toMatchObject({ severity: 'High' });
+  });
+
+  it('skips disabled rules', () => {
+    expect(evaluateRule(volumeSpike, contextAt('2025-03-05T16:00:00Z', 450, 100))).toBeNull();
+  });
+});
@@ -0,0 +1,448 @@
+import { AlertType, MarketDataPoint, Severity, ThresholdMarker } from '../types';
+import { AlertGenerationContext } from './alertGenerator';
+import { MarketSession, SESSION_LABELS, SessionInfo } from './exchangeCalendar';
+
+export type RuleMetric =
+  | 'intradayPriceMovePercent'
+  | 'volumeAboveAveragePercent'
+  | 'afterHoursVolume'
+  | 'dailyChangePercent'
+  | 'volumeZScore'
+  | 'priceMoveZScore';
+
+export type Comparator = '>' | '>=' | '<' | '<=';
+
+export interface SeverityBand {
+  severity: Severity;
+  threshold: number;
+}
+
+// Limits a rule to parts of the trading day, in the exchange's own time; every part that is set must hold
+export interface SessionCondition {
+  // Sessions the rule runs in; empty means any
+  sessions: MarketSession[];
+  // Minutes relative to the regular open or close (negative = before it), from inclusive, to exclusive.
+  // { anchor: 'open', from: 0, to: 5 } is the first five minutes after the open
+  window?: { anchor: 'open' | 'close'; from: number; to: number };
+}
+
+export interface DetectionRule {
+  id: string;
+  name: string;
+  metric: RuleMetric;
+  comparator: Comparator;
+  threshold: number;
+  // Severity when only the base threshold is crossed; bands escalate it further
+  severity: Severity;
+  severityBands: SeverityBand[];
+  alertType: AlertType;
+  enabled: boolean;
+  sessionCondition?: SessionCondition;
+  version: number;
+  updatedAt: string;
+  // Watchlist groups whose overrides were applied to this copy of the rule; never stored
+  overriddenBy?: string[];
+}
+
+export interface RuleEvaluation {
+  value: number;
+  severity: Severity;
+}
+
+interface MetricDefinition {
+  label: string;
+  unit: string;
+  compute: (context: AlertGenerationContext) => number | undefined;
+  describe: (value: number, context: AlertGenerationContext) => string;
+  // Price or volume levels the threshold works out to, drawn on the evidence chart
+  markers: (threshold: number, context: AlertGenerationContext) => ThresholdMarker[];
+  // The data point the rule fired on, when it isn't the current quote
+  trigger?: (context: AlertGenerationContext) => MarketDataPoint | undefined;
+}
+
+const priceBand = (base: number, threshold: number, from: string): ThresholdMarker[] => [
+  { axis: 'price', value: base * (1 + threshold / 100), label: `+${threshold}% from ${from}` },
+  { axis: 'price', value: base * (1 - threshold / 100), label: `-${threshold}% from ${from}` },
+];
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  'Critical': 4,
+  'High': 3,
+  'Medium': 2,
+  'Low': 1,
+};
+
+const ALERT_TYPES: AlertType[] = [
+  'Market Manipulation', 'Wash Trading', 'Spoofing', 'Insider Trading', 'Position Limit Breach',
+];
+
+// Rules arrive from the API and from storage as plain JSON, so lookups must not match inherited keys
+const isKeyOf = <T extends object>(table: T, key: unknown): key is keyof T =>
+  typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key);
+
+function intradayPriceChange(context: AlertGenerationContext): number | undefined {
+  const intraday = context.intradayData || [];
+  if (intraday.length < 2) return undefined;
+  const recent = intraday[intraday.length - 1];
+  const previous = intraday[intraday.length - 2];
+  return ((recent.price - previous.price) / previous.price) * 100;
+}
+
+export const RULE_METRICS: Record<RuleMetric, MetricDefinition> = {
+  intradayPriceMovePercent: {
+    label: 'Price move between last two 15-min bars',
+    unit: '%',
+    compute: (context) => {
+      const change = intradayPriceChange(context);
+      return change === undefined ? undefined : Math.abs(change);
+    },
+    describe: (_value, context) =>
+      `Significant price movement detected: ${(intradayPriceChange(context) ?? 0).toFixed(2)}% change in 15 minutes`,
+    markers: (threshold, { intradayData = [] }) => intradayData.length < 2
+      ? []
+      : priceBand(intradayData[intradayData.length - 2].price, threshold, 'previous bar'),
+    trigger: ({ intradayData = [] }) => intradayData[intradayData.length - 1],
+  },
+  volumeAboveAveragePercent: {
+    label: 'Volume above intraday average',
+    unit: '%',
+    compute: ({ currentData, averageVolume }) =>
+      averageVolume ? ((currentData.volume - averageVolume) / averageVolume) * 100 : undefined,
+    describe: (value, { currentData, averageVolume }) =>
+      `Unusual trading volume detected: ${value.toFixed(0)}% above average (${currentData.volume.toLocaleString()} vs ${Math.round(averageVolume || 0).toLocaleString()} avg)`,
+    markers: (threshold, { averageVolume }) => averageVolume
+      ? [{ axis: 'volume', value: averageVolume * (1 + threshold / 100), label: `Average +${threshold}%` }]
+      : [],
+  },
+  afterHoursVolume: {
+    label: 'Volume traded in pre/post-market sessions',
+    unit: 'shares',
+    // Judged by the quote's timestamp against the venue's calendar; closed days and overnight don't count
+    compute: ({ currentData, session }) =>
+      session.session === 'preMarket' || session.session === 'postMarket' ? currentData.volume : undefined,
+    describe: (value, { session }) =>
+      `Large after-hours trade detected: ${value.toLocaleString()} shares traded in the ${SESSION_LABELS[session.session].toLowerCase()} session (${session.mic} ${session.localTime} local)`,
+    markers: (threshold) => [{ axis: 'volume', value: threshold, label: `${threshold.toLocaleString()} shares` }],
+  },
+  dailyChangePercent: {
+    label: 'Daily price change (needs a previous poll)',
+    unit: '%',
+    // Only evaluated once a previous poll exists, so the first refresh doesn't alert on the whole day's move
+    compute: ({ currentData, previousData }) =>
+      previousData ? Math.abs(currentData.changePercent) : undefined,
+    describe: (_value, { currentData }) =>
+      `Rapid price change: ${currentData.changePercent > 0 ? '+' : ''}${currentData.changePercent.toFixed(2)}%`,
+    markers: (threshold, { currentData }) =>
+      priceBand(currentData.previousClose ?? currentData.price - currentData.change, threshold, 'previous close'),
+  },
+  volumeZScore: {
+    label: 'Volume z-score vs the same 15-min bucket on earlier days',
+    unit: 'σ',
+    compute: ({ baseline }) => baseline.volume?.zScore,
+    describe: (value, { baseline }) => {
+      const stats = baseline.volume!;
+      return `Statistically unusual volume: ${stats.volume.toLocaleString()} shares in the ${stats.bucket} bucket is ` +
+        `${value.toFixed(1)}σ from its ${stats.days}-day mean of ${Math.round(stats.mean).toLocaleString()}`;
+    },
+    markers: (threshold, { baseline }) => baseline.volume
+      ? [{ axis: 'volume', value: baseline.volume.mean + threshold * baseline.volume.stdDev, label: `Bucket mean +${threshold}σ` }]
+      : [],
+    trigger: ({ intradayData = [] }) => intradayData[intradayData.length - 1],
+  },
+  priceMoveZScore: {
+    label: 'Price move between last two bars vs EWMA volatility',
+    unit: 'σ',
+    compute: ({ baseline }) => baseline.price && Math.abs(baseline.price.zScore),
+    describe: (value, { baseline }) => {
+      const stats = baseline.price!;
+      return `Statistically unusual price move: ${stats.movePercent > 0 ? '+' : ''}${stats.movePercent.toFixed(2)}% in one bar is ` +
+        `${value.toFixed(1)}σ against EWMA volatility of ${stats.volatilityPercent.toFixed(2)}% per bar`;
+    },
+    markers: (threshold, { baseline, intradayData = [] }) => {
+      if (!baseline.price || intradayData.length < 2) return [];
+      const base = intradayData[intradayData.length - 2].price;
+      const move = Math.exp(threshold * baseline.price.volatilityPercent / 100);
+      return [
+        { axis: 'price', value: base * move, label: `+${threshold}σ from previous bar` },
+        { axis: 'price', value: base / move, label: `-${threshold}σ from previous bar` },
+      ];
+    },
+    trigger: ({ intradayData = [] }) => intradayData[intradayData.length - 1],
+  },
+};
+
+export const COMPARATORS: Comparator[] = ['>', '>=', '<', '<='];
+
+const RULES_STORAGE_KEY = 'detectionRules';
+
+// The thresholds the generator shipped with before rules were configurable, plus the statistical rules that have
+// replaced the fixed volume multiple
+export const DEFAULT_RULES: DetectionRule[] = [
+  {
+    id: 'price-spike-15m',
+    name: 'Price spike within 15 minutes',
+    metric: 'intradayPriceMovePercent',
+    comparator: '>',
+    threshold: 5,
+    severity: 'Critical',
+    severityBands: [],
+    alertType: 'Market Manipulation',
+    enabled: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'volume-spike',
+    name: 'Volume spike vs intraday average',
+    metric: 'volumeAboveAveragePercent',
+    comparator: '>',
+    threshold: 100,
+    severity: 'Medium',
+    severityBands: [
+      { severity: 'High', threshold: 200 },
+      { severity: 'Critical', threshold: 300 },
+    ],
+    alertType: 'Market Manipulation',
+    enabled: false,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'after-hours-volume',
+    name: 'Large after-hours volume',
+    metric: 'afterHoursVolume',
+    comparator: '>',
+    threshold: 1000000,
+    severity: 'High',
+    severityBands: [],
+    alertType: 'Market Manipulation',
+    enabled: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'rapid-daily-change',
+    name: 'Rapid daily price change',
+    metric: 'dailyChangePercent',
+    comparator: '>',
+    threshold: 3,
+    severity: 'High',
+    severityBands: [{ severity: 'Critical', threshold: 5 }],
+    alertType: 'Market Manipulation',
+    enabled: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'volume-zscore',
+    name: 'Volume anomaly vs time-of-day profile',
+    metric: 'volumeZScore',
+    comparator: '>',
+    threshold: 4,
+    severity: 'Medium',
+    severityBands: [
+      { severity: 'High', threshold: 6 },
+      { severity: 'Critical', threshold: 8 },
+    ],
+    alertType: 'Market Manipulation',
+    enabled: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'price-move-zscore',
+    name: 'Price move anomaly vs EWMA volatility',
+    metric: 'priceMoveZScore',
+    comparator: '>',
+    threshold: 4,
+    severity: 'High',
+    severityBands: [{ severity: 'Critical', threshold: 6 }],
+    alertType: 'Market Manipulation',
+    enabled: true,
+    version: 1,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+function compare(value: number, comparator: Comparator, threshold: number): boolean {
+  switch (comparator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
+
+export function matchesSessionCondition(condition: SessionCondition | undefined, session: SessionInfo): boolean {
+  if (!condition) return true;
+  if (condition.sessions.length > 0 && !condition.sessions.includes(session.session)) return false;
+  if (condition.window) {
+    const offset = condition.window.anchor === 'open'
+      ? session.minutesSinceOpen
+      : session.minutesToClose === undefined ? undefined : -session.minutesToClose;
+    if (offset === undefined || offset < condition.window.from || offset >= condition.window.to) return false;
+  }
+  return true;
+}
+
+export function evaluateRule(rule: DetectionRule, context: AlertGenerationContext): RuleEvaluation | null {
+  if (!rule.enabled || !matchesSessionCondition(rule.sessionCondition, context.session)) return null;
+
+  const value = RULE_METRICS[rule.metric].compute(context);
+  if (value === undefined || !compare(value, rule.comparator, rule.threshold)) {
+    return null;
+  }
+
+  // The most severe band whose threshold is also crossed wins
+  const severity = rule.severityBands
+    .filter(band => compare(value, rule.comparator, band.threshold))
+    .reduce<Severity>(
+      (current, band) => SEVERITY_RANK[band.severity] > SEVERITY_RANK[current] ? band.severity : current,
+      rule.severity
+    );
+
+  return { value, severity };
+}
+
+export function describeRuleMatch(rule: DetectionRule, value: number, context: AlertGenerationContext): string {
+  return RULE_METRICS[rule.metric].describe(value, context);
+}
+
+export function validateRule(rule: DetectionRule, allRules: DetectionRule[]): string[] {
+  const errors: string[] = [];
+
+  if (typeof rule.name !== 'string' || !rule.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (typeof rule.id !== 'string' || !rule.id.trim()) {
+    errors.push('Id is required');
+  } else if (allRules.filter(r => r.id === rule.id).length > 1) {
+    errors.push(`Id "${rule.id}" is used by more than one rule`);
+  }
+  if (!isKeyOf(RULE_METRICS, rule.metric)) {
+    errors.push(`Unknown metric "${rule.metric}"`);
+  }
+  if (!COMPARATORS.includes(rule.comparator)) {
+    errors.push(`Unknown comparator "${rule.comparator}"`);
+  }
+  if (!Number.isFinite(rule.threshold)) {
+    errors.push('Threshold must be a number');
+  } else if (rule.threshold < 0) {
+    errors.push('Threshold cannot be negative');
+  }
+  if (!isKeyOf(SEVERITY_RANK, rule.severity)) {
+    errors.push(`Unknown severity "${rule.severity}"`);
+  }
+  if (!ALERT_TYPES.includes(rule.alertType)) {
+    errors.push(`Unknown alert type "${rule.alertType}"`);
+  }
+  if (typeof rule.enabled !== 'boolean') {
+    errors.push('Enabled must be true or false');
+  }
+
+  if (rule.sessionCondition !== undefined && (typeof rule.sessionCondition !== 'object' || rule.sessionCondition === null)) {
+    errors.push('Session condition must be an object');
+  } else if (rule.sessionCondition) {
+    const { sessions, window } = rule.sessionCondition;
+    if (!Array.isArray(sessions) || sessions.some(session => !isKeyOf(SESSION_LABELS, session))) {
+      errors.push('Session condition: unknown session');
+    }
+    if (window !== undefined && (typeof window !== 'object' || window === null)) {
+      errors.push('Session window must be an object');
+    } else if (window) {
+      if (window.anchor !== 'open' && window.anchor !== 'close') {
+        errors.push('Session window must be relative to the open or the close');
+      }
+      if (!Number.isFinite(window.from) || !Number.isFinite(window.to)) {
+        errors.push('Session window bounds must be numbers of minutes');
+      } else if (window.from >= window.to) {
+        errors.push('Session window must end after it starts');
+      }
+    }
+  }
+
+  if (!Array.isArray(rule.severityBands)) {
+    errors.push('Severity bands must be a list');
+    return errors;
+  }
+  const isUpward = rule.comparator === '>' || rule.comparator === '>=';
+  rule.severityBands.forEach((band: unknown, index) => {
+    if (typeof band !== 'object' || band === null) {
+      errors.push(`Band ${index + 1}: must have a severity and a threshold`);
+      return;
+    }
+    const { severity, threshold } = band as Partial<SeverityBand>;
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold)) {
+      errors.push(`Band ${index + 1}: threshold must be a number`);
+    } else if (isUpward ? threshold <= rule.threshold : threshold >= rule.threshold) {
+      errors.push(`Band ${index + 1}: threshold must be ${isUpward ? 'above' : 'below'} the base threshold`);
+    }
+    if (!isKeyOf(SEVERITY_RANK, severity)) {
+      errors.push(`Band ${index + 1}: unknown severity "${severity}"`);
+    } else if (isKeyOf(SEVERITY_RANK, rule.severity) && SEVERITY_RANK[severity] <= SEVERITY_RANK[rule.severity]) {
+      errors.push(`Band ${index + 1}: severity must be higher than the base severity (${rule.severity})`);
+    }
+  });
+
+  return errors;
+}
+
+export function validateRules(rules: DetectionRule[]): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  rules.forEach(rule => {
+    const ruleErrors = validateRule(rule, rules);
+    if (ruleErrors.length > 0) {
+      errors[rule.id] = ruleErrors;
+    }
+  });
+  return errors;
+}
+
+export function loadRules(): DetectionRule[] {
+  const stored = localStorage.getItem(RULES_STORAGE_KEY);
+  if (!stored) return DEFAULT_RULES;
+
+  try {
+    const rules: DetectionRule[] = JSON.parse(stored);
+    return Array.isArray(rules) ? rules : DEFAULT_RULES;
+  } catch (error) {
+    console.error('Stored detection rules are corrupt, falling back to defaults:', error);
+    return DEFAULT_RULES;
+  }
+}
+
+// Field by field, so the same definition with its keys in another order is still the same version
+function sameDefinition(a: DetectionRule, b: DetectionRule): boolean {
+  const sameBands = a.severityBands.length === b.severityBands.length && a.severityBands.every((band, index) =>
+    band.severity === b.severityBands[index].severity && band.threshold === b.severityBands[index].threshold);
+  const [conditionA, conditionB] = [a.sessionCondition, b.sessionCondition];
+  const sameCondition = !conditionA || !conditionB
+    ? conditionA === conditionB
+    : conditionA.sessions.length === conditionB.sessions.length &&
+      conditionA.sessions.every(session => conditionB.sessions.includes(session)) &&
+      conditionA.window?.anchor === conditionB.window?.anchor &&
+      conditionA.window?.from === conditionB.window?.from &&
+      conditionA.window?.to === conditionB.window?.to;
+  return a.name === b.name && a.metric === b.metric && a.comparator === b.comparator && a.threshold === b.threshold &&
+    a.severity === b.severity && a.alertType === b.alertType && a.enabled === b.enabled && sameBands && sameCondition;
+}
+
+// Bumps the version of every rule that changed, so alerts can be traced back to the exact rule definition
+export function stampRuleVersions(rules: DetectionRule[], previous: DetectionRule[]): DetectionRule[] {
+  const previousById = new Map(previous.map(rule => [rule.id, rule]));
+  const now = new Date().toISOString();
+
+  return rules.map(rule => {
+    const before = previousById.get(rule.id);
+    if (!before) {
+      return { ...rule, version: 1, updatedAt: now };
+    }
+    return sameDefinition(rule, before)
+      ? before
+      : { ...rule, version: before.version + 1, updatedAt: now };
+  });
+}
+
+export function saveRules(rules: DetectionRule[]): void {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
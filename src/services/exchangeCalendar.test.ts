@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { calendarForVenue, dailyQuoteTime, formatSession, getSessionInfo, instantFromLocal } from './exchangeCalendar';
+
+const nyse = calendarForVenue('XNYS');
+const london = calendarForVenue('XLON');
+const sessionAt = (calendar = nyse, iso: string) => getSessionInfo(calendar, new Date(iso));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getSessionInfo', () => {
+  it('opens at 09:30 New York time on both sides of a daylight-saving change', () => {
+    // Friday before the change (EST, UTC-5) and the Monday after (EDT, UTC-4)
+    expect(sessionAt(nyse, '2025-03-07T14:30:00Z')).toMatchObject({ session: 'regular', localTime: '09:30', minutesSinceOpen: 0 });
+    expect(sessionAt(nyse, '2025-03-07T14:29:00Z').session).toBe('preMarket');
+    expect(sessionAt(nyse, '2025-03-10T13:30:00Z')).toMatchObject({ session: 'regular', localTime: '09:30', minutesSinceOpen: 0 });
+    expect(sessionAt(nyse, '2025-03-10T13:29:00Z').session).toBe('preMarket');
+  });
+
+  it('follows each venue\'s own daylight-saving dates', () => {
+    // New York has moved its clocks, London not yet: the gap between the opens is an hour shorter
+    expect(sessionAt(london, '2025-03-17T08:00:00Z')).toMatchObject({ session: 'regular', localTime: '08:00' });
+    expect(sessionAt(nyse, '2025-03-17T13:30:00Z')).toMatchObject({ session: 'regular', localTime: '09:30' });
+    expect(sessionAt(london, '2025-03-31T07:00:00Z')).toMatchObject({ session: 'regular', localTime: '08:00' });
+  });
+
+  it('uses the exchange-local date, not the UTC one', () => {
+    expect(sessionAt(nyse, '2025-03-07T00:30:00Z')).toMatchObject({ localDate: '2025-03-06', localTime: '19:30', session: 'postMarket' });
+    expect(sessionAt(nyse, '2025-03-07T02:00:00Z')).toMatchObject({ localDate: '2025-03-06', session: 'closed' });
+  });
+
+  it('is closed on holidays and weekends', () => {
+    expect(sessionAt(nyse, '2025-07-04T15:00:00Z')).toMatchObject({ session: 'closed', isHoliday: true, isTradingDay: false });
+    expect(sessionAt(nyse, '2025-03-08T15:00:00Z')).toMatchObject({ session: 'closed', isHoliday: false, isTradingDay: false });
+  });
+
+  it('closes early without a post-market session on early-close days', () => {
+    expect(sessionAt(nyse, '2025-11-28T17:59:00Z')).toMatchObject({ session: 'regular', isEarlyClose: true, minutesToClose: 1 });
+    expect(sessionAt(nyse, '2025-11-28T18:30:00Z').session).toBe('closed');
+  });
+
+  it('flags years without listed holidays and warns once', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const unlisted = sessionAt(nyse, '2099-07-06T15:00:00Z');
+    sessionAt(nyse, '2099-07-07T15:00:00Z');
+
+    expect(unlisted.holidaysListed).toBe(false);
+    expect(formatSession(unlisted)).toContain('no holidays listed');
+    expect(sessionAt(nyse, '2025-07-07T15:00:00Z').holidaysListed).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('instantFromLocal', () => {
+  it('converts exchange-local times in winter and summer', () => {
+    expect(instantFromLocal('America/New_York', '2025-01-06', '09:30').toISOString()).toBe('2025-01-06T14:30:00.000Z');
+    expect(instantFromLocal('America/New_York', '2025-07-07', '09:30:15').toISOString()).toBe('2025-07-07T13:30:15.000Z');
+    expect(instantFromLocal('Europe/London', '2025-07-07', '08:00').toISOString()).toBe('2025-07-07T07:00:00.000Z');
+  });
+
+  it('accepts the zone names Alpha Vantage reports', () => {
+    expect(instantFromLocal('US/Eastern', '2025-01-06', '16:00').toISOString()).toBe('2025-01-06T21:00:00.000Z');
+  });
+
+  it('takes the first of two repeated times when clocks go back', () => {
+    expect(instantFromLocal('America/New_York', '2025-11-02', '01:30').toISOString()).toBe('2025-11-02T05:30:00.000Z');
+  });
+
+  it('round-trips through getSessionInfo', () => {
+    const at = instantFromLocal(nyse.timeZone, '2025-03-10', '15:45');
+    expect(getSessionInfo(nyse, at)).toMatchObject({ localDate: '2025-03-10', localTime: '15:45' });
+  });
+});
+
+describe('dailyQuoteTime', () => {
+  it('keeps the fetch time while the trading day\'s regular session is open', () => {
+    const fetchedAt = new Date('2025-03-05T18:00:00Z');
+    expect(dailyQuoteTime(nyse, '2025-03-05', fetchedAt)).toEqual(fetchedAt);
+  });
+
+  it('places a finished day\'s quote in the last minute of its regular session', () => {
+    const evening = dailyQuoteTime(nyse, '2025-03-07', new Date('2025-03-08T02:00:00Z'));
+    expect(evening.toISOString()).toBe('2025-03-07T20:59:00.000Z');
+    expect(getSessionInfo(nyse, evening).session).toBe('regular');
+
+    const weekend = dailyQuoteTime(nyse, '2025-03-07', new Date('2025-03-09T15:00:00Z'));
+    expect(getSessionInfo(nyse, weekend)).toMatchObject({ session: 'regular', localDate: '2025-03-07' });
+  });
+
+  it('uses the venue\'s own close, including early closes', () => {
+    expect(dailyQuoteTime(london, '2025-07-04', new Date('2025-07-05T12:00:00Z')).toISOString()).toBe('2025-07-04T15:29:00.000Z');
+    expect(dailyQuoteTime(nyse, '2025-11-28', new Date('2025-11-29T12:00:00Z')).toISOString()).toBe('2025-11-28T17:59:00.000Z');
+  });
+});
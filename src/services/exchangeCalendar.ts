@@ -0,0 +1,199 @@
+export type MarketSession = 'preMarket' | 'regular' | 'postMarket' | 'closed';
+
+export const SESSION_LABELS: Record<MarketSession, string> = {
+  preMarket: 'Pre-market',
+  regular: 'Regular',
+  postMarket: 'Post-market',
+  closed: 'Closed',
+};
+
+export interface ExchangeCalendar {
+  // ISO 10383 market identifier code
+  mic: string;
+  name: string;
+  // IANA time zone all session times are in
+  timeZone: string;
+  // Local "HH:MM"; extended sessions equal to open/close mean the venue has none
+  preMarketOpen: string;
+  open: string;
+  close: string;
+  postMarketClose: string;
+  // Regular close on early-close days; the post-market session is skipped on those days
+  earlyClose: string;
+  // Local dates, "YYYY-MM-DD"
+  holidays: string[];
+  earlyCloses: string[];
+}
+
+export interface SessionInfo {
+  mic: string;
+  timeZone: string;
+  session: MarketSession;
+  // Exchange-local date and time of the instant that was looked up
+  localDate: string;
+  localTime: string;
+  isTradingDay: boolean;
+  isHoliday: boolean;
+  isEarlyClose: boolean;
+  // False past the last year the calendar lists holidays for: holidays then look like ordinary trading days
+  holidaysListed: boolean;
+  // Relative to the day's regular open and close; only set on trading days (negative before the open)
+  minutesSinceOpen?: number;
+  minutesToClose?: number;
+}
+
+// NYSE and Nasdaq share one holiday schedule
+const US_HOLIDAYS = [
+  '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26', '2025-06-19', '2025-07-04',
+  '2025-09-01', '2025-11-27', '2025-12-25',
+  '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19', '2026-07-03', '2026-09-07',
+  '2026-11-26', '2026-12-25',
+  '2027-01-01', '2027-01-18', '2027-02-15', '2027-03-26', '2027-05-31', '2027-06-18', '2027-07-05', '2027-09-06',
+  '2027-11-25', '2027-12-24',
+];
+const US_EARLY_CLOSES = ['2025-07-03', '2025-11-28', '2025-12-24', '2026-11-27', '2026-12-24', '2027-11-26'];
+
+const US_EQUITY_SESSIONS = {
+  timeZone: 'America/New_York',
+  preMarketOpen: '04:00',
+  open: '09:30',
+  close: '16:00',
+  postMarketClose: '20:00',
+  earlyClose: '13:00',
+  holidays: US_HOLIDAYS,
+  earlyCloses: US_EARLY_CLOSES,
+};
+
+export const EXCHANGE_CALENDARS: Record<string, ExchangeCalendar> = {
+  XNYS: { mic: 'XNYS', name: 'New York Stock Exchange', ...US_EQUITY_SESSIONS },
+  XNAS: { mic: 'XNAS', name: 'Nasdaq', ...US_EQUITY_SESSIONS },
+  XLON: {
+    mic: 'XLON',
+    name: 'London Stock Exchange',
+    timeZone: 'Europe/London',
+    preMarketOpen: '08:00',
+    open: '08:00',
+    close: '16:30',
+    postMarketClose: '16:30',
+    earlyClose: '12:30',
+    holidays: [
+      '2025-01-01', '2025-04-18', '2025-04-21', '2025-05-05', '2025-05-26', '2025-08-25', '2025-12-25', '2025-12-26',
+      '2026-01-01', '2026-04-03', '2026-04-06', '2026-05-04', '2026-05-25', '2026-08-31', '2026-12-25', '2026-12-28',
+      '2027-01-01', '2027-03-26', '2027-03-29', '2027-05-03', '2027-05-31', '2027-08-30', '2027-12-27', '2027-12-28',
+    ],
+    earlyCloses: ['2025-12-24', '2025-12-31', '2026-12-24', '2026-12-31', '2027-12-24', '2027-12-31'],
+  },
+};
+
+// Symbols without a venue are treated as US listings, which is what monitoring assumed before calendars existed
+export const DEFAULT_VENUE = 'XNYS';
+
+export function calendarForVenue(venue?: string): ExchangeCalendar {
+  return EXCHANGE_CALENDARS[(venue || '').toUpperCase()] || EXCHANGE_CALENDARS[DEFAULT_VENUE];
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Date, weekday and minutes past midnight of an instant as seen in the given time zone
+function zonedParts(at: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', weekday: 'short', year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(at).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekend: parts.weekday === 'Sat' || parts.weekday === 'Sun',
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+// Exchange-local date ("YYYY-MM-DD") and minutes past local midnight
+export function exchangeLocalTime(calendar: ExchangeCalendar, at: Date): { date: string; minutes: number } {
+  const { date, minutes } = zonedParts(at, calendar.timeZone);
+  return { date, minutes };
+}
+
+// The instant a local date ("YYYY-MM-DD") and time ("HH:MM" or "HH:MM:SS") stand for in the time zone. A time
+// repeated when clocks go back is taken the first time round; one skipped when they go forward comes out an hour
+// early.
+export function instantFromLocal(timeZone: string, date: string, time: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // How far the zone's clock is ahead of UTC at an instant
+  const offsetAt = (instant: number) => {
+    const local = zonedParts(new Date(instant), timeZone);
+    const [localYear, localMonth, localDay] = local.date.split('-').map(Number);
+    return Date.UTC(localYear, localMonth - 1, localDay) + local.minutes * 60000 - Math.floor(instant / 60000) * 60000;
+  };
+  // The offset at the first guess can be on the wrong side of a daylight-saving change, so look again
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+}
+
+// A daily quote with no time of its own covers its trading day's regular session: while that session is open it
+// is as of the fetch, afterwards as of the session's last minute. Stamping it at the close would put the whole
+// day's volume into the post-market session.
+export function dailyQuoteTime(calendar: ExchangeCalendar, tradingDay: string, fetchedAt: Date): Date {
+  const close = calendar.earlyCloses.includes(tradingDay) ? calendar.earlyClose : calendar.close;
+  const lastMinute = new Date(instantFromLocal(calendar.timeZone, tradingDay, close).getTime() - 60000);
+  return lastMinute < fetchedAt ? lastMinute : fetchedAt;
+}
+
+// The holiday lists are maintained by hand, so a lookup past them is flagged (and logged once per calendar)
+const lastListedYear = (calendar: ExchangeCalendar) =>
+  Math.max(...calendar.holidays.map(holiday => Number(holiday.slice(0, 4))));
+const warnedUnlisted = new Set<string>();
+
+export function getSessionInfo(calendar: ExchangeCalendar, at: Date): SessionInfo {
+  const local = zonedParts(at, calendar.timeZone);
+  const holidaysListed = Number(local.date.slice(0, 4)) <= lastListedYear(calendar);
+  if (!holidaysListed && !warnedUnlisted.has(calendar.mic)) {
+    warnedUnlisted.add(calendar.mic);
+    console.warn(`${calendar.mic} holidays are only listed through ${lastListedYear(calendar)} - add later years to ` +
+      'EXCHANGE_CALENDARS, or holidays will be treated as trading days');
+  }
+  const isHoliday = calendar.holidays.includes(local.date);
+  const isTradingDay = !local.weekend && !isHoliday;
+  const isEarlyClose = isTradingDay && calendar.earlyCloses.includes(local.date);
+  const info = {
+    mic: calendar.mic,
+    timeZone: calendar.timeZone,
+    localDate: local.date,
+    localTime: local.time,
+    isTradingDay,
+    isHoliday,
+    isEarlyClose,
+    holidaysListed,
+  };
+  if (!isTradingDay) {
+    return { ...info, session: 'closed' };
+  }
+
+  const open = toMinutes(calendar.open);
+  const close = toMinutes(isEarlyClose ? calendar.earlyClose : calendar.close);
+  const postMarketClose = isEarlyClose ? close : toMinutes(calendar.postMarketClose);
+  let session: MarketSession = 'closed';
+  if (local.minutes >= toMinutes(calendar.preMarketOpen) && local.minutes < open) session = 'preMarket';
+  else if (local.minutes >= open && local.minutes < close) session = 'regular';
+  else if (local.minutes >= close && local.minutes < postMarketClose) session = 'postMarket';
+
+  return { ...info, session, minutesSinceOpen: local.minutes - open, minutesToClose: close - local.minutes };
+}
+
+export function formatSession(info: SessionInfo): string {
+  return `${info.mic} ${SESSION_LABELS[info.session].toLowerCase()} session, ${info.localDate} ${info.localTime} local` +
+    `${info.isHoliday ? ' (holiday)' : info.isEarlyClose ? ' (early close)' : ''}` +
+    `${info.holidaysListed ? '' : ' (no holidays listed for this year)'}`;
+}
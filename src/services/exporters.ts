@@ -0,0 +1,252 @@
+import { AlertEvidence, ComplianceAlert, User } from '../types';
+import { toCsv } from './csv';
+import { verifyTimeline } from './auditChain';
+import { dismissalReasonLabel } from './workflow';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  value: (alert: ComplianceAlert) => string | number;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'Alert ID', value: alert => alert.id },
+  { key: 'timestamp', label: 'Detected At', value: alert => alert.timestamp },
+  { key: 'type', label: 'Type', value: alert => alert.type },
+  { key: 'severity', label: 'Severity', value: alert => alert.severity },
+  { key: 'status', label: 'Status', value: alert => alert.status },
+  { key: 'symbol', label: 'Symbol', value: alert => alert.symbol || '' },
+  { key: 'ruleId', label: 'Rule', value: alert => alert.ruleId || '' },
+  { key: 'traderId', label: 'Trader ID', value: alert => alert.trader.id },
+  { key: 'traderName', label: 'Trader Name', value: alert => alert.trader.name },
+  { key: 'firm', label: 'Firm', value: alert => alert.trader.firm },
+  { key: 'detectedBy', label: 'Detected By', value: alert => alert.detectedBy },
+  { key: 'description', label: 'Description', value: alert => alert.description },
+  { key: 'assignee', label: 'Assignee', value: alert => alert.assignee || '' },
+  { key: 'caseId', label: 'Case', value: alert => alert.caseId || '' },
+  { key: 'occurrences', label: 'Occurrences', value: alert => alert.occurrences || 1 },
+  { key: 'lastSeenAt', label: 'Last Seen', value: alert => alert.lastSeenAt || alert.timestamp },
+  { key: 'closedAt', label: 'Closed At', value: alert => closingEvent(alert)?.timestamp || '' },
+  { key: 'reasonCode', label: 'Dismissal Reason', value: alert => closingEvent(alert)?.reasonCode || '' },
+  { key: 'evidence', label: 'Evidence Summary', value: alert => alert.evidence?.summary || '' },
+  { key: 'investigationNotes', label: 'Investigation Notes', value: alert => alert.investigationNotes },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'id', 'timestamp', 'type', 'severity', 'status', 'symbol', 'traderName', 'firm', 'description',
+];
+
+const EXPORT_COLUMNS_STORAGE_KEY = 'exportColumns';
+
+function closingEvent(alert: ComplianceAlert) {
+  if (alert.status !== 'Resolved' && alert.status !== 'Dismissed') return undefined;
+  return [...alert.timeline].reverse().find(event => event.toStatus === alert.status);
+}
+
+// Spreadsheets evaluate cells starting with these characters as formulas
+function neutralizeFormula(value: string | number): string | number {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+// The byte order mark makes Excel read the file as UTF-8 instead of the system code page
+export function alertsToCsv(alerts: ComplianceAlert[], columnKeys: string[]): string {
+  const columns = columnKeys
+    .map(key => EXPORT_COLUMNS.find(column => column.key === key))
+    .filter((column): column is ExportColumn => !!column);
+  return '﻿' + toCsv(
+    columns.map(column => column.label),
+    alerts.map(alert => columns.map(column => neutralizeFormula(column.value(alert)))),
+  );
+}
+
+export function loadExportColumns(): string[] {
+  const stored = localStorage.getItem(EXPORT_COLUMNS_STORAGE_KEY);
+  if (!stored) return DEFAULT_EXPORT_COLUMNS;
+
+  try {
+    const keys: string[] = JSON.parse(stored);
+    const known = Array.isArray(keys) ? keys.filter(key => EXPORT_COLUMNS.some(column => column.key === key)) : [];
+    return known.length > 0 ? known : DEFAULT_EXPORT_COLUMNS;
+  } catch (error) {
+    console.error('Stored export columns are corrupt, falling back to defaults:', error);
+    return DEFAULT_EXPORT_COLUMNS;
+  }
+}
+
+export function saveExportColumns(keys: string[]): void {
+  localStorage.setItem(EXPORT_COLUMNS_STORAGE_KEY, JSON.stringify(keys));
+}
+
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportFileName(prefix: string, extension: string, date: Date = new Date()): string {
+  return `${prefix}-${date.toISOString().split('T')[0]}.${extension}`;
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function table(headers: string[], rows: unknown[][]): string {
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function fields(entries: [string, unknown][]): string {
+  return `<dl>${entries
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('')}</dl>`;
+}
+
+function evidenceSection(evidence: AlertEvidence): string {
+  switch (evidence.kind) {
+    case 'orders':
+      return table(
+        ['Time (UTC)', 'Event', 'Order', 'Account', 'Side', 'Quantity', 'Price'],
+        evidence.events.map(event => [
+          new Date(event.timestamp).toISOString().replace('T', ' ').slice(0, 23),
+          event.type, event.orderId, event.account, event.side, event.quantity.toLocaleString(), event.price.toFixed(2),
+        ]),
+      );
+    case 'position':
+      return fields([
+        ['Limit', `${evidence.limit.id} (${evidence.limit.scope} ${evidence.limit.key}, ${evidence.limit.measure})`],
+        ['Exposure / Limit', `${Math.round(evidence.exposure).toLocaleString()} / ${evidence.limit.limit.toLocaleString()} ${evidence.limit.unit === 'notional' ? 'USD' : 'shares'}`],
+        ['Utilisation', `${evidence.utilisationPercent.toFixed(1)}%`],
+      ]) + table(
+        ['Account', 'Symbol', 'Quantity', 'Price'],
+        evidence.positions.map(position => [position.account, position.symbol, position.quantity.toLocaleString(), position.price.toFixed(2)]),
+      );
+    case 'insider':
+      return fields([
+        ['Corporate event', `${evidence.event.title} (${evidence.event.type}, ${evidence.event.id}) at ${evidence.event.timestamp}`],
+        ['Account', evidence.account],
+        ['Restricted list', evidence.restrictedBy?.join(', ')],
+        ['Pre-event notional', `${Math.round(evidence.notional).toLocaleString()} USD over ${evidence.lookbackDays} days (typical ${Math.round(evidence.typicalNotional).toLocaleString()} USD)`],
+        ['Net quantity', evidence.netQuantity.toLocaleString()],
+        ['Position into event', evidence.position && `${evidence.position.quantity.toLocaleString()} @ ${evidence.position.price.toFixed(2)}`],
+      ]) + table(
+        ['Time (UTC)', 'Order', 'Side', 'Quantity', 'Price'],
+        evidence.fills.map(fill => [
+          new Date(fill.timestamp).toISOString().replace('T', ' ').slice(0, 19),
+          fill.orderId, fill.side, fill.quantity.toLocaleString(), fill.price.toFixed(2),
+        ]),
+      );
+    case 'marketData':
+      return fields([
+        ['Rule', `${evidence.rule.name} (${evidence.rule.id} v${evidence.rule.version})`],
+        ['Group overrides', evidence.rule.overriddenBy?.join(', ')],
+        ['Observed / Threshold', `${evidence.observedValue.toFixed(2)} ${evidence.rule.comparator} ${evidence.rule.threshold} ${evidence.rule.unit}`],
+        ['Quote', `${evidence.quote.price.toFixed(2)} (${evidence.quote.changePercent.toFixed(2)}%) vol ${evidence.quote.volume.toLocaleString()} at ${evidence.quote.timestamp}`],
+        ['Previous close', evidence.quote.previousClose?.toFixed(2)],
+        ['Session', evidence.session],
+        ['Volume z-score', evidence.baseline?.volume && `${evidence.baseline.volume.zScore.toFixed(2)} vs ${evidence.baseline.volume.bucket} bucket (mean ${Math.round(evidence.baseline.volume.mean).toLocaleString()}, std dev ${Math.round(evidence.baseline.volume.stdDev).toLocaleString()}, ${evidence.baseline.volume.days} days)`],
+        ['Price move z-score', evidence.baseline?.price && `${evidence.baseline.price.zScore.toFixed(2)} (${evidence.baseline.price.movePercent.toFixed(2)}% vs EWMA volatility ${evidence.baseline.price.volatilityPercent.toFixed(2)}% per bar)`],
+        ['Average volume', evidence.averageVolume?.toLocaleString()],
+        ['Trigger', `${evidence.trigger.price.toFixed(2)} at ${evidence.trigger.timestamp}`],
+        ...evidence.thresholds.map(marker => [`Threshold (${marker.axis})`, `${marker.label}: ${marker.value.toFixed(2)}`] as [string, unknown]),
+      ]) + table(
+        ['Time (UTC)', 'Price', 'Volume'],
+        evidence.bars.map(bar => [
+          new Date(bar.timestamp).toISOString().replace('T', ' ').slice(0, 16), bar.price.toFixed(2), bar.volume.toLocaleString(),
+        ]),
+      );
+  }
+}
+
+const REPORT_STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 20px; margin-bottom: 0; }
+  h2 { font-size: 14px; border-bottom: 1px solid #999; padding-bottom: 2px; margin-top: 1.5rem; }
+  .meta { color: #555; margin-top: 4px; }
+  dl { display: grid; grid-template-columns: 10rem 1fr; gap: 2px 1rem; margin: 0; }
+  dt { color: #555; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 0.5rem; }
+  th, td { border: 1px solid #ccc; padding: 3px 5px; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; }
+  p.text { white-space: pre-wrap; }
+  .hash { font-family: monospace; font-size: 10px; word-break: break-all; }
+  @page { margin: 15mm; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+// A self-contained HTML document laid out for printing; the browser's "Save as PDF" produces the case report
+export function buildCaseReportHtml(alert: ComplianceAlert, generatedBy: User | null, now: Date = new Date()): string {
+  const verification = verifyTimeline(alert.id, alert.timeline);
+  const closing = closingEvent(alert);
+
+  const sections = [
+    `<h1>Case Report: ${escapeHtml(alert.id)}</h1>`,
+    `<p class="meta">Generated ${escapeHtml(now.toISOString())}${generatedBy ? ` by ${escapeHtml(generatedBy.name)} (${escapeHtml(generatedBy.id)})` : ''}</p>`,
+    '<h2>Alert</h2>',
+    fields([
+      ['Type', alert.type],
+      ['Severity', alert.severity],
+      ['Status', alert.status],
+      ['Detected at', new Date(alert.timestamp).toISOString()],
+      ['Detected by', alert.detectedBy],
+      ['Rule', alert.ruleId],
+      ['Symbol', alert.symbol],
+      ['Occurrences', alert.occurrences && alert.occurrences > 1 ? `${alert.occurrences} (last ${alert.lastSeenAt})` : undefined],
+      ['Case', alert.caseId],
+      ['Assignee', alert.assignee],
+      ['Closed at', closing?.timestamp],
+      ['Dismissal reason', closing?.reasonCode ? dismissalReasonLabel(closing.reasonCode) : undefined],
+      ['Escalated to', [...alert.timeline].reverse().find(event => event.escalationTarget)?.escalationTarget],
+    ]),
+    '<h2>Description</h2>',
+    `<p class="text">${escapeHtml(alert.description)}</p>`,
+    '<h2>Trader</h2>',
+    fields([
+      ['Name', alert.trader.name],
+      ['Trader ID', alert.trader.id],
+      ['Firm', alert.trader.firm],
+      ['Email', alert.trader.email],
+      ['Registered', alert.trader.registrationDate],
+      ['Accounts', alert.trader.accounts?.join(', ')],
+    ]),
+  ];
+
+  if (alert.evidence) {
+    sections.push('<h2>Evidence</h2>', `<p class="text">${escapeHtml(alert.evidence.summary)}</p>`, evidenceSection(alert.evidence));
+  }
+
+  sections.push(
+    '<h2>Investigation Notes</h2>',
+    `<p class="text">${alert.investigationNotes ? escapeHtml(alert.investigationNotes) : '<em>None recorded.</em>'}</p>`,
+    '<h2>Timeline</h2>',
+    table(
+      ['Time (UTC)', 'Action', 'User', 'Notes'],
+      alert.timeline.map(event => [
+        new Date(event.timestamp).toISOString().replace('T', ' ').slice(0, 19),
+        event.action + (event.approvedBy ? ` (approved by ${event.approvedBy})` : ''),
+        event.user,
+        [event.notes, event.reasonCode && dismissalReasonLabel(event.reasonCode), event.escalationTarget && `To ${event.escalationTarget}`]
+          .filter(Boolean).join(' · '),
+      ]),
+    ),
+    '<h2>Audit Chain</h2>',
+    verification.valid
+      ? `<p>All ${alert.timeline.length} timeline events verified (${verification.algorithm}). Head hash:</p><p class="hash">${escapeHtml(verification.headHash)}</p>`
+      : `<p><strong>Verification failed:</strong></p><ul>${verification.issues.map(issue => `<li>${escapeHtml(issue.message)}</li>`).join('')}</ul>`,
+  );
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Case Report ${escapeHtml(alert.id)}</title>` +
+    `<style>${REPORT_STYLES}</style></head><body>${sections.join('\n')}</body></html>`;
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFetchScheduler } from './fetchScheduler';
+import { MarketDataProvider, ProviderThrottledError, RateLimit, StockData } from './marketDataProvider';
+
+const start = new Date('2025-03-03T15:00:00.000Z').getTime();
+
+const quote = (symbol: string): StockData =>
+  ({ symbol, price: 100, volume: 1000, change: 0, changePercent: 0, timestamp: new Date().toISOString() });
+
+// A provider whose getQuote fails with the queued errors first, then answers
+const fakeProvider = (rateLimit: RateLimit, errors: Error[] = []) => {
+  const getQuote = vi.fn(async (symbol: string) => {
+    const error = errors.shift();
+    if (error) throw error;
+    return quote(symbol);
+  });
+  const getIntraday = vi.fn(async () => [{ timestamp: new Date().toISOString(), price: 100, volume: 10 }]);
+  const provider: MarketDataProvider = {
+    kind: 'simulated',
+    name: 'Fake feed',
+    rateLimit,
+    getQuote,
+    getIntraday,
+    healthCheck: async () => ({ ok: true, message: 'ok' }),
+  };
+  return { provider, getQuote, getIntraday };
+};
+
+const symbolsOf = (quotes: StockData[]) => quotes.map(item => item.symbol);
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: start });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('fetchQuotes', () => {
+  it('answers repeat requests from the cache until the quote expires', async () => {
+    const { provider, getQuote } = fakeProvider({ requestsPerMinute: 60 });
+    const scheduler = createFetchScheduler(provider);
+
+    await scheduler.fetchQuotes(['AAPL'], Date.now());
+    await scheduler.fetchQuotes(['AAPL'], Date.now());
+    expect(getQuote).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(start + 31_000);
+    await scheduler.fetchQuotes(['AAPL'], Date.now());
+    expect(getQuote).toHaveBeenCalledTimes(2);
+  });
+
+  it('defers symbols the per-minute budget can\'t cover in time', async () => {
+    const { provider } = fakeProvider({ requestsPerMinute: 2 });
+    const scheduler = createFetchScheduler(provider);
+
+    const first = await scheduler.fetchQuotes(['AAPL', 'MSFT', 'TSLA'], Date.now());
+    expect(symbolsOf(first.quotes)).toEqual(['AAPL', 'MSFT']);
+    expect(first.deferred).toEqual(['TSLA']);
+
+    // One token refills every 30 seconds
+    vi.setSystemTime(start + 30_000);
+    const second = await scheduler.fetchQuotes(['TSLA'], Date.now());
+    expect(symbolsOf(second.quotes)).toEqual(['TSLA']);
+  });
+
+  it('stops at the daily allowance and starts over on the next UTC day', async () => {
+    const { provider } = fakeProvider({ requestsPerMinute: 60, requestsPerDay: 1 });
+    const scheduler = createFetchScheduler(provider, { day: '2025-03-03', requestsToday: 0 });
+
+    expect((await scheduler.fetchQuotes(['AAPL', 'MSFT'], Date.now())).deferred).toEqual(['MSFT']);
+    expect(scheduler.state.requestsToday).toBe(1);
+
+    vi.setSystemTime(new Date('2025-03-04T00:00:01.000Z'));
+    expect(symbolsOf((await scheduler.fetchQuotes(['MSFT'], Date.now())).quotes)).toEqual(['MSFT']);
+    expect(scheduler.state).toMatchObject({ day: '2025-03-04', requestsToday: 1 });
+  });
+
+  it('backs off exponentially while the provider is throttling', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { provider, getQuote } = fakeProvider({ requestsPerMinute: 60 }, [
+      new ProviderThrottledError('slow down'), new ProviderThrottledError('slow down'),
+    ]);
+    const scheduler = createFetchScheduler(provider);
+
+    expect(await scheduler.fetchQuotes(['AAPL', 'MSFT'], Date.now())).toEqual({ quotes: [], deferred: ['AAPL', 'MSFT'] });
+    expect(scheduler.state).toMatchObject({ throttleCount: 1, backoffUntil: start + 15_000 });
+
+    vi.setSystemTime(start + 10_000);
+    await scheduler.fetchQuotes(['AAPL'], Date.now());
+    expect(getQuote).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(start + 16_000);
+    await scheduler.fetchQuotes(['AAPL'], Date.now() + 60_000);
+    expect(scheduler.state).toMatchObject({ throttleCount: 2, backoffUntil: start + 16_000 + 30_000 });
+  });
+
+  it('skips a symbol whose request fails and carries on', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { provider } = fakeProvider({ requestsPerMinute: 60 }, [new Error('bad symbol')]);
+    const scheduler = createFetchScheduler(provider);
+
+    const first = await scheduler.fetchQuotes(['AAPL', 'MSFT'], Date.now());
+    expect(first).toMatchObject({ deferred: [] });
+    expect(symbolsOf(first.quotes)).toEqual(['MSFT']);
+    // Never answered, so it goes ahead of the freshly fetched MSFT next time
+    expect(scheduler.prioritize(['MSFT', 'AAPL'])).toEqual(['AAPL', 'MSFT']);
+  });
+});
+
+describe('prioritize', () => {
+  it('puts recently alerted symbols first, then the longest unrefreshed', () => {
+    const { provider } = fakeProvider({ requestsPerMinute: 60 });
+    const scheduler = createFetchScheduler(provider, { lastQuoteAt: { AAPL: start - 1000, MSFT: start - 5000 } });
+    scheduler.recordAlerts([
+      { symbol: 'TSLA', timestamp: new Date(start - 60_000).toISOString() },
+      { symbol: 'AMZN', timestamp: new Date(start - 2 * 60 * 60_000).toISOString() },
+    ]);
+
+    expect(scheduler.prioritize(['AAPL', 'MSFT', 'TSLA', 'AMZN'])).toEqual(['TSLA', 'AMZN', 'MSFT', 'AAPL']);
+  });
+});
+
+describe('refreshIntraday', () => {
+  it('only refreshes symbols whose bars have expired', async () => {
+    const { provider, getIntraday } = fakeProvider({ requestsPerMinute: 60 });
+    const scheduler = createFetchScheduler(provider, { lastIntradayAt: { AAPL: start - 60_000 } });
+
+    const refreshed = await scheduler.refreshIntraday(['AAPL', 'MSFT'], Date.now());
+    expect([...refreshed.keys()]).toEqual(['MSFT']);
+    expect(getIntraday).toHaveBeenCalledTimes(1);
+  });
+});
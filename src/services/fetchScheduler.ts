@@ -0,0 +1,210 @@
+import { IntradayBar, MarketDataProvider, ProviderKind, ProviderThrottledError, StockData } from './marketDataProvider';
+
+// What survives between cycles and restarts; the token bucket and response cache are rebuilt on start
+export interface SchedulerState {
+  // UTC day and the requests spent on it, against the provider's daily allowance
+  day: string;
+  requestsToday: number;
+  // Consecutive throttling responses, and when requests may resume (epoch ms)
+  throttleCount: number;
+  backoffUntil: number;
+  lastQuoteAt: Record<string, number>;
+  lastIntradayAt: Record<string, number>;
+  lastAlertAt: Record<string, number>;
+}
+
+export interface QuoteBatch {
+  quotes: StockData[];
+  // Symbols left for a later cycle because the budget ran out or the provider is backing off
+  deferred: string[];
+}
+
+export interface FetchScheduler {
+  provider: MarketDataProvider;
+  state: SchedulerState;
+  // Time for one token to refill, i.e. the steady-state gap between requests
+  requestIntervalMs: number;
+  prioritize(symbols: string[], now?: number): string[];
+  fetchQuotes(symbols: string[], waitUntil: number): Promise<QuoteBatch>;
+  // Refreshes intraday bars for the symbols whose cached bars have expired, most overdue first
+  refreshIntraday(symbols: string[], waitUntil: number): Promise<Map<string, IntradayBar[]>>;
+  recordAlerts(alerts: { symbol?: string; timestamp: string }[]): void;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_SECONDS = { quote: 30, intraday: 15 * 60 };
+const BACKOFF_BASE_MS = 15_000;
+const BACKOFF_MAX_MS = 15 * 60_000;
+// Symbols that alerted this recently are fetched ahead of the rest
+const PRIORITY_WINDOW_MS = 60 * 60_000;
+const SCHEDULER_STORAGE_KEY = 'fetchSchedulerState';
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createSchedulerState(now: number = Date.now()): SchedulerState {
+  return {
+    day: utcDay(now),
+    requestsToday: 0,
+    throttleCount: 0,
+    backoffUntil: 0,
+    lastQuoteAt: {},
+    lastIntradayAt: {},
+    lastAlertAt: {},
+  };
+}
+
+// Budget: a token bucket holding a minute's worth of requests, refilled continuously, plus the daily allowance.
+// Cached responses cost nothing. A throttling response drains the bucket and backs off exponentially.
+export function createFetchScheduler(
+  provider: MarketDataProvider,
+  initialState: Partial<SchedulerState> = {}
+): FetchScheduler {
+  const { requestsPerMinute, requestsPerDay } = provider.rateLimit;
+  const ttl = { ...DEFAULT_TTL_SECONDS, ...provider.cacheTtlSeconds };
+  const requestIntervalMs = 60_000 / requestsPerMinute;
+  const state: SchedulerState = { ...createSchedulerState(), ...initialState };
+  const cache = new Map<string, CacheEntry>();
+  let tokens = requestsPerMinute;
+  let refilledAt = Date.now();
+
+  const refill = (now: number) => {
+    tokens = Math.min(requestsPerMinute, tokens + (now - refilledAt) / requestIntervalMs);
+    refilledAt = now;
+    if (state.day !== utcDay(now)) {
+      state.day = utcDay(now);
+      state.requestsToday = 0;
+    }
+  };
+
+  // Resolves to undefined when the request can't be made before waitUntil
+  const request = async <T>(key: string, ttlSeconds: number, waitUntil: number, fetch: () => Promise<T>) => {
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { value: cached.value as T, cached: true };
+    }
+
+    refill(Date.now());
+    if (Date.now() < state.backoffUntil) return undefined;
+    if (requestsPerDay !== undefined && state.requestsToday >= requestsPerDay) return undefined;
+    if (tokens < 1) {
+      const waitMs = (1 - tokens) * requestIntervalMs;
+      if (Date.now() + waitMs > waitUntil) return undefined;
+      await sleep(waitMs);
+      refill(Date.now());
+    }
+    tokens -= 1;
+    state.requestsToday += 1;
+
+    try {
+      const value = await fetch();
+      state.throttleCount = 0;
+      if (ttlSeconds > 0 && value !== null) cache.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return { value, cached: false };
+    } catch (error) {
+      if (!(error instanceof ProviderThrottledError)) throw error;
+      state.throttleCount += 1;
+      const backoffMs = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (state.throttleCount - 1));
+      state.backoffUntil = Date.now() + backoffMs;
+      tokens = 0;
+      console.warn(`${provider.name} is throttling requests, backing off for ${Math.round(backoffMs / 1000)}s: ${error.message}`);
+      return undefined;
+    }
+  };
+
+  // Recent alerts first (newest first), then whatever has gone longest without a fresh response
+  const rank = (symbols: string[], lastFetchedAt: Record<string, number>, now: number) => {
+    const alertedAt = (symbol: string) => {
+      const at = state.lastAlertAt[symbol] ?? 0;
+      return now - at < PRIORITY_WINDOW_MS ? at : 0;
+    };
+    return [...symbols].sort((a, b) =>
+      alertedAt(b) - alertedAt(a) || (lastFetchedAt[a] ?? 0) - (lastFetchedAt[b] ?? 0)
+    );
+  };
+  const prioritize = (symbols: string[], now: number = Date.now()) => rank(symbols, state.lastQuoteAt, now);
+
+  return {
+    provider,
+    state,
+    requestIntervalMs,
+    prioritize,
+
+    async fetchQuotes(symbols, waitUntil) {
+      const quotes: StockData[] = [];
+      const ordered = prioritize(symbols);
+      for (let i = 0; i < ordered.length; i++) {
+        const symbol = ordered[i];
+        let result: { value: StockData | null; cached: boolean } | undefined;
+        try {
+          result = await request(`quote:${symbol}`, ttl.quote, waitUntil, () => provider.getQuote(symbol));
+        } catch (error) {
+          console.error(`Error fetching quote for ${symbol}:`, error);
+          continue;
+        }
+        if (!result) {
+          return { quotes, deferred: ordered.slice(i) };
+        }
+        if (!result.cached) state.lastQuoteAt[symbol] = Date.now();
+        if (result.value) quotes.push(result.value);
+      }
+      return { quotes, deferred: [] };
+    },
+
+    async refreshIntraday(symbols, waitUntil) {
+      const refreshed = new Map<string, IntradayBar[]>();
+      const now = Date.now();
+      const due = rank(symbols, state.lastIntradayAt, now)
+        .filter(symbol => now - (state.lastIntradayAt[symbol] ?? 0) >= ttl.intraday * 1000);
+      for (const symbol of due) {
+        let result: { value: IntradayBar[]; cached: boolean } | undefined;
+        try {
+          result = await request(`intraday:${symbol}`, ttl.intraday, waitUntil, () => provider.getIntraday(symbol));
+        } catch (error) {
+          console.error(`Error fetching intraday data for ${symbol}:`, error);
+          continue;
+        }
+        if (!result) break;
+        state.lastIntradayAt[symbol] = Date.now();
+        refreshed.set(symbol, result.value);
+      }
+      return refreshed;
+    },
+
+    recordAlerts(alerts) {
+      alerts.forEach(alert => {
+        if (!alert.symbol) return;
+        const at = new Date(alert.timestamp).getTime();
+        if (at > (state.lastAlertAt[alert.symbol] ?? 0)) state.lastAlertAt[alert.symbol] = at;
+      });
+    },
+  };
+}
+
+// The browser keeps one state per provider kind, so the daily allowance survives reloads
+export function loadSchedulerState(kind: ProviderKind): Partial<SchedulerState> {
+  const stored = localStorage.getItem(SCHEDULER_STORAGE_KEY);
+  if (!stored) return {};
+
+  try {
+    const byKind: Partial<Record<ProviderKind, Partial<SchedulerState>>> = JSON.parse(stored);
+    return byKind[kind] || {};
+  } catch (error) {
+    console.error('Stored fetch scheduler state is corrupt, starting fresh:', error);
+    return {};
+  }
+}
+
+export function saveSchedulerState(kind: ProviderKind, state: SchedulerState): void {
+  let byKind: Partial<Record<ProviderKind, SchedulerState>> = {};
+  try {
+    byKind = JSON.parse(localStorage.getItem(SCHEDULER_STORAGE_KEY) || '{}');
+  } catch {
+    // Overwritten below
+  }
+  localStorage.setItem(SCHEDULER_STORAGE_KEY, JSON.stringify({ ...byKind, [kind]: state }));
+}
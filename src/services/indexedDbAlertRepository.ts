@@ -0,0 +1,147 @@
+import { Case, ComplianceAlert } from '../types';
+import {
+  AlertRecord, AlertRepository, assertAppendOnly, joinAlert, NotesRecord, splitAlert, TimelineRecord,
+  assertCaseAppendOnly, appendedEvents,
+} from './alertRepository';
+
+const DB_NAME = 'compliance-alerts';
+
+// Each entry upgrades the schema by one version; never edit a released migration, append a new one
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: alerts, their timelines and notes, plus key/value metadata
+  (db) => {
+    db.createObjectStore('alerts', { keyPath: 'id' });
+    // Event ids are only unique within an alert
+    const timeline = db.createObjectStore('timeline', { keyPath: ['alertId', 'id'] });
+    timeline.createIndex('alertId', 'alertId');
+    db.createObjectStore('notes', { keyPath: 'alertId' });
+    db.createObjectStore('meta');
+  },
+  // v2: look alerts up by status without loading everything
+  (_db, transaction) => {
+    transaction.objectStore('alerts').createIndex('status', 'status');
+  },
+  // v3: cases grouping related alerts
+  (db) => {
+    db.createObjectStore('cases', { keyPath: 'id' });
+  },
+];
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = factory.open(DB_NAME, MIGRATIONS.length);
+    req.onupgradeneeded = (event) => {
+      const transaction = req.transaction!;
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](req.result, transaction);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function openIndexedDbAlertRepository(
+  factory: IDBFactory = indexedDB
+): Promise<AlertRepository> {
+  const db = await openDatabase(factory);
+
+  const readAlert = async (transaction: IDBTransaction, record: AlertRecord): Promise<ComplianceAlert> => {
+    const timeline = await request<TimelineRecord[]>(
+      transaction.objectStore('timeline').index('alertId').getAll(record.id)
+    );
+    const notes = await request<NotesRecord | undefined>(transaction.objectStore('notes').get(record.id));
+    return joinAlert(record, timeline, notes);
+  };
+
+  return {
+    async listAlerts() {
+      const transaction = db.transaction(['alerts', 'timeline', 'notes'], 'readonly');
+      const records = await request<AlertRecord[]>(transaction.objectStore('alerts').getAll());
+      return Promise.all(records.map(record => readAlert(transaction, record)));
+    },
+
+    async getAlert(id: string) {
+      const transaction = db.transaction(['alerts', 'timeline', 'notes'], 'readonly');
+      const record = await request<AlertRecord | undefined>(transaction.objectStore('alerts').get(id));
+      return record ? readAlert(transaction, record) : null;
+    },
+
+    async saveAlerts(alerts: ComplianceAlert[]) {
+      const transaction = db.transaction(['alerts', 'timeline', 'notes'], 'readwrite');
+      const done = transactionDone(transaction);
+      try {
+        for (const alert of alerts) {
+          const { record, timeline, notes } = splitAlert(alert);
+          const stored = await request<TimelineRecord[]>(
+            transaction.objectStore('timeline').index('alertId').getAll(alert.id)
+          );
+          assertAppendOnly(alert.id, stored, timeline);
+          transaction.objectStore('alerts').put(record);
+          // add, not put: an event id that is already stored fails the save instead of overwriting history
+          appendedEvents(alert.id, stored, timeline).forEach(event => transaction.objectStore('timeline').add(event));
+          transaction.objectStore('notes').put(notes);
+        }
+      } catch (error) {
+        transaction.abort();
+        done.catch(() => undefined);
+        throw error;
+      }
+      await done;
+    },
+
+    async listCases() {
+      const transaction = db.transaction('cases', 'readonly');
+      return request<Case[]>(transaction.objectStore('cases').getAll());
+    },
+
+    async getCase(id: string) {
+      const transaction = db.transaction('cases', 'readonly');
+      return (await request<Case | undefined>(transaction.objectStore('cases').get(id))) ?? null;
+    },
+
+    async saveCases(cases: Case[]) {
+      const transaction = db.transaction('cases', 'readwrite');
+      const done = transactionDone(transaction);
+      try {
+        for (const caseRecord of cases) {
+          const stored = await request<Case | undefined>(transaction.objectStore('cases').get(caseRecord.id));
+          assertCaseAppendOnly(stored, caseRecord);
+          transaction.objectStore('cases').put(caseRecord);
+        }
+      } catch (error) {
+        transaction.abort();
+        done.catch(() => undefined);
+        throw error;
+      }
+      await done;
+    },
+
+    async getMeta(key: string) {
+      const transaction = db.transaction('meta', 'readonly');
+      const value = await request<string | undefined>(transaction.objectStore('meta').get(key));
+      return value ?? null;
+    },
+
+    async setMeta(key: string, value: string) {
+      const transaction = db.transaction('meta', 'readwrite');
+      transaction.objectStore('meta').put(value, key);
+      await transactionDone(transaction);
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CorporateEvent, OrderEvent, Position } from '../types';
+import { detectInsiderTrading } from './insiderDetector';
+import { DEFAULT_WATCHLIST, Watchlist } from './watchlist';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const earnings: CorporateEvent = { id: 'EV-1', symbol: 'AAPL', type: 'earnings', timestamp: '2025-03-10T12:00:00.000Z', title: 'Q1 results' };
+const eventAt = new Date(earnings.timestamp).getTime();
+const afterEvent = new Date(eventAt + 10 * DAY_MS);
+
+let sequence = 0;
+// A fill `daysBefore` days ahead of the earnings release
+const fill = (daysBefore: number, quantity: number, side: OrderEvent['side'] = 'buy', account = 'ACC-1'): OrderEvent => ({
+  id: `F${++sequence}`,
+  orderId: `O${sequence}`,
+  type: 'fill',
+  timestamp: new Date(eventAt - daysBefore * DAY_MS).toISOString(),
+  account,
+  symbol: 'AAPL',
+  side,
+  quantity,
+  price: 100,
+});
+
+const restricted: Watchlist = {
+  ...DEFAULT_WATCHLIST,
+  groups: [{ id: 'g1', name: 'Deal team', kind: 'restricted', symbols: ['AAPL'], ruleOverrides: [] }],
+};
+
+const detect = (fills: OrderEvent[], positions: Position[] = [], now = afterEvent, watchlist = DEFAULT_WATCHLIST) =>
+  detectInsiderTrading([earnings], fills, positions, watchlist, undefined, undefined, now);
+
+describe('detectInsiderTrading', () => {
+  it('flags an account that starts trading the symbol just before the event', () => {
+    const [alert] = detect([fill(2, 600), fill(1, 400)]);
+
+    expect(alert).toMatchObject({ type: 'Insider Trading', severity: 'High', symbol: 'AAPL', timestamp: '2025-03-09T12:00:00.000Z' });
+    expect(alert.description).toContain('account ACC-1 traded $100,000 (net bought 1,000 shares) in the 5 days before earnings "Q1 results"');
+    expect(alert.description).toContain('no trading in the prior 60 days');
+    expect(alert.evidence).toMatchObject({ kind: 'insider', account: 'ACC-1', notional: 100000, netQuantity: 1000 });
+  });
+
+  it('leaves trading in line with the account\'s usual activity alone', () => {
+    // $1.2M over the 60 baseline days is a typical $100k per 5 days
+    const usual = Array.from({ length: 12 }, (_, index) => fill(10 + index * 4, 1000));
+    expect(detect([...usual, fill(2, 2000)])).toEqual([]);
+    expect(detect([...usual, fill(2, 4000)])[0].description).toContain('4.0x its typical $100,000');
+  });
+
+  it('ignores small trades and trading after the event, except in restricted symbols', () => {
+    expect(detect([fill(2, 100), fill(-1, 5000)])).toEqual([]);
+
+    const [alert] = detect([fill(2, 100)], [], afterEvent, restricted);
+    expect(alert.severity).toBe('Critical');
+    expect(alert.description).toContain('AAPL is on the restricted list (Deal team)');
+  });
+
+  it('flags large positions only while the event is still ahead', () => {
+    const position: Position = { account: 'ACC-2', symbol: 'AAPL', quantity: -5000, price: 100 };
+    const beforeEvent = new Date(eventAt - 2 * DAY_MS);
+
+    const [alert] = detect([], [position], beforeEvent);
+    expect(alert).toMatchObject({ severity: 'Medium', timestamp: beforeEvent.toISOString() });
+    expect(alert.description).toContain('account ACC-2 holds -5,000 shares ($500,000) going into earnings');
+
+    expect(detect([], [position], afterEvent)).toEqual([]);
+    expect(detect([], [position], new Date(eventAt - 30 * DAY_MS))).toEqual([]);
+  });
+
+  it('is Critical at the critical notional and reports each account separately', () => {
+    const alerts = detect([fill(1, 12000), fill(1, 800, 'sell', 'ACC-3')]);
+
+    expect(alerts.map(alert => [alert.evidence?.kind === 'insider' && alert.evidence.account, alert.severity])).toEqual([
+      ['ACC-1', 'Critical'],
+      ['ACC-3', 'High'],
+    ]);
+    expect(alerts[1].description).toContain('net sold 800 shares');
+  });
+});
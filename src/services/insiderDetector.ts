@@ -0,0 +1,170 @@
+import { ComplianceAlert, CorporateEvent, OrderEvent, Position, Severity } from '../types';
+import { createAlertId } from './alertGenerator';
+import { CORPORATE_EVENT_LABELS } from './corporateEvents';
+import { EMPTY_REGISTRY, resolveTraderForAccount, TraderRegistry } from './traderRegistry';
+import { groupsForSymbol, Watchlist } from './watchlist';
+import { createTimelineEventId } from './auditChain';
+
+export interface InsiderTradingConfig {
+  // Days before an event in which trading counts as pre-event activity
+  lookbackDays: number;
+  // Days before that window used to judge how much the account normally trades the symbol
+  baselineDays: number;
+  // Pre-event notional above this multiple of the account's typical notional is abnormal
+  abnormalMultiple: number;
+  // Smaller pre-event activity is ignored, except in restricted symbols
+  minNotional: number;
+  // Positions at least this large going into an upcoming event are flagged
+  minPositionNotional: number;
+  // Activity or positions of at least this notional are Critical
+  criticalNotional: number;
+}
+
+export const DEFAULT_INSIDER_TRADING_CONFIG: InsiderTradingConfig = {
+  lookbackDays: 5,
+  baselineDays: 60,
+  abnormalMultiple: 3,
+  minNotional: 50000,
+  minPositionNotional: 250000,
+  criticalNotional: 1000000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONFIG_STORAGE_KEY = 'insiderTradingConfig';
+
+const time = (item: { timestamp: string }) => new Date(item.timestamp).getTime();
+const notionalOf = (fills: OrderEvent[]) => fills.reduce((sum, fill) => sum + fill.quantity * fill.price, 0);
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+export function restrictedGroupsFor(watchlist: Watchlist, symbol: string): string[] {
+  return groupsForSymbol(watchlist, symbol).filter(group => group.kind === 'restricted').map(group => group.name);
+}
+
+// One alert per event and account. Trading is judged for past and upcoming events alike; positions only while the
+// event is still ahead, since the snapshot shows what is held now. Any pre-event activity in a symbol on a
+// restricted list is flagged.
+export function detectInsiderTrading(
+  corporateEvents: CorporateEvent[],
+  orderEvents: OrderEvent[],
+  positions: Position[],
+  watchlist: Watchlist,
+  config: InsiderTradingConfig = DEFAULT_INSIDER_TRADING_CONFIG,
+  traders: TraderRegistry = EMPTY_REGISTRY,
+  now: Date = new Date()
+): ComplianceAlert[] {
+  const { lookbackDays, baselineDays, abnormalMultiple, minNotional, minPositionNotional, criticalNotional } = config;
+  const fills = orderEvents.filter(event => event.type === 'fill');
+  const alerts: ComplianceAlert[] = [];
+
+  corporateEvents.forEach(event => {
+    const eventAt = time(event);
+    const windowStart = eventAt - lookbackDays * DAY_MS;
+    const baselineStart = windowStart - baselineDays * DAY_MS;
+    const restrictedBy = restrictedGroupsFor(watchlist, event.symbol);
+    const isRestricted = restrictedBy.length > 0;
+
+    const symbolFills = fills
+      .filter(fill => fill.symbol === event.symbol && time(fill) >= baselineStart && time(fill) < eventAt)
+      .sort((a, b) => time(a) - time(b));
+    const isUpcoming = now.getTime() >= windowStart && now.getTime() < eventAt;
+    const heldPositions = isUpcoming
+      ? positions.filter(position => position.symbol === event.symbol && position.quantity !== 0)
+      : [];
+    const accounts = new Set([...symbolFills, ...heldPositions].map(item => item.account));
+
+    accounts.forEach(account => {
+      const accountFills = symbolFills.filter(fill => fill.account === account);
+      const windowFills = accountFills.filter(fill => time(fill) >= windowStart);
+      const notional = notionalOf(windowFills);
+      const typicalNotional = baselineDays > 0
+        ? notionalOf(accountFills.filter(fill => time(fill) < windowStart)) * lookbackDays / baselineDays
+        : 0;
+      const netQuantity = windowFills.reduce((sum, fill) => sum + (fill.side === 'buy' ? fill.quantity : -fill.quantity), 0);
+      const position = heldPositions.find(held => held.account === account);
+      const positionNotional = position ? Math.abs(position.quantity * position.price) : 0;
+
+      const abnormalTrading = windowFills.length > 0 &&
+        (isRestricted || (notional >= minNotional && notional > abnormalMultiple * typicalNotional));
+      const abnormalPosition = !!position && (isRestricted || positionNotional >= minPositionNotional);
+      if (!abnormalTrading && !abnormalPosition) return;
+
+      let severity: Severity = abnormalTrading ? 'High' : 'Medium';
+      if (isRestricted || Math.max(notional, positionNotional) >= criticalNotional) severity = 'Critical';
+
+      const eventText = `${CORPORATE_EVENT_LABELS[event.type].toLowerCase()} "${event.title}" on ${event.timestamp.slice(0, 10)}`;
+      const findings: string[] = [];
+      if (abnormalTrading) {
+        const direction = netQuantity >= 0 ? 'net bought' : 'net sold';
+        const comparison = typicalNotional > 0
+          ? `${(notional / typicalNotional).toFixed(1)}x its typical ${formatUsd(typicalNotional)}`
+          : `no trading in the prior ${baselineDays} days`;
+        findings.push(
+          `account ${account} traded ${formatUsd(notional)} (${direction} ${Math.abs(netQuantity).toLocaleString()} shares) ` +
+          `in the ${lookbackDays} days before ${eventText}, ${comparison}`
+        );
+      }
+      if (abnormalPosition && position) {
+        findings.push(
+          `${abnormalTrading ? 'it' : `account ${account}`} holds ${position.quantity.toLocaleString()} shares ` +
+          `(${formatUsd(positionNotional)}) going into ${abnormalTrading ? 'the event' : eventText}`
+        );
+      }
+      const summary = `Possible insider trading: ${findings.join('; ')}` +
+        (isRestricted ? ` - ${event.symbol} is on the restricted list (${restrictedBy.join(', ')})` : '');
+
+      const timestamp = windowFills.length > 0 ? windowFills[windowFills.length - 1].timestamp : now.toISOString();
+      alerts.push({
+        id: createAlertId(`INSIDER-${event.symbol}`),
+        type: 'Insider Trading',
+        severity,
+        status: 'New',
+        trader: resolveTraderForAccount(traders, account),
+        timestamp,
+        description: `${event.symbol}: ${summary}`,
+        symbol: event.symbol,
+        detectedBy: 'Insider Trading Detector',
+        investigationNotes: '',
+        timeline: [
+          {
+            id: createTimelineEventId(),
+            timestamp,
+            action: 'Alert Created',
+            user: 'Automated System',
+            notes: `Detected from ${windowFills.length} executions before corporate event ${event.id}`,
+          },
+        ],
+        evidence: {
+          kind: 'insider',
+          summary,
+          event,
+          account,
+          lookbackDays,
+          restrictedBy: isRestricted ? restrictedBy : undefined,
+          fills: windowFills,
+          notional,
+          netQuantity,
+          typicalNotional,
+          position,
+        },
+      });
+    });
+  });
+
+  return alerts;
+}
+
+export function loadInsiderTradingConfig(): InsiderTradingConfig {
+  const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+  if (!stored) return DEFAULT_INSIDER_TRADING_CONFIG;
+
+  try {
+    return { ...DEFAULT_INSIDER_TRADING_CONFIG, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Stored insider trading config is corrupt, falling back to defaults:', error);
+    return DEFAULT_INSIDER_TRADING_CONFIG;
+  }
+}
+
+export function saveInsiderTradingConfig(config: InsiderTradingConfig): void {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+}
@@ -0,0 +1,128 @@
+import { createAlphaVantageProvider } from './alphaVantage';
+import { createReplayProvider, MarketRecording } from './replayProvider';
+import { createSimulatedProvider } from './simulatedProvider';
+
+export interface StockData {
+  symbol: string;
+  price: number;
+  volume: number;
+  change: number;
+  changePercent: number;
+  timestamp: string;
+  previousClose?: number;
+  averageVolume?: number;
+  // Exchange-local date of a daily quote that carries no time of its own; timestamp is then the fetch time
+  // until the detection cycle, which knows the symbol's venue, places it in that day's session
+  tradingDay?: string;
+}
+
+export interface IntradayBar {
+  price: number;
+  volume: number;
+  timestamp: string;
+}
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  requestsPerDay?: number;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  message: string;
+}
+
+export type ProviderKind = 'alphaVantage' | 'simulated' | 'replay';
+
+// Thrown when the provider refuses a request for exceeding its rate limit, so callers can back off
+export class ProviderThrottledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderThrottledError';
+  }
+}
+
+export interface MarketDataProvider {
+  kind: ProviderKind;
+  name: string;
+  rateLimit: RateLimit;
+  // How long responses stay fresh; the fetch scheduler's defaults apply to anything left out
+  cacheTtlSeconds?: { quote?: number; intraday?: number };
+  // Symbols the provider can serve on its own (e.g. the ones present in a recording)
+  defaultSymbols?: string[];
+  getQuote(symbol: string): Promise<StockData | null>;
+  getIntraday(symbol: string): Promise<IntradayBar[]>;
+  healthCheck(): Promise<ProviderHealth>;
+}
+
+export type ProviderSettings =
+  | { kind: 'alphaVantage'; apiKey: string }
+  | { kind: 'simulated'; seed: number }
+  | { kind: 'replay'; recording: MarketRecording | null };
+
+const PROVIDER_KIND_KEY = 'marketDataProvider';
+const API_KEY_KEY = 'alphaVantageApiKey';
+const SIMULATION_SEED_KEY = 'simulationSeed';
+const REPLAY_RECORDING_KEY = 'replayRecording';
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  alphaVantage: 'Alpha Vantage (live)',
+  simulated: 'Simulated feed',
+  replay: 'Recorded file (replay)',
+};
+
+export function createMarketDataProvider(settings: ProviderSettings): MarketDataProvider | null {
+  switch (settings.kind) {
+    case 'alphaVantage':
+      return settings.apiKey ? createAlphaVantageProvider(settings.apiKey) : null;
+    case 'simulated':
+      return createSimulatedProvider(settings.seed);
+    case 'replay':
+      return settings.recording ? createReplayProvider(settings.recording) : null;
+  }
+}
+
+export function loadProviderSettings(): ProviderSettings {
+  const kind = (localStorage.getItem(PROVIDER_KIND_KEY) as ProviderKind | null) || 'alphaVantage';
+
+  if (kind === 'simulated') {
+    const seed = parseInt(localStorage.getItem(SIMULATION_SEED_KEY) || '', 10);
+    return { kind, seed: isNaN(seed) ? 42 : seed };
+  }
+
+  if (kind === 'replay') {
+    const stored = localStorage.getItem(REPLAY_RECORDING_KEY);
+    try {
+      return { kind, recording: stored ? JSON.parse(stored) : null };
+    } catch (error) {
+      console.error('Stored replay recording is corrupt:', error);
+      return { kind, recording: null };
+    }
+  }
+
+  return { kind: 'alphaVantage', apiKey: localStorage.getItem(API_KEY_KEY) || '' };
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(PROVIDER_KIND_KEY, settings.kind);
+
+  switch (settings.kind) {
+    case 'alphaVantage':
+      if (settings.apiKey) {
+        localStorage.setItem(API_KEY_KEY, settings.apiKey);
+      } else {
+        localStorage.removeItem(API_KEY_KEY);
+      }
+      break;
+    case 'simulated':
+      localStorage.setItem(SIMULATION_SEED_KEY, String(settings.seed));
+      break;
+    case 'replay':
+      if (settings.recording) {
+        localStorage.setItem(REPLAY_RECORDING_KEY, JSON.stringify(settings.recording));
+      } else {
+        localStorage.removeItem(REPLAY_RECORDING_KEY);
+      }
+      break;
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { OrderEvent } from '../types';
+import {
+  DEFAULT_ORDER_DETECTION_CONFIG, detectLayering, detectSpoofing, detectWashTrades, runOrderDetectors,
+} from './orderDetectors';
+import { TraderRegistry } from './traderRegistry';
+
+const config = DEFAULT_ORDER_DETECTION_CONFIG;
+const start = new Date('2025-03-03T15:00:00.000Z').getTime();
+
+let sequence = 0;
+// An order event `ms` milliseconds into the test session
+const event = (
+  ms: number,
+  type: OrderEvent['type'],
+  orderId: string,
+  side: OrderEvent['side'],
+  quantity: number,
+  price = 100,
+  account = 'ACC-1'
+): OrderEvent => ({
+  id: `E${++sequence}`, orderId, type, timestamp: new Date(start + ms).toISOString(), account, symbol: 'AAPL', side, quantity, price,
+});
+
+const registry: TraderRegistry = {
+  traders: [{ id: 'T1', name: 'Pat Trader', email: '', firm: 'Example Securities', registrationDate: '', accounts: ['ACC-1', 'ACC-2'] }],
+};
+
+describe('detectWashTrades', () => {
+  it('pairs buys and sells between one owner\'s accounts into one alert per scheme', () => {
+    const alerts = detectWashTrades([
+      event(0, 'fill', 'B1', 'buy', 1000, 100, 'ACC-1'),
+      event(1000, 'fill', 'S1', 'sell', 1000, 100.05, 'ACC-2'),
+      event(2000, 'fill', 'B2', 'buy', 1000, 100, 'ACC-1'),
+      event(3000, 'fill', 'S2', 'sell', 1000, 100, 'ACC-2'),
+    ], config, registry);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ type: 'Wash Trading', severity: 'Medium', symbol: 'AAPL', trader: { id: 'T1' } });
+    expect(alerts[0].description).toContain('2 matching buy/sell execution pairs between related accounts ACC-1 and ACC-2');
+  });
+
+  it('ignores unrelated accounts, late matches and prices outside the tolerance', () => {
+    expect(detectWashTrades([
+      event(0, 'fill', 'B1', 'buy', 1000, 100, 'ACC-1'),
+      event(1000, 'fill', 'S1', 'sell', 1000, 100, 'ACC-9'),
+      event(0, 'fill', 'B2', 'buy', 1000, 100, 'ACC-1'),
+      event(120000, 'fill', 'S2', 'sell', 1000, 100, 'ACC-1'),
+      event(0, 'fill', 'B3', 'buy', 1000, 100, 'ACC-1'),
+      event(1000, 'fill', 'S3', 'sell', 1000, 101, 'ACC-1'),
+    ], config)).toEqual([]);
+  });
+
+  it('treats configured account groups as related and grades by notional', () => {
+    const grouped = { ...config, washTrading: { ...config.washTrading, relatedAccounts: [['ACC-7', 'ACC-8']] } };
+    const [alert] = detectWashTrades([
+      event(0, 'fill', 'B1', 'buy', 20000, 100, 'ACC-7'),
+      event(500, 'fill', 'S1', 'sell', 20000, 100, 'ACC-8'),
+    ], grouped);
+
+    expect(alert.severity).toBe('Critical');
+    expect(alert.trader.id).toBe('unattributed:ACC-7');
+  });
+});
+
+describe('detectSpoofing', () => {
+  it('flags large orders cancelled quickly without trading', () => {
+    const [alert] = detectSpoofing([event(0, 'new', 'O1', 'buy', 50000), event(800, 'cancel', 'O1', 'buy', 50000)], config);
+
+    expect(alert).toMatchObject({ type: 'Spoofing', severity: 'High' });
+    expect(alert.description).toContain('buy order for 50,000 shares cancelled after 800 ms');
+  });
+
+  it('is Critical when the account traded the other side while the order rested', () => {
+    const [alert] = detectSpoofing([
+      event(0, 'new', 'O1', 'buy', 50000),
+      event(300, 'fill', 'S1', 'sell', 2000),
+      event(800, 'cancel', 'O1', 'buy', 50000),
+    ], config);
+
+    expect(alert.severity).toBe('Critical');
+    expect(alert.description).toContain('while the account sold 2,000 shares');
+    expect(alert.evidence).toMatchObject({ kind: 'orders' });
+  });
+
+  it('ignores small orders, slow cancels and orders that traded', () => {
+    expect(detectSpoofing([
+      event(0, 'new', 'O1', 'buy', 500),
+      event(100, 'cancel', 'O1', 'buy', 500),
+      event(0, 'new', 'O2', 'buy', 50000),
+      event(5000, 'cancel', 'O2', 'buy', 50000),
+      event(0, 'new', 'O3', 'buy', 50000),
+      event(100, 'fill', 'O3', 'buy', 100),
+      event(200, 'cancel', 'O3', 'buy', 49900),
+    ], config)).toEqual([]);
+  });
+});
+
+describe('detectLayering', () => {
+  // Three resting sell orders at different prices, an opposite-side buy, then the layers are pulled
+  const layers = [
+    event(0, 'new', 'L1', 'sell', 20000, 101),
+    event(100, 'new', 'L2', 'sell', 20000, 102),
+    event(200, 'new', 'L3', 'sell', 20000, 103),
+    event(600, 'fill', 'B1', 'buy', 5000, 100),
+    event(900, 'cancel', 'L1', 'sell', 20000, 101),
+    event(1000, 'cancel', 'L2', 'sell', 20000, 102),
+    event(1100, 'cancel', 'L3', 'sell', 20000, 103),
+  ];
+
+  it('flags orders on several price levels pulled after an opposite-side execution', () => {
+    const [alert] = detectLayering(layers, config);
+
+    expect(alert).toMatchObject({ type: 'Spoofing', severity: 'High' });
+    expect(alert.id).toContain('LAYER-AAPL');
+    expect(alert.description).toContain('3 sell orders across 3 price levels (60,000 shares)');
+  });
+
+  it('needs the execution to land while enough levels still rest', () => {
+    const pulledEarly = layers.map(e => (e.orderId === 'L1' && e.type === 'cancel' ? { ...e, timestamp: new Date(start + 400).toISOString() } : e));
+    expect(detectLayering(pulledEarly, config)).toEqual([]);
+  });
+
+  it('reports layered orders once, as layering rather than spoofing', () => {
+    const alerts = runOrderDetectors(layers, config);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].description).toContain('Possible layering');
+  });
+});
@@ -0,0 +1,326 @@
+import { AlertType, ComplianceAlert, OrderEvent, Severity } from '../types';
+import { createAlertId } from './alertGenerator';
+import { EMPTY_REGISTRY, findTraderByAccount, resolveTraderForAccount, TraderRegistry } from './traderRegistry';
+import { createTimelineEventId } from './auditChain';
+
+export interface WashTradeConfig {
+  // Groups of accounts under common beneficial ownership; an account always counts as related to itself,
+  // and accounts of the same registered trader are always related to each other
+  relatedAccounts: string[][];
+  windowMs: number;
+  priceTolerancePercent: number;
+}
+
+export interface SpoofingConfig {
+  minQuantity: number;
+  maxLifetimeMs: number;
+}
+
+export interface LayeringConfig {
+  minLevels: number;
+  windowMs: number;
+}
+
+export interface OrderDetectionConfig {
+  washTrading: WashTradeConfig;
+  spoofing: SpoofingConfig;
+  layering: LayeringConfig;
+  // Matched notional at or above this is Critical; above a quarter of it, High
+  criticalNotional: number;
+}
+
+export const DEFAULT_ORDER_DETECTION_CONFIG: OrderDetectionConfig = {
+  washTrading: { relatedAccounts: [], windowMs: 60000, priceTolerancePercent: 0.1 },
+  spoofing: { minQuantity: 10000, maxLifetimeMs: 2000 },
+  layering: { minLevels: 3, windowMs: 10000 },
+  criticalNotional: 1000000,
+};
+
+interface OrderSummary {
+  orderId: string;
+  account: string;
+  symbol: string;
+  side: OrderEvent['side'];
+  placed?: OrderEvent;
+  cancelled?: OrderEvent;
+  fills: OrderEvent[];
+}
+
+const time = (event: OrderEvent) => new Date(event.timestamp).getTime();
+
+function summarizeOrders(events: OrderEvent[]): OrderSummary[] {
+  const orders = new Map<string, OrderSummary>();
+  events.forEach(event => {
+    const order = orders.get(event.orderId) || {
+      orderId: event.orderId,
+      account: event.account,
+      symbol: event.symbol,
+      side: event.side,
+      fills: [],
+    };
+    if (event.type === 'new') order.placed = event;
+    if (event.type === 'cancel') order.cancelled = event;
+    if (event.type === 'fill') order.fills.push(event);
+    orders.set(event.orderId, order);
+  });
+  return [...orders.values()];
+}
+
+function notionalSeverity(notional: number, config: OrderDetectionConfig): Severity {
+  if (notional >= config.criticalNotional) return 'Critical';
+  if (notional >= config.criticalNotional / 4) return 'High';
+  return 'Medium';
+}
+
+function createOrderAlert(
+  traders: TraderRegistry,
+  type: AlertType,
+  // Alert id prefix, so layering can be told apart from plain spoofing at a glance
+  tag: 'WASH' | 'SPOOF' | 'LAYER',
+  severity: Severity,
+  account: string,
+  symbol: string,
+  description: string,
+  events: OrderEvent[]
+): ComplianceAlert {
+  const sorted = [...events].sort((a, b) => time(a) - time(b));
+  const timestamp = sorted[sorted.length - 1].timestamp;
+
+  return {
+    id: createAlertId(`${tag}-${symbol}`),
+    type,
+    severity,
+    status: 'New',
+    trader: resolveTraderForAccount(traders, account),
+    timestamp,
+    description: `${symbol}: ${description}`,
+    symbol,
+    detectedBy: 'Order Surveillance Engine',
+    investigationNotes: '',
+    timeline: [
+      {
+        id: createTimelineEventId(),
+        timestamp,
+        action: 'Alert Created',
+        user: 'Automated System',
+        notes: `Detected from ${sorted.length} order/execution events`,
+      },
+    ],
+    evidence: { kind: 'orders', summary: description, events: sorted },
+  };
+}
+
+export function detectWashTrades(
+  events: OrderEvent[],
+  config: OrderDetectionConfig,
+  traders: TraderRegistry = EMPTY_REGISTRY
+): ComplianceAlert[] {
+  const { relatedAccounts, windowMs, priceTolerancePercent } = config.washTrading;
+  const groupOf = new Map<string, number>();
+  relatedAccounts.forEach((group, index) => group.forEach(account => groupOf.set(account, index)));
+  const ownerOf = (account: string) => findTraderByAccount(traders, account)?.id;
+  const related = (a: string, b: string) =>
+    a === b ||
+    (groupOf.has(a) && groupOf.get(a) === groupOf.get(b)) ||
+    (ownerOf(a) !== undefined && ownerOf(a) === ownerOf(b));
+
+  const fills = events.filter(e => e.type === 'fill');
+  const buys = fills.filter(e => e.side === 'buy');
+  const sells = fills.filter(e => e.side === 'sell');
+  const matchedSells = new Set<string>();
+
+  // Pairs are grouped per symbol and account pair so one scheme raises one alert
+  const groups = new Map<string, { accounts: string[]; symbol: string; events: OrderEvent[]; notional: number }>();
+
+  buys.forEach(buy => {
+    const sell = sells.find(candidate =>
+      !matchedSells.has(candidate.id) &&
+      candidate.symbol === buy.symbol &&
+      candidate.orderId !== buy.orderId &&
+      related(buy.account, candidate.account) &&
+      Math.abs(time(candidate) - time(buy)) <= windowMs &&
+      Math.abs(candidate.price - buy.price) / buy.price * 100 <= priceTolerancePercent
+    );
+    if (!sell) return;
+
+    matchedSells.add(sell.id);
+    const accounts = [buy.account, sell.account].sort();
+    const key = `${buy.symbol}|${accounts.join('|')}`;
+    const group = groups.get(key) || { accounts, symbol: buy.symbol, events: [], notional: 0 };
+    group.events.push(buy, sell);
+    group.notional += Math.min(buy.quantity, sell.quantity) * buy.price;
+    groups.set(key, group);
+  });
+
+  return [...groups.values()].map(group => {
+    const pairs = group.events.length / 2;
+    const accountText = group.accounts[0] === group.accounts[1]
+      ? `account ${group.accounts[0]}`
+      : `related accounts ${group.accounts.join(' and ')}`;
+    return createOrderAlert(
+      traders,
+      'Wash Trading',
+      'WASH',
+      notionalSeverity(group.notional, config),
+      group.accounts[0],
+      group.symbol,
+      `Possible wash trading: ${pairs} matching buy/sell execution pair${pairs === 1 ? '' : 's'} between ${accountText} ($${Math.round(group.notional).toLocaleString()} notional)`,
+      group.events
+    );
+  });
+}
+
+// Orders already reported as part of a layering scheme can be passed in `excludeOrderIds` so they don't
+// raise a second, spoofing alert
+export function detectSpoofing(
+  events: OrderEvent[],
+  config: OrderDetectionConfig,
+  traders: TraderRegistry = EMPTY_REGISTRY,
+  excludeOrderIds: Set<string> = new Set()
+): ComplianceAlert[] {
+  const { minQuantity, maxLifetimeMs } = config.spoofing;
+  const fills = events.filter(e => e.type === 'fill');
+
+  return summarizeOrders(events)
+    .filter(order =>
+      !excludeOrderIds.has(order.orderId) &&
+      order.placed && order.cancelled &&
+      order.fills.length === 0 &&
+      order.placed.quantity >= minQuantity &&
+      time(order.cancelled) - time(order.placed) <= maxLifetimeMs
+    )
+    .map(order => {
+      const placed = order.placed!;
+      const cancelled = order.cancelled!;
+      const lifetime = time(cancelled) - time(placed);
+
+      // The tell-tale sign: trading the other side while the large order was resting
+      const oppositeFills = fills.filter(fill =>
+        fill.account === order.account &&
+        fill.symbol === order.symbol &&
+        fill.side !== order.side &&
+        time(fill) >= time(placed) &&
+        time(fill) <= time(cancelled)
+      );
+      const oppositeQuantity = oppositeFills.reduce((sum, fill) => sum + fill.quantity, 0);
+
+      return createOrderAlert(
+        traders,
+        'Spoofing',
+        'SPOOF',
+        oppositeFills.length > 0 ? 'Critical' : 'High',
+        order.account,
+        order.symbol,
+        `Possible spoofing: ${order.side} order for ${placed.quantity.toLocaleString()} shares cancelled after ${lifetime} ms` +
+          (oppositeFills.length > 0
+            ? ` while the account ${order.side === 'buy' ? 'sold' : 'bought'} ${oppositeQuantity.toLocaleString()} shares`
+            : ''),
+        [placed, cancelled, ...oppositeFills]
+      );
+    });
+}
+
+export function detectLayering(
+  events: OrderEvent[],
+  config: OrderDetectionConfig,
+  traders: TraderRegistry = EMPTY_REGISTRY
+): ComplianceAlert[] {
+  const { minLevels, windowMs } = config.layering;
+  const orders = summarizeOrders(events);
+  const fills = events.filter(e => e.type === 'fill');
+  const alerts: ComplianceAlert[] = [];
+
+  // Orders that were placed and cancelled without ever trading, per account/symbol/side
+  const candidates = new Map<string, OrderSummary[]>();
+  orders
+    .filter(order => order.placed && order.cancelled && order.fills.length === 0)
+    .forEach(order => {
+      const key = `${order.account}|${order.symbol}|${order.side}`;
+      candidates.set(key, [...(candidates.get(key) || []), order]);
+    });
+
+  candidates.forEach(group => {
+    const sorted = group.sort((a, b) => time(a.placed!) - time(b.placed!));
+    let i = 0;
+
+    while (i < sorted.length) {
+      const start = time(sorted[i].placed!);
+      const layer = sorted.filter((order, index) => index >= i && time(order.placed!) - start <= windowMs);
+      const end = Math.max(...layer.map(order => time(order.cancelled!)));
+      const { account, symbol, side } = layer[0];
+
+      const oppositeFills = fills.filter(fill =>
+        fill.account === account &&
+        fill.symbol === symbol &&
+        fill.side !== side &&
+        time(fill) >= start &&
+        time(fill) <= end
+      );
+      // The layers only matter while they rest on the book: an opposite-side execution has to land while
+      // orders on enough price levels are still live, and those orders are cancelled after it
+      const restingAt = (at: number) => layer.filter(order => time(order.placed!) <= at && time(order.cancelled!) >= at);
+      const levelsOf = (resting: OrderSummary[]) => new Set(resting.map(order => order.placed!.price));
+      const trigger = oppositeFills.find(fill => levelsOf(restingAt(time(fill))).size >= minLevels);
+
+      if (trigger) {
+        const resting = restingAt(time(trigger));
+        const levels = levelsOf(resting);
+        const layerEvents = resting.flatMap(order => [order.placed!, order.cancelled!]);
+        const layeredQuantity = resting.reduce((sum, order) => sum + order.placed!.quantity, 0);
+        const executions = oppositeFills.filter(fill => time(fill) >= time(trigger));
+        alerts.push(createOrderAlert(
+          traders,
+          'Spoofing',
+          'LAYER',
+          levels.size >= minLevels * 2 ? 'Critical' : 'High',
+          account,
+          symbol,
+          `Possible layering: ${resting.length} ${side} orders across ${levels.size} price levels (${layeredQuantity.toLocaleString()} shares) cancelled after opposite-side executions`,
+          [...layerEvents, ...executions]
+        ));
+        i += layer.length;
+      } else {
+        i++;
+      }
+    }
+  });
+
+  return alerts;
+}
+
+export function runOrderDetectors(
+  events: OrderEvent[],
+  config: OrderDetectionConfig = DEFAULT_ORDER_DETECTION_CONFIG,
+  traders: TraderRegistry = EMPTY_REGISTRY
+): ComplianceAlert[] {
+  // Layering is the more specific finding, so orders it reports are left out of spoofing
+  const layering = detectLayering(events, config, traders);
+  const layeredOrderIds = new Set(layering.flatMap(alert =>
+    alert.evidence?.kind === 'orders'
+      ? alert.evidence.events.filter(event => event.type !== 'fill').map(event => event.orderId)
+      : []
+  ));
+  return [
+    ...detectWashTrades(events, config, traders),
+    ...detectSpoofing(events, config, traders, layeredOrderIds),
+    ...layering,
+  ];
+}
+
+const CONFIG_STORAGE_KEY = 'orderDetectionConfig';
+
+export function loadOrderDetectionConfig(): OrderDetectionConfig {
+  const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+  if (!stored) return DEFAULT_ORDER_DETECTION_CONFIG;
+
+  try {
+    return { ...DEFAULT_ORDER_DETECTION_CONFIG, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Stored order detection config is corrupt, falling back to defaults:', error);
+    return DEFAULT_ORDER_DETECTION_CONFIG;
+  }
+}
+
+export function saveOrderDetectionConfig(config: OrderDetectionConfig): void {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+}
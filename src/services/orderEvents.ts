@@ -0,0 +1,71 @@
+import { OrderEvent, OrderEventType, OrderSide } from '../types';
+import { parseCsv } from './csv';
+
+export interface OrderEventParseResult {
+  events: OrderEvent[];
+  errors: string[];
+}
+
+const EVENT_TYPES: OrderEventType[] = ['new', 'cancel', 'fill'];
+const SIDES: OrderSide[] = ['buy', 'sell'];
+
+function parseEvent(raw: Record<string, unknown> | null, row: number): OrderEvent | string {
+  // JSON arrays can hold anything; a null or a number is a bad row, not a reason to reject the file
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return `Row ${row}: expected an object`;
+  const text = (key: string) => String(raw[key] ?? '').trim();
+  const type = text('type').toLowerCase() as OrderEventType;
+  const side = text('side').toLowerCase() as OrderSide;
+  const quantity = Number(raw.quantity);
+  const price = Number(raw.price);
+  const timestamp = text('timestamp');
+
+  if (!EVENT_TYPES.includes(type)) return `Row ${row}: type must be one of ${EVENT_TYPES.join(', ')}`;
+  if (!SIDES.includes(side)) return `Row ${row}: side must be buy or sell`;
+  if (!text('orderId')) return `Row ${row}: orderId is required`;
+  if (!text('account')) return `Row ${row}: account is required`;
+  if (!text('symbol')) return `Row ${row}: symbol is required`;
+  if (isNaN(new Date(timestamp).getTime())) return `Row ${row}: timestamp "${timestamp}" is not a valid date`;
+  if (!Number.isFinite(quantity) || quantity <= 0) return `Row ${row}: quantity must be a positive number`;
+  if (!Number.isFinite(price) || price < 0) return `Row ${row}: price must be a number`;
+
+  return {
+    id: text('id') || `${text('orderId')}-${type}-${row}`,
+    orderId: text('orderId'),
+    type,
+    timestamp: new Date(timestamp).toISOString(),
+    account: text('account'),
+    symbol: text('symbol').toUpperCase(),
+    side,
+    quantity,
+    price,
+  };
+}
+
+// Accepts a CSV with columns id,orderId,type,timestamp,account,symbol,side,quantity,price
+// or a JSON array of objects with the same fields
+export function parseOrderEvents(fileName: string, text: string): OrderEventParseResult {
+  let rows: Record<string, unknown>[];
+  try {
+    rows = fileName.toLowerCase().endsWith('.csv') ? parseCsv(text) : JSON.parse(text);
+  } catch (error) {
+    return { events: [], errors: [`Could not parse file: ${(error as Error).message}`] };
+  }
+
+  if (!Array.isArray(rows)) {
+    return { events: [], errors: ['Expected a JSON array of order events'] };
+  }
+
+  const events: OrderEvent[] = [];
+  const errors: string[] = [];
+  rows.forEach((raw, index) => {
+    const result = parseEvent(raw, index + 1);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else {
+      events.push(result);
+    }
+  });
+
+  events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  return { events, errors };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { OrderEvent, Position, PositionLimit } from '../types';
+import {
+  attributePositions, buildPositions, checkPositionLimits, measureUtilisation, parseLimits, parsePositionSnapshot,
+} from './positions';
+import { TraderRegistry } from './traderRegistry';
+
+let sequence = 0;
+const fill = (account: string, side: OrderEvent['side'], quantity: number, price: number, minute = sequence): OrderEvent => ({
+  id: `F${++sequence}`,
+  orderId: `O${sequence}`,
+  type: 'fill',
+  timestamp: new Date(Date.UTC(2025, 2, 3, 15, minute)).toISOString(),
+  account,
+  symbol: 'AAPL',
+  side,
+  quantity,
+  price,
+});
+
+const limit = (changes: Partial<PositionLimit> = {}): PositionLimit =>
+  ({ id: 'LIM-1', scope: 'symbol', key: 'AAPL', measure: 'gross', unit: 'shares', limit: 1000, ...changes });
+
+const position = (account: string, quantity: number, changes: Partial<Position> = {}): Position =>
+  ({ account, symbol: 'AAPL', quantity, price: 100, ...changes });
+
+const registry: TraderRegistry = {
+  traders: [{ id: 'T1', name: 'Pat Trader', email: '', firm: 'Example Securities', registrationDate: '', accounts: ['ACC-1'] }],
+};
+
+describe('buildPositions', () => {
+  it('nets fills per account on top of the snapshot and marks at the last price', () => {
+    const positions = buildPositions(
+      [fill('ACC-1', 'buy', 300, 101, 1), fill('ACC-1', 'sell', 100, 102, 2), fill('ACC-2', 'buy', 50, 99, 3)],
+      [position('ACC-1', 200)]
+    );
+
+    expect(positions).toEqual([
+      { account: 'ACC-1', symbol: 'AAPL', quantity: 400, price: 102 },
+      { account: 'ACC-2', symbol: 'AAPL', quantity: 50, price: 99 },
+    ]);
+  });
+
+  it('drops positions that close out', () => {
+    expect(buildPositions([fill('ACC-1', 'buy', 100, 100), fill('ACC-1', 'sell', 100, 101)])).toEqual([]);
+  });
+});
+
+describe('attributePositions', () => {
+  it('fills in the trader and firm from the registry', () => {
+    expect(attributePositions([position('ACC-1', 10), position('ACC-9', 10)], registry)).toEqual([
+      position('ACC-1', 10, { traderId: 'T1', firm: 'Example Securities' }),
+      position('ACC-9', 10, { traderId: undefined, firm: undefined }),
+    ]);
+  });
+});
+
+describe('measureUtilisation', () => {
+  const book = [position('ACC-1', 600), position('ACC-2', -400, { price: 50 })];
+
+  it('adds up absolute exposure for gross limits and nets it for net limits', () => {
+    expect(measureUtilisation(limit(), book).exposure).toBe(1000);
+    expect(measureUtilisation(limit({ measure: 'net' }), book).exposure).toBe(200);
+    expect(measureUtilisation(limit({ unit: 'notional', limit: 100000 }), book)).toMatchObject({ exposure: 80000, utilisationPercent: 80 });
+  });
+
+  it('only counts positions the limit covers', () => {
+    const traderLimit = limit({ scope: 'trader', key: 'T1', symbol: 'AAPL' });
+    const attributed = [position('ACC-1', 600, { traderId: 'T1' }), position('ACC-1', 900, { traderId: 'T1', symbol: 'MSFT' })];
+    expect(measureUtilisation(traderLimit, attributed).positions).toHaveLength(1);
+  });
+});
+
+describe('checkPositionLimits', () => {
+  it('warns below the limit and grades breaches by how far over they are', () => {
+    const severityAt = (quantity: number) => checkPositionLimits([position('ACC-1', quantity)], [limit()])[0]?.severity;
+
+    expect(severityAt(700)).toBeUndefined();
+    expect(severityAt(850)).toBe('Low');
+    expect(severityAt(960)).toBe('Medium');
+    expect(severityAt(1100)).toBe('High');
+    expect(severityAt(1300)).toBe('Critical');
+  });
+
+  it('attributes the alert to the largest contributor and attaches the evidence', () => {
+    const [alert] = checkPositionLimits([position('ACC-2', 300), position('ACC-1', 900)], [limit()], undefined, registry);
+
+    expect(alert).toMatchObject({ type: 'Position Limit Breach', symbol: 'AAPL', trader: { id: 'T1' } });
+    expect(alert.description).toContain('Position limit breached: 1,200 shares against gross share limit for AAPL');
+    expect(alert.evidence).toMatchObject({ kind: 'position', exposure: 1200, utilisationPercent: 120 });
+  });
+});
+
+describe('parsing', () => {
+  it('reads limits from CSV, defaulting the measure and unit', () => {
+    expect(parseLimits('limits.csv', 'id,scope,key,limit\nL1,Symbol,aapl,5000\n')).toEqual([
+      { id: 'L1', scope: 'symbol', key: 'AAPL', symbol: undefined, measure: 'gross', unit: 'shares', limit: 5000 },
+    ]);
+  });
+
+  it('reports the row of an invalid limit', () => {
+    expect(() => parseLimits('limits.json', JSON.stringify([limit(), { scope: 'desk', key: 'X', limit: -1 }])))
+      .toThrow('Row 2: scope must be one of symbol, trader, firm; limit must be a positive number');
+  });
+
+  it('reads position snapshots and requires the core columns', () => {
+    expect(parsePositionSnapshot('book.csv', 'account,symbol,quantity,price\nACC-1,aapl,100,101.5\n'))
+      .toEqual([{ account: 'ACC-1', symbol: 'AAPL', quantity: 100, price: 101.5, traderId: undefined, firm: undefined }]);
+    expect(() => parsePositionSnapshot('book.csv', 'account,symbol,quantity\nACC-1,AAPL,100\n'))
+      .toThrow('Row 1: account, symbol, quantity and price are required');
+  });
+});
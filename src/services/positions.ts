@@ -0,0 +1,262 @@
+import { ComplianceAlert, LimitMeasure, LimitScope, OrderEvent, Position, PositionLimit, Severity } from '../types';
+import { createAlertId } from './alertGenerator';
+import { parseCsv } from './csv';
+import {
+  EMPTY_REGISTRY, findTraderByAccount, findTraderById, resolveTraderForAccount, TraderRegistry,
+} from './traderRegistry';
+import { createTimelineEventId } from './auditChain';
+
+export interface UtilisationBand {
+  percent: number;
+  severity: Severity;
+}
+
+export interface PositionMonitorConfig {
+  // Warnings below 100% utilisation; the highest band crossed wins
+  softThresholds: UtilisationBand[];
+  // Breach severity by how far above the limit the exposure is (percent over the limit)
+  breachBands: UtilisationBand[];
+}
+
+export interface LimitUtilisation {
+  limit: PositionLimit;
+  exposure: number;
+  utilisationPercent: number;
+  positions: Position[];
+}
+
+export const DEFAULT_POSITION_MONITOR_CONFIG: PositionMonitorConfig = {
+  softThresholds: [
+    { percent: 80, severity: 'Low' },
+    { percent: 95, severity: 'Medium' },
+  ],
+  breachBands: [
+    { percent: 0, severity: 'High' },
+    { percent: 25, severity: 'Critical' },
+  ],
+};
+
+const LIMITS_STORAGE_KEY = 'positionLimits';
+const LIMIT_SCOPES: LimitScope[] = ['symbol', 'trader', 'firm'];
+const LIMIT_MEASURES: LimitMeasure[] = ['gross', 'net'];
+
+const positionKey = (account: string, symbol: string) => `${account}|${symbol}`;
+
+// Rolls fills into a net position per account and symbol, starting from an optional snapshot
+export function buildPositions(fills: OrderEvent[], snapshot: Position[] = []): Position[] {
+  const ledger = new Map<string, Position>();
+  snapshot.forEach(position => ledger.set(positionKey(position.account, position.symbol), { ...position }));
+
+  [...fills]
+    .filter(event => event.type === 'fill')
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(fill => {
+      const key = positionKey(fill.account, fill.symbol);
+      const position = ledger.get(key) || { account: fill.account, symbol: fill.symbol, quantity: 0, price: fill.price };
+      position.quantity += fill.side === 'buy' ? fill.quantity : -fill.quantity;
+      // Mark at the last traded price
+      position.price = fill.price;
+      ledger.set(key, position);
+    });
+
+  return [...ledger.values()].filter(position => position.quantity !== 0);
+}
+
+// Fills in the trader and firm of positions that don't carry them, so trader and firm limits apply
+export function attributePositions(positions: Position[], traders: TraderRegistry): Position[] {
+  return positions.map(position => {
+    const trader = position.traderId
+      ? findTraderById(traders, position.traderId)
+      : findTraderByAccount(traders, position.account);
+    return {
+      ...position,
+      traderId: position.traderId || trader?.id,
+      firm: position.firm || trader?.firm || undefined,
+    };
+  });
+}
+
+function readRows(fileName: string, text: string): Record<string, unknown>[] {
+  const rows = fileName.toLowerCase().endsWith('.csv') ? parseCsv(text) : JSON.parse(text);
+  if (!Array.isArray(rows)) {
+    throw new Error('Expected a JSON array');
+  }
+  return rows;
+}
+
+// CSV columns: account,symbol,quantity,price[,traderId,firm]
+export function parsePositionSnapshot(fileName: string, text: string): Position[] {
+  return readRows(fileName, text).map((row, index) => {
+    const quantity = Number(row.quantity);
+    const price = Number(row.price);
+    if (!row.account || !row.symbol || !Number.isFinite(quantity) || !Number.isFinite(price)) {
+      throw new Error(`Row ${index + 1}: account, symbol, quantity and price are required`);
+    }
+    return {
+      account: String(row.account),
+      symbol: String(row.symbol).toUpperCase(),
+      quantity,
+      price,
+      traderId: row.traderId ? String(row.traderId) : undefined,
+      firm: row.firm ? String(row.firm) : undefined,
+    };
+  });
+}
+
+export function validateLimit(limit: PositionLimit): string[] {
+  const errors: string[] = [];
+  if (!LIMIT_SCOPES.includes(limit.scope)) errors.push(`scope must be one of ${LIMIT_SCOPES.join(', ')}`);
+  if (!LIMIT_MEASURES.includes(limit.measure)) errors.push('measure must be gross or net');
+  if (limit.unit !== 'shares' && limit.unit !== 'notional') errors.push('unit must be shares or notional');
+  if (!limit.key) errors.push('key is required');
+  if (!Number.isFinite(limit.limit) || limit.limit <= 0) errors.push('limit must be a positive number');
+  return errors;
+}
+
+// CSV columns: id,scope,key,symbol,measure,unit,limit
+export function parseLimits(fileName: string, text: string): PositionLimit[] {
+  return readRows(fileName, text).map((row, index) => {
+    const scope = String(row.scope || '').toLowerCase() as LimitScope;
+    const key = String(row.key || '').trim();
+    const limit: PositionLimit = {
+      id: String(row.id || `LIM-${index + 1}`),
+      scope,
+      // Symbol keys are matched against positions, whose symbols are uppercased when parsed
+      key: scope === 'symbol' ? key.toUpperCase() : key,
+      symbol: row.symbol ? String(row.symbol).toUpperCase() : undefined,
+      measure: String(row.measure || 'gross').toLowerCase() as LimitMeasure,
+      unit: String(row.unit || 'shares').toLowerCase() as PositionLimit['unit'],
+      limit: Number(row.limit),
+    };
+    const errors = validateLimit(limit);
+    if (errors.length > 0) {
+      throw new Error(`Row ${index + 1}: ${errors.join('; ')}`);
+    }
+    return limit;
+  });
+}
+
+export function loadLimits(): PositionLimit[] {
+  const stored = localStorage.getItem(LIMITS_STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Stored position limits are corrupt:', error);
+    return [];
+  }
+}
+
+export function saveLimits(limits: PositionLimit[]): void {
+  localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(limits));
+}
+
+function appliesTo(limit: PositionLimit, position: Position): boolean {
+  if (limit.symbol && position.symbol !== limit.symbol) return false;
+  switch (limit.scope) {
+    case 'symbol': return position.symbol === limit.key.toUpperCase();
+    case 'trader': return (position.traderId || position.account) === limit.key;
+    case 'firm': return position.firm === limit.key;
+  }
+}
+
+export function measureUtilisation(limit: PositionLimit, positions: Position[]): LimitUtilisation {
+  const covered = positions.filter(position => appliesTo(limit, position));
+  const values = covered.map(position =>
+    limit.unit === 'shares' ? position.quantity : position.quantity * position.price
+  );
+  const exposure = limit.measure === 'gross'
+    ? values.reduce((sum, value) => sum + Math.abs(value), 0)
+    : Math.abs(values.reduce((sum, value) => sum + value, 0));
+
+  return {
+    limit,
+    exposure,
+    utilisationPercent: (exposure / limit.limit) * 100,
+    positions: covered,
+  };
+}
+
+function highestBand(bands: UtilisationBand[], value: number): UtilisationBand | undefined {
+  return [...bands]
+    .sort((a, b) => b.percent - a.percent)
+    .find(band => value >= band.percent);
+}
+
+function describeLimit(limit: PositionLimit): string {
+  const subject = limit.scope === 'symbol' ? limit.key : `${limit.scope} ${limit.key}${limit.symbol ? ` in ${limit.symbol}` : ''}`;
+  return `${limit.measure} ${limit.unit === 'notional' ? 'notional' : 'share'} limit for ${subject}`;
+}
+
+function formatAmount(value: number, unit: PositionLimit['unit']): string {
+  return unit === 'notional' ? `$${Math.round(value).toLocaleString()}` : `${Math.round(value).toLocaleString()} shares`;
+}
+
+export function checkPositionLimits(
+  positions: Position[],
+  limits: PositionLimit[],
+  config: PositionMonitorConfig = DEFAULT_POSITION_MONITOR_CONFIG,
+  traders: TraderRegistry = EMPTY_REGISTRY
+): ComplianceAlert[] {
+  const now = new Date().toISOString();
+  const alerts: ComplianceAlert[] = [];
+
+  limits.forEach(limit => {
+    const utilisation = measureUtilisation(limit, positions);
+    const { exposure, utilisationPercent } = utilisation;
+    if (utilisation.positions.length === 0) return;
+
+    let severity: Severity;
+    let summary: string;
+    if (utilisationPercent > 100) {
+      const excess = utilisationPercent - 100;
+      severity = highestBand(config.breachBands, excess)?.severity || 'High';
+      summary = `Position limit breached: ${formatAmount(exposure, limit.unit)} against ${describeLimit(limit)} of ${formatAmount(limit.limit, limit.unit)} (${excess.toFixed(1)}% over)`;
+    } else {
+      const band = highestBand(config.softThresholds, utilisationPercent);
+      if (!band) return;
+      severity = band.severity;
+      summary = `Position limit warning: ${utilisationPercent.toFixed(1)}% of ${describeLimit(limit)} used (${formatAmount(exposure, limit.unit)} of ${formatAmount(limit.limit, limit.unit)})`;
+    }
+
+    // Attribute the alert to the account contributing the most exposure
+    const largest = [...utilisation.positions].sort((a, b) =>
+      Math.abs(b.quantity * b.price) - Math.abs(a.quantity * a.price)
+    )[0];
+    const symbol = limit.scope === 'symbol' ? limit.key : limit.symbol || largest.symbol;
+
+    alerts.push({
+      id: createAlertId(`POS-${limit.id}`),
+      type: 'Position Limit Breach',
+      severity,
+      status: 'New',
+      trader: (largest.traderId && findTraderById(traders, largest.traderId))
+        || resolveTraderForAccount(traders, largest.account),
+      timestamp: now,
+      description: `${symbol}: ${summary}`,
+      symbol,
+      detectedBy: 'Position Limit Monitor',
+      investigationNotes: '',
+      timeline: [
+        {
+          id: createTimelineEventId(),
+          timestamp: now,
+          action: 'Alert Created',
+          user: 'Automated System',
+          notes: `Limit ${limit.id} at ${utilisationPercent.toFixed(1)}% utilisation across ${utilisation.positions.length} positions`,
+        },
+      ],
+      evidence: {
+        kind: 'position',
+        summary,
+        limit,
+        exposure,
+        utilisationPercent,
+        positions: utilisation.positions,
+      },
+    });
+  });
+
+  return alerts;
+}
@@ -0,0 +1,175 @@
+import { AlertType, ComplianceAlert, OrderEvent, Position, User } from '../types';
+import { verifyTimeline } from './auditChain';
+
+// STOR: Suspicious Transaction and Order Report (EU/UK MAR Art. 16, template of Delegated Regulation 2016/957).
+// SAR: Suspicious Activity Report (US FinCEN). Both drafts carry the same facts, grouped the way each form asks.
+export type RegulatoryReportType = 'STOR' | 'SAR';
+
+export const REGULATORY_REPORT_TYPES: RegulatoryReportType[] = ['STOR', 'SAR'];
+
+// The firm filing the report (STOR section 1 / SAR part IV)
+export interface ReportingEntity {
+  name: string;
+  lei: string;
+  country: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string;
+}
+
+export const EMPTY_REPORTING_ENTITY: ReportingEntity = {
+  name: '', lei: '', country: '', contactName: '', contactPhone: '', contactEmail: '',
+};
+
+export interface RegulatoryReportDraft {
+  reportType: RegulatoryReportType;
+  status: 'Draft';
+  generatedAt: string;
+  preparedBy: { id: string; name: string } | null;
+  alertId: string;
+  caseId?: string;
+  reportingEntity: ReportingEntity;
+  suspiciousActivity: {
+    category: string;
+    alertType: AlertType;
+    instrument?: string;
+    periodStart: string;
+    periodEnd: string;
+    detectedBy: string;
+    ruleId?: string;
+    description: string;
+    // Why the firm considers the activity suspicious: the analyst's findings
+    reasonsForSuspicion: string;
+  };
+  subject: {
+    traderId: string;
+    name: string;
+    firm: string;
+    email: string;
+    accounts: string[];
+  };
+  transactions: OrderEvent[];
+  positions: Position[];
+  attachments: string[];
+  // Fields the filer still has to complete before submission
+  missingFields: string[];
+}
+
+const STOR_CATEGORIES: Record<AlertType, string> = {
+  'Market Manipulation': 'Market manipulation',
+  'Wash Trading': 'Market manipulation - wash trades',
+  'Spoofing': 'Market manipulation - spoofing / layering',
+  'Insider Trading': 'Insider dealing',
+  'Position Limit Breach': 'Market manipulation - abusive squeeze',
+};
+
+const SAR_CATEGORIES: Record<AlertType, string> = {
+  'Market Manipulation': 'Securities/Futures/Options - Market manipulation',
+  'Wash Trading': 'Securities/Futures/Options - Wash trading',
+  'Spoofing': 'Securities/Futures/Options - Spoofing',
+  'Insider Trading': 'Securities/Futures/Options - Insider trading',
+  'Position Limit Breach': 'Securities/Futures/Options - Other (position limit breach)',
+};
+
+const REPORTING_ENTITY_STORAGE_KEY = 'reportingEntity';
+
+const ENTITY_FIELD_LABELS: Record<keyof ReportingEntity, string> = {
+  name: 'Reporting entity name',
+  lei: 'Reporting entity LEI',
+  country: 'Reporting entity country',
+  contactName: 'Contact name',
+  contactPhone: 'Contact phone',
+  contactEmail: 'Contact email',
+};
+
+export function isRegulatoryReportType(value: unknown): value is RegulatoryReportType {
+  return REGULATORY_REPORT_TYPES.includes(value as RegulatoryReportType);
+}
+
+// Activity period: the first piece of evidence (or the detection) to the last repeat detection
+function activityPeriod(alert: ComplianceAlert, transactions: OrderEvent[]): { start: string; end: string } {
+  const times = [alert.timestamp, alert.lastSeenAt, ...transactions.map(event => event.timestamp)]
+    .filter((value): value is string => !!value)
+    .map(value => new Date(value).getTime())
+    .filter(time => !isNaN(time));
+  return {
+    start: new Date(Math.min(...times)).toISOString(),
+    end: new Date(Math.max(...times)).toISOString(),
+  };
+}
+
+export function buildRegulatoryDraft(
+  alert: ComplianceAlert,
+  reportType: RegulatoryReportType,
+  entity: ReportingEntity,
+  preparedBy: User | null,
+  now: Date = new Date(),
+): RegulatoryReportDraft {
+  const evidence = alert.evidence;
+  const transactions = evidence?.kind === 'orders' ? evidence.events : evidence?.kind === 'insider' ? evidence.fills : [];
+  const positions = evidence?.kind === 'position' ? evidence.positions
+    : evidence?.kind === 'insider' && evidence.position ? [evidence.position] : [];
+  const period = activityPeriod(alert, transactions);
+  const verification = verifyTimeline(alert.id, alert.timeline);
+  const accounts = alert.trader.accounts ||
+    [...new Set([...transactions, ...positions].map(item => item.account))];
+
+  const missingFields = (Object.keys(ENTITY_FIELD_LABELS) as (keyof ReportingEntity)[])
+    .filter(field => !entity[field]?.trim())
+    .map(field => ENTITY_FIELD_LABELS[field]);
+  if (!alert.investigationNotes.trim()) missingFields.push('Reasons for suspicion (investigation notes)');
+  if (!alert.symbol) missingFields.push('Financial instrument');
+  if (transactions.length === 0 && positions.length === 0) missingFields.push('Transactions or orders');
+  if (!alert.trader.email) missingFields.push('Subject contact details');
+
+  return {
+    reportType,
+    status: 'Draft',
+    generatedAt: now.toISOString(),
+    preparedBy: preparedBy ? { id: preparedBy.id, name: preparedBy.name } : null,
+    alertId: alert.id,
+    caseId: alert.caseId,
+    reportingEntity: { ...EMPTY_REPORTING_ENTITY, ...entity },
+    suspiciousActivity: {
+      category: (reportType === 'STOR' ? STOR_CATEGORIES : SAR_CATEGORIES)[alert.type],
+      alertType: alert.type,
+      instrument: alert.symbol,
+      periodStart: period.start,
+      periodEnd: period.end,
+      detectedBy: alert.detectedBy,
+      ruleId: alert.ruleId,
+      description: alert.evidence ? `${alert.description}\n${alert.evidence.summary}` : alert.description,
+      reasonsForSuspicion: alert.investigationNotes,
+    },
+    subject: {
+      traderId: alert.trader.id,
+      name: alert.trader.name,
+      firm: alert.trader.firm,
+      email: alert.trader.email,
+      accounts,
+    },
+    transactions,
+    positions,
+    attachments: [
+      `Case report for ${alert.id}`,
+      `Audit log for ${alert.id} (${alert.timeline.length} events, ${verification.algorithm} head ${verification.headHash}${verification.valid ? '' : ', VERIFICATION FAILED'})`,
+    ],
+    missingFields,
+  };
+}
+
+export function loadReportingEntity(): ReportingEntity {
+  const stored = localStorage.getItem(REPORTING_ENTITY_STORAGE_KEY);
+  if (!stored) return EMPTY_REPORTING_ENTITY;
+
+  try {
+    return { ...EMPTY_REPORTING_ENTITY, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Stored reporting entity is corrupt, ignoring it:', error);
+    return EMPTY_REPORTING_ENTITY;
+  }
+}
+
+export function saveReportingEntity(entity: ReportingEntity): void {
+  localStorage.setItem(REPORTING_ENTITY_STORAGE_KEY, JSON.stringify(entity));
+}
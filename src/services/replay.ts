@@ -0,0 +1,159 @@
+import { ComplianceAlert } from '../types';
+import { generateAlertsFromStockData } from './alertGenerator';
+import { parseCsv } from './csv';
+import { DetectionRule } from './detectionRules';
+import { calendarForVenue } from './exchangeCalendar';
+import { IntradayBar, StockData } from './marketDataProvider';
+import { MarketRecording, parseRecording } from './replayProvider';
+import { createBaseline, SymbolBaseline, updateBaseline } from './statisticalBaseline';
+
+export type ReplaySpeed = 1 | 10 | 'max';
+
+export interface ReplayProgress {
+  processed: number;
+  total: number;
+  currentTimestamp: string;
+  alerts: ComplianceAlert[];
+}
+
+export interface ReplayOptions {
+  speed: ReplaySpeed;
+  rules?: DetectionRule[];
+  signal?: AbortSignal;
+  onProgress?: (progress: ReplayProgress) => void;
+}
+
+export interface ReplayResult {
+  alerts: ComplianceAlert[];
+  quotesProcessed: number;
+  aborted: boolean;
+}
+
+// Same window the live Alpha Vantage feed provides
+const INTRADAY_WINDOW = 10;
+// At 'max' speed, hand control back to the UI every this many quotes
+const MAX_SPEED_BATCH = 200;
+
+function toNumber(value: string | undefined): number {
+  const parsed = parseFloat(value ?? '');
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+// CSV layout: type,timestamp,symbol,price,volume,change,changePercent,previousClose
+// where type is "quote" (default when the column is missing) or "bar" for an intraday bar
+function parseRecordingCsv(text: string): MarketRecording {
+  const quotes: StockData[] = [];
+  const intraday: Record<string, IntradayBar[]> = {};
+
+  parseCsv(text).forEach((row, index) => {
+    if (!row.symbol || !row.timestamp || isNaN(new Date(row.timestamp).getTime())) {
+      throw new Error(`Row ${index + 2}: symbol and a valid timestamp are required`);
+    }
+
+    const timestamp = new Date(row.timestamp).toISOString();
+    if ((row.type || 'quote').toLowerCase() === 'bar') {
+      (intraday[row.symbol] = intraday[row.symbol] || []).push({
+        price: toNumber(row.price),
+        volume: Math.round(toNumber(row.volume)),
+        timestamp,
+      });
+      return;
+    }
+
+    const price = toNumber(row.price);
+    const previousClose = row.previousClose ? toNumber(row.previousClose) : undefined;
+    const change = row.change ? toNumber(row.change) : previousClose ? price - previousClose : 0;
+    quotes.push({
+      symbol: row.symbol,
+      price,
+      volume: Math.round(toNumber(row.volume)),
+      change,
+      changePercent: row.changePercent
+        ? toNumber(row.changePercent.replace('%', ''))
+        : previousClose ? (change / previousClose) * 100 : 0,
+      timestamp,
+      previousClose,
+    });
+  });
+
+  return { quotes, intraday };
+}
+
+export function parseReplayFile(fileName: string, text: string): MarketRecording {
+  return fileName.toLowerCase().endsWith('.csv') ? parseRecordingCsv(text) : parseRecording(text);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // The listener goes once the timer fires, so a long replay doesn't pile up one per tick
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function runReplay(recording: MarketRecording, options: ReplayOptions): Promise<ReplayResult> {
+  const { speed, rules, signal, onProgress } = options;
+  const time = (value: { timestamp: string }) => new Date(value.timestamp).getTime();
+
+  const quotes = [...recording.quotes].sort((a, b) => time(a) - time(b));
+  const barsBySymbol = new Map<string, IntradayBar[]>();
+  Object.entries(recording.intraday || {}).forEach(([symbol, bars]) => {
+    barsBySymbol.set(symbol, [...bars].sort((a, b) => time(a) - time(b)));
+  });
+
+  // Same state the live loop keeps between refreshes
+  const previousData = new Map<string, StockData>();
+  const intradayDataMap = new Map<string, IntradayBar[]>();
+  const baselines = new Map<string, SymbolBaseline>();
+  const calendar = calendarForVenue();
+  const alerts: ComplianceAlert[] = [];
+
+  for (let i = 0; i < quotes.length; i++) {
+    if (signal?.aborted) {
+      return { alerts, quotesProcessed: i, aborted: true };
+    }
+
+    const quote = quotes[i];
+    if (i > 0) {
+      if (speed === 'max') {
+        if (i % MAX_SPEED_BATCH === 0) await sleep(0, signal);
+      } else {
+        await sleep(Math.max(0, time(quote) - time(quotes[i - 1])) / speed, signal);
+      }
+    }
+
+    // Only the bars already printed when this quote arrived are visible to the rules
+    const visibleBars = (barsBySymbol.get(quote.symbol) || []).filter(bar => time(bar) <= time(quote));
+    if (visibleBars.length > 0) {
+      const window = visibleBars.slice(-INTRADAY_WINDOW);
+      intradayDataMap.set(quote.symbol, window);
+      const baseline = baselines.get(quote.symbol) || createBaseline();
+      updateBaseline(baseline, window, calendar);
+      baselines.set(quote.symbol, baseline);
+    }
+
+    const newAlerts = generateAlertsFromStockData([quote], previousData, intradayDataMap, { rules, baselines });
+    previousData.set(quote.symbol, quote);
+    alerts.push(...newAlerts);
+
+    // At 'max' speed, report once per batch rather than per quote to keep the UI responsive
+    const isBatchEnd = speed !== 'max' || (i + 1) % MAX_SPEED_BATCH === 0 || i === quotes.length - 1;
+    if (isBatchEnd) {
+      onProgress?.({
+        processed: i + 1,
+        total: quotes.length,
+        currentTimestamp: quote.timestamp,
+        alerts: [...alerts],
+      });
+    }
+  }
+
+  return { alerts, quotesProcessed: quotes.length, aborted: false };
+}
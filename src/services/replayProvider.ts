@@ -0,0 +1,69 @@
+import { IntradayBar, MarketDataProvider, StockData } from './marketDataProvider';
+
+// A recorded tape of quotes plus the intraday bars observed alongside them
+export interface MarketRecording {
+  quotes: StockData[];
+  intraday?: Record<string, IntradayBar[]>;
+}
+
+export function parseRecording(text: string): MarketRecording {
+  const data = JSON.parse(text);
+  if (!data || !Array.isArray(data.quotes)) {
+    throw new Error('Recording must contain a "quotes" array');
+  }
+  return { quotes: data.quotes, intraday: data.intraday || {} };
+}
+
+export function createReplayProvider(recording: MarketRecording): MarketDataProvider {
+  const quotesBySymbol = new Map<string, StockData[]>();
+  [...recording.quotes]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(quote => {
+      const list = quotesBySymbol.get(quote.symbol) || [];
+      list.push(quote);
+      quotesBySymbol.set(quote.symbol, list);
+    });
+
+  // Each getQuote call advances that symbol's cursor; once the tape runs out the last quote is held
+  const cursors = new Map<string, number>();
+
+  const currentQuote = (symbol: string): StockData | null => {
+    const quotes = quotesBySymbol.get(symbol);
+    if (!quotes || quotes.length === 0) return null;
+    const cursor = cursors.get(symbol) ?? 0;
+    return quotes[Math.min(Math.max(cursor - 1, 0), quotes.length - 1)];
+  };
+
+  return {
+    kind: 'replay',
+    name: 'Recorded file',
+    rateLimit: { requestsPerMinute: 600 },
+    // Local data is free to fetch, and every request advances the tape
+    cacheTtlSeconds: { quote: 0, intraday: 0 },
+    defaultSymbols: [...quotesBySymbol.keys()],
+
+    async getQuote(symbol: string) {
+      const quotes = quotesBySymbol.get(symbol);
+      if (!quotes || quotes.length === 0) return null;
+      const cursor = cursors.get(symbol) ?? 0;
+      cursors.set(symbol, Math.min(cursor + 1, quotes.length));
+      return currentQuote(symbol);
+    },
+
+    async getIntraday(symbol: string) {
+      // Only expose bars up to the quote currently being replayed, so the tape isn't read ahead
+      const quote = currentQuote(symbol);
+      const bars = recording.intraday?.[symbol] || [];
+      if (!quote) return [];
+      const cutoff = new Date(quote.timestamp).getTime();
+      return bars.filter(bar => new Date(bar.timestamp).getTime() <= cutoff);
+    },
+
+    async healthCheck() {
+      const symbolCount = quotesBySymbol.size;
+      return symbolCount > 0
+        ? { ok: true, message: `Loaded ${recording.quotes.length} quotes for ${symbolCount} symbols` }
+        : { ok: false, message: 'Recording contains no quotes' };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { ALL_QUEUES, AlertQueue } from './assignment';
+
+// A named alert-list filter: the query text plus the work queue it applies to
+export interface SavedView {
+  name: string;
+  query: string;
+  queue: AlertQueue;
+}
+
+const SAVED_VIEWS_STORAGE_KEY = 'savedViews';
+
+export function loadSavedViews(): SavedView[] {
+  const stored = localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    const views: SavedView[] = JSON.parse(stored);
+    return Array.isArray(views) ? views : [];
+  } catch (error) {
+    console.error('Stored views are corrupt, ignoring them:', error);
+    return [];
+  }
+}
+
+export function saveSavedViews(views: SavedView[]): void {
+  localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(views));
+}
+
+// Views travel in the URL (?view=&q=&queue=) so a link reproduces the list for anyone who opens it
+export function viewFromUrl(search: string): SavedView | null {
+  const params = new URLSearchParams(search);
+  if (!params.has('q') && !params.has('queue') && !params.has('view')) return null;
+  return {
+    name: params.get('view') || '',
+    query: params.get('q') || '',
+    queue: params.get('queue') || ALL_QUEUES,
+  };
+}
+
+export function viewToUrl(view: SavedView, base: string): string {
+  const url = new URL(base);
+  ['view', 'q', 'queue'].forEach(key => url.searchParams.delete(key));
+  if (view.name) url.searchParams.set('view', view.name);
+  if (view.query) url.searchParams.set('q', view.query);
+  if (view.queue !== ALL_QUEUES) url.searchParams.set('queue', view.queue);
+  return url.toString();
+}
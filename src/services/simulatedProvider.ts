@@ -0,0 +1,105 @@
+import { IntradayBar, MarketDataProvider, StockData } from './marketDataProvider';
+
+const SIMULATED_SYMBOLS = ['AAPL', 'TSLA', 'MSFT', 'GOOGL', 'AMZN'];
+const BAR_INTERVAL_MS = 15 * 60 * 1000;
+const INTRADAY_BARS = 10;
+
+interface SymbolState {
+  random: () => number;
+  previousClose: number;
+  price: number;
+  baseVolume: number;
+  bars: IntradayBar[];
+}
+
+// Small, fast seeded PRNG (mulberry32) so every run with the same seed produces the same tape
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function nextBar(state: SymbolState, timestamp: string): IntradayBar {
+  // Mostly a gentle random walk, with an occasional jump so the detection rules have something to find
+  const jump = state.random() < 0.05 ? (state.random() < 0.5 ? -1 : 1) * (0.04 + state.random() * 0.04) : 0;
+  const drift = (state.random() - 0.5) * 0.01;
+  state.price = Math.max(1, state.price * (1 + drift + jump));
+
+  const volumeSpike = state.random() < 0.05 ? 3 + state.random() * 3 : 1;
+  const volume = Math.round(state.baseVolume * (0.5 + state.random()) * volumeSpike);
+
+  return { price: parseFloat(state.price.toFixed(2)), volume, timestamp };
+}
+
+export function createSimulatedProvider(seed: number): MarketDataProvider {
+  const states = new Map<string, SymbolState>();
+
+  const getState = (symbol: string): SymbolState => {
+    let state = states.get(symbol);
+    if (!state) {
+      const random = createRandom(seed ^ hashString(symbol));
+      const price = 50 + random() * 450;
+      state = {
+        random,
+        previousClose: price,
+        price,
+        baseVolume: Math.round(200000 + random() * 800000),
+        bars: [],
+      };
+      const start = Date.now() - INTRADAY_BARS * BAR_INTERVAL_MS;
+      for (let i = 0; i < INTRADAY_BARS; i++) {
+        state.bars.push(nextBar(state, new Date(start + i * BAR_INTERVAL_MS).toISOString()));
+      }
+      states.set(symbol, state);
+    }
+    return state;
+  };
+
+  return {
+    kind: 'simulated',
+    name: `Simulated feed (seed ${seed})`,
+    rateLimit: { requestsPerMinute: 600 },
+    // Local data is free to fetch, and every request advances the tape
+    cacheTtlSeconds: { quote: 0, intraday: 0 },
+    defaultSymbols: SIMULATED_SYMBOLS,
+
+    async getQuote(symbol: string): Promise<StockData | null> {
+      const state = getState(symbol);
+      const bar = nextBar(state, new Date().toISOString());
+      state.bars = [...state.bars.slice(1 - INTRADAY_BARS), bar];
+
+      const change = bar.price - state.previousClose;
+      return {
+        symbol,
+        price: bar.price,
+        volume: bar.volume,
+        change: parseFloat(change.toFixed(2)),
+        changePercent: parseFloat(((change / state.previousClose) * 100).toFixed(4)),
+        timestamp: bar.timestamp,
+        previousClose: parseFloat(state.previousClose.toFixed(2)),
+      };
+    },
+
+    async getIntraday(symbol: string): Promise<IntradayBar[]> {
+      return [...getState(symbol).bars];
+    },
+
+    async healthCheck() {
+      return { ok: true, message: 'Simulated feed is always available' };
+    },
+  };
+}
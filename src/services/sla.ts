@@ -0,0 +1,114 @@
+import { ComplianceAlert, Severity } from '../types';
+import { appendTimelineEvent, createTimelineEventId } from './auditChain';
+
+export type SlaStage = 'triage' | 'resolution';
+
+// Minutes from alert creation until it must leave New (triage) and until it must be closed (resolution)
+export type SlaTargets = Record<Severity, Record<SlaStage, number>>;
+
+export interface SlaStatus {
+  stage: SlaStage | 'met';
+  dueAt: string | null;
+  // Negative once the deadline has passed
+  remainingMs: number;
+  breached: boolean;
+}
+
+export const DEFAULT_SLA_TARGETS: SlaTargets = {
+  Critical: { triage: 60, resolution: 8 * 60 },
+  High: { triage: 4 * 60, resolution: 24 * 60 },
+  Medium: { triage: 24 * 60, resolution: 3 * 24 * 60 },
+  Low: { triage: 3 * 24 * 60, resolution: 7 * 24 * 60 },
+};
+
+export const SLA_STAGE_LABELS: Record<SlaStage, string> = {
+  triage: 'Triage',
+  resolution: 'Resolution',
+};
+
+export const SLA_ESCALATION_TARGET = 'Senior Compliance Officer';
+const SLA_MONITOR_USER = 'SLA Monitor';
+const SLA_STORAGE_KEY = 'slaTargets';
+const MINUTE = 60 * 1000;
+
+const isClosed = (alert: ComplianceAlert) => alert.status === 'Resolved' || alert.status === 'Dismissed';
+
+function currentStage(alert: ComplianceAlert): SlaStage | null {
+  if (isClosed(alert)) return null;
+  return alert.status === 'New' ? 'triage' : 'resolution';
+}
+
+export function getSlaStatus(alert: ComplianceAlert, targets: SlaTargets, now: Date = new Date()): SlaStatus {
+  const stage = currentStage(alert);
+  const created = new Date(alert.timestamp).getTime();
+  if (!stage || isNaN(created)) {
+    return { stage: 'met', dueAt: null, remainingMs: 0, breached: false };
+  }
+
+  const due = created + targets[alert.severity][stage] * MINUTE;
+  const remainingMs = due - now.getTime();
+  return { stage, dueAt: new Date(due).toISOString(), remainingMs, breached: remainingMs < 0 };
+}
+
+export function formatSlaRemaining(remainingMs: number): string {
+  const minutes = Math.round(Math.abs(remainingMs) / MINUTE);
+  const text = minutes < 60 ? `${minutes}m`
+    : minutes < 24 * 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`;
+  return remainingMs < 0 ? `${text} overdue` : `${text} left`;
+}
+
+// Records an escalation event the first time each stage's deadline passes; returns only changed alerts
+export function checkSlaBreaches(alerts: ComplianceAlert[], targets: SlaTargets, now: Date = new Date()): ComplianceAlert[] {
+  const changed: ComplianceAlert[] = [];
+
+  alerts.forEach(alert => {
+    const status = getSlaStatus(alert, targets, now);
+    if (status.stage === 'met' || !status.breached || alert.slaBreaches?.includes(status.stage)) return;
+
+    const target = targets[alert.severity][status.stage];
+    changed.push(appendTimelineEvent({
+      ...alert,
+      slaBreaches: [...(alert.slaBreaches || []), status.stage],
+    }, {
+      id: createTimelineEventId(),
+      timestamp: now.toISOString(),
+      action: 'SLA Breach Escalation',
+      user: SLA_MONITOR_USER,
+      notes: `${SLA_STAGE_LABELS[status.stage]} SLA of ${target} minutes for ${alert.severity} alerts was missed` +
+        (alert.assignee ? ` (assigned to ${alert.assignee})` : ' (unassigned)'),
+      escalationTarget: SLA_ESCALATION_TARGET,
+    }));
+  });
+
+  return changed;
+}
+
+export function validateSlaTargets(targets: SlaTargets): string[] {
+  const errors: string[] = [];
+  (Object.keys(targets) as Severity[]).forEach(severity => {
+    const { triage, resolution } = targets[severity];
+    if (!Number.isFinite(triage) || triage <= 0 || !Number.isFinite(resolution) || resolution <= 0) {
+      errors.push(`${severity}: targets must be positive numbers of minutes`);
+    } else if (resolution < triage) {
+      errors.push(`${severity}: resolution target cannot be shorter than triage`);
+    }
+  });
+  return errors;
+}
+
+export function loadSlaTargets(): SlaTargets {
+  const stored = localStorage.getItem(SLA_STORAGE_KEY);
+  if (!stored) return DEFAULT_SLA_TARGETS;
+
+  try {
+    return { ...DEFAULT_SLA_TARGETS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Stored SLA targets are corrupt, falling back to defaults:', error);
+    return DEFAULT_SLA_TARGETS;
+  }
+}
+
+export function saveSlaTargets(targets: SlaTargets): void {
+  localStorage.setItem(SLA_STORAGE_KEY, JSON.stringify(targets));
+}
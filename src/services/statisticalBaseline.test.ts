@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { calendarForVenue, instantFromLocal } from './exchangeCalendar';
+import { IntradayBar } from './marketDataProvider';
+import { createBaseline, scoreBaseline, updateBaseline } from './statisticalBaseline';
+
+const nyse = calendarForVenue('XNYS');
+
+// A bar at a New York wall-clock time
+const barAt = (date: string, time: string, volume: number, price = 100): IntradayBar => ({
+  price, volume, timestamp: instantFromLocal(nyse.timeZone, date, time).toISOString(),
+});
+
+describe('updateBaseline', () => {
+  it('buckets bars by exchange-local time across a daylight-saving change', () => {
+    const baseline = createBaseline();
+    // 14:30Z before the change and 13:30Z after it are both the 09:30 bucket
+    updateBaseline(baseline, [barAt('2025-03-07', '09:30', 1000), barAt('2025-03-07', '09:45', 10)], nyse);
+    updateBaseline(baseline, [barAt('2025-03-10', '09:30', 2000), barAt('2025-03-10', '09:45', 10)], nyse);
+
+    expect(baseline.volumeProfile['09:30']).toEqual([
+      { date: '2025-03-07', volume: 1000 },
+      { date: '2025-03-10', volume: 2000 },
+    ]);
+  });
+
+  it('files evening bars under the local trading date', () => {
+    const baseline = createBaseline();
+    // 19:30 in New York is already the next day in UTC
+    updateBaseline(baseline, [barAt('2025-03-06', '19:30', 500), barAt('2025-03-06', '19:45', 10)], nyse);
+
+    expect(baseline.volumeProfile['19:30']).toEqual([{ date: '2025-03-06', volume: 500 }]);
+  });
+
+  it('does not count the overnight gap as a return', () => {
+    const baseline = createBaseline();
+    // The first two bars are one local evening, the third the next local morning - all on one UTC date
+    updateBaseline(baseline, [
+      barAt('2025-03-06', '19:30', 10, 100),
+      barAt('2025-03-06', '19:45', 10, 101),
+      barAt('2025-03-07', '04:00', 10, 120),
+      barAt('2025-03-07', '04:15', 10, 121),
+    ], nyse);
+
+    expect(baseline.returnCount).toBe(1);
+    expect(baseline.ewmaVariance).toBeCloseTo(Math.log(101 / 100) ** 2);
+  });
+});
+
+describe('scoreBaseline', () => {
+  it('compares the newest bar with the same local bucket on earlier days', () => {
+    const baseline = createBaseline();
+    const days = ['2025-03-04', '2025-03-05', '2025-03-06', '2025-03-07', '2025-03-10', '2025-03-11'];
+    const volumes = [900, 1100, 1000, 950, 1050];
+    volumes.forEach((volume, index) => {
+      updateBaseline(baseline, [barAt(days[index], '09:30', volume), barAt(days[index], '09:45', 10)], nyse);
+    });
+
+    const scores = scoreBaseline(baseline, [barAt(days[5], '09:15', 10), barAt(days[5], '09:30', 5000)], nyse);
+
+    expect(scores.volume).toMatchObject({ bucket: '09:30', volume: 5000, mean: 1000, days: 5 });
+    expect(scores.volume!.zScore).toBeGreaterThan(3);
+  });
+});
@@ -0,0 +1,160 @@
+import { BaselineScores } from '../types';
+import { ExchangeCalendar, exchangeLocalTime } from './exchangeCalendar';
+import { IntradayBar, ProviderKind } from './marketDataProvider';
+
+export interface VolumeSample {
+  // Exchange-local trading date, "YYYY-MM-DD"
+  date: string;
+  volume: number;
+}
+
+// Rolling per-symbol statistics, built up from the intraday bars each cycle sees
+export interface SymbolBaseline {
+  // Exchange-local bucket start ("HH:MM") -> the bucket's volume on each recent trading day, oldest first
+  volumeProfile: Record<string, VolumeSample[]>;
+  // EWMA of squared bar-to-bar log returns, and how many returns have gone into it
+  ewmaVariance: number;
+  returnCount: number;
+  // Newest bar folded into the volatility estimate
+  lastBar?: { timestamp: string; price: number };
+}
+
+export const BUCKET_MINUTES = 15;
+export const BASELINE_DAYS = 20;
+// Scores stay unset, so rules on them can't fire, until this much history exists
+const MIN_BASELINE_DAYS = 5;
+const MIN_RETURNS = 20;
+// RiskMetrics decay factor
+const EWMA_LAMBDA = 0.94;
+const BASELINE_STORAGE_KEY = 'statisticalBaselines';
+
+const time = (bar: { timestamp: string }) => new Date(bar.timestamp).getTime();
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export function createBaseline(): SymbolBaseline {
+  return { volumeProfile: {}, ewmaVariance: 0, returnCount: 0 };
+}
+
+function bucketOf(calendar: ExchangeCalendar, timestamp: string) {
+  const { date, minutes } = exchangeLocalTime(calendar, new Date(timestamp));
+  const start = Math.floor(minutes / BUCKET_MINUTES) * BUCKET_MINUTES;
+  return { date, bucket: `${pad(Math.floor(start / 60))}:${pad(start % 60)}` };
+}
+
+// Total volume of the bars in each local date and bucket
+function bucketVolumes(bars: IntradayBar[], calendar: ExchangeCalendar): Map<string, VolumeSample & { bucket: string }> {
+  const totals = new Map<string, VolumeSample & { bucket: string }>();
+  bars.forEach(bar => {
+    const { date, bucket } = bucketOf(calendar, bar.timestamp);
+    const key = `${date} ${bucket}`;
+    const total = totals.get(key) || { date, bucket, volume: 0 };
+    total.volume += bar.volume;
+    totals.set(key, total);
+  });
+  return totals;
+}
+
+// Folds the bars into the baseline in place. Safe to call with overlapping windows of bars.
+export function updateBaseline(baseline: SymbolBaseline, bars: IntradayBar[], calendar: ExchangeCalendar): void {
+  const sorted = [...bars].sort((a, b) => time(a) - time(b));
+
+  // A window of bars can start or end part-way through a bucket, so a bucket's volume for a day only ever grows
+  bucketVolumes(sorted, calendar).forEach(({ date, bucket, volume }) => {
+    const samples = baseline.volumeProfile[bucket] || [];
+    const existing = samples.find(sample => sample.date === date);
+    if (existing) {
+      existing.volume = Math.max(existing.volume, volume);
+    } else {
+      samples.push({ date, volume });
+      samples.sort((a, b) => a.date.localeCompare(b.date));
+    }
+    // The baseline days plus the day being scored
+    baseline.volumeProfile[bucket] = samples.slice(-(BASELINE_DAYS + 1));
+  });
+
+  // The newest bar may still be forming and is the one that gets scored, so only the bars before it are folded in.
+  // Overnight gaps aren't intraday moves and are skipped.
+  sorted.slice(0, -1).forEach(bar => {
+    const last = baseline.lastBar;
+    if (last && time(bar) <= time(last)) return;
+    if (last && last.price > 0 && bar.price > 0 && bucketOf(calendar, last.timestamp).date === bucketOf(calendar, bar.timestamp).date) {
+      const squared = Math.log(bar.price / last.price) ** 2;
+      baseline.ewmaVariance = baseline.returnCount === 0
+        ? squared
+        : EWMA_LAMBDA * baseline.ewmaVariance + (1 - EWMA_LAMBDA) * squared;
+      baseline.returnCount += 1;
+    }
+    baseline.lastBar = { timestamp: bar.timestamp, price: bar.price };
+  });
+}
+
+// Scores the newest bar: its bucket's volume against the same bucket on earlier days, and its move against the
+// EWMA volatility
+export function scoreBaseline(
+  baseline: SymbolBaseline | undefined,
+  bars: IntradayBar[],
+  calendar: ExchangeCalendar
+): BaselineScores {
+  if (!baseline || bars.length === 0) return {};
+  const sorted = [...bars].sort((a, b) => time(a) - time(b));
+  const latest = sorted[sorted.length - 1];
+  const { date, bucket } = bucketOf(calendar, latest.timestamp);
+  const scores: BaselineScores = {};
+
+  const history = (baseline.volumeProfile[bucket] || []).filter(sample => sample.date !== date).slice(-BASELINE_DAYS);
+  if (history.length >= MIN_BASELINE_DAYS) {
+    const volume = bucketVolumes(sorted, calendar).get(`${date} ${bucket}`)?.volume ?? latest.volume;
+    const mean = history.reduce((sum, sample) => sum + sample.volume, 0) / history.length;
+    const variance = history.reduce((sum, sample) => sum + (sample.volume - mean) ** 2, 0) / (history.length - 1);
+    const stdDev = Math.sqrt(variance);
+    if (stdDev > 0) {
+      scores.volume = { zScore: (volume - mean) / stdDev, bucket, volume, mean, stdDev, days: history.length };
+    }
+  }
+
+  const previous = sorted[sorted.length - 2];
+  if (
+    previous && previous.price > 0 && latest.price > 0 &&
+    baseline.returnCount >= MIN_RETURNS && baseline.ewmaVariance > 0 &&
+    bucketOf(calendar, previous.timestamp).date === date
+  ) {
+    const volatility = Math.sqrt(baseline.ewmaVariance);
+    scores.price = {
+      zScore: Math.log(latest.price / previous.price) / volatility,
+      movePercent: (latest.price / previous.price - 1) * 100,
+      volatilityPercent: volatility * 100,
+      observations: baseline.returnCount,
+    };
+  }
+
+  return scores;
+}
+
+// Kept per provider kind, like the scheduler state, so a simulated tape never skews a live baseline
+export function loadBaselines(kind: ProviderKind): Map<string, SymbolBaseline> {
+  const stored = localStorage.getItem(BASELINE_STORAGE_KEY);
+  if (!stored) return new Map();
+
+  try {
+    const byKind: Partial<Record<ProviderKind, Record<string, SymbolBaseline>>> = JSON.parse(stored);
+    return new Map(Object.entries(byKind[kind] || {}));
+  } catch (error) {
+    console.error('Stored statistical baselines are corrupt, starting fresh:', error);
+    return new Map();
+  }
+}
+
+export function saveBaselines(kind: ProviderKind, baselines: Map<string, SymbolBaseline>): void {
+  let byKind: Partial<Record<ProviderKind, Record<string, SymbolBaseline>>> = {};
+  try {
+    byKind = JSON.parse(localStorage.getItem(BASELINE_STORAGE_KEY) || '{}');
+  } catch {
+    // Overwritten below
+  }
+  try {
+    localStorage.setItem(BASELINE_STORAGE_KEY, JSON.stringify({ ...byKind, [kind]: Object.fromEntries(baselines) }));
+  } catch (error) {
+    // A large watchlist can outgrow the storage quota; the baselines are rebuilt from the bars in that case
+    console.error('Failed to save statistical baselines:', error);
+  }
+}
@@ -0,0 +1,108 @@
+import { Trader } from '../types';
+import { parseCsv } from './csv';
+
+export interface TraderRegistry {
+  traders: Trader[];
+}
+
+const REGISTRY_STORAGE_KEY = 'traderRegistry';
+
+export const EMPTY_REGISTRY: TraderRegistry = { traders: [] };
+
+function splitList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).map(v => v.trim()).filter(Boolean);
+  return String(value ?? '').split(/[;|]/).map(v => v.trim()).filter(Boolean);
+}
+
+// CSV columns: id,name,email,firm,registrationDate,accounts,symbols (lists separated by ";")
+// JSON: an array of traders, or { "traders": [...] }, with accounts/symbols as arrays
+export function parseTraderRegistry(fileName: string, text: string): TraderRegistry {
+  const parsed = fileName.toLowerCase().endsWith('.csv') ? parseCsv(text) : JSON.parse(text);
+  const rows: Record<string, unknown>[] = Array.isArray(parsed) ? parsed : parsed?.traders;
+  if (!Array.isArray(rows)) {
+    throw new Error('Expected an array of traders');
+  }
+
+  const seen = new Set<string>();
+  const traders = rows.map((row, index) => {
+    const id = String(row.id ?? '').trim();
+    const name = String(row.name ?? '').trim();
+    if (!id || !name) {
+      throw new Error(`Row ${index + 1}: id and name are required`);
+    }
+    if (seen.has(id)) {
+      throw new Error(`Row ${index + 1}: duplicate trader id "${id}"`);
+    }
+    seen.add(id);
+
+    const registrationDate = String(row.registrationDate ?? '').trim();
+    return {
+      id,
+      name,
+      email: String(row.email ?? '').trim(),
+      firm: String(row.firm ?? '').trim(),
+      registrationDate: registrationDate && !isNaN(new Date(registrationDate).getTime())
+        ? new Date(registrationDate).toISOString()
+        : '',
+      accounts: splitList(row.accounts),
+      symbols: splitList(row.symbols).map(symbol => symbol.toUpperCase()),
+    };
+  });
+
+  // An account can only belong to one trader, otherwise attribution would be ambiguous
+  const owners = new Map<string, string>();
+  traders.forEach(trader => trader.accounts.forEach(account => {
+    const owner = owners.get(account);
+    if (owner && owner !== trader.id) {
+      throw new Error(`Account "${account}" is assigned to both ${owner} and ${trader.id}`);
+    }
+    owners.set(account, trader.id);
+  }));
+
+  return { traders };
+}
+
+export function loadTraderRegistry(): TraderRegistry {
+  const stored = localStorage.getItem(REGISTRY_STORAGE_KEY);
+  if (!stored) return EMPTY_REGISTRY;
+
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Stored trader registry is corrupt:', error);
+    return EMPTY_REGISTRY;
+  }
+}
+
+export function saveTraderRegistry(registry: TraderRegistry): void {
+  localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+}
+
+// Placeholder for activity the registry cannot attribute; deliberately not a made-up person. The id is
+// namespaced so an account or symbol can never collide with a registered trader's id.
+export function unattributedTrader(reference: string): Trader {
+  return {
+    id: `unattributed:${reference}`,
+    name: `Unattributed (${reference})`,
+    email: '',
+    firm: 'Unknown',
+    registrationDate: '',
+  };
+}
+
+export function findTraderById(registry: TraderRegistry, traderId: string): Trader | undefined {
+  return registry.traders.find(trader => trader.id === traderId);
+}
+
+export function findTraderByAccount(registry: TraderRegistry, account: string): Trader | undefined {
+  return registry.traders.find(trader => trader.accounts?.includes(account));
+}
+
+export function resolveTraderForAccount(registry: TraderRegistry, account: string): Trader {
+  return findTraderByAccount(registry, account) || unattributedTrader(account);
+}
+
+// Market data alerts have no account; they go to the trader covering the instrument
+export function resolveTraderForSymbol(registry: TraderRegistry, symbol: string): Trader {
+  return registry.traders.find(trader => trader.symbols?.includes(symbol)) || unattributedTrader(symbol);
+}
@@ -0,0 +1,118 @@
+import { Severity, Status, User, UserRole } from '../types';
+
+export type Permission =
+  | 'review'
+  | 'escalate'
+  | 'dismiss'
+  | 'resolve'
+  | 'reopen'
+  | 'approve'
+  | 'assign'
+  | 'manageRules'
+  | 'importAlerts'
+  | 'manageUsers';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  analyst: 'Analyst',
+  seniorOfficer: 'Senior Compliance Officer',
+  admin: 'Administrator',
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  analyst: ['review', 'escalate', 'dismiss', 'resolve'],
+  seniorOfficer: ['review', 'escalate', 'dismiss', 'resolve', 'reopen', 'approve', 'assign', 'manageRules', 'importAlerts'],
+  admin: ['review', 'escalate', 'dismiss', 'resolve', 'reopen', 'approve', 'assign', 'manageRules', 'importAlerts', 'manageUsers'],
+};
+
+export const DEFAULT_USERS: User[] = [
+  { id: 'analyst', name: 'Alex Analyst', role: 'analyst', active: true },
+  { id: 'officer', name: 'Sam Officer', role: 'seniorOfficer', active: true },
+  { id: 'admin', name: 'Admin', role: 'admin', active: true },
+];
+
+// Transitions of these severities into these statuses need a second user's approval
+export interface FourEyesPolicy {
+  enabled: boolean;
+  severities: Severity[];
+  statuses: Status[];
+}
+
+export const DEFAULT_FOUR_EYES_POLICY: FourEyesPolicy = {
+  enabled: true,
+  severities: ['Critical', 'High'],
+  statuses: ['Dismissed'],
+};
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+const USERS_STORAGE_KEY = 'users';
+const FOUR_EYES_STORAGE_KEY = 'fourEyesPolicy';
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return !!user && user.active && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+// Which permission a move between two statuses needs
+export function permissionForTransition(from: Status, to: Status): Permission {
+  switch (to) {
+    case 'Escalated': return 'escalate';
+    case 'Dismissed': return 'dismiss';
+    case 'Resolved': return 'resolve';
+    default: return from === 'Dismissed' || from === 'Resolved' ? 'reopen' : 'review';
+  }
+}
+
+export function validateUser(user: User, allUsers: User[]): string[] {
+  const errors: string[] = [];
+  if (!user.id.trim()) {
+    errors.push('Id is required');
+  } else if (allUsers.filter(u => u.id === user.id).length > 1) {
+    errors.push(`Id "${user.id}" is used by more than one user`);
+  }
+  if (!user.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (!(user.role in ROLE_PERMISSIONS)) {
+    errors.push(`Unknown role "${user.role}"`);
+  }
+  return errors;
+}
+
+export function validatePassword(password: string): string[] {
+  return password.length < MIN_PASSWORD_LENGTH
+    ? [`Password must be at least ${MIN_PASSWORD_LENGTH} characters`]
+    : [];
+}
+
+export function loadUsers(): User[] {
+  const stored = localStorage.getItem(USERS_STORAGE_KEY);
+  if (!stored) return DEFAULT_USERS;
+
+  try {
+    const users: User[] = JSON.parse(stored);
+    return Array.isArray(users) && users.length > 0 ? users : DEFAULT_USERS;
+  } catch (error) {
+    console.error('Stored users are corrupt, falling back to defaults:', error);
+    return DEFAULT_USERS;
+  }
+}
+
+export function saveUsers(users: User[]): void {
+  localStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(users));
+}
+
+export function loadFourEyesPolicy(): FourEyesPolicy {
+  const stored = localStorage.getItem(FOUR_EYES_STORAGE_KEY);
+  if (!stored) return DEFAULT_FOUR_EYES_POLICY;
+
+  try {
+    return { ...DEFAULT_FOUR_EYES_POLICY, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Stored four-eyes policy is corrupt, falling back to defaults:', error);
+    return DEFAULT_FOUR_EYES_POLICY;
+  }
+}
+
+export function saveFourEyesPolicy(policy: FourEyesPolicy): void {
+  localStorage.setItem(FOUR_EYES_STORAGE_KEY, JSON.stringify(policy));
+}
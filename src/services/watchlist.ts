@@ -0,0 +1,248 @@
+import { Severity } from '../types';
+import { DetectionRule, validateRule } from './detectionRules';
+import { parseCsv } from './csv';
+
+export type WatchlistGroupKind = 'desk' | 'sector' | 'restricted' | 'custom';
+
+export const GROUP_KIND_LABELS: Record<WatchlistGroupKind, string> = {
+  desk: 'Desk',
+  sector: 'Sector',
+  restricted: 'Restricted list',
+  custom: 'Custom',
+};
+
+export interface WatchedSymbol {
+  symbol: string;
+  name?: string;
+  // ISO 10383 market identifier code of the primary listing, e.g. XNAS or XNYS
+  venue?: string;
+}
+
+// Only the fields that are set replace the base rule's
+export interface RuleOverride {
+  ruleId: string;
+  enabled?: boolean;
+  threshold?: number;
+  severity?: Severity;
+}
+
+export interface WatchlistGroup {
+  id: string;
+  name: string;
+  kind: WatchlistGroupKind;
+  symbols: string[];
+  ruleOverrides: RuleOverride[];
+}
+
+export interface Watchlist {
+  symbols: WatchedSymbol[];
+  groups: WatchlistGroup[];
+}
+
+const WATCHLIST_STORAGE_KEY = 'watchlist';
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.-]{0,11}$/;
+const VENUE_PATTERN = /^[A-Z0-9]{4}$/;
+
+// The five names monitoring was limited to before the watchlist was configurable
+export const DEFAULT_WATCHLIST: Watchlist = {
+  symbols: ['AAPL', 'TSLA', 'MSFT', 'GOOGL', 'AMZN'].map(symbol => ({ symbol, venue: 'XNAS' })),
+  groups: [],
+};
+
+export function normalizeSymbol(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+export function watchlistSymbols(watchlist: Watchlist): string[] {
+  return watchlist.symbols.map(entry => entry.symbol);
+}
+
+export function venueForSymbol(watchlist: Watchlist | undefined, symbol: string): string | undefined {
+  return watchlist?.symbols.find(entry => entry.symbol === symbol)?.venue;
+}
+
+export function groupsForSymbol(watchlist: Watchlist, symbol: string): WatchlistGroup[] {
+  return watchlist.groups.filter(group => group.symbols.includes(symbol));
+}
+
+// Adds new symbols and fills in names and venues for known ones; existing values are kept when the entry has none
+export function addSymbols(watchlist: Watchlist, entries: WatchedSymbol[]): Watchlist {
+  const bySymbol = new Map(watchlist.symbols.map(entry => [entry.symbol, entry]));
+  entries.forEach(entry => {
+    const symbol = normalizeSymbol(entry.symbol);
+    const existing = bySymbol.get(symbol);
+    bySymbol.set(symbol, {
+      symbol,
+      name: entry.name || existing?.name,
+      venue: entry.venue ? entry.venue.toUpperCase() : existing?.venue,
+    });
+  });
+  return { ...watchlist, symbols: [...bySymbol.values()] };
+}
+
+export function removeSymbol(watchlist: Watchlist, symbol: string): Watchlist {
+  return {
+    symbols: watchlist.symbols.filter(entry => entry.symbol !== symbol),
+    groups: watchlist.groups.map(group => ({ ...group, symbols: group.symbols.filter(s => s !== symbol) })),
+  };
+}
+
+function groupId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'group';
+}
+
+function splitList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).map(v => v.trim()).filter(Boolean);
+  return String(value ?? '').split(/[;|]/).map(v => v.trim()).filter(Boolean);
+}
+
+// Accepts a plain list of tickers (one per line or comma separated), CSV with a symbol column plus optional
+// name, venue and groups (";" separated) columns, or JSON: an array of tickers or entries, or a whole watchlist.
+// Group names in the file are matched to existing groups by name, and created as custom groups otherwise.
+export function parseWatchlistFile(fileName: string, text: string): { symbols: WatchedSymbol[]; memberships: Map<string, string[]> } {
+  const lower = fileName.toLowerCase();
+  let rows: Record<string, unknown>[];
+  if (lower.endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    const list: unknown[] = Array.isArray(parsed) ? parsed : parsed?.symbols;
+    if (!Array.isArray(list)) {
+      throw new Error('Expected an array of symbols, or { "symbols": [...] }');
+    }
+    rows = list.map(item => typeof item === 'string' ? { symbol: item } : item as Record<string, unknown>);
+    // A full watchlist export also carries its groups
+    if (!Array.isArray(parsed) && Array.isArray(parsed.groups)) {
+      (parsed.groups as Partial<WatchlistGroup>[]).forEach(group => {
+        (group.symbols || []).forEach(symbol => {
+          const row = rows.find(r => normalizeSymbol(String(r.symbol ?? '')) === normalizeSymbol(symbol));
+          if (row) row.groups = [...splitList(row.groups), String(group.name ?? '')];
+        });
+      });
+    }
+  } else if (lower.endsWith('.csv') && /^\s*"?symbol"?\s*(,|\r?\n|$)/i.test(text)) {
+    rows = parseCsv(text).map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), value])));
+  } else {
+    rows = text.split(/[\s,;]+/).filter(Boolean).map(symbol => ({ symbol }));
+  }
+
+  const symbols: WatchedSymbol[] = [];
+  const memberships = new Map<string, string[]>();
+  rows.forEach((row, index) => {
+    const symbol = normalizeSymbol(String(row.symbol ?? ''));
+    if (!SYMBOL_PATTERN.test(symbol)) {
+      throw new Error(`Entry ${index + 1}: "${String(row.symbol ?? '')}" is not a valid ticker`);
+    }
+    const venue = String(row.venue ?? '').trim().toUpperCase();
+    if (venue && !VENUE_PATTERN.test(venue)) {
+      throw new Error(`Entry ${index + 1}: venue "${venue}" must be a 4-character market identifier code`);
+    }
+    symbols.push({ symbol, name: String(row.name ?? '').trim() || undefined, venue: venue || undefined });
+    splitList(row.groups).forEach(name => memberships.set(name, [...(memberships.get(name) || []), symbol]));
+  });
+
+  return { symbols, memberships };
+}
+
+export function mergeWatchlistImport(
+  watchlist: Watchlist,
+  imported: { symbols: WatchedSymbol[]; memberships: Map<string, string[]> }
+): Watchlist {
+  const merged = addSymbols(watchlist, imported.symbols);
+  const groups = [...merged.groups];
+  imported.memberships.forEach((symbols, name) => {
+    const index = groups.findIndex(group => group.name.toLowerCase() === name.toLowerCase());
+    if (index >= 0) {
+      groups[index] = { ...groups[index], symbols: [...new Set([...groups[index].symbols, ...symbols])] };
+      return;
+    }
+    let id = groupId(name);
+    while (groups.some(group => group.id === id)) id = `${id}-${groups.length}`;
+    groups.push({ id, name, kind: 'custom', symbols: [...new Set(symbols)], ruleOverrides: [] });
+  });
+  return { ...merged, groups };
+}
+
+function overrideRule(rule: DetectionRule, override: RuleOverride): DetectionRule {
+  return {
+    ...rule,
+    ...(override.enabled !== undefined && { enabled: override.enabled }),
+    ...(override.threshold !== undefined && { threshold: override.threshold }),
+    ...(override.severity !== undefined && { severity: override.severity }),
+  };
+}
+
+// Returns the rules as they apply to one symbol: overrides of every group holding it, later groups winning
+export function applyRuleOverrides(rules: DetectionRule[], watchlist: Watchlist, symbol: string): DetectionRule[] {
+  const groups = groupsForSymbol(watchlist, symbol).filter(group => group.ruleOverrides.length > 0);
+  if (groups.length === 0) return rules;
+
+  return rules.map(rule => groups.reduce((current, group) => {
+    const override = group.ruleOverrides.find(o => o.ruleId === rule.id);
+    return override
+      ? { ...overrideRule(current, override), overriddenBy: [...(current.overriddenBy || []), group.name] }
+      : current;
+  }, rule));
+}
+
+export function validateWatchlist(watchlist: Watchlist, rules: DetectionRule[]): string[] {
+  const errors: string[] = [];
+  const symbols = new Set<string>();
+
+  watchlist.symbols.forEach(entry => {
+    if (!SYMBOL_PATTERN.test(entry.symbol)) {
+      errors.push(`"${entry.symbol}" is not a valid ticker`);
+    } else if (symbols.has(entry.symbol)) {
+      errors.push(`${entry.symbol} is listed more than once`);
+    }
+    if (entry.venue && !VENUE_PATTERN.test(entry.venue)) {
+      errors.push(`${entry.symbol}: venue "${entry.venue}" must be a 4-character market identifier code`);
+    }
+    symbols.add(entry.symbol);
+  });
+
+  const groupIds = new Set<string>();
+  watchlist.groups.forEach(group => {
+    const label = group.name.trim() || group.id;
+    if (!group.name.trim()) errors.push(`Group ${group.id}: name is required`);
+    if (!(group.kind in GROUP_KIND_LABELS)) errors.push(`${label}: unknown group kind "${group.kind}"`);
+    if (groupIds.has(group.id)) errors.push(`Group id "${group.id}" is used more than once`);
+    groupIds.add(group.id);
+
+    group.symbols.filter(symbol => !symbols.has(symbol)).forEach(symbol => {
+      errors.push(`${label}: ${symbol} is not on the watchlist`);
+    });
+
+    const overridden = new Set<string>();
+    group.ruleOverrides.forEach(override => {
+      const rule = rules.find(r => r.id === override.ruleId);
+      if (!rule) {
+        errors.push(`${label}: override for unknown rule "${override.ruleId}"`);
+        return;
+      }
+      if (overridden.has(rule.id)) errors.push(`${label}: more than one override for ${rule.name}`);
+      overridden.add(rule.id);
+      // The overridden rule has to hold together on its own, e.g. bands still above the new threshold
+      const applied = overrideRule(rule, override);
+      validateRule(applied, [applied])
+        .forEach(error => errors.push(`${label}, ${rule.name}: ${error}`));
+    });
+  });
+
+  return errors;
+}
+
+export function loadWatchlist(): Watchlist {
+  const stored = localStorage.getItem(WATCHLIST_STORAGE_KEY);
+  if (!stored) return DEFAULT_WATCHLIST;
+
+  try {
+    const watchlist: Watchlist = JSON.parse(stored);
+    return Array.isArray(watchlist?.symbols) && Array.isArray(watchlist.groups) ? watchlist : DEFAULT_WATCHLIST;
+  } catch (error) {
+    console.error('Stored watchlist is corrupt, falling back to defaults:', error);
+    return DEFAULT_WATCHLIST;
+  }
+}
+
+export function saveWatchlist(watchlist: Watchlist): void {
+  localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(watchlist));
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { ComplianceAlert, Severity } from '../types';
+import { DEFAULT_USERS, FourEyesPolicy } from './users';
+import { approveTransition, rejectTransition, transitionAlert, WorkflowError } from './workflow';
+
+const [analyst, officer, admin] = DEFAULT_USERS;
+const policy: FourEyesPolicy = { enabled: true, severities: ['Critical', 'High'], statuses: ['Dismissed'] };
+
+const makeAlert = (severity: Severity = 'Medium'): ComplianceAlert => ({
+  id: 'ALT-1',
+  type: 'Spoofing',
+  severity,
+  status: 'New',
+  trader: { id: 'T1', name: 'Pat Trader', email: 'pat@example.com', firm: 'Example Securities', registrationDate: '2020-01-01' },
+  timestamp: '2025-03-03T15:00:00.000Z',
+  description: 'Layered orders cancelled before execution',
+  detectedBy: 'Test',
+  investigationNotes: '',
+  timeline: [],
+});
+
+const workflowError = (step: () => unknown) => {
+  try {
+    step();
+  } catch (error) {
+    if (error instanceof WorkflowError) return error;
+    throw error;
+  }
+  throw new Error('Expected a WorkflowError');
+};
+
+describe('transitionAlert', () => {
+  it('moves the alert and records who did it', () => {
+    const updated = transitionAlert(makeAlert(), { to: 'In Review', actor: analyst }, policy);
+
+    expect(updated.status).toBe('In Review');
+    expect(updated.timeline).toHaveLength(1);
+    expect(updated.timeline[0]).toMatchObject({
+      action: 'Start Investigation', userId: analyst.id, fromStatus: 'New', toStatus: 'In Review',
+    });
+  });
+
+  it('refuses moves the workflow does not allow', () => {
+    const error = workflowError(() => transitionAlert(makeAlert(), { to: 'Resolved', actor: analyst, notes: 'done' }, policy));
+    expect(error.code).toBe('illegalTransition');
+  });
+
+  it('requires the fields a transition needs', () => {
+    const error = workflowError(() => transitionAlert(makeAlert(), { to: 'Dismissed', actor: analyst }, policy));
+    expect(error.code).toBe('missingField');
+    expect(error.field).toBe('reasonCode');
+  });
+
+  it('refuses users without the permission', () => {
+    const dismissed = transitionAlert(makeAlert(), { to: 'Dismissed', actor: analyst, reasonCode: 'FALSE_POSITIVE' }, policy);
+    const error = workflowError(() => transitionAlert(dismissed, { to: 'In Review', actor: analyst, notes: 'new facts' }, policy));
+    expect(error.code).toBe('forbidden');
+  });
+});
+
+describe('four-eyes approval', () => {
+  const requestDismissal = () => transitionAlert(
+    makeAlert('High'),
+    { to: 'Dismissed', actor: analyst, reasonCode: 'FALSE_POSITIVE', notes: 'rule misfired' },
+    policy
+  );
+
+  it('parks a covered transition until someone approves it', () => {
+    const requested = requestDismissal();
+
+    expect(requested.status).toBe('New');
+    expect(requested.pendingApproval).toMatchObject({ requestedBy: analyst.id, to: 'Dismissed', reasonCode: 'FALSE_POSITIVE' });
+    expect(requested.timeline.map(event => event.action)).toEqual(['Dismiss Requested']);
+  });
+
+  it('applies transitions the policy does not cover straight away', () => {
+    const dismissed = transitionAlert(makeAlert('Low'), { to: 'Dismissed', actor: analyst, reasonCode: 'DUPLICATE' }, policy);
+    expect(dismissed.status).toBe('Dismissed');
+    expect(dismissed.pendingApproval).toBeUndefined();
+  });
+
+  it('blocks other transitions while approval is pending', () => {
+    const error = workflowError(() => transitionAlert(requestDismissal(), { to: 'In Review', actor: officer }, policy));
+    expect(error.code).toBe('pendingApproval');
+  });
+
+  it('does not let the requester approve their own request', () => {
+    const selfRequested = transitionAlert(
+      makeAlert('High'),
+      { to: 'Dismissed', actor: officer, reasonCode: 'FALSE_POSITIVE' },
+      policy
+    );
+    expect(workflowError(() => approveTransition(selfRequested, officer)).code).toBe('forbidden');
+  });
+
+  it('needs the approve permission', () => {
+    const requested = transitionAlert(makeAlert('High'), { to: 'Dismissed', actor: admin, reasonCode: 'FALSE_POSITIVE' }, policy);
+    expect(workflowError(() => approveTransition(requested, analyst)).code).toBe('forbidden');
+  });
+
+  it('applies the change for the requester, signed off by the approver', () => {
+    const approved = approveTransition(requestDismissal(), officer);
+
+    expect(approved.status).toBe('Dismissed');
+    expect(approved.pendingApproval).toBeUndefined();
+    expect(approved.timeline.map(event => event.action)).toEqual(['Dismiss Requested', 'Dismiss Approved', 'Dismiss']);
+    expect(approved.timeline[1].userId).toBe(officer.id);
+    expect(approved.timeline[2]).toMatchObject({ userId: analyst.id, approvedBy: officer.id, reasonCode: 'FALSE_POSITIVE' });
+  });
+
+  it('needs a reason to reject, and leaves the status alone', () => {
+    const requested = requestDismissal();
+    expect(workflowError(() => rejectTransition(requested, officer, '  ')).code).toBe('missingField');
+
+    const rejected = rejectTransition(requested, officer, 'Pattern repeats across accounts');
+    expect(rejected.status).toBe('New');
+    expect(rejected.pendingApproval).toBeUndefined();
+    expect(rejected.timeline[rejected.timeline.length - 1]).toMatchObject({
+      action: 'Dismiss Rejected', userId: officer.id, notes: 'Pattern repeats across accounts',
+    });
+  });
+
+  it('only replaces the alert\'s notes once the transition takes effect', () => {
+    const requested = transitionAlert(
+      { ...makeAlert('High'), investigationNotes: 'Earlier findings' },
+      { to: 'Dismissed', actor: analyst, reasonCode: 'FALSE_POSITIVE', notes: 'rule misfired' },
+      policy
+    );
+    expect(requested.investigationNotes).toBe('Earlier findings');
+    expect(rejectTransition(requested, officer, 'Not yet').investigationNotes).toBe('Earlier findings');
+    expect(approveTransition(requested, officer).investigationNotes).toBe('rule misfired');
+  });
+
+  it('keeps the alert\'s notes on approval when the notes were only a timeline comment', () => {
+    const requested = transitionAlert(
+      { ...makeAlert('High'), investigationNotes: 'Earlier findings' },
+      { to: 'Dismissed', actor: analyst, reasonCode: 'FALSE_POSITIVE', notes: 'Batch closed', keepNotes: true },
+      policy
+    );
+    const approved = approveTransition(requested, officer);
+    expect(approved.investigationNotes).toBe('Earlier findings');
+    expect(approved.timeline.at(-1)?.notes).toBe('Batch closed');
+  });
+});
@@ -0,0 +1,233 @@
+import { ComplianceAlert, Status, User } from '../types';
+import { applyStatusChange } from './alertActions';
+import { appendTimelineEvent, createTimelineEventId } from './auditChain';
+import { DEFAULT_FOUR_EYES_POLICY, FourEyesPolicy, hasPermission, permissionForTransition } from './users';
+
+export type TransitionField = 'reasonCode' | 'escalationTarget' | 'notes';
+
+export interface WorkflowTransition {
+  from: Status;
+  to: Status;
+  action: string;
+  requires: TransitionField[];
+}
+
+export interface TransitionRequest {
+  to: Status;
+  actor: User;
+  notes?: string;
+  // Record the notes on the timeline only, leaving the alert's own notes as they are
+  keepNotes?: boolean;
+  reasonCode?: string;
+  escalationTarget?: string;
+}
+
+export type WorkflowErrorCode = 'illegalTransition' | 'missingField' | 'invalidField' | 'forbidden' | 'pendingApproval';
+
+export class WorkflowError extends Error {
+  constructor(public code: WorkflowErrorCode, message: string, public field?: TransitionField) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+export const DISMISSAL_REASONS: { code: string; label: string }[] = [
+  { code: 'FALSE_POSITIVE', label: 'False positive - rule misfired' },
+  { code: 'LEGITIMATE_ACTIVITY', label: 'Legitimate activity - documented rationale' },
+  { code: 'DUPLICATE', label: 'Duplicate of another alert' },
+  { code: 'DATA_ERROR', label: 'Bad or incomplete source data' },
+  { code: 'BELOW_MATERIALITY', label: 'Below materiality threshold' },
+];
+
+export const ESCALATION_TARGETS = [
+  'Senior Compliance Officer',
+  'Head of Compliance',
+  'Legal',
+  'Regulatory Reporting',
+];
+
+// The only moves an alert may make. Closed alerts can be reopened, but only with a recorded reason.
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  { from: 'New', to: 'In Review', action: 'Start Investigation', requires: [] },
+  { from: 'New', to: 'Escalated', action: 'Escalate', requires: ['escalationTarget'] },
+  { from: 'New', to: 'Dismissed', action: 'Dismiss', requires: ['reasonCode'] },
+  { from: 'In Review', to: 'Escalated', action: 'Escalate', requires: ['escalationTarget'] },
+  { from: 'In Review', to: 'Dismissed', action: 'Dismiss', requires: ['reasonCode'] },
+  { from: 'In Review', to: 'Resolved', action: 'Mark Resolved', requires: ['notes'] },
+  { from: 'Escalated', to: 'In Review', action: 'Return to Review', requires: ['notes'] },
+  { from: 'Escalated', to: 'Dismissed', action: 'Dismiss', requires: ['reasonCode'] },
+  { from: 'Escalated', to: 'Resolved', action: 'Mark Resolved', requires: ['notes'] },
+  { from: 'Dismissed', to: 'In Review', action: 'Reopen', requires: ['notes'] },
+  { from: 'Resolved', to: 'In Review', action: 'Reopen', requires: ['notes'] },
+];
+
+export const TRANSITION_FIELD_LABELS: Record<TransitionField, string> = {
+  reasonCode: 'Dismissal reason',
+  escalationTarget: 'Escalation target',
+  notes: 'Investigation notes',
+};
+
+export function availableTransitions(status: Status): WorkflowTransition[] {
+  return WORKFLOW_TRANSITIONS.filter(transition => transition.from === status);
+}
+
+// Transitions the user may start on this alert right now
+export function transitionsForUser(alert: ComplianceAlert, user: User | null): WorkflowTransition[] {
+  if (alert.pendingApproval) return [];
+  return availableTransitions(alert.status)
+    .filter(transition => hasPermission(user, permissionForTransition(transition.from, transition.to)));
+}
+
+export function requiresApproval(alert: ComplianceAlert, to: Status, policy: FourEyesPolicy): boolean {
+  return policy.enabled && policy.severities.includes(alert.severity) && policy.statuses.includes(to);
+}
+
+export function canDecideApproval(alert: ComplianceAlert, user: User | null): boolean {
+  return !!alert.pendingApproval && !!user && hasPermission(user, 'approve') && user.id !== alert.pendingApproval.requestedBy;
+}
+
+export function findTransition(from: Status, to: Status): WorkflowTransition | undefined {
+  return WORKFLOW_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+}
+
+export function dismissalReasonLabel(code: string): string {
+  return DISMISSAL_REASONS.find(reason => reason.code === code)?.label || code;
+}
+
+// Throws a WorkflowError describing the first problem with the request
+export function validateTransition(alert: ComplianceAlert, request: TransitionRequest): WorkflowTransition {
+  if (alert.pendingApproval) {
+    throw new WorkflowError(
+      'pendingApproval',
+      `Alert ${alert.id} is waiting for approval of "${alert.pendingApproval.action}" requested by ${alert.pendingApproval.requestedByName}`
+    );
+  }
+
+  const transition = findTransition(alert.status, request.to);
+  if (!transition) {
+    const allowed = availableTransitions(alert.status).map(t => t.to);
+    throw new WorkflowError(
+      'illegalTransition',
+      `Cannot move alert ${alert.id} from ${alert.status} to ${request.to}` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : '')
+    );
+  }
+
+  if (!hasPermission(request.actor, permissionForTransition(transition.from, transition.to))) {
+    throw new WorkflowError('forbidden', `${request.actor.name} is not allowed to ${transition.action.toLowerCase()} alerts`);
+  }
+
+  transition.requires.forEach(field => {
+    if (!request[field]?.trim()) {
+      throw new WorkflowError('missingField', `${TRANSITION_FIELD_LABELS[field]} is required to ${transition.action.toLowerCase()}`, field);
+    }
+  });
+  if (request.reasonCode && !DISMISSAL_REASONS.some(reason => reason.code === request.reasonCode)) {
+    throw new WorkflowError('invalidField', `Unknown dismissal reason "${request.reasonCode}"`, 'reasonCode');
+  }
+  if (request.escalationTarget && !ESCALATION_TARGETS.includes(request.escalationTarget)) {
+    throw new WorkflowError('invalidField', `Unknown escalation target "${request.escalationTarget}"`, 'escalationTarget');
+  }
+  return transition;
+}
+
+// Applies the transition, or parks it as a pending approval when the four-eyes policy covers it
+export function transitionAlert(
+  alert: ComplianceAlert,
+  request: TransitionRequest,
+  policy: FourEyesPolicy = DEFAULT_FOUR_EYES_POLICY
+): ComplianceAlert {
+  const transition = validateTransition(alert, request);
+  const reasonCode = transition.requires.includes('reasonCode') ? request.reasonCode : undefined;
+  const escalationTarget = transition.requires.includes('escalationTarget') ? request.escalationTarget : undefined;
+
+  // The notes only replace the alert's own once the transition takes effect, so a rejection leaves them as they were
+  if (requiresApproval(alert, transition.to, policy)) {
+    const now = new Date();
+    return appendTimelineEvent({
+      ...alert,
+      pendingApproval: {
+        requestedBy: request.actor.id,
+        requestedByName: request.actor.name,
+        requestedAt: now.toISOString(),
+        to: transition.to,
+        action: transition.action,
+        notes: request.notes || undefined,
+        keepNotes: request.keepNotes || undefined,
+        reasonCode,
+        escalationTarget,
+      },
+    }, {
+      id: createTimelineEventId(),
+      timestamp: now.toISOString(),
+      action: `${transition.action} Requested`,
+      user: request.actor.name,
+      userId: request.actor.id,
+      notes: request.notes || undefined,
+      reasonCode,
+      escalationTarget,
+    });
+  }
+
+  return applyStatusChange(alert, {
+    status: transition.to,
+    action: transition.action,
+    user: request.actor,
+    notes: request.notes,
+    keepNotes: request.keepNotes,
+    reasonCode,
+    escalationTarget,
+  });
+}
+
+function checkApprover(alert: ComplianceAlert, approver: User) {
+  if (!alert.pendingApproval) {
+    throw new WorkflowError('illegalTransition', `Alert ${alert.id} has nothing waiting for approval`);
+  }
+  if (approver.id === alert.pendingApproval.requestedBy) {
+    throw new WorkflowError('forbidden', 'Approval must come from a different user than the requester');
+  }
+  if (!hasPermission(approver, 'approve')) {
+    throw new WorkflowError('forbidden', `${approver.name} is not allowed to approve transitions`);
+  }
+}
+
+// The status change is recorded against the requester, signed off by the approver
+export function approveTransition(alert: ComplianceAlert, approver: User): ComplianceAlert {
+  checkApprover(alert, approver);
+  const pending = alert.pendingApproval!;
+  const now = new Date();
+  const approved = appendTimelineEvent({ ...alert, pendingApproval: undefined }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: `${pending.action} Approved`,
+    user: approver.name,
+    userId: approver.id,
+  });
+  return applyStatusChange(approved, {
+    status: pending.to,
+    action: pending.action,
+    user: { id: pending.requestedBy, name: pending.requestedByName },
+    notes: pending.notes,
+    keepNotes: pending.keepNotes,
+    reasonCode: pending.reasonCode,
+    escalationTarget: pending.escalationTarget,
+    approvedBy: approver.id,
+  });
+}
+
+export function rejectTransition(alert: ComplianceAlert, approver: User, notes: string): ComplianceAlert {
+  checkApprover(alert, approver);
+  if (!notes.trim()) {
+    throw new WorkflowError('missingField', 'A reason is required to reject an approval request', 'notes');
+  }
+  const now = new Date();
+  return appendTimelineEvent({ ...alert, pendingApproval: undefined }, {
+    id: createTimelineEventId(),
+    timestamp: now.toISOString(),
+    action: `${alert.pendingApproval!.action} Rejected`,
+    user: approver.name,
+    userId: approver.id,
+    notes,
+  });
+}
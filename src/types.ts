@@ -15,16 +15,212 @@ export interface Trader {
   email: string;
   firm: string;
   registrationDate: string;
+  // Trading accounts and covered instruments, when known from the trader registry
+  accounts?: string[];
+  symbols?: string[];
+}
+
+export type UserRole = 'analyst' | 'seniorOfficer' | 'admin';
+
+// A local account of someone working the alert queue
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+  active: boolean;
 }
 
 export interface TimelineEvent {
   id: string;
   timestamp: string;
   action: string;
+  // Display name; userId identifies the account when the action was taken by a known user
   user: string;
+  userId?: string;
+  notes?: string;
+  // Set on status transitions recorded by the workflow
+  fromStatus?: Status;
+  toStatus?: Status;
+  reasonCode?: string;
+  escalationTarget?: string;
+  // Second user who signed off a four-eyes transition
+  approvedBy?: string;
+  // New owner on assignment events; empty when the alert is released to the team queue
+  assignee?: string;
+  // Hash chain linking each event to the one before it (see services/auditChain)
+  previousHash?: string;
+  hash?: string;
+}
+
+// A transition held back until a second user approves it
+export interface PendingApproval {
+  requestedBy: string;
+  requestedByName: string;
+  requestedAt: string;
+  to: Status;
+  action: string;
   notes?: string;
+  // The notes are only a timeline comment and leave the alert's own notes alone (bulk actions)
+  keepNotes?: boolean;
+  reasonCode?: string;
+  escalationTarget?: string;
+}
+
+export type OrderSide = 'buy' | 'sell';
+
+export type OrderEventType = 'new' | 'cancel' | 'fill';
+
+// A single order lifecycle or execution event from the order management system
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  type: OrderEventType;
+  timestamp: string;
+  account: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+}
+
+export interface OrderEvidence {
+  kind: 'orders';
+  summary: string;
+  events: OrderEvent[];
+}
+
+// Signed quantity: positive is long, negative is short
+export interface Position {
+  account: string;
+  symbol: string;
+  quantity: number;
+  price: number;
+  traderId?: string;
+  firm?: string;
+}
+
+export type LimitScope = 'symbol' | 'trader' | 'firm';
+
+export type LimitMeasure = 'gross' | 'net';
+
+export interface PositionLimit {
+  id: string;
+  scope: LimitScope;
+  // Symbol, trader id or firm name depending on scope
+  key: string;
+  // Optionally narrows a trader or firm limit to one instrument
+  symbol?: string;
+  measure: LimitMeasure;
+  unit: 'shares' | 'notional';
+  limit: number;
 }
 
+export interface PositionEvidence {
+  kind: 'position';
+  summary: string;
+  limit: PositionLimit;
+  exposure: number;
+  utilisationPercent: number;
+  positions: Position[];
+}
+
+export type CorporateEventType = 'earnings' | 'mergerAcquisition' | 'materialNews';
+
+export interface CorporateEvent {
+  id: string;
+  symbol: string;
+  type: CorporateEventType;
+  // When the information became public
+  timestamp: string;
+  title: string;
+}
+
+export interface InsiderTradingEvidence {
+  kind: 'insider';
+  summary: string;
+  event: CorporateEvent;
+  account: string;
+  // Days before the event that were examined
+  lookbackDays: number;
+  // Restricted watchlist groups the symbol is on
+  restrictedBy?: string[];
+  // The account's executions in the symbol during those days
+  fills: OrderEvent[];
+  notional: number;
+  // Net shares bought during those days; negative when sold
+  netQuantity: number;
+  // What the account trades in the symbol over as many days, judged from the period before
+  typicalNotional: number;
+  // Position held going into an upcoming event
+  position?: Position;
+}
+
+export interface MarketDataPoint {
+  timestamp: string;
+  price: number;
+  volume: number;
+}
+
+// A level drawn on the evidence chart, e.g. the price a move had to exceed or the volume limit
+export interface ThresholdMarker {
+  axis: 'price' | 'volume';
+  value: number;
+  label: string;
+}
+
+// The market data a detection rule saw when it fired, so the alert can be explained without re-fetching it
+// Where a quote stood against the symbol's rolling statistics (see services/statisticalBaseline)
+export interface BaselineScores {
+  volume?: {
+    zScore: number;
+    // Exchange-local start of the 15-minute bucket, "HH:MM"
+    bucket: string;
+    volume: number;
+    mean: number;
+    stdDev: number;
+    // Earlier trading days the bucket's mean and deviation come from
+    days: number;
+  };
+  price?: {
+    zScore: number;
+    // Last bar's move and the EWMA volatility of bar-to-bar moves, both in %
+    movePercent: number;
+    volatilityPercent: number;
+    observations: number;
+  };
+}
+
+export interface MarketDataEvidence {
+  kind: 'marketData';
+  summary: string;
+  rule: {
+    id: string;
+    name: string;
+    version: number;
+    metric: string;
+    metricLabel: string;
+    unit: string;
+    comparator: string;
+    threshold: number;
+    // Watchlist groups whose rule overrides were in effect
+    overriddenBy?: string[];
+  };
+  // The metric's value that crossed the threshold
+  observedValue: number;
+  quote: MarketDataPoint & { change: number; changePercent: number; previousClose?: number };
+  previousQuote?: MarketDataPoint & { changePercent: number };
+  bars: MarketDataPoint[];
+  averageVolume?: number;
+  // Where the rule fired, marked on the chart
+  trigger: MarketDataPoint;
+  // Exchange session the quote fell in, e.g. "XNAS post-market session, 2026-03-02 17:42 local"
+  session?: string;
+  baseline?: BaselineScores;
+  thresholds: ThresholdMarker[];
+}
+
+export type AlertEvidence = OrderEvidence | PositionEvidence | MarketDataEvidence | InsiderTradingEvidence;
+
 export interface ComplianceAlert {
   id: string;
   type: AlertType;
@@ -36,6 +232,37 @@ export interface ComplianceAlert {
   detectedBy: string;
   investigationNotes: string;
   timeline: TimelineEvent[];
+  symbol?: string;
+  ruleId?: string;
+  evidence?: AlertEvidence;
+  pendingApproval?: PendingApproval;
+  // User id of the owner; unassigned alerts sit in the team queue
+  assignee?: string;
+  // SLA stages already escalated, so each breach is only raised once
+  slaBreaches?: ('triage' | 'resolution')[];
+  // Repeat detections of the same pattern folded into this alert (see services/correlation)
+  occurrences?: number;
+  lastSeenAt?: string;
+  caseId?: string;
+}
+
+export type CaseStatus = 'Open' | 'Investigating' | 'Closed';
+
+// Related alerts (same trader, symbol and pattern) investigated together
+export interface Case {
+  id: string;
+  title: string;
+  status: CaseStatus;
+  traderId: string;
+  traderName: string;
+  symbol?: string;
+  alertType: AlertType;
+  alertIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  notes: string;
+  timeline: TimelineEvent[];
+  assignee?: string;
 }
 
 export interface Metrics {
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the API server; when set the dashboard signs in to it and keeps alerts there
+  readonly VITE_API_URL?: string;
+}